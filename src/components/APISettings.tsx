@@ -9,16 +9,25 @@ import {
   Box,
   Typography,
   Alert,
-  IconButton,
-  InputAdornment,
-  Link
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
+import { Settings as SettingsIcon } from '@mui/icons-material';
 import {
-  Settings as SettingsIcon,
-  Visibility,
-  VisibilityOff,
-  OpenInNew as ExternalLinkIcon
-} from '@mui/icons-material';
+  DEFAULT_MODELS,
+  DEFAULT_STAGE_MODELS,
+  LLMProviderName,
+  PIPELINE_STAGES,
+  PipelineStage,
+  StageModelSettings
+} from '../services/llmProvider';
+import { DEFAULT_REFINEMENT_SETTINGS, RefinementSettings } from '../services/refinementService';
+import { AssetStorageSettings, DEFAULT_ASSET_STORAGE_SETTINGS } from '../services/assetStorageService';
 
 interface APISettingsProps {
   open: boolean;
@@ -27,61 +36,72 @@ interface APISettingsProps {
   currentSettings?: APISettings;
 }
 
+// Provider keys live in the api-proxy edge function; only model choices are kept client-side
 export interface APISettings {
-  figmaToken: string;
-  openaiApiKey: string;
+  llmStages?: StageModelSettings; // Per-stage provider/model overrides
+  refinement?: RefinementSettings; // Visual-diff self-correction after Figma generation
+  assets?: AssetStorageSettings; // Storing Figma images in Supabase Storage
 }
 
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  contextAnalysis: 'Context analysis',
+  contentMapping: 'Content mapping',
+  semanticComponents: 'Semantic components',
+  semanticGrouping: 'Semantic grouping',
+  visionAnalysis: 'Vision analysis',
+  codeGeneration: 'Code generation',
+  codeEditing: 'Vibe chat code editing'
+};
+
 const APISettings: React.FC<APISettingsProps> = ({
   open,
   onClose,
   onSave,
   currentSettings
 }) => {
-  const [figmaToken, setFigmaToken] = useState('');
-  const [openaiApiKey, setOpenaiApiKey] = useState('');
-  const [showFigmaToken, setShowFigmaToken] = useState(false);
-  const [showOpenaiKey, setShowOpenaiKey] = useState(false);
-  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [llmStages, setLlmStages] = useState<StageModelSettings>({});
+  const [refinement, setRefinement] = useState<RefinementSettings>(DEFAULT_REFINEMENT_SETTINGS);
+  const [assets, setAssets] = useState<AssetStorageSettings>(DEFAULT_ASSET_STORAGE_SETTINGS);
+  const [responsiveWidths, setResponsiveWidths] = useState('');
 
   useEffect(() => {
     if (currentSettings) {
-      setFigmaToken(currentSettings.figmaToken);
-      setOpenaiApiKey(currentSettings.openaiApiKey);
+      setLlmStages(currentSettings.llmStages || {});
+      setRefinement({ ...DEFAULT_REFINEMENT_SETTINGS, ...currentSettings.refinement });
+      const assetSettings = { ...DEFAULT_ASSET_STORAGE_SETTINGS, ...currentSettings.assets };
+      setAssets(assetSettings);
+      setResponsiveWidths(assetSettings.responsiveWidths.join(', '));
     }
   }, [currentSettings]);
 
-  const validateSettings = (): boolean => {
-    const newErrors: { [key: string]: string } = {};
-
-    if (!figmaToken.trim()) {
-      newErrors.figmaToken = 'Figma token is required';
-    } else if (!figmaToken.startsWith('figd_') && !figmaToken.startsWith('figpat_')) {
-      newErrors.figmaToken = 'Invalid Figma token format';
-    }
-
-    if (!openaiApiKey.trim()) {
-      newErrors.openaiApiKey = 'OpenAI API key is required';
-    } else if (!openaiApiKey.startsWith('sk-')) {
-      newErrors.openaiApiKey = 'Invalid OpenAI API key format';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const handleSave = () => {
+    onSave({
+      llmStages,
+      refinement: {
+        ...refinement,
+        threshold: Math.min(1, Math.max(0.5, refinement.threshold)),
+        maxIterations: Math.min(10, Math.max(1, refinement.maxIterations))
+      },
+      assets: {
+        ...assets,
+        responsiveWidths: Array.from(new Set(responsiveWidths
+          .split(/[\s,]+/)
+          .map(width => Math.round(Number(width)))
+          .filter(width => width >= 16 && width <= 4096)))
+          .sort((a, b) => a - b)
+      }
+    });
+    onClose();
   };
 
-  const handleSave = () => {
-    if (validateSettings()) {
-      onSave({
-        figmaToken,
-        openaiApiKey
-      });
-      onClose();
-    }
+  const updateStage = (stage: PipelineStage, provider: LLMProviderName, model: string) => {
+    setLlmStages(prev => ({
+      ...prev,
+      [stage]: { provider, model: model.trim() || undefined }
+    }));
   };
 
   const handleClose = () => {
-    setErrors({});
     onClose();
   };
 
@@ -96,89 +116,142 @@ const APISettings: React.FC<APISettingsProps> = ({
       
       <DialogContent>
         <Alert severity="info" sx={{ mb: 3 }}>
-          You need API keys to analyze Figma designs. Don't worry - these are stored locally in your browser.
+          Figma, OpenAI and Anthropic keys are kept on the server in the api-proxy edge function and are never sent to your browser.
         </Alert>
 
         <Box sx={{ mb: 3 }}>
           <Typography variant="h6" gutterBottom>
-            Figma Access Token
+            Models per Pipeline Stage
           </Typography>
           <Typography variant="body2" color="text.secondary" paragraph>
-            Generate a personal access token from your Figma account settings.
-            <Link 
-              href="https://www.figma.com/developers/api#access-tokens" 
-              target="_blank" 
-              sx={{ ml: 1 }}
-            >
-              Learn how <ExternalLinkIcon fontSize="small" />
-            </Link>
+            Choose which provider and model each stage uses. The fake provider returns canned responses so the pipeline runs offline.
           </Typography>
-          <TextField
-            fullWidth
-            label="Figma Token"
-            type={showFigmaToken ? 'text' : 'password'}
-            value={figmaToken}
-            onChange={(e) => setFigmaToken(e.target.value)}
-            error={!!errors.figmaToken}
-            helperText={errors.figmaToken || 'Starts with figd_ or figpat_'}
-            InputProps={{
-              endAdornment: (
-                <InputAdornment position="end">
-                  <IconButton
-                    onClick={() => setShowFigmaToken(!showFigmaToken)}
-                    edge="end"
-                  >
-                    {showFigmaToken ? <VisibilityOff /> : <Visibility />}
-                  </IconButton>
-                </InputAdornment>
-              ),
-            }}
+          <Grid container spacing={2}>
+            {PIPELINE_STAGES.map(stage => {
+              const config = llmStages[stage] || DEFAULT_STAGE_MODELS[stage];
+              return (
+                <React.Fragment key={stage}>
+                  <Grid item xs={12} sm={4}>
+                    <Typography variant="body2" sx={{ pt: 1 }}>
+                      {STAGE_LABELS[stage]}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={5} sm={3}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Provider</InputLabel>
+                      <Select
+                        label="Provider"
+                        value={config.provider}
+                        onChange={(e) => updateStage(stage, e.target.value as LLMProviderName, '')}
+                      >
+                        <MenuItem value="openai">OpenAI</MenuItem>
+                        <MenuItem value="anthropic">Anthropic</MenuItem>
+                        <MenuItem value="fake">Fake (offline)</MenuItem>
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  <Grid item xs={7} sm={5}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Model"
+                      value={config.model || ''}
+                      placeholder={DEFAULT_MODELS[config.provider]}
+                      onChange={(e) => updateStage(stage, config.provider, e.target.value)}
+                    />
+                  </Grid>
+                </React.Fragment>
+              );
+            })}
+          </Grid>
+        </Box>
+
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Automatic Refinement
+          </Typography>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            After a Figma screen is generated, render it, diff it against the Figma frame and let the code editing model fix the mismatched regions until the fidelity threshold or the round budget is reached.
+          </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={refinement.enabled}
+                onChange={(e) => setRefinement(prev => ({ ...prev, enabled: e.target.checked }))}
+              />
+            }
+            label="Refine after every generation"
           />
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid item xs={6}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label="Fidelity threshold (%)"
+                value={Math.round(refinement.threshold * 100)}
+                inputProps={{ min: 50, max: 100 }}
+                onChange={(e) => setRefinement(prev => ({
+                  ...prev,
+                  threshold: (Number(e.target.value) || 0) / 100
+                }))}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label="Maximum rounds"
+                value={refinement.maxIterations}
+                inputProps={{ min: 1, max: 10 }}
+                onChange={(e) => setRefinement(prev => ({
+                  ...prev,
+                  maxIterations: Math.round(Number(e.target.value) || 0)
+                }))}
+              />
+            </Grid>
+          </Grid>
         </Box>
 
         <Box sx={{ mb: 3 }}>
           <Typography variant="h6" gutterBottom>
-            OpenAI API Key
+            Image Assets
           </Typography>
           <Typography variant="body2" color="text.secondary" paragraph>
-            Get your API key from OpenAI to use GPT Vision for design analysis.
-            <Link 
-              href="https://platform.openai.com/api-keys" 
-              target="_blank" 
-              sx={{ ml: 1 }}
-            >
-              Get API key <ExternalLinkIcon fontSize="small" />
-            </Link>
+            Figma's image links expire after a few weeks. Stored images are uploaded once per content to the screen-images bucket, and the generated code points at them.
           </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={assets.enabled}
+                onChange={(e) => setAssets(prev => ({ ...prev, enabled: e.target.checked }))}
+              />
+            }
+            label="Store Figma images in Supabase Storage"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={assets.webp}
+                disabled={!assets.enabled}
+                onChange={(e) => setAssets(prev => ({ ...prev, webp: e.target.checked }))}
+              />
+            }
+            label="Convert to WebP"
+          />
           <TextField
             fullWidth
-            label="OpenAI API Key"
-            type={showOpenaiKey ? 'text' : 'password'}
-            value={openaiApiKey}
-            onChange={(e) => setOpenaiApiKey(e.target.value)}
-            error={!!errors.openaiApiKey}
-            helperText={errors.openaiApiKey || 'Starts with sk-'}
-            InputProps={{
-              endAdornment: (
-                <InputAdornment position="end">
-                  <IconButton
-                    onClick={() => setShowOpenaiKey(!showOpenaiKey)}
-                    edge="end"
-                  >
-                    {showOpenaiKey ? <VisibilityOff /> : <Visibility />}
-                  </IconButton>
-                </InputAdornment>
-              ),
-            }}
+            size="small"
+            sx={{ mt: 1 }}
+            label="Responsive widths (px)"
+            placeholder="e.g. 320, 640"
+            helperText="Smaller copies for srcSet - widths at or above an image's own width are skipped"
+            value={responsiveWidths}
+            disabled={!assets.enabled}
+            onChange={(e) => setResponsiveWidths(e.target.value)}
           />
         </Box>
-
-        <Alert severity="warning">
-          <Typography variant="body2">
-            <strong>Privacy Note:</strong> Your API keys are stored locally in your browser and never sent to our servers. 
-            They are only used to communicate directly with Figma and OpenAI APIs.
-          </Typography>
-        </Alert>
       </DialogContent>
 
       <DialogActions>
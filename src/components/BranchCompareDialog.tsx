@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { CompareArrows as CompareIcon, MergeType as MergeIcon } from '@mui/icons-material';
+import { DiffEditor } from '@monaco-editor/react';
+import { useCreate, useList, useUpdate } from '@refinedev/core';
+import LiveCodePreview from './LiveCodePreview';
+import ScreenBranchService, { BranchScreen, branchLabel } from '../services/screenBranchService';
+import { lineChanges } from '../services/versionHistoryService';
+import { ComponentLibraryProfile } from '../services/componentLibrary';
+
+interface BranchCompareDialogProps {
+  open: boolean;
+  onClose: () => void;
+  root: BranchScreen; // The screen whose branches are compared
+  screens: BranchScreen[]; // The project's screens
+  initialLeftId?: string;
+  initialRightId?: string;
+  library?: ComponentLibraryProfile;
+  onMerged: (target: BranchScreen) => void;
+}
+
+/**
+ * Two branches of a screen side by side, rendered or as a code diff. A branch on the right can be
+ * merged into the screen it was forked from, as a new version in that screen's history.
+ */
+const BranchCompareDialog: React.FC<BranchCompareDialogProps> = ({
+  open,
+  onClose,
+  root,
+  screens,
+  initialLeftId,
+  initialRightId,
+  library,
+  onMerged
+}) => {
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+  const [view, setView] = useState<'visual' | 'code'>('visual');
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { mutateAsync: createSessionAsync } = useCreate();
+  const { mutateAsync: updateScreenAsync } = useUpdate();
+
+  const branchService = useMemo(() => new ScreenBranchService(), []);
+  const options = useMemo(() => [root, ...branchService.branchesOf(root, screens)], [branchService, root, screens]);
+
+  useEffect(() => {
+    if (!open) return;
+    const right = options.find(option => option.id === initialRightId) || options[1] || root;
+    const target = branchService.mergeTargetOf(right, screens);
+    setLeftId(options.find(option => option.id === initialLeftId)?.id || target?.id || root.id);
+    setRightId(right.id);
+    setError(null);
+  }, [open, options, initialLeftId, initialRightId, branchService, screens, root]);
+
+  const left = options.find(option => option.id === leftId);
+  const right = options.find(option => option.id === rightId);
+  const mergeTarget = right && branchService.mergeTargetOf(right, screens);
+
+  // The branch's first version is the code it was forked from - if its target has moved on since, merging overwrites that work
+  const { data: forkSessionsData } = useList<{ id: string; generated_code?: string }>({
+    resource: 'vibe_sessions',
+    filters: [
+      { field: 'screen_id', operator: 'eq', value: rightId },
+      { field: 'session_type', operator: 'eq', value: 'fork' }
+    ],
+    sorters: [{ field: 'created_at', order: 'asc' }],
+    queryOptions: { enabled: open && !!mergeTarget }
+  });
+  const forkedCode = forkSessionsData?.data?.[0]?.generated_code;
+
+  // Whether the target's code is one of its versions - if not, the merge saves it first
+  const { data: targetSessionsData } = useList<{ id: string; generated_code?: string }>({
+    resource: 'vibe_sessions',
+    filters: [{ field: 'screen_id', operator: 'eq', value: mergeTarget?.id }],
+    pagination: { mode: 'off' },
+    queryOptions: { enabled: open && !!mergeTarget }
+  });
+  const targetMovedOn = !!mergeTarget && forkedCode !== undefined && (mergeTarget.current_code || '') !== forkedCode;
+
+  const changes = useMemo(
+    () => (left && right ? lineChanges(left.current_code || '', right.current_code || '') : null),
+    [left, right]
+  );
+
+  const handleMerge = async () => {
+    if (!right || !mergeTarget || !right.current_code) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      const targetSessions = targetSessionsData?.data;
+      if (!targetSessions) throw new Error(`Still loading the history of ${branchLabel(mergeTarget)}`);
+      if (mergeTarget.current_code && !targetSessions.some(session => session.generated_code === mergeTarget.current_code)) {
+        await createSessionAsync({
+          resource: 'vibe_sessions',
+          values: branchService.snapshotSessionValues(mergeTarget, right),
+          successNotification: false
+        });
+      }
+
+      await createSessionAsync({
+        resource: 'vibe_sessions',
+        values: branchService.mergeSessionValues(mergeTarget, right),
+        successNotification: false
+      });
+      await updateScreenAsync({
+        resource: 'screens',
+        id: mergeTarget.id,
+        values: {
+          current_code: right.current_code,
+          status: 'ready',
+          iteration_count: mergeTarget.iteration_count + 1
+        },
+        successNotification: false
+      });
+      console.log(`🌿 [BRANCH] Merged "${branchLabel(right)}" into ${branchLabel(mergeTarget)} of ${root.name}`);
+      onMerged(mergeTarget);
+      onClose();
+    } catch (err: any) {
+      console.error('🌿 [BRANCH] Merge failed:', err);
+      setError(err.message || 'Merge failed');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const branchSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <FormControl size="small" sx={{ flex: 1 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select label={label} value={options.some(option => option.id === value) ? value : ''} onChange={(e) => onChange(e.target.value)}>
+        {options.map(option => (
+          <MenuItem key={option.id} value={option.id}>{branchLabel(option)}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const preview = (screen?: BranchScreen) => (
+    <Paper variant="outlined" sx={{ flex: 1, minWidth: 0, height: '100%', overflow: 'auto' }}>
+      {screen && (
+        <LiveCodePreview
+          code={screen.current_code || ''}
+          themeOptions={screen.analysis_data?.designTokenExport?.themeOptions}
+          library={library}
+        />
+      )}
+    </Paper>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <CompareIcon sx={{ mr: 1 }} />
+          Compare branches — {root.name}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2, pt: 1 }}>
+          {branchSelect('Left', leftId, setLeftId)}
+          {branchSelect('Right', rightId, setRightId)}
+          <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, value) => value && setView(value)}>
+            <ToggleButton value="visual">Visual</ToggleButton>
+            <ToggleButton value="code">Code</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+        {changes && left && right && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            {left.current_code === right.current_code
+              ? 'Same code'
+              : `${branchLabel(right)} has ${changes.added} added and ${changes.removed} removed lines against ${branchLabel(left)}`}
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, height: '65vh' }}>
+          {view === 'visual' ? (
+            <>
+              {preview(left)}
+              {preview(right)}
+            </>
+          ) : (
+            <Paper variant="outlined" sx={{ flex: 1, overflow: 'hidden' }}>
+              <DiffEditor
+                height="100%"
+                language="typescript"
+                original={left?.current_code || ''}
+                modified={right?.current_code || ''}
+                theme="vs-light"
+                options={{
+                  readOnly: true,
+                  renderSideBySide: true,
+                  minimap: { enabled: false },
+                  fontSize: 12,
+                  automaticLayout: true,
+                }}
+              />
+            </Paper>
+          )}
+        </Box>
+
+        {targetMovedOn && mergeTarget && right && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {branchLabel(mergeTarget)} has changed since "{branchLabel(right)}" was forked. Merging replaces its code with the
+            branch's. Its earlier versions stay in its History tab, so a merge can be reverted.
+          </Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        {right && mergeTarget && (
+          <Button
+            variant="contained"
+            startIcon={<MergeIcon />}
+            onClick={handleMerge}
+            disabled={isMerging || !targetSessionsData || !right.current_code || right.current_code === mergeTarget.current_code}
+          >
+            {isMerging ? 'Merging...' : `Merge "${branchLabel(right)}" into ${branchLabel(mergeTarget)}`}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BranchCompareDialog;
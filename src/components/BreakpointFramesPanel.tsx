@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import { AutoFixHigh as SuggestIcon, Save as SaveIcon } from '@mui/icons-material';
+import {
+  BREAKPOINTS,
+  BREAKPOINT_LABELS,
+  BREAKPOINT_MIN_WIDTH,
+  Breakpoint,
+  BreakpointFrame,
+  suggestBreakpoint
+} from '../services/breakpointMergeService';
+
+interface BreakpointFramesPanelProps {
+  candidates: Omit<BreakpointFrame, 'breakpoint'>[]; // Top-level frames of the Figma file
+  value: BreakpointFrame[]; // Saved links
+  disabled?: boolean;
+  onSave: (frames: BreakpointFrame[]) => void;
+}
+
+/**
+ * Links the Figma frames that draw the screen at different sizes to MUI breakpoints.
+ * The code is generated from all linked frames, with responsive sx per breakpoint.
+ */
+const BreakpointFramesPanel: React.FC<BreakpointFramesPanelProps> = ({ candidates, value, disabled = false, onSave }) => {
+  const [links, setLinks] = useState<Record<string, Breakpoint | ''>>({});
+
+  useEffect(() => {
+    setLinks(Object.fromEntries(value.map(frame => [frame.nodeId, frame.breakpoint])));
+  }, [value]);
+
+  const frames: BreakpointFrame[] = candidates
+    .filter(candidate => links[candidate.nodeId])
+    .map(candidate => ({ ...candidate, breakpoint: links[candidate.nodeId] as Breakpoint }));
+  const duplicates = BREAKPOINTS.filter(breakpoint => frames.filter(frame => frame.breakpoint === breakpoint).length > 1);
+  const isChanged = JSON.stringify(frames.map(frame => [frame.nodeId, frame.breakpoint]).sort()) !==
+    JSON.stringify(value.map(frame => [frame.nodeId, frame.breakpoint]).sort());
+
+  // Each frame gets the largest breakpoint its width reaches; the first frame wins a breakpoint
+  const suggest = () => {
+    const taken = new Set<Breakpoint>();
+    setLinks(Object.fromEntries(candidates.map(candidate => {
+      const breakpoint = suggestBreakpoint(candidate.width);
+      if (taken.has(breakpoint)) return [candidate.nodeId, ''];
+      taken.add(breakpoint);
+      return [candidate.nodeId, breakpoint];
+    })));
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Link the frames that show this screen at different sizes. The smallest linked frame is the base;
+        larger ones add their differences from their breakpoint up.
+      </Typography>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Frame</TableCell>
+              <TableCell align="right">Size</TableCell>
+              <TableCell>Breakpoint</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {candidates.map(candidate => (
+              <TableRow key={candidate.nodeId}>
+                <TableCell>{candidate.name}</TableCell>
+                <TableCell align="right">{Math.round(candidate.width)}×{Math.round(candidate.height)}</TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={links[candidate.nodeId] || ''}
+                    displayEmpty
+                    disabled={disabled}
+                    onChange={event => setLinks(current => ({ ...current, [candidate.nodeId]: event.target.value as Breakpoint | '' }))}
+                    sx={{ minWidth: 200 }}
+                  >
+                    <MenuItem value="">Not linked</MenuItem>
+                    {BREAKPOINTS.map(breakpoint => (
+                      <MenuItem key={breakpoint} value={breakpoint}>
+                        {BREAKPOINT_LABELS[breakpoint]} ({breakpoint}, {BREAKPOINT_MIN_WIDTH[breakpoint]}px+)
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {duplicates.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 1 }}>
+          Link one frame per breakpoint - {duplicates.join(', ')} {duplicates.length > 1 ? 'have' : 'has'} more than one.
+        </Alert>
+      )}
+
+      <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
+        <Button size="small" startIcon={<SuggestIcon />} onClick={suggest} disabled={disabled}>
+          Suggest from widths
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button
+          size="small"
+          variant="contained"
+          startIcon={<SaveIcon />}
+          disabled={disabled || !isChanged || duplicates.length > 0}
+          onClick={() => onSave(frames)}
+        >
+          Save & regenerate
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default BreakpointFramesPanel;
@@ -11,12 +11,10 @@ import {
   Divider
 } from '@mui/material';
 import FigmaService from '../services/figmaService';
+import { getFigmaCache } from '../services/figmaCache';
+import { describeFigmaError } from '../services/figmaErrors';
 
-interface FigmaAPITestProps {
-  figmaToken: string;
-}
-
-const FigmaAPITest: React.FC<FigmaAPITestProps> = ({ figmaToken }) => {
+const FigmaAPITest: React.FC = () => {
   const [fileId, setFileId] = useState('CbS1cPHwdvmOJfPJFzKodU');
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState('');
@@ -28,10 +26,9 @@ const FigmaAPITest: React.FC<FigmaAPITestProps> = ({ figmaToken }) => {
     setResult(null);
 
     try {
-      console.log('Testing Figma API with token:', figmaToken ? '✓ Present' : '✗ Missing');
       console.log('Testing with file ID:', fileId);
 
-      const figmaService = new FigmaService(figmaToken);
+      const figmaService = new FigmaService();
 
       // Test 1: Extract file key
       const extractedKey = figmaService.extractFileKey(fileId);
@@ -65,12 +62,22 @@ const FigmaAPITest: React.FC<FigmaAPITestProps> = ({ figmaToken }) => {
 
     } catch (err: any) {
       console.error('Figma API test failed:', err);
-      setError(err.message || 'Unknown error');
+      setError(describeFigmaError(err) || 'Unknown error');
     } finally {
       setLoading(false);
     }
   };
 
+  const clearCache = async () => {
+    try {
+      await getFigmaCache().clear();
+      setResult(null);
+      setError('');
+    } catch (err: any) {
+      setError(`Failed to clear cache: ${err.message || err}`);
+    }
+  };
+
   return (
     <Box sx={{ maxWidth: 800, mx: 'auto', p: 3 }}>
       <Typography variant="h5" gutterBottom>
@@ -93,17 +100,26 @@ const FigmaAPITest: React.FC<FigmaAPITestProps> = ({ figmaToken }) => {
           />
 
           <Alert severity="info" sx={{ mb: 2 }}>
-            Token status: {figmaToken ? '✅ Provided' : '❌ Missing'}
+            Requests go through the api-proxy edge function using the server's Figma token.
+            Files and image exports are cached until the file's lastModified changes.
           </Alert>
 
           <Button
             variant="contained"
             onClick={testFigmaAPI}
-            disabled={loading || !figmaToken || !fileId}
+            disabled={loading || !fileId}
             fullWidth
           >
             {loading ? 'Testing...' : 'Test Figma API'}
           </Button>
+          <Button
+            onClick={clearCache}
+            disabled={loading}
+            fullWidth
+            sx={{ mt: 1 }}
+          >
+            Clear Figma cache
+          </Button>
         </CardContent>
       </Card>
 
@@ -24,16 +24,9 @@ import {
 } from '@mui/icons-material';
 import FigmaService from '../services/figmaService';
 import GPTVisionService from '../services/gptVisionService';
+import { createLLMProvider } from '../services/llmProvider';
 
-interface FigmaAnalysisDemoProps {
-  figmaToken: string;
-  openaiApiKey: string;
-}
-
-const FigmaAnalysisDemo: React.FC<FigmaAnalysisDemoProps> = ({
-  figmaToken,
-  openaiApiKey
-}) => {
+const FigmaAnalysisDemo: React.FC = () => {
   const [figmaUrl, setFigmaUrl] = useState('CbS1cPHwdvmOJfPJFzKodU');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState('');
@@ -48,8 +41,8 @@ const FigmaAnalysisDemo: React.FC<FigmaAnalysisDemoProps> = ({
     setResults(null);
 
     try {
-      const figmaService = new FigmaService(figmaToken);
-      const gptVisionService = new GPTVisionService(openaiApiKey);
+      const figmaService = new FigmaService();
+      const gptVisionService = new GPTVisionService(createLLMProvider('visionAnalysis'));
 
       // Step 1: Extract file key and fetch Figma data
       const fileKey = figmaService.extractFileKey(figmaUrl);
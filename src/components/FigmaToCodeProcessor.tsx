@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Box,
   Card,
@@ -28,7 +28,12 @@ import {
   TableCell,
   TableContainer,
   TableHead,
-  TableRow
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField
 } from '@mui/material';
 import {
   AutoFixHigh as ProcessingIcon,
@@ -39,17 +44,54 @@ import {
   ExpandMore as ExpandMoreIcon,
   Analytics as AnalyticsIcon,
   Palette as PaletteIcon,
-  ViewModule as ComponentIcon
+  ViewModule as ComponentIcon,
+  History as HistoryIcon,
+  Replay as ReplayIcon,
+  Download as DownloadIcon,
+  Compare as CompareIcon,
+  Tune as RefineIcon,
+  Stop as StopIcon,
+  Devices as DevicesIcon
 } from '@mui/icons-material';
 import { useCreate, useUpdate } from '@refinedev/core';
-import FigmaService, { FigmaAnalysisResult, ComponentAnalysis } from '../services/figmaService';
+import FigmaService, { FigmaAnalysisResult, ComponentAnalysis, DesignTokens } from '../services/figmaService';
 import GPTVisionService, { GPTVisionAnalysis, IdentifiedComponent } from '../services/gptVisionService';
 import SemanticGroupingService, { SemanticGroupingResult } from '../services/semanticGroupingService';
-import StyleMapperService, { StyleMapping } from '../services/styleMapperService';
+import StyleMapperService, { MappedComponent, StyleMapping } from '../services/styleMapperService';
 import LivePreview from './LivePreview';
 import { AIContextAnalysisService, AIContextAnalysis } from '../services/aiContextAnalysisService';
 import { AIContentMappingService, EnhancedContentMapping } from '../services/aiContentMappingService';
 import { AISemanticComponentService, SemanticComponentAnalysis } from '../services/aiSemanticComponentService';
+import { createLLMProvider, createStageProviders, StageModelSettings } from '../services/llmProvider';
+import { describeFigmaError } from '../services/figmaErrors';
+import DesignTokenExporter, { DesignTokenExport, PALETTE_PATHS } from '../services/designTokenExporter';
+import PipelineRunService, { PipelineRun, PipelineStageResult } from '../services/pipelineRunService';
+import ComponentRegistryService, { ComponentRegistry, RegisteredComponent } from '../services/componentRegistryService';
+import JsxTreeRenderer from '../services/jsxTreeRenderer';
+import MappingRuleService from '../services/mappingRuleService';
+import {
+  ComponentLibraryProfile,
+  MUI_LIBRARY,
+  getComponentLibrary,
+  libraryComponentName,
+  libraryImports
+} from '../services/componentLibrary';
+import { ImportSpec, TreeChild, TreeNode, comment, element } from '../services/componentTree';
+import { printModule } from '../services/tsxPrinter';
+import { VisualDiffResult, fidelityColor, frameGeometry } from '../services/visualDiffService';
+import VisualDiffPanel from './VisualDiffPanel';
+import RefinementService, { DEFAULT_REFINEMENT_SETTINGS, RefinementRound, RefinementSettings } from '../services/refinementService';
+import AssetStorageService, { AssetStorageSettings, DEFAULT_ASSET_STORAGE_SETTINGS } from '../services/assetStorageService';
+import { ClaudeCodeEditingProvider } from '../services/vibeChatService';
+import BreakpointMergeService, {
+  BREAKPOINT_LABELS,
+  BREAKPOINT_MIN_WIDTH,
+  BreakpointFrame,
+  breakpointFrameCandidates,
+  linkedBreakpointFrames
+} from '../services/breakpointMergeService';
+import BreakpointFramesPanel from './BreakpointFramesPanel';
+import PrototypeFlowService from '../services/prototypeFlowService';
 
 interface Screen {
   id: string;
@@ -62,36 +104,117 @@ interface Screen {
   status: 'processing' | 'iterating' | 'ready' | 'error';
   iteration_count: number;
   confidence_score?: number;
+  fidelity_score?: number;
+  visual_diff?: VisualDiffResult | null;
+  breakpoint_frames?: BreakpointFrame[] | null; // Figma frames drawn for each breakpoint
   analysis_data?: any;
 }
 
 interface FigmaToCodeProcessorProps {
   screen: Screen;
   onComplete: () => void;
-  figmaToken: string;
-  openaiApiKey: string;
+  llmStages?: StageModelSettings;
+  componentLibrary?: string; // Component library profile id of the screen's project
+  refinement?: RefinementSettings; // Opt-in self-correction after generation
+  assetStorage?: AssetStorageSettings; // Where Figma images are kept
+}
+
+const REACT_IMPORT: ImportSpec = { source: 'react', defaultName: 'React' };
+
+// Persisted stages, in run order - each one's output is stored so a run can resume after it
+const FIGMA_PIPELINE_STAGES = [
+  'figmaFetch',
+  'contextAnalysis',
+  'contentMapping',
+  'semanticComponents',
+  'styleMapping',
+  'componentRegistry',
+  'semanticGrouping',
+  'visionAnalysis',
+  'codeGeneration'
+] as const;
+
+type FigmaPipelineStage = typeof FIGMA_PIPELINE_STAGES[number];
+
+interface FigmaPipelineOutputs {
+  figmaFetch?: FigmaAnalysisResult & {
+    designTokens: DesignTokens;
+    assetUrls: { [nodeId: string]: string };
+    assetSrcSets?: { [nodeId: string]: string }; // Stored images with responsive sizes
+  };
+  contextAnalysis?: AIContextAnalysis;
+  styleMapping?: StyleMapping;
+  componentRegistry?: ComponentRegistry;
+  contentMapping?: EnhancedContentMapping;
+  semanticComponents?: SemanticComponentAnalysis;
+  semanticGrouping?: SemanticGroupingResult;
+  visionAnalysis?: GPTVisionAnalysis;
+  codeGeneration?: { code: string; confidence: number; designTokenExport?: DesignTokenExport };
 }
 
+type FigmaStageOutput = NonNullable<FigmaPipelineOutputs[FigmaPipelineStage]>;
+
+// What a run was started with
+interface FigmaRunSettings {
+  llmStages: StageModelSettings | null;
+  componentLibrary: string;
+}
+
+interface FigmaPipelineServices {
+  figmaService: FigmaService;
+  assetStorageService: AssetStorageService;
+  gptVisionService: GPTVisionService;
+  semanticGroupingService: SemanticGroupingService;
+  styleMapperService: StyleMapperService;
+  componentRegistryService: ComponentRegistryService;
+  mappingRuleService: MappingRuleService;
+  aiContextAnalysisService: AIContextAnalysisService;
+  aiContentMappingService: AIContentMappingService;
+  aiSemanticComponentService: AISemanticComponentService;
+}
+
+const STAGE_LABELS: Record<FigmaPipelineStage, string> = {
+  figmaFetch: 'Fetching Figma file data and assets',
+  contextAnalysis: 'Stage 1: AI Context Analysis',
+  styleMapping: 'Mapping styles to Material-UI',
+  componentRegistry: 'Building the component registry',
+  contentMapping: 'Stage 2: AI Content Mapping',
+  semanticComponents: 'Stage 3: AI Semantic Component Recognition',
+  semanticGrouping: 'Stage 4: AI-Guided Semantic Grouping',
+  visionAnalysis: 'Stage 5: AI-Enhanced Component Mapping',
+  codeGeneration: 'Stage 6: AI-Intelligent Code Generation'
+};
+
+const STAGE_DESCRIPTIONS: Record<FigmaPipelineStage, string> = {
+  figmaFetch: 'Connecting to Figma API, fetching the file structure and exporting images...',
+  contextAnalysis: 'Understanding what the interface is for from its screenshot...',
+  styleMapping: 'Extracting design tokens and mapping components to Material-UI...',
+  componentRegistry: 'Generating a React component for each Figma main component and its variants...',
+  contentMapping: 'Mapping real Figma text and images onto semantic sections...',
+  semanticComponents: 'Recognising avatars, product images, badges and cards...',
+  semanticGrouping: 'Grouping components into meaningful sections...',
+  visionAnalysis: 'Validating components against the design with GPT Vision...',
+  codeGeneration: 'Generating React component code with proper styling...'
+};
+
 const steps = [
-  'Stage 1: AI Context Analysis',
-  'Fetching Figma file data',
-  'Exporting screen images',
-  'Stage 2: AI Content Mapping',
-  'Stage 3: AI Semantic Component Recognition',
-  'Stage 4: AI-Guided Semantic Grouping',
-  'Stage 5: AI-Enhanced Component Mapping',
-  'Stage 6: AI-Intelligent Code Generation',
+  ...FIGMA_PIPELINE_STAGES.map(stage => STAGE_LABELS[stage]),
   'Ready for vibe-coding'
 ];
 
+// Screens with a refinement running in this tab - any other 'iterating' screen was interrupted
+const activeRefinements = new Set<string>();
+
 const FigmaToCodeProcessor: React.FC<FigmaToCodeProcessorProps> = ({
   screen,
   onComplete,
-  figmaToken,
-  openaiApiKey
+  llmStages,
+  componentLibrary,
+  refinement,
+  assetStorage = DEFAULT_ASSET_STORAGE_SETTINGS
 }) => {
   const [activeStep, setActiveStep] = useState(0);
-  const [isProcessing, setIsProcessing] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(screen.status === 'processing');
   const [generatedCode, setGeneratedCode] = useState<string>('');
   const [confidence, setConfidence] = useState<number>(0);
   const [error, setError] = useState<string>('');
@@ -103,371 +226,891 @@ const FigmaToCodeProcessor: React.FC<FigmaToCodeProcessorProps> = ({
   const [semanticGrouping, setSemanticGrouping] = useState<SemanticGroupingResult | null>(null);
   const [styleMapping, setStyleMapping] = useState<StyleMapping | null>(null);
   const [designTokens, setDesignTokens] = useState<any>(null);
+  const [stageOutputs, setStageOutputs] = useState<FigmaPipelineOutputs>({});
+  const [stageResults, setStageResults] = useState<PipelineStageResult<FigmaStageOutput>[]>([]);
+  const [editingStage, setEditingStage] = useState<FigmaPipelineStage | null>(null);
+  const [editedInput, setEditedInput] = useState<string>('');
+  const [editedInputError, setEditedInputError] = useState<string>('');
+  const startedForScreen = useRef<string | null>(null);
+
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinementRounds, setRefinementRounds] = useState<RefinementRound[]>([]);
+  const cancelRefinement = useRef(false);
+
+  // Read by the code generation stage - a ref so a save can re-run it straight away
+  const breakpointFrames = useRef<BreakpointFrame[]>(screen.breakpoint_frames || []);
+  const [linkedFrames, setLinkedFrames] = useState<BreakpointFrame[]>(breakpointFrames.current);
+
+  const { mutate: updateScreen, mutateAsync: updateScreenAsync } = useUpdate();
+  const { mutate: createSession, mutateAsync: createSessionAsync } = useCreate();
 
-  const { mutate: updateScreen } = useUpdate();
-  const { mutate: createSession } = useCreate();
+  const pipelineRunService = useMemo(() => new PipelineRunService<FigmaRunSettings, FigmaStageOutput>('figma-to-code'), []);
+  const library = useMemo(() => getComponentLibrary(componentLibrary), [componentLibrary]);
+  const [visualDiff, setVisualDiff] = useState<VisualDiffResult | null>(screen.visual_diff ?? null);
+  // The node the screen's Figma link points at - the frame it's generated from
+  const screenFrameId = useMemo(() => screen.figma_url ? new FigmaService().extractNodeId(screen.figma_url) : undefined, [screen.figma_url]);
+  const frame = useMemo(() => figmaData ? frameGeometry(figmaData.components, screenFrameId) : null, [figmaData, screenFrameId]);
 
   useEffect(() => {
+    setVisualDiff(screen.visual_diff ?? null);
+  }, [screen.id, screen.visual_diff?.measuredAt]);
+
+  useEffect(() => {
+    breakpointFrames.current = screen.breakpoint_frames || [];
+    setLinkedFrames(breakpointFrames.current);
+  }, [screen.id]);
+
+  useEffect(() => {
+    if (screen.status === 'iterating' && !activeRefinements.has(screen.id)) {
+      // A refinement interrupted by a reload keeps the best code it had saved
+      updateScreen({ resource: 'screens', id: screen.id, values: { status: 'ready' }, successNotification: false });
+    }
     if (screen.status === 'processing' && screen.figma_url) {
-      startFigmaProcessing();
+      // Resumes an unfinished run for this screen if there is one
+      if (startedForScreen.current !== screen.id) {
+        startedForScreen.current = screen.id;
+        runPipeline();
+      }
+    } else if (screen.figma_url) {
+      loadLatestRun();
     }
-  }, [screen]);
-
-  const startFigmaProcessing = async () => {
-    setIsProcessing(true);
-    setError('');
+  }, [screen.id, screen.status]);
 
+  /**
+   * Show the stored outputs of the latest run without running anything
+   */
+  const loadLatestRun = async () => {
     try {
-      console.log('Starting Figma processing with tokens:', {
-        figmaToken: figmaToken ? '✓ Present' : '✗ Missing',
-        openaiApiKey: openaiApiKey ? '✓ Present' : '✗ Missing',
-        figmaUrl: screen.figma_url
+      const run = await pipelineRunService.getLatestRun(screen.id);
+      if (!run) {
+        setIsProcessing(false);
+        return;
+      }
+
+      const results = await pipelineRunService.getStageResults(run.id);
+      setStageResults(results);
+      applyOutputs(collectOutputs(results));
+
+      const resumeStage = pipelineRunService.findResumeStage(FIGMA_PIPELINE_STAGES, results);
+      setActiveStep(resumeStage ? FIGMA_PIPELINE_STAGES.indexOf(resumeStage) : steps.length - 1);
+      if (run.status === 'failed' && run.error) {
+        setError(run.error);
+      }
+    } catch (err) {
+      console.error('🗂️ [PIPELINE RUN] Failed to load latest run:', err);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const collectOutputs = (results: PipelineStageResult<FigmaStageOutput>[]): FigmaPipelineOutputs => {
+    const outputs: Record<string, any> = {};
+    results
+      .filter(result => result.status === 'completed')
+      .forEach(result => {
+        outputs[result.stage] = result.output;
       });
+    return outputs as FigmaPipelineOutputs;
+  };
 
-      const figmaService = new FigmaService(figmaToken);
-      const gptVisionService = new GPTVisionService(openaiApiKey);
-      const semanticGroupingService = new SemanticGroupingService(openaiApiKey);
-      const styleMapperService = new StyleMapperService();
-      const aiContextAnalysisService = new AIContextAnalysisService(openaiApiKey);
-      const aiContentMappingService = new AIContentMappingService(openaiApiKey);
-      const aiSemanticComponentService = new AISemanticComponentService(openaiApiKey);
-
-      // Step 1: AI Context Analysis - The Intelligence Foundation
-      setActiveStep(0);
-      await delay(1000);
-      
-      console.log('🧠 [AI CONTEXT] Starting AI Context Analysis - the intelligence layer...');
-      
-      // Get basic Figma data first to get screenshot URL
+  /**
+   * Mirror stage outputs into the view state
+   */
+  const applyOutputs = (outputs: FigmaPipelineOutputs) => {
+    setStageOutputs({ ...outputs });
+
+    const figma = outputs.figmaFetch;
+    setFigmaData(figma ? { fileData: figma.fileData, imageUrl: figma.imageUrl, components: figma.components } : null);
+    setDesignTokens(figma?.designTokens ?? null);
+    setAiContextAnalysis(outputs.contextAnalysis ?? null);
+    setStyleMapping(outputs.styleMapping ?? null);
+    setContentMapping(outputs.contentMapping ?? null);
+    setSemanticComponentAnalysis(outputs.semanticComponents ?? null);
+    setSemanticGrouping(outputs.semanticGrouping ?? null);
+    setAnalysis(outputs.visionAnalysis ?? null);
+    setGeneratedCode(outputs.codeGeneration?.code ?? '');
+    setConfidence(outputs.codeGeneration?.confidence ?? 0);
+  };
+
+  const requireOutput = <TStage extends FigmaPipelineStage>(
+    outputs: FigmaPipelineOutputs,
+    stage: TStage
+  ): NonNullable<FigmaPipelineOutputs[TStage]> => {
+    const output = outputs[stage];
+    if (!output) {
+      throw new Error(`${STAGE_LABELS[stage]} has no stored output - run it first`);
+    }
+    return output as NonNullable<FigmaPipelineOutputs[TStage]>;
+  };
+
+  /**
+   * Inputs a stage is run with, derived from the outputs of the stages before it
+   */
+  const buildStageInput = (stage: FigmaPipelineStage, outputs: FigmaPipelineOutputs): any => {
+    if (stage === 'figmaFetch') {
       if (!screen.figma_url) {
         throw new Error('No Figma URL provided');
       }
+      return { fileKey: new FigmaService().extractFileKey(screen.figma_url), nodeId: screenFrameId };
+    }
 
-      console.log('Extracting file key from:', screen.figma_url);
-      const fileKey = figmaService.extractFileKey(screen.figma_url);
-      console.log('Extracted file key:', fileKey);
-      
-      // Get initial Figma data and screenshot
-      const initialFigmaData = await figmaService.analyzeFileWithAssets(fileKey);
-      const figmaFileName = initialFigmaData.fileData.name;
-      const screenshotUrl = initialFigmaData.imageUrl;
-      
-      // AI Context Analysis - This replaces mechanical processing with intelligence
-      const contextAnalysis = await aiContextAnalysisService.analyzeInterfaceContext(
-        screenshotUrl,
-        figmaFileName,
-        `Figma file conversion for React/Material-UI application`
-      );
-      
-      setAiContextAnalysis(contextAnalysis);
-      
-      console.log('✅ [AI CONTEXT] Context Analysis Complete:', {
-        interfaceType: contextAnalysis.interfaceType,
-        domain: contextAnalysis.domain,
-        sectionsFound: contextAnalysis.semanticSections.length,
-        confidence: contextAnalysis.analysisConfidence,
-        targetDevice: contextAnalysis.targetDevice
-      });
+    const figma = requireOutput(outputs, 'figmaFetch');
 
-      // Step 2: Enhanced Figma file data extraction guided by AI context
-      setActiveStep(1);
-      await delay(1000);
-      
-      // Step 3: Enhanced analysis with comprehensive styling data and assets
-      setActiveStep(2);
-      await delay(1500);
-      
-      console.log('🎨 Using enhanced Figma data from AI context analysis...');
-      const enhancedFigmaData = initialFigmaData; // Already fetched in Step 1
-      
-      console.log('✅ Enhanced Figma analysis complete:', {
-        file: enhancedFigmaData.fileData.name,
-        components: enhancedFigmaData.components.length,
-        designTokens: enhancedFigmaData.designTokens,
-        assetUrls: Object.keys(enhancedFigmaData.assetUrls).length
-      });
-      
-      setFigmaData({
-        fileData: enhancedFigmaData.fileData,
-        imageUrl: enhancedFigmaData.imageUrl,
-        components: enhancedFigmaData.components
-      });
-      setDesignTokens(enhancedFigmaData.designTokens);
-      
-      // Map components to Material-UI with proper styling
-      console.log('🎭 [PROCESSOR] Mapping Figma components to Material-UI with enhanced styling...');
-      let styleMap;
-      try {
-        styleMap = styleMapperService.mapComponentsToMui(
-          enhancedFigmaData.components,
-          enhancedFigmaData.designTokens,
-          enhancedFigmaData.assetUrls
+    switch (stage) {
+      case 'contextAnalysis':
+        return {
+          screenshotUrl: figma.imageUrl,
+          figmaFileName: figma.fileData.name,
+          additionalContext: 'Figma file conversion for React/Material-UI application'
+        };
+      case 'styleMapping': {
+        // Mapping rules can match on the main component's key and on the AI's semantic type
+        const componentKeys: Record<string, string[]> = {};
+        Object.entries(figma.fileData.components || {}).forEach(([nodeId, component]) => {
+          const setKey = component.componentSetId ? figma.fileData.componentSets?.[component.componentSetId]?.key : undefined;
+          componentKeys[nodeId] = setKey ? [component.key, setKey] : [component.key];
+        });
+        const semanticTypes: Record<string, string> = {};
+        requireOutput(outputs, 'semanticComponents').components.forEach(component => {
+          semanticTypes[component.figmaNodeId] = component.semanticType;
+        });
+
+        return {
+          components: figma.components,
+          designTokens: figma.designTokens,
+          assetUrls: figma.assetUrls,
+          assetSrcSets: figma.assetSrcSets,
+          componentKeys,
+          semanticTypes,
+          componentLibrary: library.id
+        };
+      }
+      case 'componentRegistry':
+        return {
+          fileData: figma.fileData,
+          styleMapping: requireOutput(outputs, 'styleMapping'),
+          componentLibrary: library.id
+        };
+      case 'contentMapping':
+        return {
+          contextAnalysis: requireOutput(outputs, 'contextAnalysis'),
+          components: figma.components,
+          assetUrls: figma.assetUrls
+        };
+      case 'semanticComponents':
+        return {
+          components: figma.components,
+          contextAnalysis: requireOutput(outputs, 'contextAnalysis'),
+          contentMapping: requireOutput(outputs, 'contentMapping'),
+          assetUrls: figma.assetUrls
+        };
+      case 'semanticGrouping':
+        return {
+          fileData: figma.fileData,
+          components: figma.components
+        };
+      case 'visionAnalysis':
+        return {
+          fileData: figma.fileData,
+          imageUrl: figma.imageUrl,
+          semanticGrouping: requireOutput(outputs, 'semanticGrouping')
+        };
+      case 'codeGeneration':
+        return {
+          visionAnalysis: requireOutput(outputs, 'visionAnalysis'),
+          semanticGrouping: requireOutput(outputs, 'semanticGrouping'),
+          styleMapping: requireOutput(outputs, 'styleMapping'),
+          componentRegistry: requireOutput(outputs, 'componentRegistry'),
+          designTokens: figma.designTokens,
+          assetUrls: figma.assetUrls,
+          contentMapping: requireOutput(outputs, 'contentMapping'),
+          contextAnalysis: requireOutput(outputs, 'contextAnalysis'),
+          semanticComponents: requireOutput(outputs, 'semanticComponents'),
+          componentLibrary: library.id,
+          breakpointFrames: breakpointFrames.current,
+          frameId: screenFrameId
+        };
+    }
+  };
+
+  const executeStage = async (
+    stage: FigmaPipelineStage,
+    input: any,
+    services: FigmaPipelineServices
+  ): Promise<any> => {
+    switch (stage) {
+      case 'figmaFetch': {
+        console.log('🎨 Fetching Figma file with assets:', input.fileKey);
+        const figma = await services.figmaService.analyzeFileWithAssets(input.fileKey, input.nodeId);
+        console.log('✅ Enhanced Figma analysis complete:', {
+          file: figma.fileData.name,
+          components: figma.components.length,
+          assetUrls: Object.keys(figma.assetUrls).length
+        });
+        if (!assetStorage.enabled) {
+          return figma;
+        }
+        // Figma's image links expire - the code and the screenshot point at stored copies
+        try {
+          const stored = await services.assetStorageService.persistFigmaImages(figma.imageUrl, figma.assetUrls, screen.project_id);
+          return { ...figma, ...stored };
+        } catch (error) {
+          console.warn('⚠️ [ASSETS] Storing images failed, keeping Figma image links:', error);
+          return figma;
+        }
+      }
+
+      case 'contextAnalysis': {
+        console.log('🧠 [AI CONTEXT] Starting AI Context Analysis - the intelligence layer...');
+        const contextAnalysis = await services.aiContextAnalysisService.analyzeInterfaceContext(
+          input.screenshotUrl,
+          input.figmaFileName,
+          input.additionalContext
+        );
+        console.log('✅ [AI CONTEXT] Context Analysis Complete:', {
+          interfaceType: contextAnalysis.interfaceType,
+          domain: contextAnalysis.domain,
+          sectionsFound: contextAnalysis.semanticSections.length,
+          confidence: contextAnalysis.analysisConfidence
+        });
+        return contextAnalysis;
+      }
+
+      case 'styleMapping': {
+        console.log('🎭 [PROCESSOR] Mapping Figma components to Material-UI with enhanced styling...');
+        // Edited inputs may carry their own rules to try out
+        const rules = input.mappingRules ?? await services.mappingRuleService.getRules(screen.project_id);
+        const styleMap = services.styleMapperService.mapComponentsToMui(
+          input.components,
+          input.designTokens,
+          input.assetUrls,
+          {
+            rules,
+            componentKeys: input.componentKeys,
+            semanticTypes: input.semanticTypes,
+            library: getComponentLibrary(input.componentLibrary),
+            assetSrcSets: input.assetSrcSets
+          }
         );
-        setStyleMapping(styleMap);
-        
         console.log('✅ [PROCESSOR] Style mapping complete:', {
           mappedComponents: styleMap.components.length,
+          matchedByRules: styleMap.components.filter(component => component.ruleId).length,
           designSystem: styleMap.designSystem
         });
-      } catch (styleMapError) {
-        console.error('❌ [PROCESSOR] Style mapping failed:', styleMapError);
-        throw styleMapError;
+        return styleMap;
       }
-      
-      // Step 4: AI Content Mapping - Bridge Real Content to Semantic Sections
-      setActiveStep(3);
-      await delay(1500);
-      
-      console.log('🔄 Stage 2: AI Content Mapping - solving the "Rectangle" problem...');
-      console.log('🧠 Mapping real Figma content to semantic sections:', {
-        interfaceType: contextAnalysis.interfaceType,
-        figmaComponents: enhancedFigmaData.components.length,
-        assetUrls: Object.keys(enhancedFigmaData.assetUrls).length
-      });
-      
-      // AI Content Mapping - This solves the "Rectangle" placeholder problem
-      const contentMappingResult = await aiContentMappingService.mapContentToSemanticSections(
-        contextAnalysis,
-        enhancedFigmaData.components,
-        enhancedFigmaData.assetUrls
-      );
-      setContentMapping(contentMappingResult);
-      
-      console.log(`✅ Stage 2 Complete: ${contentMappingResult.mappings.length} content mappings created`);
-      console.log(`- Content mapping confidence: ${(contentMappingResult.confidence * 100).toFixed(0)}%`);
-      console.log(`- Text content found: ${contentMappingResult.summary.textContentFound}`);
-      console.log(`- Image content found: ${contentMappingResult.summary.imageContentFound}`);
-
-      // Step 5: AI Semantic Component Recognition - Transform basic shapes into meaningful components
-      setActiveStep(4);
-      await delay(2000);
-      
-      console.log('🔍 Stage 3: AI Semantic Component Recognition - the missing intelligence layer...');
-      console.log('🧠 Analyzing components semantically like human visual recognition:', {
-        basicComponents: enhancedFigmaData.components.length,
-        interfaceType: contextAnalysis.interfaceType,
-        domain: contextAnalysis.domain,
-        realContentFound: contentMappingResult.summary.textContentFound + contentMappingResult.summary.imageContentFound
-      });
-      
-      // AI Semantic Component Recognition - This transforms RECTANGLE/INSTANCE into avatar/product_image/pill_badge
-      const semanticComponentResult = await aiSemanticComponentService.analyzeComponentsSemantics(
-        enhancedFigmaData.components,
-        contextAnalysis,
-        contentMappingResult,
-        enhancedFigmaData.assetUrls
-      );
-      setSemanticComponentAnalysis(semanticComponentResult);
-      
-      console.log(`✅ Stage 3 Complete: ${semanticComponentResult.components.length} semantic components identified`);
-      console.log(`- Semantic recognition confidence: ${(semanticComponentResult.confidence * 100).toFixed(0)}%`);
-      console.log(`- Avatars found: ${semanticComponentResult.summary.avatarsFound}`);
-      console.log(`- Product images found: ${semanticComponentResult.summary.productImagesFound}`);
-      console.log(`- Icons found: ${semanticComponentResult.summary.iconsFound}`);
-      console.log(`- Pills/badges found: ${semanticComponentResult.summary.pillsFound}`);
-      console.log(`- Cards found: ${semanticComponentResult.summary.cardsFound}`);
-
-      // Step 6: AI-Guided Semantic Grouping (Using Context + Content Mapping + Semantic Components)
-      setActiveStep(5);
-      await delay(2000);
-      
-      console.log('🔍 Stage 4: Running AI-guided semantic grouping with content mapping and semantic components...');
-      console.log('🧠 Using AI context, content mapping, and semantic component analysis:', {
-        interfaceType: contextAnalysis.interfaceType,
-        expectedSections: contextAnalysis.semanticSections.length,
-        mappedContent: contentMappingResult.mappings.length,
-        semanticComponents: semanticComponentResult.components.length,
-        userJourney: contextAnalysis.userJourney
-      });
-      
-      // Enhanced semantic grouping guided by AI context analysis and content mapping
-      // TODO: Implement groupComponentsWithContext method that uses the AI context and content mapping
-      const semanticGroupingResult = await semanticGroupingService.groupComponents(
-        enhancedFigmaData.fileData, 
-        enhancedFigmaData.components
-      );
-      setSemanticGrouping(semanticGroupingResult);
-      
-      console.log(`✅ Stage 4 Complete: ${semanticGroupingResult.groups.length} semantic groups identified`);
-      console.log(`- Confidence: ${(semanticGroupingResult.confidence * 100).toFixed(0)}%`);
-      console.log(`- Processing time: ${semanticGroupingResult.processingTime}ms`);
-      
-      // Step 7: AI-Enhanced Component Mapping (Context + Content + Semantic Components + Vision + Semantic Groups)
-      setActiveStep(6);
-      await delay(1000);
-      
-      // First, test if GPT Vision API is working at all
-      console.log('🧪 Testing GPT Vision API connectivity...');
-      try {
-        await gptVisionService.testGPTVisionAPI();
-        console.log('✅ GPT Vision API test successful');
-      } catch (apiError: any) {
-        console.error('❌ GPT Vision API test failed:', apiError);
-        throw new Error(`GPT Vision API is not working: ${apiError?.message || apiError}`);
+
+      case 'componentRegistry': {
+        console.log('🧩 [PROCESSOR] Building the component registry...');
+        const registry = services.componentRegistryService.buildRegistry(
+          input.fileData,
+          input.styleMapping.components,
+          getComponentLibrary(input.componentLibrary)
+        );
+        console.log('✅ [PROCESSOR] Component registry built:', registry.components.length);
+        return registry;
       }
 
-      // Stage 5: Enhanced GPT Vision analysis with AI context, content mapping, semantic components, and semantic groups
-      console.log('🎨 Stage 5: Running AI-enhanced component mapping with complete intelligence...');
-      console.log('🧠 Using complete AI pipeline for intelligent component mapping:', {
-        contextConfidence: contextAnalysis.analysisConfidence,
-        contentMappings: contentMappingResult.mappings.length,
-        semanticComponents: semanticComponentResult.components.length,
-        semanticGroups: semanticGroupingResult.groups.length,
-        interfaceType: contextAnalysis.interfaceType,
-        realContentFound: contentMappingResult.summary.textContentFound + contentMappingResult.summary.imageContentFound
-      });
-      
-      const gptAnalysis = await gptVisionService.analyzeSemanticGroups(
-        enhancedFigmaData.fileData,
-        enhancedFigmaData.imageUrl,
-        semanticGroupingResult
-      );
+      case 'contentMapping': {
+        console.log('🔄 Stage 2: AI Content Mapping - solving the "Rectangle" problem...');
+        const contentMappingResult = await services.aiContentMappingService.mapContentToSemanticSections(
+          input.contextAnalysis,
+          input.components,
+          input.assetUrls
+        );
+        console.log(`✅ Stage 2 Complete: ${contentMappingResult.mappings.length} content mappings created`);
+        return contentMappingResult;
+      }
 
-      setAnalysis(gptAnalysis);
-      console.log(`✅ Stage 5 Complete: ${gptAnalysis.components.length} components validated`);
-      console.log(`- Final confidence: ${(gptAnalysis.confidence * 100).toFixed(0)}%`);
-      
-      // Store analysis data with enhanced styling, AI context, content mapping, and semantic components
-      const analysisData = {
-        fileData: enhancedFigmaData.fileData,
-        imageUrl: enhancedFigmaData.imageUrl,
-        components: enhancedFigmaData.components,
-        designTokens: enhancedFigmaData.designTokens,
-        assetUrls: enhancedFigmaData.assetUrls,
-        styleMapping: styleMap,
-        aiContextAnalysis: contextAnalysis,
-        contentMapping: contentMappingResult,
-        semanticComponentAnalysis: semanticComponentResult
+      case 'semanticComponents': {
+        console.log('🔍 Stage 3: AI Semantic Component Recognition...');
+        const semanticComponentResult = await services.aiSemanticComponentService.analyzeComponentsSemantics(
+          input.components,
+          input.contextAnalysis,
+          input.contentMapping,
+          input.assetUrls
+        );
+        console.log(`✅ Stage 3 Complete: ${semanticComponentResult.components.length} semantic components identified`);
+        return semanticComponentResult;
+      }
+
+      case 'semanticGrouping': {
+        console.log('🔍 Stage 4: Running semantic grouping...');
+        // TODO: Implement groupComponentsWithContext method that uses the AI context and content mapping
+        const semanticGroupingResult = await services.semanticGroupingService.groupComponents(
+          input.fileData,
+          input.components
+        );
+        console.log(`✅ Stage 4 Complete: ${semanticGroupingResult.groups.length} semantic groups identified`);
+        return semanticGroupingResult;
+      }
+
+      case 'visionAnalysis': {
+        // First, test if GPT Vision API is working at all
+        console.log('🧪 Testing GPT Vision API connectivity...');
+        try {
+          await services.gptVisionService.testGPTVisionAPI();
+          console.log('✅ GPT Vision API test successful');
+        } catch (apiError: any) {
+          console.error('❌ GPT Vision API test failed:', apiError);
+          throw new Error(`GPT Vision API is not working: ${apiError?.message || apiError}`);
+        }
+
+        console.log('🎨 Stage 5: Running AI-enhanced component mapping...');
+        const gptAnalysis = await services.gptVisionService.analyzeSemanticGroups(
+          input.fileData,
+          input.imageUrl,
+          input.semanticGrouping
+        );
+        console.log(`✅ Stage 5 Complete: ${gptAnalysis.components.length} components validated`);
+        return gptAnalysis;
+      }
+
+      case 'codeGeneration': {
+        console.log('🚀 [PROCESSOR] Stage 6: AI-Intelligent Code Generation with semantic components...');
+        const code = generateEnhancedReactCode(
+          input.visionAnalysis,
+          input.semanticGrouping,
+          input.styleMapping,
+          input.componentRegistry,
+          input.designTokens,
+          input.assetUrls,
+          input.contentMapping,
+          input.contextAnalysis,
+          input.semanticComponents,
+          getComponentLibrary(input.componentLibrary),
+          input.breakpointFrames || [],
+          input.frameId
+        );
+        console.log('📝 [PROCESSOR] Content-aware AI-generated code length:', code.length);
+        return {
+          code,
+          designTokenExport: new DesignTokenExporter().export(input.styleMapping.designSystem, input.designTokens),
+          confidence: Math.min(
+            input.visionAnalysis.confidence,
+            input.contextAnalysis.analysisConfidence,
+            input.contentMapping.confidence,
+            input.semanticComponents.confidence
+          )
+        };
+      }
+    }
+  };
+
+  /**
+   * Run the pipeline from the last successful stage of the latest run.
+   * With `fromStage`, re-run that stage (optionally with edited inputs) and everything after it.
+   */
+  const runPipeline = async (options: {
+    fromStage?: FigmaPipelineStage;
+    editedInput?: any;
+    freshRun?: boolean;
+  } = {}) => {
+    setIsProcessing(true);
+    setError('');
+
+    let run: PipelineRun<FigmaRunSettings> | null = null;
+    let currentStage: FigmaPipelineStage | null = null;
+
+    try {
+      if (!screen.figma_url) {
+        throw new Error('No Figma URL provided');
+      }
+
+      const providers = createStageProviders(llmStages);
+      const services: FigmaPipelineServices = {
+        figmaService: new FigmaService(),
+        assetStorageService: new AssetStorageService(assetStorage),
+        gptVisionService: new GPTVisionService(providers.visionAnalysis),
+        semanticGroupingService: new SemanticGroupingService(providers.semanticGrouping),
+        styleMapperService: new StyleMapperService(),
+        componentRegistryService: new ComponentRegistryService(),
+        mappingRuleService: new MappingRuleService(),
+        aiContextAnalysisService: new AIContextAnalysisService(providers.contextAnalysis),
+        aiContentMappingService: new AIContentMappingService(providers.contentMapping),
+        aiSemanticComponentService: new AISemanticComponentService(providers.semanticComponents)
       };
-      setFigmaData(analysisData);
 
-      // Step 8: AI-Intelligent Code Generation with Real Content and Semantic Components
-      setActiveStep(7);
-      await delay(2000);
-      
-      console.log('🚀 [PROCESSOR] Stage 6: AI-Intelligent Code Generation with semantic components...');
-      console.log('🧠 Using complete AI pipeline including semantic component recognition:', {
-        contextAnalysis: !!contextAnalysis,
-        contentMapping: !!contentMappingResult,
-        semanticComponentAnalysis: !!semanticComponentResult,
-        gptAnalysis: !!gptAnalysis,
-        semanticGrouping: !!semanticGroupingResult,
-        styleMap: !!styleMap,
-        designTokens: !!enhancedFigmaData.designTokens,
-        assetUrls: !!enhancedFigmaData.assetUrls,
-        styleMapComponents: styleMap?.components?.length || 0,
-        contentMappings: contentMappingResult.mappings.length,
-        semanticComponents: semanticComponentResult.components.length,
-        avatarsFound: semanticComponentResult.summary.avatarsFound,
-        productImagesFound: semanticComponentResult.summary.productImagesFound,
-        realTextContent: contentMappingResult.summary.textContentFound,
-        realImageContent: contentMappingResult.summary.imageContentFound,
-        interfaceType: contextAnalysis.interfaceType,
-        expectedSections: contextAnalysis.semanticSections.length
-      });
-      
-      // Enhanced code generation with semantic component understanding
-      const reactCode = generateEnhancedReactCode(
-        gptAnalysis, 
-        semanticGroupingResult,
-        styleMap,
-        enhancedFigmaData.designTokens,
-        enhancedFigmaData.assetUrls,
-        contentMappingResult,
-        contextAnalysis,
-        semanticComponentResult
-      );
-      
-      console.log('📝 [PROCESSOR] Content-aware AI-generated code length:', reactCode.length);
-      console.log('🎯 [PROCESSOR] Content-aware code preview:', reactCode.substring(0, 500) + '...');
-      
-      setGeneratedCode(reactCode);
-      setConfidence(Math.min(
-        gptAnalysis.confidence, 
-        contextAnalysis.analysisConfidence,
-        contentMappingResult.confidence,
-        semanticComponentResult.confidence
-      ));
-
-      // Step 9: Complete
-      setActiveStep(8);
-
-      // Update screen in database
-      updateScreen({
-        resource: 'screens',
-        id: screen.id,
-        values: {
-          current_code: reactCode,
-          status: 'ready',
-          confidence_score: gptAnalysis.confidence,
-          iteration_count: 1,
-          analysis_data: {
-            figmaData: analysisData,
-            semanticGrouping: semanticGroupingResult,
-            gptAnalysis: gptAnalysis
-          },
-          original_image_url: enhancedFigmaData.imageUrl
+      const latestRun = options.freshRun ? null : await pipelineRunService.getLatestRun(screen.id);
+      run = latestRun && (latestRun.status !== 'completed' || options.fromStage)
+        ? latestRun
+        : await pipelineRunService.createRun(screen.id, { llmStages: llmStages ?? null, componentLibrary: library.id });
+
+      const runId = run.id;
+      let results = await pipelineRunService.getStageResults(runId);
+      const outputs: Record<string, any> = collectOutputs(results);
+
+      if (options.fromStage) {
+        // Everything after a re-run stage was built from its old output
+        const staleStages = FIGMA_PIPELINE_STAGES.slice(FIGMA_PIPELINE_STAGES.indexOf(options.fromStage));
+        await pipelineRunService.clearStageResults(run.id, [...staleStages]);
+        staleStages.forEach(stage => delete outputs[stage]);
+        results = results.filter(result => !staleStages.includes(result.stage as FigmaPipelineStage));
+      }
+
+      applyOutputs(outputs);
+      setStageResults(results);
+
+      const startStage = options.fromStage || pipelineRunService.findResumeStage(FIGMA_PIPELINE_STAGES, results);
+      if (startStage && startStage !== FIGMA_PIPELINE_STAGES[0]) {
+        console.log(`🗂️ [PIPELINE RUN] Resuming run ${run.id} at ${startStage}`);
+      }
+
+      const remainingStages = startStage
+        ? FIGMA_PIPELINE_STAGES.slice(FIGMA_PIPELINE_STAGES.indexOf(startStage))
+        : [];
+
+      for (const stage of remainingStages) {
+        currentStage = stage;
+        setActiveStep(FIGMA_PIPELINE_STAGES.indexOf(stage));
+        await pipelineRunService.updateRun(run.id, { status: 'running', current_stage: stage, error: null });
+
+        const editedInput = stage === options.fromStage ? options.editedInput : undefined;
+        const input = editedInput ?? buildStageInput(stage, outputs);
+        const startedAt = Date.now();
+        const output = await executeStage(stage, input, services);
+        const durationMs = Date.now() - startedAt;
+
+        outputs[stage] = output;
+        await pipelineRunService.saveStageResult(run.id, stage, {
+          status: 'completed',
+          output,
+          input: editedInput,
+          durationMs
+        });
+
+        applyOutputs(outputs);
+        setStageResults(prev => [
+          ...prev.filter(result => result.stage !== stage),
+          {
+            id: stage,
+            run_id: runId,
+            stage,
+            status: 'completed',
+            output,
+            input: editedInput,
+            duration_ms: durationMs,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          }
+        ]);
+      }
+
+      currentStage = null;
+      await pipelineRunService.updateRun(run.id, { status: 'completed', current_stage: null, error: null });
+      setActiveStep(steps.length - 1);
+
+      saveGeneratedScreen(outputs as FigmaPipelineOutputs, run.id, providers.visionAnalysis.model, options.fromStage);
+    } catch (err: any) {
+      const message = describeFigmaError(err) || 'Processing failed. Please try again.';
+      setError(currentStage ? `${STAGE_LABELS[currentStage]} failed: ${message}` : message);
+      setIsProcessing(false);
+
+      if (run) {
+        const failedRunId = run.id;
+        const failedStage = currentStage;
+        try {
+          if (failedStage) {
+            await pipelineRunService.saveStageResult(failedRunId, failedStage, { status: 'failed', error: message });
+            setStageResults(prev => [
+              ...prev.filter(result => result.stage !== failedStage),
+              {
+                id: failedStage,
+                run_id: failedRunId,
+                stage: failedStage,
+                status: 'failed',
+                error: message,
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+              }
+            ]);
+          }
+          await pipelineRunService.updateRun(failedRunId, { status: 'failed', error: message });
+        } catch (persistError) {
+          console.error('🗂️ [PIPELINE RUN] Failed to record stage failure:', persistError);
         }
-      }, {
-        onSuccess: () => {
-          // Create initial generation session with unique timestamp
-          createSession({
-            resource: 'vibe_sessions',
-            values: {
-              screen_id: screen.id,
-              session_type: 'initial_generation',
-              ai_response: `Initial code generated from Figma design "${enhancedFigmaData.fileData.name}". Identified ${gptAnalysis.components.length} components with ${(gptAnalysis.confidence * 100).toFixed(0)}% confidence.`,
-              generated_code: reactCode,
-              ai_provider: 'gpt-4-vision',
-              confidence_score: gptAnalysis.confidence,
-              is_accepted: true
-            },
+      }
+
+      // A failed re-run leaves a ready screen's existing code in place
+      if (!options.fromStage || screen.status === 'processing') {
+        updateScreen({
+          resource: 'screens',
+          id: screen.id,
+          values: { status: 'error' }
+        });
+      }
+    }
+  };
+
+  /**
+   * Write the generated code back to the screen and record it as a vibe session
+   */
+  const saveGeneratedScreen = (
+    outputs: FigmaPipelineOutputs,
+    runId: string,
+    aiProvider: string,
+    rerunStage?: FigmaPipelineStage
+  ) => {
+    const figma = requireOutput(outputs, 'figmaFetch');
+    const gptAnalysis = requireOutput(outputs, 'visionAnalysis');
+    const semanticGroupingResult = requireOutput(outputs, 'semanticGrouping');
+    const { code: reactCode } = requireOutput(outputs, 'codeGeneration');
+
+    // Store analysis data with enhanced styling, AI context, content mapping, and semantic components
+    const analysisData = {
+      fileData: figma.fileData,
+      imageUrl: figma.imageUrl,
+      components: figma.components,
+      designTokens: figma.designTokens,
+      assetUrls: figma.assetUrls,
+      styleMapping: outputs.styleMapping,
+      componentRegistry: outputs.componentRegistry,
+      aiContextAnalysis: outputs.contextAnalysis,
+      contentMapping: outputs.contentMapping,
+      semanticComponentAnalysis: outputs.semanticComponents
+    };
+    setFigmaData(analysisData);
+
+    // Re-running a stage on a finished screen is another iteration, not a fresh generation
+    const isRerun = !!rerunStage && screen.status !== 'processing';
+    const iterationCount = isRerun ? screen.iteration_count + 1 : 1;
+    const refine = !!refinement?.enabled;
+    if (refine) {
+      activeRefinements.add(screen.id);
+    }
+
+    updateScreen({
+      resource: 'screens',
+      id: screen.id,
+      values: {
+        current_code: reactCode,
+        status: refine ? 'iterating' : 'ready',
+        confidence_score: gptAnalysis.confidence,
+        iteration_count: iterationCount,
+        analysis_data: {
+          figmaData: analysisData,
+          semanticGrouping: semanticGroupingResult,
+          gptAnalysis: gptAnalysis,
+          designTokenExport: outputs.codeGeneration?.designTokenExport,
+          pipelineRunId: runId
+        },
+        original_image_url: figma.imageUrl
+      }
+    }, {
+      onSuccess: () => {
+        // Create initial generation session with unique timestamp
+        createSession({
+          resource: 'vibe_sessions',
+          values: {
+            screen_id: screen.id,
+            session_type: isRerun ? 'iteration' : 'initial_generation',
+            ai_response: isRerun && rerunStage
+              ? `Re-generated code from Figma design "${figma.fileData.name}" after re-running ${STAGE_LABELS[rerunStage]}. Identified ${gptAnalysis.components.length} components with ${(gptAnalysis.confidence * 100).toFixed(0)}% confidence.`
+              : `Initial code generated from Figma design "${figma.fileData.name}". Identified ${gptAnalysis.components.length} components with ${(gptAnalysis.confidence * 100).toFixed(0)}% confidence.`,
+            generated_code: reactCode,
+            ai_provider: aiProvider,
+            confidence_score: gptAnalysis.confidence,
+            is_accepted: true
+          },
+          successNotification: false, // Disable notification to prevent duplicates
+          errorNotification: false
+        }, {
+          onSuccess: () => {
+            setIsProcessing(false);
+            onComplete();
+            if (refine && refinement) {
+              runRefinement(reactCode, figma, iterationCount, refinement, outputs.codeGeneration?.designTokenExport);
+            }
+          },
+          onError: (error) => {
+            console.error('Failed to create session:', error);
+            setIsProcessing(false);
+            onComplete(); // Complete anyway since screen was updated
+            if (refine && refinement) {
+              runRefinement(reactCode, figma, iterationCount, refinement, outputs.codeGeneration?.designTokenExport);
+            }
+          }
+        });
+      },
+      onError: (error) => {
+        console.error('Failed to update screen:', error);
+        activeRefinements.delete(screen.id);
+        setError('Failed to save generated code');
+        setIsProcessing(false);
+
+        // Update screen status to error - separate operation to avoid conflicts
+        setTimeout(() => {
+          updateScreen({
+            resource: 'screens',
+            id: screen.id,
+            values: { status: 'error' },
             successNotification: false, // Disable notification to prevent duplicates
             errorNotification: false
-          }, {
-            onSuccess: () => {
-              setIsProcessing(false);
-              onComplete();
-            },
-            onError: (error) => {
-              console.error('Failed to create session:', error);
-              setIsProcessing(false);
-              onComplete(); // Complete anyway since screen was updated
-            }
           });
+        }, 100);
+      }
+    });
+  };
+
+  /**
+   * Self-correction: render, diff against the Figma frame and let the model fix the mismatched regions,
+   * round by round. Each round is a `refinement` vibe session and an iteration; only improvements are applied.
+   */
+  const runRefinement = async (
+    code: string,
+    figma: FigmaAnalysisResult,
+    startIteration: number,
+    settings: RefinementSettings,
+    tokenExport: DesignTokenExport | undefined // The generation's theme - the rendered one is stale inside runPipeline
+  ) => {
+    const refinementFrame = frameGeometry(figma.components, screenFrameId);
+    if (!refinementFrame || !figma.imageUrl) {
+      console.warn('🔁 [REFINEMENT] No frame or Figma render to compare against - skipping');
+      activeRefinements.delete(screen.id);
+      updateScreen({ resource: 'screens', id: screen.id, values: { status: 'ready' }, successNotification: false });
+      return;
+    }
+
+    activeRefinements.add(screen.id);
+    cancelRefinement.current = false;
+    setIsRefining(true);
+    setRefinementRounds([]);
+    setError('');
+    updateScreen({ resource: 'screens', id: screen.id, values: { status: 'iterating' }, successNotification: false });
+    let iteration = startIteration;
+
+    try {
+      const refinementService = new RefinementService(
+        new ClaudeCodeEditingProvider(createLLMProvider('codeEditing', llmStages?.codeEditing))
+      );
+      const referenceImage = await fetch(figma.imageUrl)
+        .then(response => response.blob())
+        .then(blob => new File([blob], 'figma-frame.png', { type: blob.type || 'image/png' }))
+        .catch(() => undefined);
+
+      await refinementService.refine({
+        code,
+        diff: {
+          referenceUrl: figma.imageUrl,
+          width: Math.round(refinementFrame.width),
+          height: Math.round(refinementFrame.height),
+          nodes: refinementFrame.nodes,
+          themeOptions: tokenExport?.themeOptions,
+          library,
+          storage: { projectId: screen.project_id, screenId: screen.id }
         },
-        onError: (error) => {
-          console.error('Failed to update screen:', error);
-          setError('Failed to save generated code');
-          setIsProcessing(false);
-          
-          // Update screen status to error - separate operation to avoid conflicts
-          setTimeout(() => {
-            updateScreen({
-              resource: 'screens',
-              id: screen.id,
-              values: { status: 'error' },
-              successNotification: false, // Disable notification to prevent duplicates
-              errorNotification: false
-            });
-          }, 100);
-        }
-      });
+        threshold: settings.threshold,
+        maxIterations: settings.maxIterations,
+        initialDiff: visualDiff,
+        referenceImage
+      }, async round => {
+        iteration += 1;
+        setRefinementRounds(previous => [...previous, round]);
+        const best = round.improved && round.after ? round.after : round.before;
 
+        await createSessionAsync({
+          resource: 'vibe_sessions',
+          values: {
+            screen_id: screen.id,
+            session_type: 'refinement',
+            user_prompt: round.instruction,
+            ai_response: `${round.explanation}\n\nFidelity ${(round.before.score * 100).toFixed(0)}% → ${round.after ? `${(round.after.score * 100).toFixed(0)}%` : round.error ? `render failed (${round.error})` : 'no code returned'}${round.improved ? '' : ' - kept the previous code.'}`,
+            generated_code: round.code,
+            ai_provider: round.provider,
+            confidence_score: round.after?.score,
+            is_accepted: round.improved
+          },
+          successNotification: false,
+          errorNotification: false
+        });
+        await updateScreenAsync({
+          resource: 'screens',
+          id: screen.id,
+          values: {
+            iteration_count: iteration,
+            fidelity_score: best.score,
+            visual_diff: best,
+            ...(round.improved && round.code ? { current_code: round.code } : {})
+          },
+          successNotification: false
+        });
+        setVisualDiff(best);
+        if (round.improved && round.code) {
+          setGeneratedCode(round.code);
+        }
+        onComplete();
+      }, () => cancelRefinement.current);
     } catch (err: any) {
-      setError(err.message || 'Processing failed. Please try again.');
-      setIsProcessing(false);
-      
+      console.error('❌ [REFINEMENT] Failed:', err);
+      setError(`Refinement stopped: ${err.message || err}`);
+    } finally {
+      activeRefinements.delete(screen.id);
+      setIsRefining(false);
       updateScreen({
         resource: 'screens',
         id: screen.id,
-        values: { status: 'error' }
-      });
+        values: { status: 'ready' },
+        successNotification: false
+      }, { onSuccess: () => onComplete() });
+    }
+  };
+
+  /**
+   * Store a fidelity measurement of the current code on the screen
+   */
+  const saveVisualDiff = (result: VisualDiffResult) => {
+    setVisualDiff(result);
+    updateScreen({
+      resource: 'screens',
+      id: screen.id,
+      values: { fidelity_score: result.score, visual_diff: result },
+      successNotification: false,
+      errorNotification: false
+    }, {
+      onError: (error) => console.error('🔍 [VISUAL DIFF] Failed to store the measurement:', error)
+    });
+  };
+
+  const saveBreakpointFrames = (frames: BreakpointFrame[]) => {
+    breakpointFrames.current = frames;
+    setLinkedFrames(frames);
+    updateScreen({
+      resource: 'screens',
+      id: screen.id,
+      values: { breakpoint_frames: frames },
+      successNotification: false,
+      errorNotification: false
+    }, {
+      onError: (error) => console.error('📐 [BREAKPOINTS] Failed to store the linked frames:', error)
+    });
+    // Only the code depends on the frames
+    runPipeline({ fromStage: 'codeGeneration' });
+  };
+
+  const openStageEditor = (stage: FigmaPipelineStage) => {
+    const stored = stageResults.find(result => result.stage === stage && result.input);
+    let input: any;
+    try {
+      input = stored?.input ?? buildStageInput(stage, stageOutputs);
+    } catch (err: any) {
+      setError(err.message);
+      return;
     }
+
+    setEditingStage(stage);
+    setEditedInput(JSON.stringify(input, null, 2));
+    setEditedInputError('');
   };
 
-  const delay = (ms: number): Promise<void> => {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  const rerunEditedStage = () => {
+    if (!editingStage) return;
+
+    let input: any;
+    try {
+      input = JSON.parse(editedInput);
+    } catch (err: any) {
+      setEditedInputError(`Invalid JSON: ${err.message}`);
+      return;
+    }
+
+    const stage = editingStage;
+    setEditingStage(null);
+    runPipeline({ fromStage: stage, editedInput: input });
+  };
+
+  const renderStagePanel = () => {
+    if (stageResults.length === 0 && !error) return null;
+
+    return (
+      <Box sx={{ mt: 2 }}>
+        <Accordion>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <HistoryIcon sx={{ mr: 1 }} />
+            <Typography variant="h6">Pipeline Stages</Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Each stage's output is saved. Re-running a stage replaces its output and re-runs every stage after it.
+            </Typography>
+            <List dense>
+              {FIGMA_PIPELINE_STAGES.map((stage, index) => {
+                const result = stageResults.find(r => r.stage === stage);
+                const upstreamComplete = FIGMA_PIPELINE_STAGES
+                  .slice(0, index)
+                  .every(previous => stageResults.some(r => r.stage === previous && r.status === 'completed'));
+
+                return (
+                  <ListItem
+                    key={stage}
+                    secondaryAction={
+                      <Button
+                        size="small"
+                        startIcon={<ReplayIcon />}
+                        disabled={isProcessing || !upstreamComplete}
+                        onClick={() => openStageEditor(stage)}
+                      >
+                        Edit & re-run
+                      </Button>
+                    }
+                  >
+                    <ListItemIcon>
+                      {result?.status === 'completed' ? (
+                        <CompleteIcon color="success" />
+                      ) : result?.status === 'failed' ? (
+                        <ErrorIcon color="error" />
+                      ) : (
+                        <ProcessingIcon color="disabled" />
+                      )}
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={STAGE_LABELS[stage]}
+                      secondary={
+                        result?.status === 'failed'
+                          ? result.error
+                          : result?.status === 'completed'
+                            ? `Completed${result.duration_ms != null ? ` in ${(result.duration_ms / 1000).toFixed(1)}s` : ''}${result.input ? ' with edited inputs' : ''}`
+                            : 'Not run yet'
+                      }
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+          </AccordionDetails>
+        </Accordion>
+
+        <Dialog open={!!editingStage} onClose={() => setEditingStage(null)} maxWidth="md" fullWidth>
+          <DialogTitle>
+            Re-run {editingStage ? STAGE_LABELS[editingStage] : ''}
+          </DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Edit the stage inputs (JSON). Later stages will be re-run from the new output.
+            </Typography>
+            <TextField
+              value={editedInput}
+              onChange={(e) => {
+                setEditedInput(e.target.value);
+                setEditedInputError('');
+              }}
+              multiline
+              minRows={12}
+              maxRows={24}
+              fullWidth
+              error={!!editedInputError}
+              helperText={editedInputError}
+              InputProps={{ sx: { fontFamily: 'monospace', fontSize: 12 } }}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setEditingStage(null)}>Cancel</Button>
+            <Button variant="contained" startIcon={<ReplayIcon />} onClick={rerunEditedStage}>
+              Re-run stage
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    );
   };
 
   const generateReactCodeFromAnalysis = (analysis: GPTVisionAnalysis, semanticGroupingResult?: any): string => {
@@ -482,46 +1125,30 @@ const FigmaToCodeProcessor: React.FC<FigmaToCodeProcessorProps> = ({
       componentCount: components.length
     });
     
-    // Generate imports based on identified components
-    const imports = new Set(['React', 'Box', 'Typography', 'Button', 'Card', 'CardContent', 'IconButton']);
-    
-    // Add more imports based on component types
-    components.forEach(comp => {
-      if (comp.materialUIMapping?.component) {
-        imports.add(comp.materialUIMapping.component);
-      }
-    });
-
-    const importStatement = `import React from 'react';
-import {
-  ${Array.from(imports).filter(imp => imp !== 'React').join(',\n  ')}
-} from '@mui/material';
-import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';`;
-
     // Generate component JSX using semantic grouping structure if available
     const componentJSX = generateImprovedComponentJSX(components, layout);
 
     // Convert background color properly
     const backgroundColor = convertFigmaColorToCSS(designSystem.colors.background) || '#ffffff';
 
-    return `${importStatement}
-
-const GeneratedFigmaScreen = () => {
-  return (
-    <Box sx={{
-      minHeight: '100vh',
-      backgroundColor: '${backgroundColor}',
-      fontFamily: '${designSystem.typography.fontFamily || 'Roboto'}',
-      p: 3,
-      maxWidth: '375px',
-      mx: 'auto'
-    }}>
-      ${componentJSX}
-    </Box>
-  );
-};
-
-export default GeneratedFigmaScreen;`;
+    return printModule({
+      imports: [REACT_IMPORT],
+      resolveImports: tags => libraryImports(MUI_LIBRARY, tags),
+      declarations: [{
+        name: 'GeneratedFigmaScreen',
+        render: element('Box', {
+          sx: {
+            minHeight: '100vh',
+            backgroundColor,
+            fontFamily: designSystem.typography.fontFamily || 'Roboto',
+            p: 3,
+            maxWidth: '375px',
+            mx: 'auto'
+          }
+        }, componentJSX)
+      }],
+      defaultExport: 'GeneratedFigmaScreen'
+    });
   };
 
   /**
@@ -531,11 +1158,15 @@ export default GeneratedFigmaScreen;`;
     analysis: GPTVisionAnalysis, 
     semanticGroupingResult: any,
     styleMapping: StyleMapping,
+    componentRegistry: ComponentRegistry,
     designTokens: any,
     assetUrls: { [nodeId: string]: string },
     contentMapping: EnhancedContentMapping,
     contextAnalysis: AIContextAnalysis,
-    semanticComponentAnalysis: SemanticComponentAnalysis
+    semanticComponentAnalysis: SemanticComponentAnalysis,
+    componentLibrary: ComponentLibraryProfile,
+    breakpointFrames: BreakpointFrame[] = [],
+    frameId?: string
   ): string => {
     console.log('🎨 [ENHANCED GENERATION] Starting enhanced React generation');
     console.log('📊 [ENHANCED GENERATION] Input parameters:', {
@@ -581,36 +1212,13 @@ export default GeneratedFigmaScreen;`;
       }))
     });
 
-    // Generate imports based on mapped components and semantic components
-    const imports = new Set(['React', 'Box', 'Typography', 'Button', 'Card', 'CardContent', 'IconButton', 'Avatar', 'Chip']);
-    
-    styleMapping.components.forEach(comp => {
-      imports.add(comp.muiComponent);
-    });
-    
-    // Add imports based on semantic components
-    semanticComponentAnalysis.components.forEach(comp => {
-      if (comp.suggestedMuiComponent && comp.suggestedMuiComponent !== 'Box') {
-        imports.add(comp.suggestedMuiComponent);
-      }
-    });
-
-    const importStatement = `import React from 'react';
-import {
-  ${Array.from(imports).filter(imp => imp !== 'React').join(',\n  ')}
-} from '@mui/material';
-import { 
-  ArrowBack as ArrowBackIcon,
-  CheckCircle as CheckCircleIcon 
-} from '@mui/icons-material';`;
-
-    // Generate theme object based on design tokens
+    // Colors come from the exported theme (see DesignTokenExporter) - sx gets palette paths, not hex literals
     const themeColors = {
-      primary: styleMapping.designSystem.colors.primary || designTokens.colors.find((c: string) => c.toLowerCase().includes('ff7f00') || c.toLowerCase().includes('ff8c00')) || '#FF8C00',
-      secondary: styleMapping.designSystem.colors.secondary || styleMapping.designSystem.colors.border || '#f0f0f0',
-      background: styleMapping.designSystem.colors.background || styleMapping.designSystem.colors.surface || '#ffffff',
-      text: styleMapping.designSystem.colors.text || styleMapping.designSystem.colors.onSurface || '#000000',
-      textSecondary: styleMapping.designSystem.colors.textSecondary || 'text.secondary'
+      primary: PALETTE_PATHS.primary,
+      secondary: PALETTE_PATHS.secondary,
+      background: PALETTE_PATHS.background,
+      text: PALETTE_PATHS.text,
+      textSecondary: PALETTE_PATHS.textSecondary
     };
 
     // Enhanced gradient detection and usage
@@ -659,7 +1267,7 @@ import {
     };
 
     // Helper function to generate component JSX based on semantic type
-    const generateSemanticComponent = (semanticComponent: any, content?: string): string => {
+    const generateSemanticComponent = (semanticComponent: any, content?: string): TreeNode => {
       const { semanticType, suggestedMuiComponent, styleHints, figmaNodeId } = semanticComponent;
       
       // Get actual asset URL from Figma if available
@@ -667,142 +1275,147 @@ import {
       
       switch (semanticType) {
         case 'avatar':
-          return assetUrl ? 
-            `<Avatar 
-              src="${assetUrl}" 
-              sx={{ 
-                width: 40, 
-                height: 40, 
-                ${styleHints.borderRadius ? `borderRadius: '${styleHints.borderRadius}'` : ''} 
-              }}
-            />` :
-            `<Avatar sx={{ 
-              width: 40, 
-              height: 40, 
-              bgcolor: '${themeColors.secondary}',
-              ${styleHints.borderRadius ? `borderRadius: '${styleHints.borderRadius}'` : ''} 
-            }}>
-              <Typography variant="caption" sx={{ fontSize: 12 }}>👤</Typography>
-            </Avatar>`;
+          return assetUrl ?
+            element('Avatar', {
+              src: assetUrl,
+              sx: {
+                width: 40,
+                height: 40,
+                borderRadius: styleHints.borderRadius ? `${styleHints.borderRadius}` : undefined
+              }
+            }) :
+            element('Avatar', {
+              sx: {
+                width: 40,
+                height: 40,
+                bgcolor: themeColors.secondary,
+                borderRadius: styleHints.borderRadius ? `${styleHints.borderRadius}` : undefined
+              }
+            }, [element('Typography', { variant: 'caption', sx: { fontSize: 12 } }, ['👤'])]);
           
         case 'product_image':
         case 'gallery_item':
-          return assetUrl ? 
-            `<Box sx={{ 
-              width: 80, 
-              height: 80, 
-              borderRadius: '${styleHints.borderRadius || '8px'}',
-              overflow: 'hidden',
-              backgroundImage: 'url(${assetUrl})',
-              backgroundSize: 'cover',
-              backgroundPosition: 'center'
-            }} />` :
-            `<Box sx={{ 
-              width: 80, 
-              height: 80, 
-              borderRadius: '${styleHints.borderRadius || '8px'}',
-              bgcolor: '${themeColors.secondary}',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              overflow: 'hidden'
-            }}>
-              <Typography variant="caption" sx={{ color: '#666', fontSize: 10 }}>📷</Typography>
-            </Box>`;
+          return assetUrl ?
+            element('Box', {
+              sx: {
+                width: 80,
+                height: 80,
+                borderRadius: `${styleHints.borderRadius || '8px'}`,
+                overflow: 'hidden',
+                backgroundImage: `url(${assetUrl})`,
+                backgroundSize: 'cover',
+                backgroundPosition: 'center'
+              }
+            }) :
+            element('Box', {
+              sx: {
+                width: 80,
+                height: 80,
+                borderRadius: `${styleHints.borderRadius || '8px'}`,
+                bgcolor: themeColors.secondary,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                overflow: 'hidden'
+              }
+            }, [element('Typography', { variant: 'caption', sx: { color: '#666', fontSize: 10 } }, ['📷'])]);
           
-        case 'pill_badge':
+        case 'pill_badge': {
           // Enhanced pill badge with screen-agnostic content
           const badgeContent = content || 
             semanticComponent.contextualRole || 
             semanticComponent.businessPurpose || 
             'Badge';
           
-          return `<Chip 
-            label="${badgeContent}" 
-            variant="${styleHints.variant || 'filled'}"
-            color="${styleHints.color || 'primary'}"
-            size="small"
-            sx={{ 
-              borderRadius: '${styleHints.borderRadius || '16px'}',
-              fontFamily: '${fontFamily}',
-              bgcolor: '${themeColors.primary}',
+          return element('Chip', {
+            label: badgeContent,
+            variant: `${styleHints.variant || 'filled'}`,
+            color: `${styleHints.color || 'primary'}`,
+            size: 'small',
+            sx: {
+              borderRadius: `${styleHints.borderRadius || '16px'}`,
+              fontFamily,
+              bgcolor: themeColors.primary,
               color: '#fff',
               fontWeight: 500,
               px: 1
-            }}
-          />`;
+            }
+          });
+        }
           
         case 'icon':
-          // Enhanced icon with actual icon or better placeholder
-          const iconContent = assetUrl ? 
-            `background: url(${assetUrl}) center/contain no-repeat` :
-            `'&::before': { content: '"⚡"', fontSize: 16 }`;
-            
-          return `<IconButton sx={{ 
-            width: 32, 
-            height: 32,
-            bgcolor: '${themeColors.secondary}',
-            borderRadius: '${styleHints.borderRadius || '8px'}',
-            ${assetUrl ? iconContent : ''},
-            '&:hover': { bgcolor: '${themeColors.primary}', transform: 'scale(1.05)' }
-          }}>
-            ${!assetUrl ? '<Typography sx={{ fontSize: 16 }}>⚡</Typography>' : ''}
-          </IconButton>`;
+          // The asset is the icon's background; without one a placeholder glyph is shown
+          return element('IconButton', {
+            sx: {
+              width: 32,
+              height: 32,
+              bgcolor: themeColors.secondary,
+              borderRadius: `${styleHints.borderRadius || '8px'}`,
+              background: assetUrl ? `url(${assetUrl}) center/contain no-repeat` : undefined,
+              '&:hover': { bgcolor: themeColors.primary, transform: 'scale(1.05)' }
+            }
+          }, [!assetUrl && element('Typography', { sx: { fontSize: 16 } }, ['⚡'])]);
           
-        case 'card':
+        case 'card': {
           // Enhanced card with screen-agnostic content  
           const cardContent = content || 
             semanticComponent.contextualRole || 
             semanticComponent.businessPurpose || 
             'Content';
             
-          return `<Card sx={{ 
-            p: 2,
-            borderRadius: '${styleHints.borderRadius || '12px'}',
-            elevation: ${styleHints.elevation || 2},
-            border: '1px solid ${themeColors.secondary}',
-            transition: 'all 0.2s ease',
-            '&:hover': { 
-              elevation: 4, 
-              borderColor: '${themeColors.primary}',
-              transform: 'translateY(-2px)'
+          return element('Card', {
+            sx: {
+              p: 2,
+              borderRadius: `${styleHints.borderRadius || '12px'}`,
+              elevation: styleHints.elevation || 2,
+              border: 1,
+              borderColor: themeColors.secondary,
+              transition: 'all 0.2s ease',
+              '&:hover': {
+                elevation: 4,
+                borderColor: themeColors.primary,
+                transform: 'translateY(-2px)'
+              }
             }
-          }}>
-            <CardContent sx={{ p: 1, '&:last-child': { pb: 1 } }}>
-              ${assetUrl ? `<Box sx={{ 
-                width: '100%', 
-                height: 80, 
-                borderRadius: 1, 
-                mb: 1,
-                backgroundImage: 'url(${assetUrl})',
-                backgroundSize: 'cover',
-                backgroundPosition: 'center'
-              }} />` : ''}
-              <Typography variant="body2" sx={{ fontFamily: '${fontFamily}', fontWeight: 500 }}>
-                ${cardContent}
-              </Typography>
-            </CardContent>
-          </Card>`;
+          }, [
+            element('CardContent', { sx: { p: 1, '&:last-child': { pb: 1 } } }, [
+              assetUrl ? element('Box', {
+                sx: {
+                  width: '100%',
+                  height: 80,
+                  borderRadius: 1,
+                  mb: 1,
+                  backgroundImage: `url(${assetUrl})`,
+                  backgroundSize: 'cover',
+                  backgroundPosition: 'center'
+                }
+              }) : null,
+              element('Typography', { variant: 'body2', sx: { fontFamily, fontWeight: 500 } }, [cardContent])
+            ])
+          ]);
+        }
           
         case 'button':
-          return `<Button 
-            variant="${styleHints.variant || 'contained'}"
-            color="${styleHints.color || 'primary'}"
-            sx={{ 
-              borderRadius: '${styleHints.borderRadius || '4px'}',
-              fontFamily: '${fontFamily}'
-            }}
-          >
-            ${content || 'Button'}
-          </Button>`;
+          return element('Button', {
+            variant: `${styleHints.variant || 'contained'}`,
+            color: `${styleHints.color || 'primary'}`,
+            sx: {
+              borderRadius: `${styleHints.borderRadius || '4px'}`,
+              fontFamily
+            }
+          }, [content || 'Button']);
           
         default:
-          return `<${suggestedMuiComponent || 'Box'}>
-            ${content || 'Component'}
-          </${suggestedMuiComponent || 'Box'}>`;
+          // The suggestion is free text from the model - anything that isn't a component name becomes a Box
+          return element(/^[A-Z][A-Za-z0-9]*$/.test(suggestedMuiComponent || '') ? suggestedMuiComponent : 'Box', {}, [
+            content || 'Component'
+          ]);
       }
     };
 
+    // Screens built with Auto Layout or from components are generated straight from the node tree
+    const nodeTree = generateNodeTreeJSX(styleMapping.components, componentRegistry, componentLibrary, breakpointFrames, frameId);
+
     // Generate enhanced JSX with proper styling using semantic groups AND real content
     const componentJSX = (() => {
       if (!semanticGroupingResult?.groups || semanticGroupingResult.groups.length === 0) {
@@ -821,7 +1434,7 @@ import {
         return (order[aType] || 1) - (order[bType] || 1);
       });
 
-      const sections: string[] = [];
+      const sections: TreeChild[] = [];
       
       orderedSections.forEach(group => {
         const sectionName = group.name.toLowerCase();
@@ -842,22 +1455,21 @@ import {
           const allHeaderContent = [...greetingContent, ...navigationContent, ...headerContent];
           
           // Generate header section with real content AND semantic components
-          const headerElements: string[] = [];
+          const headerElements: TreeNode[] = [];
           
           // Add avatars if found - create avatar gallery
           if (avatars.length > 0) {
             if (avatars.length >= 3) {
               // Create horizontal avatar gallery for multiple avatars
-              headerElements.push(`
-        <Box sx={{ 
-          display: 'flex', 
-          gap: 1.5, 
-          overflowX: 'auto',
-          scrollbarWidth: 'none',
-          '&::-webkit-scrollbar': { display: 'none' }
-        }}>
-          ${avatars.slice(0, 12).map(avatar => generateSemanticComponent(avatar)).join('\n          ')}
-        </Box>`);
+              headerElements.push(element('Box', {
+                sx: {
+                  display: 'flex',
+                  gap: 1.5,
+                  overflowX: 'auto',
+                  scrollbarWidth: 'none',
+                  '&::-webkit-scrollbar': { display: 'none' }
+                }
+              }, avatars.slice(0, 12).map(avatar => generateSemanticComponent(avatar))));
             } else {
               // Individual avatars for small numbers
               avatars.forEach(avatar => {
@@ -868,9 +1480,10 @@ import {
           
           // Add text content
           allHeaderContent.forEach(content => {
-            headerElements.push(`<Typography variant="h5" sx={{ fontWeight: ${typography.fontWeights?.semiBold || 600}, fontFamily: '${fontFamily}' }}>
-                ${content}
-              </Typography>`);
+            headerElements.push(element('Typography', {
+              variant: 'h5',
+              sx: { fontWeight: typography.fontWeights?.semiBold || 600, fontFamily }
+            }, [content]));
           });
           
           // Add navigation items
@@ -879,11 +1492,10 @@ import {
             headerElements.push(generateSemanticComponent(navItem, navContent));
           });
           
-          sections.push(`
-      {/* ${group.name} */}
-      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
-        ${headerElements.join('\n        ')}
-      </Box>`);
+          sections.push(
+            comment(group.name),
+            element('Box', { sx: { display: 'flex', alignItems: 'center', gap: 2, mb: 3 } }, headerElements)
+          );
         } else if (sectionName.includes('content') || sectionName.includes('main')) {
           // Get real content for main content section
           const sectionTitleContent = getContentByRole('section_title');
@@ -901,26 +1513,29 @@ import {
           
           // Get a section title if available
           const sectionTitle = sectionTitleContent.length > 0 ? sectionTitleContent[0] : '';
+          const sectionTitleElement = sectionTitle ? element('Typography', {
+            variant: 'h6',
+            sx: { mb: 2, fontWeight: typography.fontWeights?.medium || 500, fontFamily }
+          }, [sectionTitle]) : null;
           
           // Generate content elements
-          const contentElements: string[] = [];
+          const contentElements: TreeNode[] = [];
           
           // Add text content as cards
           allContentItems.forEach(content => {
-            contentElements.push(`
-        <Card 
-          variant="outlined" 
-          sx={{ 
-            p: 2, 
-            cursor: 'pointer',
-            '&:hover': { borderColor: '${themeColors.primary}' },
-            textAlign: 'center',
-            borderRadius: 1
-          }}
-        >
-          <Box sx={{ width: 40, height: 40, mx: 'auto', mb: 1, bgcolor: '${themeColors.secondary}', borderRadius: 1 }} />
-          <Typography variant="body2" sx={{ fontFamily: '${fontFamily}' }}>${content}</Typography>
-        </Card>`);
+            contentElements.push(element('Card', {
+              variant: 'outlined',
+              sx: {
+                p: 2,
+                cursor: 'pointer',
+                '&:hover': { borderColor: themeColors.primary },
+                textAlign: 'center',
+                borderRadius: 1
+              }
+            }, [
+              element('Box', { sx: { width: 40, height: 40, mx: 'auto', mb: 1, bgcolor: themeColors.secondary, borderRadius: 1 } }),
+              element('Typography', { variant: 'body2', sx: { fontFamily } }, [content])
+            ]));
           });
           
           // Add semantic components
@@ -934,39 +1549,35 @@ import {
           
           // Special handling for product galleries (horizontal scroll)
           if (productImages.length >= 3) {
-            sections.push(`
-      {/* ${group.name} - Gallery */}
-      ${sectionTitle ? `<Typography variant="h6" sx={{ mb: 2, fontWeight: ${typography.fontWeights?.medium || 500}, fontFamily: '${fontFamily}' }}>
-        ${sectionTitle}
-      </Typography>` : ''}
-      
-      <Box sx={{ 
-        display: 'flex', 
-        gap: 2, 
-        overflowX: 'auto',
-        mb: 3,
-        pb: 1,
-        scrollbarWidth: 'thin',
-        '&::-webkit-scrollbar': { height: 4 },
-        '&::-webkit-scrollbar-thumb': { bgcolor: '${themeColors.secondary}', borderRadius: 2 }
-      }}>
-        ${productImages.slice(0, 8).map(item => generateSemanticComponent(item)).join('\n        ')}
-      </Box>`);
+            sections.push(
+              comment(`${group.name} - Gallery`),
+              sectionTitleElement,
+              element('Box', {
+                sx: {
+                  display: 'flex',
+                  gap: 2,
+                  overflowX: 'auto',
+                  mb: 3,
+                  pb: 1,
+                  scrollbarWidth: 'thin',
+                  '&::-webkit-scrollbar': { height: 4 },
+                  '&::-webkit-scrollbar-thumb': { bgcolor: themeColors.secondary, borderRadius: 2 }
+                }
+              }, productImages.slice(0, 8).map(item => generateSemanticComponent(item)))
+            );
           } else {
-            sections.push(`
-      {/* ${group.name} */}
-      ${sectionTitle ? `<Typography variant="h6" sx={{ mb: 2, fontWeight: ${typography.fontWeights?.medium || 500}, fontFamily: '${fontFamily}' }}>
-        ${sectionTitle}
-      </Typography>` : ''}
-      
-      <Box sx={{ 
-        display: 'grid', 
-        gridTemplateColumns: '${gridColumns}', 
-        gap: 2, 
-        mb: 3 
-      }}>
-        ${contentElements.join('')}
-      </Box>`);
+            sections.push(
+              comment(group.name),
+              sectionTitleElement,
+              element('Box', {
+                sx: {
+                  display: 'grid',
+                  gridTemplateColumns: gridColumns,
+                  gap: 2,
+                  mb: 3
+                }
+              }, contentElements)
+            );
           }
         } else if (sectionName.includes('info') || sectionName.includes('total') || sectionName.includes('summary')) {
           // Get real content for info/summary section
@@ -977,22 +1588,21 @@ import {
           const labelText = infoLabels.length > 0 ? infoLabels[0] : 'Info:';
           const valueText = infoValues.length > 0 ? infoValues[0] : 'Value';
           
-          sections.push(`
-      {/* ${group.name} */}
-      <Box sx={{ 
-        display: 'flex', 
-        justifyContent: 'space-between', 
-        alignItems: 'center',
-        mb: 3,
-        py: 1
-      }}>
-        <Typography variant="h6" sx={{ color: '${themeColors.textSecondary}', fontFamily: '${fontFamily}' }}>
-          ${labelText}
-        </Typography>
-        <Typography variant="h4" sx={{ fontWeight: ${typography.fontWeights?.bold || 700}, fontFamily: '${fontFamily}' }}>
-          ${valueText}
-        </Typography>
-      </Box>`);
+          sections.push(
+            comment(group.name),
+            element('Box', {
+              sx: {
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                mb: 3,
+                py: 1
+              }
+            }, [
+              element('Typography', { variant: 'h6', sx: { color: themeColors.textSecondary, fontFamily } }, [labelText]),
+              element('Typography', { variant: 'h4', sx: { fontWeight: typography.fontWeights?.bold || 700, fontFamily } }, [valueText])
+            ])
+          );
         } else if (sectionName.includes('button') || sectionName.includes('action')) {
           // Get real content for action button
           const actionContent = getContentByRole('action');
@@ -1002,26 +1612,25 @@ import {
           const buttonText = actionContent.length > 0 ? actionContent[0] : 
                            buttonContent.length > 0 ? buttonContent[0] : 'BUTTON';
           
-          sections.push(`
-      {/* ${group.name} */}
-      <Button 
-        variant="contained" 
-        fullWidth 
-        size="large"
-        sx={{ 
-          py: 1.5,
-          fontSize: '1.1rem',
-          fontWeight: ${typography.fontWeights?.bold || 700},
-          backgroundColor: '${themeColors.primary}',
-          fontFamily: '${fontFamily}',
-          borderRadius: 1,
-          '&:hover': {
-            backgroundColor: '${themeColors.primary}dd'
-          }
-        }}
-      >
-        ${buttonText}
-      </Button>`);
+          sections.push(
+            comment(group.name),
+            element('Button', {
+              variant: 'contained',
+              fullWidth: true,
+              size: 'large',
+              sx: {
+                py: 1.5,
+                fontSize: '1.1rem',
+                fontWeight: typography.fontWeights?.bold || 700,
+                backgroundColor: themeColors.primary,
+                fontFamily,
+                borderRadius: 1,
+                '&:hover': {
+                  backgroundColor: 'primary.dark'
+                }
+              }
+            }, [buttonText])
+          );
         } else {
           // Generic section generation for unrecognized sections - use real content
           const sectionContent = getContentByRole('content');
@@ -1030,54 +1639,56 @@ import {
           // Combine all available content for this section
           const allSectionContent = [...sectionContent, ...genericContent];
           
-          if (allSectionContent.length > 0) {
-            sections.push(`
-      {/* ${group.name} */}
-      <Box sx={{ mb: 3 }}>
-        ${allSectionContent.map((content) => `
-        <Typography variant="body1" sx={{ fontFamily: '${fontFamily}', mb: 1 }}>
-          ${content}
-        </Typography>`).join('')}
-      </Box>`);
-          } else {
-            // Fallback if no content is found for this section
-            sections.push(`
-      {/* ${group.name} */}
-      <Box sx={{ mb: 3 }}>
-        <Typography variant="body1" sx={{ fontFamily: '${fontFamily}', mb: 1 }}>
-          Section content will appear here
-        </Typography>
-      </Box>`);
-          }
+          // Fallback if no content is found for this section
+          const paragraphs = allSectionContent.length > 0 ? allSectionContent : ['Section content will appear here'];
+          sections.push(
+            comment(group.name),
+            element('Box', { sx: { mb: 3 } }, paragraphs.map(content =>
+              element('Typography', { variant: 'body1', sx: { fontFamily, mb: 1 } }, [content])
+            ))
+          );
         }
       });
 
-      return sections.join('\n');
+      return sections;
     })();
 
-    const finalCode = `${importStatement}
-
-const GeneratedFigmaScreen = () => {
-  return (
-    <Box sx={{
-      width: '100%',
-      maxWidth: '375px',
-      minHeight: '812px',
-      backgroundColor: '${themeColors.background}',
-      fontFamily: 'Roboto, sans-serif',
-      p: 2,
-      mx: 'auto',
-      display: 'flex',
-      flexDirection: 'column'
-    }}>
-      ${componentJSX}
-    </Box>
-  );
-};
-
-export default GeneratedFigmaScreen;`;
+    // The node tree is rendered with the project's component library; the section templates stay on MUI
+    const finalCode = nodeTree ? printModule({
+      imports: nodeTree.usesNavigation ? [REACT_IMPORT, { source: 'react-router', names: ['useNavigate'] }] : [REACT_IMPORT],
+      resolveImports: tags => libraryImports(componentLibrary, tags),
+      declarations: [
+        ...nodeTree.components.map(component => component.code),
+        {
+          name: 'GeneratedFigmaScreen',
+          hooks: nodeTree.usesNavigation ? ['const navigate = useNavigate();'] : undefined,
+          render: nodeTree.jsx
+        }
+      ],
+      defaultExport: 'GeneratedFigmaScreen'
+    }) : printModule({
+      imports: [REACT_IMPORT],
+      resolveImports: tags => libraryImports(MUI_LIBRARY, tags),
+      declarations: [{
+        name: 'GeneratedFigmaScreen',
+        render: element('Box', {
+          sx: {
+            width: '100%',
+            maxWidth: '375px',
+            minHeight: '812px',
+            backgroundColor: themeColors.background,
+            fontFamily: 'Roboto, sans-serif',
+            p: 2,
+            mx: 'auto',
+            display: 'flex',
+            flexDirection: 'column'
+          }
+        }, componentJSX)
+      }],
+      defaultExport: 'GeneratedFigmaScreen'
+    });
 
-    console.log('✅ [ENHANCED GENERATION] Enhanced React code generated successfully');
+    console.log('✅ [ENHANCED GENERATION] Enhanced React code generated successfully', nodeTree ? `(from the node tree, ${nodeTree.components.length} registry components)` : '');
     console.log('📊 [ENHANCED GENERATION] Final code stats:', {
       length: finalCode.length,
       hasPaymentMethods: finalCode.includes('Payment Method'),
@@ -1106,69 +1717,149 @@ export default GeneratedFigmaScreen;`;
     return '#ffffff';
   };
 
-  const generateImprovedComponentJSX = (components: IdentifiedComponent[], layout: any): string => {
+  /**
+   * JSX for the screen's node tree, with the registry components it uses. Used when the top-level
+   * frame uses Auto Layout (Stack/flex containers with hug/fill sizing), contains instances of
+   * registered components (rendered as calls to those components) or nodes matched by a project
+   * mapping rule. Returns null for other screens, which keep the semantic section templates.
+   * Screens with frames linked to breakpoints always use the node tree, merged from those frames, and so
+   * do screens with prototype links, which navigate with React Router's useNavigate().
+   */
+  const generateNodeTreeJSX = (
+    components: MappedComponent[],
+    componentRegistry: ComponentRegistry,
+    componentLibrary: ComponentLibraryProfile,
+    breakpointFrames: BreakpointFrame[] = [],
+    frameId?: string
+  ): { jsx: TreeNode; components: RegisteredComponent[]; usesNavigation: boolean } | null => {
+    const linkedFrames = linkedBreakpointFrames(components, breakpointFrames);
+    let treeComponents = components;
+    let root: MappedComponent | undefined;
+    if (linkedFrames.length > 0) {
+      ({ root, components: treeComponents } = new BreakpointMergeService().merge(components, linkedFrames));
+    } else {
+      // Same pick as the screenshot: the screen's own frame, else the first large, non-internal top-level frame
+      const candidates = breakpointFrameCandidates(components);
+      const frame = candidates.find(candidate => candidate.nodeId === frameId) || candidates[0];
+      root = components.find(comp => comp.id === frame?.nodeId);
+    }
+    if (!root) {
+      return null;
+    }
+
+    const flowService = new PrototypeFlowService();
+    const flow = flowService.buildFlow(components);
+    let usesNavigation = false;
+    const eventProps = (comp: MappedComponent) => {
+      const onClick = flowService.clickHandler(comp, flow);
+      if (!onClick) return undefined;
+      usesNavigation = usesNavigation || onClick.code.includes('navigate(');
+      return { onClick };
+    };
+
+    const registryService = new ComponentRegistryService();
+    const usedComponents = new Set<RegisteredComponent>();
+    const renderer = new JsxTreeRenderer(treeComponents, {
+      renderInstance: comp => {
+        // A project mapping rule beats the registry
+        const entry = comp.ruleId ? undefined : registryService.findEntry(comp.componentId, componentRegistry);
+        if (!entry) return undefined;
+        usedComponents.add(entry);
+        return registryService.renderInstanceCall(comp, componentRegistry, eventProps(comp));
+      },
+      componentName: muiComponent => libraryComponentName(componentLibrary, muiComponent),
+      eventProps
+    });
+
+    const descendants = renderer.descendants(root);
+    const hasInstances = descendants.some(comp => registryService.findEntry(comp.componentId, componentRegistry));
+    const hasRuleMatches = descendants.some(comp => comp.ruleId);
+    const hasLinks = descendants.some(comp => flowService.clickHandler(comp, flow));
+    if (linkedFrames.length === 0 && !root.layout && !hasInstances && !hasRuleMatches && !hasLinks) {
+      return null;
+    }
+
+    // The screen itself fills the viewport up to its design width
+    const { width, height } = root.sx;
+    const jsx = renderer.render(root, {
+      width: '100%',
+      maxWidth: width,
+      height: undefined,
+      minHeight: height,
+      mx: 'auto',
+      bgcolor: root.sx.backgroundColor || PALETTE_PATHS.background,
+      backgroundColor: undefined
+    });
+
+    // Registry components can use each other - include what the used ones call, dependencies first
+    const ordered: RegisteredComponent[] = [];
+    const include = (entry: RegisteredComponent) => {
+      if (ordered.includes(entry)) return;
+      componentRegistry.components
+        .filter(other => other !== entry && new RegExp(`<${other.componentName}[\\s/>]`).test(entry.code))
+        .forEach(include);
+      ordered.push(entry);
+    };
+    usedComponents.forEach(include);
+
+    return { jsx, components: ordered, usesNavigation };
+  };
+
+  const generateImprovedComponentJSX = (components: IdentifiedComponent[], layout: any): TreeNode[] => {
     // Group components by type and position
     const buttons = components.filter(c => c.type.toLowerCase().includes('button') || c.name.toLowerCase().includes('button'));
     const texts = components.filter(c => c.type === 'text' || c.properties.text);
     const cards = components.filter(c => c.type === 'card' && c.bounds.width > 100 && c.bounds.height > 50);
     
-    let jsx = '';
+    const nodes: TreeNode[] = [];
     
     // Add header section
     const headerTexts = texts.filter(t => t.bounds.y < 100);
     if (headerTexts.length > 0) {
-      jsx += `      <Box sx={{ mb: 3 }}>
-        ${headerTexts.map(text => `<Typography variant="h5" sx={{ fontWeight: 'bold', mb: 1 }}>
-          ${text.properties.text || text.name}
-        </Typography>`).join('\n        ')}
-      </Box>\n\n`;
+      nodes.push(element('Box', { sx: { mb: 3 } }, headerTexts.map(text =>
+        element('Typography', { variant: 'h5', sx: { fontWeight: 'bold', mb: 1 } }, [text.properties.text || text.name])
+      )));
     }
     
     // Add payment methods section
     if (buttons.length > 0) {
-      jsx += `      <Box sx={{ mb: 3 }}>
-        <Typography variant="h6" sx={{ mb: 2 }}>Payment Methods</Typography>
-        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
-          ${buttons.slice(0, 4).map(btn => `<Button 
-            variant="outlined" 
-            sx={{ 
+      nodes.push(element('Box', { sx: { mb: 3 } }, [
+        element('Typography', { variant: 'h6', sx: { mb: 2 } }, ['Payment Methods']),
+        element('Box', { sx: { display: 'flex', gap: 1, flexWrap: 'wrap' } }, buttons.slice(0, 4).map(btn =>
+          element('Button', {
+            variant: 'outlined',
+            sx: {
               minWidth: '80px',
               height: '60px',
               flexDirection: 'column',
               fontSize: '0.75rem'
-            }}
-          >
-            ${btn.properties.text || btn.name || 'Payment'}
-          </Button>`).join('\n          ')}
-        </Box>
-      </Box>\n\n`;
+            }
+          }, [btn.properties.text || btn.name || 'Payment'])
+        ))
+      ]));
     }
     
     // Add main content card
     if (cards.length > 0) {
-      jsx += `      <Card sx={{ mb: 3 }}>
-        <CardContent>
-          <Typography variant="h6" gutterBottom>
-            Payment Details
-          </Typography>
-          <Typography variant="body2" color="text.secondary">
-            ${texts.find(t => t.bounds.y > 300)?.properties.text || 'Payment method details will appear here'}
-          </Typography>
-        </CardContent>
-      </Card>\n\n`;
+      nodes.push(element('Card', { sx: { mb: 3 } }, [
+        element('CardContent', {}, [
+          element('Typography', { variant: 'h6', gutterBottom: true }, ['Payment Details']),
+          element('Typography', { variant: 'body2', color: 'text.secondary' }, [
+            texts.find(t => t.bounds.y > 300)?.properties.text || 'Payment method details will appear here'
+          ])
+        ])
+      ]));
     }
     
     // Add total section
     const totalText = texts.find(t => t.name.toLowerCase().includes('total') || (t.properties.text && t.properties.text.includes('$')));
     if (totalText) {
-      jsx += `      <Box sx={{ mb: 3, p: 2, backgroundColor: 'grey.50', borderRadius: 1 }}>
-        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-          <Typography variant="h6">Total:</Typography>
-          <Typography variant="h5" color="primary" sx={{ fontWeight: 'bold' }}>
-            ${totalText.properties.text || '$96'}
-          </Typography>
-        </Box>
-      </Box>\n\n`;
+      nodes.push(element('Box', { sx: { mb: 3, p: 2, backgroundColor: 'grey.50', borderRadius: 1 } }, [
+        element('Box', { sx: { display: 'flex', justifyContent: 'space-between', alignItems: 'center' } }, [
+          element('Typography', { variant: 'h6' }, ['Total:']),
+          element('Typography', { variant: 'h5', color: 'primary', sx: { fontWeight: 'bold' } }, [totalText.properties.text || '$96'])
+        ])
+      ]));
     }
     
     // Add main action button (dynamic content)
@@ -1177,16 +1868,36 @@ export default GeneratedFigmaScreen;`;
       (c.properties.characters && c.properties.characters.length < 20)
     );
     
-    jsx += `      <Button 
-        variant="contained" 
-        fullWidth 
-        size="large"
-        sx={{ py: 1.5, fontSize: '1.1rem' }}
-      >
-        ${actionButton?.properties?.characters || actionButton?.name || 'Action'}
-      </Button>`;
+    nodes.push(element('Button', {
+      variant: 'contained',
+      fullWidth: true,
+      size: 'large',
+      sx: { py: 1.5, fontSize: '1.1rem' }
+    }, [actionButton?.properties?.characters || actionButton?.name || 'Action']));
     
-    return jsx;
+    return nodes;
+  };
+
+  const designTokenExport = stageOutputs.codeGeneration?.designTokenExport;
+  const frameCandidates = styleMapping ? breakpointFrameCandidates(styleMapping.components) : [];
+  // One preview per linked frame, at least as wide as its breakpoint so its styles apply
+  const breakpointPreviews = styleMapping && linkedFrames.length > 1
+    ? linkedBreakpointFrames(styleMapping.components, linkedFrames).map(frame => ({
+        label: `${BREAKPOINT_LABELS[frame.breakpoint]} (${frame.breakpoint})`,
+        width: Math.max(frame.width, BREAKPOINT_MIN_WIDTH[frame.breakpoint]),
+        height: frame.height
+      }))
+    : undefined;
+  const componentRegistry = stageOutputs.componentRegistry;
+
+  const downloadFile = (fileName: string, content: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
   const getStepIcon = (index: number) => {
@@ -1220,6 +1931,12 @@ export default GeneratedFigmaScreen;`;
                 label={`Confidence: ${(confidence * 100).toFixed(0)}%`}
                 color={confidence > 0.8 ? 'success' : 'warning'}
               />
+              {visualDiff && (
+                <Chip
+                  label={`Fidelity: ${(visualDiff.score * 100).toFixed(0)}%`}
+                  color={fidelityColor(visualDiff.score)}
+                />
+              )}
               <Chip label={`Components: ${analysis.components.length}`} />
               <Chip label={`Layout: ${analysis.layout.structure}`} />
             </Box>
@@ -1311,6 +2028,29 @@ export default GeneratedFigmaScreen;`;
           </Box>
         )}
 
+        {/* Breakpoints */}
+        {frameCandidates.length > 1 && (
+          <Box sx={{ mt: 2 }}>
+            <Accordion defaultExpanded={linkedFrames.length > 0}>
+              <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                <DevicesIcon sx={{ mr: 1 }} />
+                <Typography variant="h6">Breakpoints</Typography>
+                {linkedFrames.length > 0 && (
+                  <Chip size="small" label={`${linkedFrames.length} frames linked`} sx={{ ml: 1 }} />
+                )}
+              </AccordionSummary>
+              <AccordionDetails>
+                <BreakpointFramesPanel
+                  candidates={frameCandidates}
+                  value={linkedFrames}
+                  disabled={isProcessing || isRefining}
+                  onSave={saveBreakpointFrames}
+                />
+              </AccordionDetails>
+            </Accordion>
+          </Box>
+        )}
+
         {/* Live Preview */}
         {generatedCode && (
           <Box sx={{ mt: 2 }}>
@@ -1327,7 +2067,224 @@ export default GeneratedFigmaScreen;`;
                   code={generatedCode} 
                   height={500}
                   showEditor={false}
+                  themeOptions={designTokenExport?.themeOptions}
+                  library={library}
+                  breakpoints={breakpointPreviews}
+                />
+              </AccordionDetails>
+            </Accordion>
+          </Box>
+        )}
+
+        {/* Visual Fidelity */}
+        {generatedCode && (
+          <Box sx={{ mt: 2 }}>
+            <Accordion>
+              <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                <CompareIcon sx={{ mr: 1 }} />
+                <Typography variant="h6">Visual Fidelity</Typography>
+              </AccordionSummary>
+              <AccordionDetails>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  The live preview is rendered at the frame's size and compared with the Figma render, pixel by pixel and structurally (SSIM).
+                </Typography>
+                <VisualDiffPanel
+                  code={screen.current_code || generatedCode}
+                  referenceUrl={figmaData?.imageUrl}
+                  frame={frame}
+                  result={visualDiff}
+                  themeOptions={designTokenExport?.themeOptions}
+                  library={library}
+                  storage={{ projectId: screen.project_id, screenId: screen.id }}
+                  autoMeasure={!isProcessing && !isRefining}
+                  onMeasured={saveVisualDiff}
+                />
+
+                <Box sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                  <Typography variant="subtitle2">Refinement</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Up to {(refinement ?? DEFAULT_REFINEMENT_SETTINGS).maxIterations} rounds, until {((refinement ?? DEFAULT_REFINEMENT_SETTINGS).threshold * 100).toFixed(0)}% fidelity
+                  </Typography>
+                  <Box sx={{ flexGrow: 1 }} />
+                  {isRefining ? (
+                    <Button
+                      size="small"
+                      color="warning"
+                      variant="outlined"
+                      startIcon={<StopIcon />}
+                      onClick={() => { cancelRefinement.current = true; }}
+                    >
+                      Stop after this round
+                    </Button>
+                  ) : (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<RefineIcon />}
+                      disabled={isProcessing || !figmaData?.imageUrl || !frame}
+                      onClick={() => figmaData && runRefinement(
+                        screen.current_code || generatedCode,
+                        figmaData,
+                        screen.iteration_count,
+                        refinement ?? DEFAULT_REFINEMENT_SETTINGS,
+                        designTokenExport
+                      )}
+                    >
+                      Auto-refine
+                    </Button>
+                  )}
+                </Box>
+                {isRefining && <LinearProgress sx={{ mt: 1 }} />}
+                {refinementRounds.length > 0 && (
+                  <List dense>
+                    {refinementRounds.map(round => (
+                      <ListItem key={round.round}>
+                        <ListItemIcon>
+                          {round.improved ? <CompleteIcon color="success" /> : <ErrorIcon color={round.error ? 'error' : 'disabled'} />}
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={`Round ${round.round}: ${(round.before.score * 100).toFixed(0)}% → ${round.after ? `${(round.after.score * 100).toFixed(0)}%` : '—'}`}
+                          secondary={round.error
+                            ? `Render failed: ${round.error}`
+                            : round.improved ? round.explanation : `Not applied - ${round.code ? 'no improvement' : 'no code returned'}`}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+              </AccordionDetails>
+            </Accordion>
+          </Box>
+        )}
+
+        {/* Design Tokens */}
+        {designTokenExport && (
+          <Box sx={{ mt: 2 }}>
+            <Accordion>
+              <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                <PaletteIcon sx={{ mr: 1 }} />
+                <Typography variant="h6">Design Tokens</Typography>
+                <Chip
+                  size="small"
+                  sx={{ ml: 2 }}
+                  color={designTokenExport.tokens.source === 'figma' ? 'success' : 'default'}
+                  label={designTokenExport.tokens.source === 'figma' ? 'From Figma styles & variables' : 'Inferred from fills'}
                 />
+              </AccordionSummary>
+              <AccordionDetails>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  The generated component uses theme.palette and theme.spacing - wrap it in a ThemeProvider with this theme.
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                  {Object.entries(designTokenExport.tokens.palette).map(([role, color]) => (
+                    <Chip
+                      key={role}
+                      size="small"
+                      variant="outlined"
+                      label={`${role}: ${color}`}
+                      icon={<Box sx={{ width: 12, height: 12, borderRadius: '50%', bgcolor: color, border: '1px solid #ccc' }} />}
+                    />
+                  ))}
+                </Box>
+                {Object.keys(designTokenExport.tokens.modes || {}).length > 0 && (
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Color modes: {Object.keys(designTokenExport.tokens.modes).join(', ')}
+                    {designTokenExport.tokens.modes.dark && ' - theme.ts also exports darkTheme'}
+                  </Typography>
+                )}
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<DownloadIcon />}
+                    onClick={() => downloadFile('theme.ts', designTokenExport.themeModule, 'text/typescript')}
+                  >
+                    theme.ts
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<DownloadIcon />}
+                    onClick={() => downloadFile('tokens.json', JSON.stringify(designTokenExport.w3cTokens, null, 2), 'application/json')}
+                  >
+                    tokens.json
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<DownloadIcon />}
+                    onClick={() => downloadFile('tokens.css', designTokenExport.cssVariables, 'text/css')}
+                  >
+                    tokens.css
+                  </Button>
+                </Box>
+              </AccordionDetails>
+            </Accordion>
+          </Box>
+        )}
+
+        {/* Component Registry */}
+        {componentRegistry && componentRegistry.components.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Accordion>
+              <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                <ComponentIcon sx={{ mr: 1 }} />
+                <Typography variant="h6">Component Registry ({componentRegistry.components.length})</Typography>
+              </AccordionSummary>
+              <AccordionDetails>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  One React component per Figma main component. Instances in the screen are rendered as calls to these.
+                </Typography>
+                <TableContainer component={Paper} sx={{ mb: 2 }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Component</TableCell>
+                        <TableCell>Figma</TableCell>
+                        <TableCell>Props</TableCell>
+                        <TableCell>Variants</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {componentRegistry.components.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{entry.componentName}</TableCell>
+                          <TableCell>{entry.name}</TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                              {entry.props.map(prop => (
+                                <Chip
+                                  key={prop.name}
+                                  size="small"
+                                  variant="outlined"
+                                  label={prop.type === 'variant' && prop.options ? `${prop.name}: ${prop.options.join(' | ')}` : `${prop.name}: ${prop.type}`}
+                                />
+                              ))}
+                            </Box>
+                          </TableCell>
+                          <TableCell>{Object.keys(entry.variants).length}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<DownloadIcon />}
+                  onClick={() => downloadFile(
+                    'components.tsx',
+                    printModule({
+                      imports: [REACT_IMPORT],
+                      resolveImports: tags => libraryImports(library, tags),
+                      declarations: componentRegistry.components.map(entry => entry.code),
+                      namedExports: componentRegistry.components.map(entry => entry.componentName)
+                    }),
+                    'text/typescript'
+                  )}
+                >
+                  components.tsx
+                </Button>
               </AccordionDetails>
             </Accordion>
           </Box>
@@ -1430,6 +2387,8 @@ export default GeneratedFigmaScreen;`;
             </AccordionDetails>
           </Accordion>
         </Box>
+
+        {renderStagePanel()}
       </Box>
     );
   }
@@ -1438,10 +2397,12 @@ export default GeneratedFigmaScreen;`;
     <Card>
       <CardContent>
         <Typography variant="h6" gutterBottom>
-          Processing Figma Design
+          {screen.status === 'error' ? 'Figma Processing Failed' : 'Processing Figma Design'}
         </Typography>
         <Typography variant="body2" color="text.secondary" gutterBottom>
-          Analyzing your Figma file and generating React components...
+          {screen.status === 'error'
+            ? 'Completed stages are saved - resume to continue from the stage that failed.'
+            : 'Analyzing your Figma file and generating React components...'}
         </Typography>
 
         {error && (
@@ -1449,10 +2410,18 @@ export default GeneratedFigmaScreen;`;
             {error}
             <Button 
               size="small" 
-              onClick={startFigmaProcessing}
+              onClick={() => runPipeline()}
+              disabled={isProcessing}
               sx={{ ml: 2 }}
             >
-              Retry
+              Resume
+            </Button>
+            <Button 
+              size="small" 
+              onClick={() => runPipeline({ freshRun: true })}
+              disabled={isProcessing}
+            >
+              Start over
             </Button>
           </Alert>
         )}
@@ -1474,12 +2443,9 @@ export default GeneratedFigmaScreen;`;
               </StepLabel>
               <StepContent>
                 <Typography variant="body2" color="text.secondary">
-                  {index === 0 && "Connecting to Figma API and fetching file structure..."}
-                  {index === 1 && "Exporting high-resolution images from your Figma frames..."}
-                  {index === 2 && "Analyzing design structure with GPT Vision..."}
-                  {index === 3 && "Identifying UI components and mapping to Material-UI..."}
-                  {index === 4 && "Generating React component code with proper styling..."}
-                  {index === 5 && "Ready for vibe-coding! You can now chat to refine your design."}
+                  {index < FIGMA_PIPELINE_STAGES.length
+                    ? STAGE_DESCRIPTIONS[FIGMA_PIPELINE_STAGES[index]]
+                    : "Ready for vibe-coding! You can now chat to refine your design."}
                 </Typography>
               </StepContent>
             </Step>
@@ -1496,6 +2462,8 @@ export default GeneratedFigmaScreen;`;
             </Alert>
           </Box>
         )}
+
+        {renderStagePanel()}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Typography
+} from '@mui/material';
+import { CallSplit as ForkIcon } from '@mui/icons-material';
+import { useCreate } from '@refinedev/core';
+import VersionHistoryService, { VersionSession } from '../services/versionHistoryService';
+import ScreenBranchService, { BranchScreen, ForkKind, ForkSource, branchLabel } from '../services/screenBranchService';
+
+interface ForkScreenDialogProps {
+  open: boolean;
+  onClose: () => void;
+  screen: BranchScreen; // The screen to fork - a branch forks into a branch of the branch
+  sessions: VersionSession[]; // The screen's sessions, for its versions
+  screens: BranchScreen[]; // The project's screens, to check branch names against
+  initialSessionId?: string; // Version to fork, instead of the current code
+  onForked: (fork: BranchScreen) => void;
+}
+
+// Select value for forking current_code rather than a version
+const CURRENT_CODE = 'current';
+
+/**
+ * Forks a screen, or one of its accepted versions, into a new screen or a named branch
+ */
+const ForkScreenDialog: React.FC<ForkScreenDialogProps> = ({
+  open,
+  onClose,
+  screen,
+  sessions,
+  screens,
+  initialSessionId,
+  onForked
+}) => {
+  const [kind, setKind] = useState<ForkKind>('branch');
+  const [name, setName] = useState('');
+  const [sourceKey, setSourceKey] = useState(CURRENT_CODE);
+  const [isForking, setIsForking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { mutateAsync: createScreenAsync } = useCreate();
+  const { mutateAsync: createSessionAsync } = useCreate();
+
+  const branchService = useMemo(() => new ScreenBranchService(), []);
+  const historyService = useMemo(() => new VersionHistoryService(), []);
+  const accepted = useMemo(
+    () => historyService.buildTimeline(sessions, screen.current_code || '').versions.filter(version => version.isAccepted).reverse(),
+    [historyService, sessions, screen.current_code]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setKind('branch');
+    setName('');
+    setError(null);
+    setSourceKey(initialSessionId && accepted.some(version => version.sessionId === initialSessionId) ? initialSessionId : CURRENT_CODE);
+  }, [open, initialSessionId, accepted]);
+
+  const source = (): ForkSource => {
+    const version = accepted.find(candidate => candidate.sessionId === sourceKey);
+    if (version) return { code: version.code, sessionId: version.sessionId, versionNumber: version.number };
+    const current = accepted.find(candidate => candidate.isCurrent);
+    return { code: screen.current_code || '', sessionId: current?.sessionId, versionNumber: current?.number };
+  };
+
+  const root = branchService.rootOf(screen, screens);
+  const nameError = kind === 'branch'
+    ? name && branchService.branchNameError(name, root, screens)
+    : null;
+
+  const handleFork = async () => {
+    const from = source();
+    if (!from.code || !name.trim() || nameError) return;
+    setIsForking(true);
+    setError(null);
+    try {
+      const { data } = await createScreenAsync({
+        resource: 'screens',
+        values: branchService.forkValues(screen, from, kind, name),
+        successNotification: false
+      });
+      await createSessionAsync({
+        resource: 'vibe_sessions',
+        values: branchService.forkSessionValues(data.id as string, screen, from),
+        successNotification: false
+      });
+      console.log(`🌿 [BRANCH] Forked ${screen.name} (${branchLabel(screen)}) into ${kind} "${name.trim()}"`);
+      onForked(data as unknown as BranchScreen);
+      onClose();
+    } catch (err: any) {
+      console.error('🌿 [BRANCH] Fork failed:', err);
+      setError(err.message || 'Fork failed');
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <ForkIcon sx={{ mr: 1 }} />
+          Fork {screen.name}{screen.branch_name ? ` (${screen.branch_name})` : ''}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <RadioGroup value={kind} onChange={(e) => setKind(e.target.value as ForkKind)} sx={{ mb: 1 }}>
+          <FormControlLabel
+            value="branch"
+            control={<Radio />}
+            label={
+              <Box>
+                <Typography variant="body2">Named branch</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Listed under {root.name}; compare it with {branchLabel(root)} and merge it back when it's ready
+                </Typography>
+              </Box>
+            }
+          />
+          <FormControlLabel
+            value="screen"
+            control={<Radio />}
+            label={
+              <Box>
+                <Typography variant="body2">New screen</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  An independent copy, listed with the other screens
+                </Typography>
+              </Box>
+            }
+          />
+        </RadioGroup>
+
+        <TextField
+          autoFocus
+          fullWidth
+          margin="normal"
+          label={kind === 'branch' ? 'Branch name' : 'Screen name'}
+          placeholder={kind === 'branch' ? 'e.g. dark-header' : `${screen.name} (copy)`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          error={!!nameError}
+          helperText={nameError || ' '}
+        />
+
+        <FormControl fullWidth margin="dense">
+          <InputLabel>Start from</InputLabel>
+          <Select label="Start from" value={sourceKey} onChange={(e) => setSourceKey(e.target.value)}>
+            <MenuItem value={CURRENT_CODE}>Current code</MenuItem>
+            {accepted.map(version => (
+              <MenuItem key={version.sessionId} value={version.sessionId}>
+                v{version.number}{version.label ? ` — ${version.label}` : ''}{version.isCurrent ? ' (current)' : ''}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {!screen.current_code && sourceKey === CURRENT_CODE && (
+          <Alert severity="info" sx={{ mt: 2 }}>This screen has no code yet - pick a version to fork.</Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          startIcon={<ForkIcon />}
+          onClick={handleFork}
+          disabled={isForking || !name.trim() || !!nameError || !source().code}
+        >
+          {isForking ? 'Forking...' : kind === 'branch' ? 'Create branch' : 'Create screen'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ForkScreenDialog;
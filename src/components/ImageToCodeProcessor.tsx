@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   Box, 
   Card, 
@@ -26,6 +26,10 @@ import {
   Visibility as PreviewIcon
 } from '@mui/icons-material';
 import { useCreate, useUpdate } from '@refinedev/core';
+import { AIContextAnalysisService, AIContextAnalysis } from '../services/aiContextAnalysisService';
+import { AISemanticComponentService, SemanticComponentAnalysis } from '../services/aiSemanticComponentService';
+import { queryClaude } from '../services/claude';
+import { createStageProviders, StageModelSettings } from '../services/llmProvider';
 
 interface Screen {
   id: string;
@@ -36,10 +40,12 @@ interface Screen {
   status: 'processing' | 'iterating' | 'ready' | 'error';
   iteration_count: number;
   confidence_score?: number;
+  analysis_data?: any;
 }
 
 interface ImageToCodeProcessorProps {
   screen: Screen;
+  llmStages?: StageModelSettings;
   onComplete: () => void;
 }
 
@@ -53,6 +59,7 @@ const steps = [
 
 const ImageToCodeProcessor: React.FC<ImageToCodeProcessorProps> = ({
   screen,
+  llmStages,
   onComplete
 }) => {
   const [activeStep, setActiveStep] = useState(0);
@@ -64,8 +71,12 @@ const ImageToCodeProcessor: React.FC<ImageToCodeProcessorProps> = ({
   const { mutate: updateScreen } = useUpdate();
   const { mutate: createSession } = useCreate();
 
+  // Each run costs several model calls, so only start once per screen unless the user retries
+  const startedForScreen = useRef<string | null>(null);
+
   useEffect(() => {
-    if (screen.status === 'processing') {
+    if (screen.status === 'processing' && startedForScreen.current !== screen.id) {
+      startedForScreen.current = screen.id;
       startProcessing();
     }
   }, [screen]);
@@ -73,27 +84,67 @@ const ImageToCodeProcessor: React.FC<ImageToCodeProcessorProps> = ({
   const startProcessing = async () => {
     setIsProcessing(true);
     setError('');
+    setActiveStep(0);
 
     try {
+      const providers = createStageProviders(llmStages);
+      const aiContextAnalysisService = new AIContextAnalysisService(providers.contextAnalysis);
+      const aiSemanticComponentService = new AISemanticComponentService(providers.semanticComponents);
+
       // Step 1: Analyzing image structure
-      await simulateStep(0, "Analyzing the uploaded image structure and layout patterns...");
-      
+      console.log('🖼️ [IMAGE PROCESSOR] Step 1: Analyzing image context...');
+      const contextAnalysis = await aiContextAnalysisService.analyzeInterfaceContext(
+        screen.original_image_url,
+        screen.name,
+        'Uploaded screenshot to be rebuilt as a React + Material-UI screen'
+      );
+
       // Step 2: Identifying UI components
-      await simulateStep(1, "Identifying buttons, text fields, images, and other UI elements...");
-      
+      setActiveStep(1);
+      console.log('🖼️ [IMAGE PROCESSOR] Step 2: Identifying UI components...');
+      const semanticAnalysis = await aiSemanticComponentService.identifyComponentsFromImage(
+        screen.original_image_url,
+        contextAnalysis
+      );
+
       // Step 3: Generating initial code
-      await simulateStep(2, "Generating React component code with Material-UI components...");
-      
+      setActiveStep(2);
+      console.log('🖼️ [IMAGE PROCESSOR] Step 3: Generating code with', providers.codeGeneration.model);
+      const image = await loadScreenImage(screen.original_image_url);
+      const result = await queryClaude({
+        prompt: buildCodeGenerationPrompt(contextAnalysis, semanticAnalysis),
+        image,
+        mode: 'code-generation',
+        provider: providers.codeGeneration
+      });
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
       // Step 4: Optimizing and refining
-      const code = generateInitialCode();
-      const confidenceScore = Math.random() * 0.4 + 0.6; // 0.6-1.0
+      setActiveStep(3);
+      const code = (result.code || '').trim();
+      if (!/export\s+(default|const|function)/.test(code)) {
+        throw new Error('Generated code does not export a component');
+      }
+
+      const confidenceScore = Math.min(
+        contextAnalysis.analysisConfidence,
+        semanticAnalysis.confidence
+      );
       setGeneratedCode(code);
       setConfidence(confidenceScore);
-      await simulateStep(3, "Optimizing code structure and applying best practices...");
-      
+
+      console.log('✅ [IMAGE PROCESSOR] Code generated:', {
+        codeLength: code.length,
+        components: semanticAnalysis.components.length,
+        confidence: confidenceScore
+      });
+
       // Step 5: Complete
       setActiveStep(4);
-      
+
       // Update screen in database
       updateScreen({
         resource: 'screens',
@@ -102,7 +153,15 @@ const ImageToCodeProcessor: React.FC<ImageToCodeProcessorProps> = ({
           current_code: code,
           status: 'ready',
           confidence_score: confidenceScore,
-          iteration_count: 1
+          iteration_count: 1,
+          analysis_data: {
+            aiContextAnalysis: contextAnalysis,
+            semanticComponentAnalysis: semanticAnalysis,
+            codeGeneration: {
+              provider: providers.codeGeneration.model,
+              response: result.content
+            }
+          }
         }
       }, {
         onSuccess: () => {
@@ -112,27 +171,36 @@ const ImageToCodeProcessor: React.FC<ImageToCodeProcessorProps> = ({
             values: {
               screen_id: screen.id,
               session_type: 'initial_generation',
-              ai_response: 'Initial code generated from your uploaded screen image.',
+              ai_response: `Initial code generated from your uploaded screen image. Identified a ${contextAnalysis.interfaceType} interface with ${semanticAnalysis.components.length} components at ${(confidenceScore * 100).toFixed(0)}% confidence.`,
               generated_code: code,
-              ai_provider: 'hybrid',
+              ai_provider: providers.codeGeneration.model,
               confidence_score: confidenceScore,
               is_accepted: true
-            }
+            },
+            successNotification: false,
+            errorNotification: false
           }, {
             onSuccess: () => {
               setIsProcessing(false);
               onComplete();
+            },
+            onError: (error) => {
+              console.error('Failed to create session:', error);
+              setIsProcessing(false);
+              onComplete(); // Complete anyway since screen was updated
             }
           });
         },
         onError: (error) => {
+          console.error('Failed to update screen:', error);
           setError('Failed to save generated code');
           setIsProcessing(false);
         }
       });
 
-    } catch (err) {
-      setError('Processing failed. Please try again.');
+    } catch (err: any) {
+      console.error('❌ [IMAGE PROCESSOR] Processing failed:', err);
+      setError(`Processing failed: ${err.message || 'Unknown error'}. Please try again.`);
       setIsProcessing(false);
       
       updateScreen({
@@ -143,118 +211,6 @@ const ImageToCodeProcessor: React.FC<ImageToCodeProcessorProps> = ({
     }
   };
 
-  const simulateStep = (stepIndex: number, description: string): Promise<void> => {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        setActiveStep(stepIndex);
-        setTimeout(resolve, 1500 + Math.random() * 2000); // 1.5-3.5 seconds per step
-      }, 500);
-    });
-  };
-
-  const generateInitialCode = (): string => {
-    // This would be replaced with actual AI-generated code
-    return `import React from 'react';
-import {
-  Box,
-  Card,
-  CardContent,
-  Typography,
-  Button,
-  TextField,
-  Grid,
-  AppBar,
-  Toolbar,
-  IconButton,
-  Avatar
-} from '@mui/material';
-import {
-  Menu as MenuIcon,
-  Search as SearchIcon,
-  Notifications as NotificationsIcon
-} from '@mui/icons-material';
-
-const GeneratedScreen = () => {
-  return (
-    <Box sx={{ flexGrow: 1 }}>
-      {/* Header */}
-      <AppBar position="static">
-        <Toolbar>
-          <IconButton edge="start" color="inherit" sx={{ mr: 2 }}>
-            <MenuIcon />
-          </IconButton>
-          <Typography variant="h6" sx={{ flexGrow: 1 }}>
-            App Title
-          </Typography>
-          <IconButton color="inherit">
-            <SearchIcon />
-          </IconButton>
-          <IconButton color="inherit">
-            <NotificationsIcon />
-          </IconButton>
-          <Avatar sx={{ ml: 2 }} />
-        </Toolbar>
-      </AppBar>
-
-      {/* Main Content */}
-      <Box sx={{ p: 3 }}>
-        <Typography variant="h4" gutterBottom>
-          Welcome to Your App
-        </Typography>
-        
-        <Grid container spacing={3}>
-          <Grid item xs={12} md={6}>
-            <Card>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Quick Actions
-                </Typography>
-                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-                  <Button variant="contained" color="primary">
-                    Primary Action
-                  </Button>
-                  <Button variant="outlined" color="secondary">
-                    Secondary Action
-                  </Button>
-                </Box>
-              </CardContent>
-            </Card>
-          </Grid>
-          
-          <Grid item xs={12} md={6}>
-            <Card>
-              <CardContent>
-                <Typography variant="h6" gutterBottom>
-                  Form Section
-                </Typography>
-                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-                  <TextField
-                    label="Enter your name"
-                    variant="outlined"
-                    fullWidth
-                  />
-                  <TextField
-                    label="Enter your email"
-                    type="email"
-                    variant="outlined"
-                    fullWidth
-                  />
-                  <Button variant="contained" sx={{ alignSelf: 'flex-start' }}>
-                    Submit
-                  </Button>
-                </Box>
-              </CardContent>
-            </Card>
-          </Grid>
-        </Grid>
-      </Box>
-    </Box>
-  );
-};
-
-export default GeneratedScreen;`;
-  };
-
   const getStepIcon = (index: number) => {
     if (index < activeStep) {
       return <CompleteIcon color="success" />;
@@ -358,4 +314,56 @@ export default GeneratedScreen;`;
   );
 };
 
-export default ImageToCodeProcessor; 
\ No newline at end of file
+/**
+ * Fetch the uploaded screen so Claude can see the original pixels
+ */
+const loadScreenImage = async (imageUrl: string): Promise<File> => {
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Could not load screen image (${response.status})`);
+  }
+  const blob = await response.blob();
+  return new File([blob], 'screen.png', { type: blob.type || 'image/png' });
+};
+
+/**
+ * Turn the vision analysis into concrete guidance for the code generation call
+ */
+const buildCodeGenerationPrompt = (
+  contextAnalysis: AIContextAnalysis,
+  semanticAnalysis: SemanticComponentAnalysis
+): string => {
+  const sections = contextAnalysis.semanticSections
+    .map(section => `- ${section.name} (${section.businessPurpose}): ${section.position.description}`)
+    .join('\n');
+
+  const components = semanticAnalysis.components
+    .map(component => {
+      const bounds = component.bounds
+        ? ` at x=${Math.round(component.bounds.x)}, y=${Math.round(component.bounds.y)}, ${Math.round(component.bounds.width)}x${Math.round(component.bounds.height)}`
+        : '';
+      const text = component.textContent ? ` with text "${component.textContent}"` : '';
+      return `- ${component.suggestedMuiComponent} (${component.semanticType}, ${component.contextualRole})${bounds}${text}`;
+    })
+    .join('\n');
+
+  return `Recreate the attached screen as a single React component, matching it as closely as possible.
+
+## INTERFACE
+- Type: ${contextAnalysis.interfaceType}
+- Domain: ${contextAnalysis.domain}
+- Purpose: ${contextAnalysis.primaryPurpose}
+- Target device: ${contextAnalysis.targetDevice}
+- Design style: ${contextAnalysis.designStyle}
+- Responsive strategy: ${contextAnalysis.responsiveStrategy}
+
+## SECTIONS (top to bottom)
+${sections || '- Not identified, infer from the image'}
+
+## IDENTIFIED COMPONENTS
+${components || '- Not identified, infer from the image'}
+
+Use the exact text, colors and spacing visible in the image. Use layout (Box/Stack with flex) rather than absolute positioning, and use placeholder image URLs where the screen shows photos.`;
+};
+
+export default ImageToCodeProcessor;
@@ -1,13 +1,17 @@
 import React from 'react';
 import { Box, Typography } from '@mui/material';
 import { Visibility as PreviewIcon } from '@mui/icons-material';
+import { ThemeOptions } from '@mui/material/styles';
 import LivePreview from './LivePreview';
+import { ComponentLibraryProfile } from '../services/componentLibrary';
 
 interface LiveCodePreviewProps {
   code: string;
+  themeOptions?: ThemeOptions;
+  library?: ComponentLibraryProfile;
 }
 
-const LiveCodePreview: React.FC<LiveCodePreviewProps> = ({ code }) => {
+const LiveCodePreview: React.FC<LiveCodePreviewProps> = ({ code, themeOptions, library }) => {
   if (!code) {
     return (
       <Box sx={{ 
@@ -34,6 +38,8 @@ const LiveCodePreview: React.FC<LiveCodePreviewProps> = ({ code }) => {
         code={code}
         height={600}
         showEditor={false}
+        themeOptions={themeOptions}
+        library={library}
       />
     </Box>
   );
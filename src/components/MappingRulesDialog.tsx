@@ -0,0 +1,428 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Grid,
+  Switch,
+  FormControlLabel,
+  IconButton,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  Rule as RuleIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon
+} from '@mui/icons-material';
+import { useList, useCreate, useUpdate, useDelete } from '@refinedev/core';
+import { MappingRule, MappingRuleMatch } from '../services/mappingRuleService';
+
+interface MappingRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  projectName?: string;
+}
+
+// Form state keeps every field as text; it's parsed back into a rule on save
+interface RuleForm {
+  name: string;
+  priority: string;
+  enabled: boolean;
+  namePattern: string;
+  nodeTypes: string;
+  componentKey: string;
+  minWidth: string;
+  maxWidth: string;
+  minHeight: string;
+  maxHeight: string;
+  semanticType: string;
+  targetComponent: string;
+  propTemplate: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '0',
+  enabled: true,
+  namePattern: '',
+  nodeTypes: '',
+  componentKey: '',
+  minWidth: '',
+  maxWidth: '',
+  minHeight: '',
+  maxHeight: '',
+  semanticType: '',
+  targetComponent: '',
+  propTemplate: '{}'
+};
+
+const SIZE_FIELDS = ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const;
+
+const toForm = (rule: MappingRule): RuleForm => ({
+  name: rule.name,
+  priority: String(rule.priority),
+  enabled: rule.enabled,
+  namePattern: rule.match.namePattern || '',
+  nodeTypes: (rule.match.nodeTypes || []).join(', '),
+  componentKey: rule.match.componentKey || '',
+  minWidth: rule.match.minWidth?.toString() || '',
+  maxWidth: rule.match.maxWidth?.toString() || '',
+  minHeight: rule.match.minHeight?.toString() || '',
+  maxHeight: rule.match.maxHeight?.toString() || '',
+  semanticType: rule.match.semanticType || '',
+  targetComponent: rule.target_component,
+  propTemplate: JSON.stringify(rule.prop_template, null, 2)
+});
+
+/**
+ * Check a form and turn it into the mapping_rules columns, or return the first problem
+ */
+const parseForm = (form: RuleForm): { values?: Omit<MappingRule, 'id' | 'project_id' | 'created_at' | 'updated_at'>; error?: string } => {
+  if (!form.name.trim()) return { error: 'Give the rule a name' };
+  if (!/^[A-Z][A-Za-z0-9]*$/.test(form.targetComponent.trim())) {
+    return { error: 'Target component must be an MUI component name, e.g. Chip' };
+  }
+  if (!Number.isInteger(Number(form.priority))) return { error: 'Priority must be a whole number' };
+
+  const match: MappingRuleMatch = {};
+  if (form.namePattern.trim()) {
+    try {
+      new RegExp(form.namePattern.trim(), 'i');
+    } catch (error) {
+      return { error: `Invalid name pattern: ${(error as Error).message}` };
+    }
+    match.namePattern = form.namePattern.trim();
+  }
+  const nodeTypes = form.nodeTypes.split(',').map(type => type.trim().toUpperCase()).filter(Boolean);
+  if (nodeTypes.length > 0) match.nodeTypes = nodeTypes;
+  if (form.componentKey.trim()) match.componentKey = form.componentKey.trim();
+  if (form.semanticType.trim()) match.semanticType = form.semanticType.trim();
+  for (const field of SIZE_FIELDS) {
+    if (!form[field].trim()) continue;
+    const value = Number(form[field]);
+    if (!Number.isFinite(value) || value < 0) return { error: `${field} must be a positive number` };
+    match[field] = value;
+  }
+  if (Object.keys(match).length === 0) return { error: 'Add at least one match criterion' };
+
+  let propTemplate: Record<string, any>;
+  try {
+    propTemplate = JSON.parse(form.propTemplate || '{}');
+  } catch (error) {
+    return { error: `Prop template is not valid JSON: ${(error as Error).message}` };
+  }
+  if (!propTemplate || typeof propTemplate !== 'object' || Array.isArray(propTemplate)) {
+    return { error: 'Prop template must be a JSON object' };
+  }
+
+  return {
+    values: {
+      name: form.name.trim(),
+      priority: Number(form.priority),
+      enabled: form.enabled,
+      match,
+      target_component: form.targetComponent.trim(),
+      prop_template: propTemplate
+    }
+  };
+};
+
+const describeMatch = (match: MappingRuleMatch): string[] => [
+  match.namePattern && `name ~ /${match.namePattern}/`,
+  match.nodeTypes?.length && `type ${match.nodeTypes.join('|')}`,
+  match.componentKey && `key ${match.componentKey.slice(0, 8)}…`,
+  (match.minWidth !== undefined || match.maxWidth !== undefined) && `w ${match.minWidth ?? 0}–${match.maxWidth ?? '∞'}`,
+  (match.minHeight !== undefined || match.maxHeight !== undefined) && `h ${match.minHeight ?? 0}–${match.maxHeight ?? '∞'}`,
+  match.semanticType && `semantic ${match.semanticType}`
+].filter((entry): entry is string => Boolean(entry));
+
+const MappingRulesDialog: React.FC<MappingRulesDialogProps> = ({
+  open,
+  onClose,
+  projectId,
+  projectName
+}) => {
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: rulesData, isLoading, refetch } = useList<MappingRule>({
+    resource: 'mapping_rules',
+    filters: [{ field: 'project_id', operator: 'eq', value: projectId }],
+    sorters: [{ field: 'priority', order: 'asc' }],
+    queryOptions: { enabled: open && !!projectId }
+  });
+
+  const { mutate: createRule } = useCreate();
+  const { mutate: updateRule } = useUpdate();
+  const { mutate: deleteRule } = useDelete();
+
+  const rules = rulesData?.data || [];
+
+  const updateField = <K extends keyof RuleForm>(field: K, value: RuleForm[K]) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  const startEditing = (rule?: MappingRule) => {
+    setEditingId(rule?.id || null);
+    setForm(rule ? toForm(rule) : { ...EMPTY_FORM, priority: String(rules.length * 10) });
+    setFormError(null);
+  };
+
+  const stopEditing = () => {
+    setForm(null);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const { values, error } = parseForm(form);
+    if (!values) {
+      setFormError(error || 'Invalid rule');
+      return;
+    }
+
+    const onSuccess = () => {
+      refetch();
+      stopEditing();
+    };
+    const onError = (error: any) => setFormError(error?.message || 'Failed to save the rule');
+
+    if (editingId) {
+      updateRule({
+        resource: 'mapping_rules',
+        id: editingId,
+        values: { ...values, updated_at: new Date().toISOString() }
+      }, { onSuccess, onError });
+    } else {
+      createRule({
+        resource: 'mapping_rules',
+        values: { ...values, project_id: projectId }
+      }, { onSuccess, onError });
+    }
+  };
+
+  const handleToggle = (rule: MappingRule) => {
+    updateRule({
+      resource: 'mapping_rules',
+      id: rule.id,
+      values: { enabled: !rule.enabled, updated_at: new Date().toISOString() }
+    }, { onSuccess: () => refetch() });
+  };
+
+  const handleDelete = (rule: MappingRule) => {
+    deleteRule({ resource: 'mapping_rules', id: rule.id }, { onSuccess: () => refetch() });
+  };
+
+  const handleClose = () => {
+    stopEditing();
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <RuleIcon sx={{ mr: 1 }} />
+          Mapping Rules{projectName ? ` — ${projectName}` : ''}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Rules are tried in priority order (lowest first) before the built-in heuristics. The first rule whose criteria all match decides the MUI component and its props; changes apply the next time a screen runs the style mapping stage.
+        </Typography>
+
+        {!form && (
+          <>
+            {isLoading ? (
+              <Typography variant="body2">Loading rules...</Typography>
+            ) : rules.length === 0 ? (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                No rules yet - every node is mapped by the heuristics.
+              </Alert>
+            ) : (
+              <Table size="small" sx={{ mb: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Priority</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Matches</TableCell>
+                    <TableCell>Component</TableCell>
+                    <TableCell>Enabled</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rules.map(rule => (
+                    <TableRow key={rule.id}>
+                      <TableCell>{rule.priority}</TableCell>
+                      <TableCell>{rule.name}</TableCell>
+                      <TableCell>
+                        {describeMatch(rule.match).map(criterion => (
+                          <Chip key={criterion} label={criterion} size="small" variant="outlined" sx={{ mr: 0.5, mb: 0.5 }} />
+                        ))}
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{rule.target_component}</TableCell>
+                      <TableCell>
+                        <Switch size="small" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <IconButton size="small" onClick={() => startEditing(rule)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" onClick={() => handleDelete(rule)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <Button startIcon={<AddIcon />} onClick={() => startEditing()}>
+              Add Rule
+            </Button>
+          </>
+        )}
+
+        {form && (
+          <Box>
+            {formError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {formError}
+              </Alert>
+            )}
+            <Grid container spacing={2}>
+              <Grid item xs={12} sm={6}>
+                <TextField fullWidth size="small" label="Rule name" value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+              </Grid>
+              <Grid item xs={6} sm={3}>
+                <TextField fullWidth size="small" label="Priority" type="number" value={form.priority} onChange={(e) => updateField('priority', e.target.value)} />
+              </Grid>
+              <Grid item xs={6} sm={3}>
+                <FormControlLabel
+                  control={<Switch checked={form.enabled} onChange={(e) => updateField('enabled', e.target.checked)} />}
+                  label="Enabled"
+                />
+              </Grid>
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">Match</Typography>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Node name (regex)"
+                  placeholder="^Badge/"
+                  value={form.namePattern}
+                  onChange={(e) => updateField('namePattern', e.target.value)}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Node types"
+                  placeholder="INSTANCE, FRAME"
+                  value={form.nodeTypes}
+                  onChange={(e) => updateField('nodeTypes', e.target.value)}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Component key"
+                  helperText="Key of the main component or its component set"
+                  value={form.componentKey}
+                  onChange={(e) => updateField('componentKey', e.target.value)}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Semantic type"
+                  placeholder="pill_badge"
+                  helperText="As detected by the semantic components stage"
+                  value={form.semanticType}
+                  onChange={(e) => updateField('semanticType', e.target.value)}
+                />
+              </Grid>
+              {SIZE_FIELDS.map(field => (
+                <Grid item xs={6} sm={3} key={field}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label={{ minWidth: 'Min width', maxWidth: 'Max width', minHeight: 'Min height', maxHeight: 'Max height' }[field]}
+                    value={form[field]}
+                    onChange={(e) => updateField(field, e.target.value)}
+                  />
+                </Grid>
+              ))}
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">Output</Typography>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="MUI component"
+                  placeholder="Chip"
+                  value={form.targetComponent}
+                  onChange={(e) => updateField('targetComponent', e.target.value)}
+                />
+              </Grid>
+              <Grid item xs={12} sm={8}>
+                <TextField
+                  fullWidth
+                  multiline
+                  minRows={4}
+                  size="small"
+                  label="Prop template (JSON)"
+                  helperText="Strings may use {{text}}, {{name}}, {{width}}, {{height}} and {{props.<Figma property>}}"
+                  value={form.propTemplate}
+                  onChange={(e) => updateField('propTemplate', e.target.value)}
+                  InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.85rem' } }}
+                />
+              </Grid>
+            </Grid>
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        {form ? (
+          <>
+            <Button onClick={stopEditing}>Back</Button>
+            <Button onClick={handleSave} variant="contained">
+              {editingId ? 'Save Rule' : 'Create Rule'}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={handleClose}>Close</Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MappingRulesDialog;
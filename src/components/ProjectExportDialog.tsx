@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  LinearProgress
+} from '@mui/material';
+import { Archive as ExportIcon, Download as DownloadIcon } from '@mui/icons-material';
+import { useList } from '@refinedev/core';
+import ProjectExportService, { ExportScreenRecord } from '../services/projectExportService';
+
+interface ProjectExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  projectName?: string;
+}
+
+const downloadArchive = (fileName: string, data: Uint8Array) => {
+  const url = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports the project's screens as a runnable Vite + MUI app. Shows what the archive will contain
+ * before the assets are downloaded into it.
+ */
+const ProjectExportDialog: React.FC<ProjectExportDialogProps> = ({ open, onClose, projectId, projectName }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failedAssets, setFailedAssets] = useState<number | null>(null);
+
+  const { data: screensData, isLoading } = useList<ExportScreenRecord & { updated_at: string; branch_name?: string | null }>({
+    resource: 'screens',
+    filters: [{ field: 'project_id', operator: 'eq', value: projectId }],
+    sorters: [{ field: 'updated_at', order: 'desc' }],
+    pagination: { mode: 'off' },
+    queryOptions: { enabled: open && !!projectId }
+  });
+
+  const exportService = useMemo(() => new ProjectExportService(), []);
+
+  // Branches are work in progress on a screen - the app gets the screens themselves
+  const screens = useMemo(() => (screensData?.data || []).filter(screen => !screen.branch_name), [screensData]);
+
+  const plan = useMemo(() => {
+    if (!screensData) return null;
+    try {
+      return { project: exportService.buildProject(projectName || 'figma-app', screens), error: null };
+    } catch (err: any) {
+      return { project: null, error: err.message as string };
+    }
+  }, [screensData, screens, exportService, projectName]);
+
+  const handleExport = async () => {
+    if (!plan?.project) return;
+    setIsExporting(true);
+    setError(null);
+    setFailedAssets(null);
+    try {
+      const archive = await exportService.createArchive(plan.project);
+      downloadArchive(archive.fileName, archive.data);
+      setFailedAssets(archive.failedAssets.length);
+    } catch (err: any) {
+      console.error('📦 [EXPORT] Export failed:', err);
+      setError(err.message || 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const project = plan?.project;
+  const skipped = screens.filter(screen => !screen.current_code?.trim());
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <ExportIcon sx={{ mr: 1 }} />
+          Export Project{projectName ? ` — ${projectName}` : ''}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {isLoading && <LinearProgress sx={{ mb: 2 }} />}
+        {plan?.error && <Alert severity="info">{plan.error}</Alert>}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {failedAssets !== null && (
+          <Alert severity={failedAssets > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+            {failedAssets > 0
+              ? `Exported. ${failedAssets} image ${failedAssets === 1 ? 'asset' : 'assets'} couldn't be downloaded - the code still loads them from Figma, whose image links expire.`
+              : 'Exported. Unzip it, then run npm install && npm run dev.'}
+          </Alert>
+        )}
+
+        {project && (
+          <>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              A Vite + MUI app with each screen's accepted code behind a route. Unzip it, then run{' '}
+              <code>npm install &amp;&amp; npm run dev</code>.
+            </Typography>
+
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Screen</TableCell>
+                  <TableCell>Route</TableCell>
+                  <TableCell>Shared components</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {project.screens.map(screen => (
+                  <TableRow key={screen.screenId}>
+                    <TableCell>{screen.name}</TableCell>
+                    <TableCell><code>{screen.path}</code></TableCell>
+                    <TableCell>{screen.sharedComponents.length > 0 ? screen.sharedComponents.join(', ') : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+              <Chip size="small" label={`${project.sharedComponents.length} shared components`} />
+              <Chip size="small" label={project.themeFrom ? `Theme from ${project.themeFrom}` : 'Default MUI theme'} />
+              <Chip size="small" label={`${project.assets.length} image assets`} />
+            </Box>
+
+            {skipped.length > 0 && (
+              <Alert severity="info" sx={{ mb: 1 }}>
+                Without generated code, not exported: {skipped.map(screen => screen.name).join(', ')}
+              </Alert>
+            )}
+            {project.warnings.map(warning => (
+              <Alert key={warning} severity="warning" sx={{ mb: 1 }}>{warning}</Alert>
+            ))}
+          </>
+        )}
+        {isExporting && <LinearProgress sx={{ mt: 2 }} />}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={<DownloadIcon />}
+          onClick={handleExport}
+          disabled={!project || isExporting}
+        >
+          {isExporting ? 'Exporting...' : 'Download zip'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProjectExportDialog;
@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tabs,
+  Tab
+} from '@mui/material';
+import { AccountTree as FlowIcon, Add as AddIcon } from '@mui/icons-material';
+import { useList, useCreate } from '@refinedev/core';
+import FigmaService from '../services/figmaService';
+import PrototypeFlowService, { FlowScreen, PROTOTYPE_PREVIEW_ENTRY } from '../services/prototypeFlowService';
+import { getComponentLibrary } from '../services/componentLibrary';
+import SandboxedPreview from './SandboxedPreview';
+
+interface PrototypeAppDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  projectName?: string;
+  componentLibrary?: string; // Component library profile id of the project
+}
+
+interface FlowScreenRecord {
+  id: string;
+  name: string;
+  figma_url?: string;
+  current_code?: string;
+  status: string;
+  analysis_data?: any;
+  branch_name?: string | null;
+  updated_at: string;
+}
+
+type FigmaScreenRecord = FlowScreenRecord & { figma_url: string };
+
+// Same format the upload dialog accepts, pointing at one frame
+const frameUrl = (fileKey: string, nodeId: string) =>
+  `https://www.figma.com/file/${fileKey}/?node-id=${encodeURIComponent(nodeId.replace(/:/g, '-'))}`;
+
+/**
+ * The project's screens as one React Router app: the prototype connections between their Figma frames
+ * become routes and click handlers. Frames the screens link to can be added as screens.
+ */
+const PrototypeAppDialog: React.FC<PrototypeAppDialogProps> = ({ open, onClose, projectId, projectName, componentLibrary }) => {
+  const [tab, setTab] = useState<'flow' | 'preview' | 'app'>('flow');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: screensData, refetch } = useList<FlowScreenRecord>({
+    resource: 'screens',
+    filters: [{ field: 'project_id', operator: 'eq', value: projectId }],
+    sorters: [{ field: 'updated_at', order: 'desc' }],
+    pagination: { mode: 'off' },
+    queryOptions: { enabled: open && !!projectId }
+  });
+  const { mutateAsync: createScreenAsync } = useCreate();
+
+  const figmaService = useMemo(() => new FigmaService(), []);
+  const flowService = useMemo(() => new PrototypeFlowService(), []);
+  const library = useMemo(() => getComponentLibrary(componentLibrary), [componentLibrary]);
+
+  // The flow comes from the most recently generated screen's Figma file; screens from other files aren't part of it
+  const app = useMemo(() => {
+    const screens = (screensData?.data || []).filter((screen): screen is FigmaScreenRecord => !!screen.figma_url && !screen.branch_name);
+    const source = screens.find(screen => screen.analysis_data?.figmaData?.styleMapping);
+    if (!source) return null;
+
+    const fileKey = figmaService.extractFileKey(source.figma_url);
+    const figmaData = source.analysis_data.figmaData;
+    const flow = flowService.buildFlow(figmaData.styleMapping.components, figmaData.fileData);
+
+    // Each screen's frame, picked the way the generator picks it
+    const screenFrames = screens
+      .filter(screen => figmaService.extractFileKey(screen.figma_url) === fileKey)
+      .map(screen => {
+        const nodeId = figmaService.extractNodeId(screen.figma_url);
+        const frame = flow.frames.find(candidate => candidate.nodeId === nodeId) || flow.frames[0];
+        return { screen, frameId: frame?.nodeId };
+      })
+      .filter((entry): entry is { screen: FigmaScreenRecord; frameId: string } => !!entry.frameId);
+
+    // One screen per frame - the most recently updated wins
+    const screenOf = (frameId: string) => screenFrames.find(entry => entry.frameId === frameId)?.screen;
+    const reachable = flowService.reachableFrames(flow, screenFrames.map(entry => entry.frameId));
+    const missing = reachable.filter(frame => !screenOf(frame.nodeId));
+
+    const flowScreens: FlowScreen[] = reachable.flatMap(frame => {
+      const screen = screenOf(frame.nodeId);
+      return screen?.current_code ? [{ frameId: frame.nodeId, code: screen.current_code }] : [];
+    });
+
+    let files: Record<string, string> | null = null;
+    let filesError: string | null = null;
+    try {
+      files = flowScreens.length > 0 ? flowService.appFiles(flow, flowScreens) : null;
+    } catch (err: any) {
+      filesError = err.message;
+    }
+
+    return {
+      fileKey,
+      flow,
+      reachable,
+      missing,
+      screenOf,
+      files,
+      filesError,
+      themeOptions: source.analysis_data.designTokenExport?.themeOptions
+    };
+  }, [screensData, figmaService, flowService]);
+
+  const createMissingScreens = async () => {
+    if (!app) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      for (const frame of app.missing) {
+        await createScreenAsync({
+          resource: 'screens',
+          values: {
+            project_id: projectId,
+            name: frame.name,
+            figma_url: frameUrl(app.fileKey, frame.nodeId),
+            figma_file_key: app.fileKey,
+            status: 'processing'
+          },
+          successNotification: false
+        });
+      }
+      refetch();
+    } catch (err: any) {
+      console.error('🔗 [PROTOTYPE] Failed to create screens:', err);
+      setError(err.message || 'Failed to create screens');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <FlowIcon sx={{ mr: 1 }} />
+          Prototype App{projectName ? ` — ${projectName}` : ''}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {!app ? (
+          <Alert severity="info">
+            Generate a screen from Figma first - the app is built from the prototype connections in its file.
+          </Alert>
+        ) : (
+          <>
+            <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+              <Tab value="flow" label="Flow" />
+              <Tab value="preview" label="Preview" disabled={!app.files} />
+              <Tab value="app" label="App.tsx" disabled={!app.files} />
+            </Tabs>
+
+            {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+            {app.filesError && <Alert severity="warning" sx={{ mb: 2 }}>{app.filesError}</Alert>}
+
+            {tab === 'flow' && (
+              <>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                  Frames the project's screens lead to through click connections. Each frame is a route;
+                  linked elements navigate with React Router. Screens generated before their links were
+                  read need to be regenerated.
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Frame</TableCell>
+                      <TableCell>Route</TableCell>
+                      <TableCell>Screen</TableCell>
+                      <TableCell>Links to</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {app.reachable.map(frame => {
+                      const screen = app.screenOf(frame.nodeId);
+                      const destinations = Array.from(new Set(app.flow.links
+                        .filter(link => link.frameId === frame.nodeId)
+                        .map(link => app.flow.frames.find(other => other.nodeId === link.destinationId)?.path)));
+                      return (
+                        <TableRow key={frame.nodeId}>
+                          <TableCell>
+                            {frame.name}
+                            {frame.nodeId === app.flow.startFrameId && <Chip size="small" label="Start" sx={{ ml: 1 }} />}
+                          </TableCell>
+                          <TableCell><code>{frame.path}</code></TableCell>
+                          <TableCell>
+                            {screen
+                              ? <Chip size="small" label={`${screen.name} · ${screen.status}`} color={screen.current_code ? 'success' : 'default'} />
+                              : <Chip size="small" variant="outlined" label="No screen" />}
+                          </TableCell>
+                          <TableCell>{destinations.join(', ') || '—'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+
+            {tab === 'preview' && app.files && (
+              <SandboxedPreview
+                code={PROTOTYPE_PREVIEW_ENTRY}
+                files={app.files}
+                themeOptions={app.themeOptions}
+                library={library}
+                height={600}
+              />
+            )}
+
+            {tab === 'app' && app.files && (
+              <Box component="pre" sx={{ m: 0, p: 2, bgcolor: '#1e1e1e', color: '#d4d4d4', borderRadius: 1, overflow: 'auto', fontSize: 13 }}>
+                {app.files['./App']}
+              </Box>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        {app && app.missing.length > 0 && (
+          <Button startIcon={<AddIcon />} onClick={createMissingScreens} disabled={isCreating}>
+            Add {app.missing.length} linked {app.missing.length === 1 ? 'frame' : 'frames'} as screens
+          </Button>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PrototypeAppDialog;
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  IconButton
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  PhoneIphone as PhoneIcon,
+  TabletMac as TabletIcon,
+  DesktopWindows as DesktopIcon,
+  Fullscreen as ResponsiveIcon
+} from '@mui/icons-material';
+import { ThemeOptions } from '@mui/material/styles';
+import { ComponentLibraryProfile } from '../services/componentLibrary';
+import {
+  isSandboxData,
+  SANDBOX_PERMISSIONS,
+  SANDBOX_URL,
+  SandboxErrorKind,
+  SandboxRenderRequest,
+  withChannel
+} from '../sandbox/protocol';
+
+export type PreviewViewport = 'responsive' | 'mobile' | 'tablet' | 'desktop';
+
+export interface PreviewViewportSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+const VIEWPORTS: Record<Exclude<PreviewViewport, 'responsive'>, PreviewViewportSize> = {
+  mobile: { label: 'Mobile', width: 390, height: 844 },
+  tablet: { label: 'Tablet', width: 768, height: 1024 },
+  desktop: { label: 'Desktop', width: 1440, height: 900 }
+};
+
+interface SandboxedPreviewProps {
+  code: string;
+  files?: Record<string, string>; // Local modules the code imports, e.g. the screens of a routed app
+  themeOptions?: ThemeOptions;
+  library?: ComponentLibraryProfile;
+  height?: number; // Minimum height of the responsive viewport, which grows with the content
+  viewport?: PreviewViewport | PreviewViewportSize; // A size of its own fixes the viewport - there's no toggle
+  timeoutMs?: number; // How long a render may take before the sandbox is replaced
+  onRendered?: (size: { width: number; height: number }) => void;
+}
+
+interface PreviewFailure {
+  kind: SandboxErrorKind;
+  message: string;
+}
+
+/**
+ * Renders generated code in an iframe with its own document and React root (src/sandbox), so errors,
+ * runaway effects and global styles stay out of the studio. The frame has an opaque origin, so the
+ * code can't reach the studio's window, storage or session either. Code updates are posted to the
+ * frame; a frame that doesn't answer in time is thrown away and reloaded.
+ */
+const SandboxedPreview: React.FC<SandboxedPreviewProps> = ({
+  code,
+  files,
+  themeOptions,
+  library,
+  height = 400,
+  viewport: initialViewport = 'responsive',
+  timeoutMs = 5000,
+  onRendered
+}) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const requestId = useRef(0);
+  const watchdog = useRef<ReturnType<typeof setTimeout>>();
+  const timedOutCode = useRef<string | null>(null);
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
+
+  const [frameKey, setFrameKey] = useState(0);
+  const [isReady, setIsReady] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const [failure, setFailure] = useState<PreviewFailure | null>(null);
+  const [contentSize, setContentSize] = useState<{ width: number; height: number } | null>(null);
+  const custom = typeof initialViewport === 'object' ? initialViewport : null;
+  const [viewport, setViewport] = useState<PreviewViewport>(custom ? 'responsive' : initialViewport as PreviewViewport);
+  const [availableWidth, setAvailableWidth] = useState(0);
+
+  const sendCode = useCallback(() => {
+    const frame = frameRef.current?.contentWindow;
+    if (!frame || timedOutCode.current === code) return;
+
+    const request: SandboxRenderRequest = {
+      type: 'render',
+      id: ++requestId.current,
+      code,
+      files,
+      // Only plain data can be posted - functions in the theme are dropped
+      themeOptions: themeOptions ? JSON.parse(JSON.stringify(themeOptions)) : undefined,
+      libraryId: library?.id
+    };
+    setIsRendering(true);
+    // An opaque origin can't be named as the target - replies are matched by their source window instead
+    frame.postMessage(withChannel(request), '*');
+
+    clearTimeout(watchdog.current);
+    watchdog.current = setTimeout(() => {
+      console.warn('⏱️ [SANDBOX] Render timed out, reloading the sandbox');
+      timedOutCode.current = code;
+      setFailure({
+        kind: 'timeout',
+        message: `The preview didn't finish rendering within ${timeoutMs / 1000}s and was stopped. ` +
+          'Look for effects that update state on every render, or loops and timers that never end.'
+      });
+      setIsRendering(false);
+      setIsReady(false);
+      setFrameKey(key => key + 1);
+    }, timeoutMs);
+  }, [code, files, themeOptions, library, timeoutMs]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow || !isSandboxData(event.data)) return;
+      const message = event.data;
+
+      if (message.type === 'ready') {
+        setIsReady(true);
+        return;
+      }
+      if (message.type === 'render' || message.id !== requestId.current) return;
+
+      clearTimeout(watchdog.current);
+      setIsRendering(false);
+      if (message.type === 'rendered') {
+        setFailure(null);
+        setContentSize(message.size);
+        onRenderedRef.current?.(message.size);
+      } else {
+        setFailure({ kind: message.kind, message: message.message });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (timedOutCode.current !== code) {
+      timedOutCode.current = null;
+    }
+    if (isReady) {
+      sendCode();
+    }
+  }, [isReady, sendCode]);
+
+  useEffect(() => () => clearTimeout(watchdog.current), []);
+
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+    const observer = new ResizeObserver(entries => setAvailableWidth(entries[0].contentRect.width));
+    observer.observe(area);
+    return () => observer.disconnect();
+  }, []);
+
+  const reload = () => {
+    clearTimeout(watchdog.current);
+    timedOutCode.current = null;
+    setFailure(null);
+    setIsReady(false);
+    setFrameKey(key => key + 1);
+  };
+
+  const fixed = custom || (viewport === 'responsive' ? null : VIEWPORTS[viewport]);
+  const frameWidth = fixed ? fixed.width : availableWidth;
+  const frameHeight = fixed ? fixed.height : Math.max(height, contentSize?.height || 0);
+  // Fixed viewports wider than the panel are scaled down to fit
+  const scale = fixed && availableWidth > 0 ? Math.min(1, availableWidth / fixed.width) : 1;
+
+  return (
+    <Box sx={{ border: '1px solid #e0e0e0', borderRadius: 1, overflow: 'hidden' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 1, py: 0.5, borderBottom: '1px solid #e0e0e0' }}>
+        {custom ? (
+          <Typography variant="subtitle2">{custom.label}</Typography>
+        ) : (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={viewport}
+            onChange={(_, value: PreviewViewport | null) => value && setViewport(value)}
+          >
+            <ToggleButton value="responsive" aria-label="Responsive">
+              <Tooltip title="Responsive"><ResponsiveIcon fontSize="small" /></Tooltip>
+            </ToggleButton>
+            <ToggleButton value="mobile" aria-label="Mobile">
+              <Tooltip title={`Mobile (${VIEWPORTS.mobile.width}×${VIEWPORTS.mobile.height})`}><PhoneIcon fontSize="small" /></Tooltip>
+            </ToggleButton>
+            <ToggleButton value="tablet" aria-label="Tablet">
+              <Tooltip title={`Tablet (${VIEWPORTS.tablet.width}×${VIEWPORTS.tablet.height})`}><TabletIcon fontSize="small" /></Tooltip>
+            </ToggleButton>
+            <ToggleButton value="desktop" aria-label="Desktop">
+              <Tooltip title={`Desktop (${VIEWPORTS.desktop.width}×${VIEWPORTS.desktop.height})`}><DesktopIcon fontSize="small" /></Tooltip>
+            </ToggleButton>
+          </ToggleButtonGroup>
+        )}
+        <Typography variant="caption" color="text.secondary">
+          {Math.round(frameWidth)}×{Math.round(frameHeight)}
+          {scale < 1 && ` at ${Math.round(scale * 100)}%`}
+        </Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        {failure && <Chip size="small" color="error" label={failure.kind === 'compile' ? 'Compile error' : failure.kind === 'timeout' ? 'Timed out' : 'Runtime error'} />}
+        <Tooltip title="Reload the sandbox">
+          <IconButton size="small" onClick={reload}>
+            <RefreshIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {(isRendering || !isReady) && <LinearProgress />}
+
+      <Box ref={areaRef} sx={{ backgroundColor: '#f5f5f5', overflow: 'hidden' }}>
+        <Box sx={{ width: frameWidth * scale, height: frameHeight * scale, mx: 'auto' }}>
+          <iframe
+            key={frameKey}
+            ref={frameRef}
+            src={SANDBOX_URL}
+            title="Component preview"
+            sandbox={SANDBOX_PERMISSIONS}
+            style={{
+              width: frameWidth,
+              height: frameHeight,
+              border: 0,
+              display: 'block',
+              backgroundColor: '#ffffff',
+              transform: scale < 1 ? `scale(${scale})` : undefined,
+              transformOrigin: 'top left'
+            }}
+          />
+        </Box>
+      </Box>
+
+      {failure && (
+        <Alert severity={failure.kind === 'timeout' ? 'warning' : 'error'} sx={{ borderRadius: 0, borderTop: '1px solid #e0e0e0' }}>
+          <Box component="pre" sx={{ m: 0, fontFamily: 'monospace', fontSize: 13, whiteSpace: 'pre-wrap' }}>
+            {failure.message}
+          </Box>
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default SandboxedPreview;
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { Box, Button, Chip, FormControl, InputLabel, MenuItem, Select, Typography } from '@mui/material';
+import { CallSplit as ForkIcon, CompareArrows as CompareIcon, MergeType as MergeIcon } from '@mui/icons-material';
+import ScreenBranchService, { BranchScreen, MAIN_BRANCH, branchLabel, isBranch } from '../services/screenBranchService';
+
+interface ScreenBranchBarProps<T extends BranchScreen> {
+  screen: T; // The selected screen or branch
+  screens: T[]; // The project's screens
+  onSelectScreen: (screen: T) => void;
+  onFork: () => void;
+  onCompare: (rightId?: string) => void;
+}
+
+/**
+ * Branch switcher for the selected screen: every tab then works on the chosen branch. Also where
+ * forks are made and branches compared and merged.
+ */
+const ScreenBranchBar = <T extends BranchScreen>({
+  screen,
+  screens,
+  onSelectScreen,
+  onFork,
+  onCompare
+}: ScreenBranchBarProps<T>) => {
+  const branchService = useMemo(() => new ScreenBranchService(), []);
+  const root = branchService.rootOf(screen, screens);
+  const branches = branchService.branchesOf(root, screens);
+  const mergeTarget = branchService.mergeTargetOf(screen, screens);
+  const forkedFrom = !isBranch(screen) && screens.find(candidate => candidate.id === screen.forked_from_screen_id);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+      <Typography variant="subtitle1" sx={{ mr: 1 }}>
+        {root.name}
+      </Typography>
+      {branches.length > 0 && (
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel>Branch</InputLabel>
+          <Select
+            label="Branch"
+            value={screen.id}
+            onChange={(e) => {
+              const next = [root, ...branches].find(candidate => candidate.id === e.target.value);
+              if (next) onSelectScreen(next);
+            }}
+          >
+            <MenuItem value={root.id}>{MAIN_BRANCH}</MenuItem>
+            {branches.map(branch => (
+              <MenuItem key={branch.id} value={branch.id}>{branchLabel(branch)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      {forkedFrom && (
+        <Chip
+          size="small"
+          icon={<ForkIcon />}
+          label={`Forked from ${forkedFrom.name}`}
+          onClick={() => onSelectScreen(forkedFrom)}
+        />
+      )}
+      <Box sx={{ flexGrow: 1 }} />
+      <Button size="small" startIcon={<ForkIcon />} onClick={onFork} disabled={!screen.current_code}>
+        Fork
+      </Button>
+      {branches.length > 0 && (
+        <Button size="small" startIcon={<CompareIcon />} onClick={() => onCompare(isBranch(screen) ? screen.id : undefined)}>
+          Compare branches
+        </Button>
+      )}
+      {mergeTarget && (
+        <Button size="small" variant="outlined" startIcon={<MergeIcon />} onClick={() => onCompare(screen.id)}>
+          Merge into {branchLabel(mergeTarget)}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default ScreenBranchBar;
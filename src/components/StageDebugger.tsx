@@ -30,15 +30,14 @@ import {
 import FigmaService from '../services/figmaService';
 import SemanticGroupingService, { SemanticGroupingResult } from '../services/semanticGroupingService';
 import GPTVisionService, { GPTVisionAnalysis } from '../services/gptVisionService';
+import { createLLMProvider, StageModelSettings } from '../services/llmProvider';
 
 interface StageDebuggerProps {
-  figmaToken: string;
-  openaiApiKey: string;
+  llmStages?: StageModelSettings;
 }
 
 const StageDebugger: React.FC<StageDebuggerProps> = ({
-  figmaToken,
-  openaiApiKey
+  llmStages
 }) => {
   const [currentTab, setCurrentTab] = useState(0);
   const [figmaUrl, setFigmaUrl] = useState('CbS1cPHwdvmOJfPJFzKodU');
@@ -61,7 +60,9 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
     
     try {
       console.log('🔍 Running Stage 3A: Semantic Grouping...');
-      const semanticGroupingService = new SemanticGroupingService(openaiApiKey);
+      const semanticGroupingService = new SemanticGroupingService(
+        createLLMProvider('semanticGrouping', llmStages?.semanticGrouping)
+      );
       
       const result = await semanticGroupingService.groupComponents(
         figmaData.figmaFile,
@@ -89,7 +90,9 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
     
     try {
       console.log('🎨 Running Stage 3B: Visual Validation...');
-      const gptVisionService = new GPTVisionService(openaiApiKey);
+      const gptVisionService = new GPTVisionService(
+        createLLMProvider('visionAnalysis', llmStages?.visionAnalysis)
+      );
       
       const result = await gptVisionService.analyzeSemanticGroups(
         figmaData.figmaFile,
@@ -112,7 +115,7 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
     setError('');
     
     try {
-      const figmaService = new FigmaService(figmaToken);
+      const figmaService = new FigmaService();
       
       // Extract file key and fetch data
       const fileKey = figmaService.extractFileKey(figmaUrl);
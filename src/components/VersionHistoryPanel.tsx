@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Button,
+  IconButton,
+  Tooltip,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
+} from '@mui/material';
+import {
+  History as HistoryIcon,
+  Restore as RevertIcon,
+  Flag as FlagIcon,
+  OutlinedFlag as AddMilestoneIcon,
+  CallSplit as ForkIcon
+} from '@mui/icons-material';
+import { DiffEditor } from '@monaco-editor/react';
+import { useCreate, useUpdate } from '@refinedev/core';
+import VersionHistoryService, { ScreenVersion, VersionSession, sessionTypeLabel } from '../services/versionHistoryService';
+
+interface Screen {
+  id: string;
+  name: string;
+  current_code?: string;
+  iteration_count: number;
+}
+
+interface VersionHistoryPanelProps {
+  screen: Screen;
+  sessions: VersionSession[];
+  onSessionUpdate: () => void;
+  onScreenUpdate: () => void;
+  onFork?: (version: ScreenVersion) => void; // Fork an accepted version into a screen or branch
+}
+
+// Select value for the screen's current_code when no version holds it
+const UNSAVED_CURRENT = 'current';
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+/**
+ * The screen's versions, oldest at the bottom, with a side-by-side diff between any two of them.
+ * Reverting makes the chosen version current again as a new version; milestones name versions
+ * worth finding again.
+ */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  screen,
+  sessions,
+  onSessionUpdate,
+  onScreenUpdate,
+  onFork
+}) => {
+  const [fromKey, setFromKey] = useState('');
+  const [toKey, setToKey] = useState('');
+  const [milestonesOnly, setMilestonesOnly] = useState(false);
+  const [labelling, setLabelling] = useState<ScreenVersion | null>(null);
+  const [labelText, setLabelText] = useState('');
+  const [isReverting, setIsReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { mutateAsync: createSessionAsync } = useCreate();
+  const { mutateAsync: updateScreenAsync } = useUpdate();
+  const { mutate: updateSession } = useUpdate();
+
+  const historyService = useMemo(() => new VersionHistoryService(), []);
+  const timeline = useMemo(
+    () => historyService.buildTimeline(sessions, screen.current_code || ''),
+    [historyService, sessions, screen.current_code]
+  );
+  const { versions, currentIsSaved } = timeline;
+
+  const codeOf = (key: string): string => {
+    if (key === UNSAVED_CURRENT) return screen.current_code || '';
+    return versions.find(version => version.sessionId === key)?.code || '';
+  };
+
+  const titleOf = (key: string): string => {
+    if (key === UNSAVED_CURRENT) return 'Current code (not a saved version)';
+    const version = versions.find(candidate => candidate.sessionId === key);
+    return version ? `v${version.number}${version.label ? ` — ${version.label}` : ''}` : '';
+  };
+
+  // Start on the newest change: the previous version against the current code
+  useEffect(() => {
+    const keys = [...versions.map(version => version.sessionId), ...(currentIsSaved ? [] : [UNSAVED_CURRENT])];
+    if (keys.includes(fromKey) && keys.includes(toKey)) return;
+    const current = currentIsSaved ? versions.find(version => version.isCurrent)?.sessionId : UNSAVED_CURRENT;
+    const to = current || keys[keys.length - 1] || '';
+    setToKey(to);
+    setFromKey(keys[Math.max(0, keys.indexOf(to) - 1)] || '');
+  }, [versions, currentIsSaved, fromKey, toKey]);
+
+  // Clicking a version compares it with the one before
+  const handleSelectVersion = (version: ScreenVersion) => {
+    setToKey(version.sessionId);
+    setFromKey(versions[Math.max(0, version.number - 2)].sessionId);
+  };
+
+  const handleRevert = async (version: ScreenVersion) => {
+    setIsReverting(true);
+    setError(null);
+    try {
+      // Keep code that never went through a session, so reverting doesn't lose it
+      if (!currentIsSaved && screen.current_code) {
+        await createSessionAsync({
+          resource: 'vibe_sessions',
+          values: {
+            screen_id: screen.id,
+            session_type: 'snapshot',
+            ai_response: `Saved the current code before reverting to v${version.number}.`,
+            generated_code: screen.current_code,
+            is_accepted: true
+          },
+          successNotification: false
+        });
+      }
+
+      await createSessionAsync({
+        resource: 'vibe_sessions',
+        values: {
+          screen_id: screen.id,
+          session_type: 'revert',
+          ai_response: `Reverted the screen to v${version.number}${version.label ? ` (${version.label})` : ''}.`,
+          generated_code: version.code,
+          reverted_to_session_id: version.sessionId,
+          is_accepted: true
+        },
+        successNotification: false
+      });
+
+      await updateScreenAsync({
+        resource: 'screens',
+        id: screen.id,
+        values: {
+          current_code: version.code,
+          status: 'ready',
+          iteration_count: screen.iteration_count + 1
+        },
+        successNotification: false
+      });
+
+      console.log(`🕘 [HISTORY] ${screen.name} reverted to v${version.number}`);
+      onSessionUpdate();
+      onScreenUpdate();
+    } catch (err: any) {
+      console.error('🕘 [HISTORY] Revert failed:', err);
+      setError(err.message || 'Revert failed');
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const handleOpenLabel = (version: ScreenVersion) => {
+    setLabelling(version);
+    setLabelText(version.label || '');
+  };
+
+  const handleSaveLabel = (label: string) => {
+    if (!labelling) return;
+    updateSession({
+      resource: 'vibe_sessions',
+      id: labelling.sessionId,
+      values: { milestone_label: label.trim() || null },
+      successNotification: false
+    }, {
+      onSuccess: () => onSessionUpdate(),
+      onError: (err) => setError(err.message || 'Failed to save the milestone')
+    });
+    setLabelling(null);
+  };
+
+  const shown = [...versions].reverse().filter(version => !milestonesOnly || version.label);
+  const compareOptions = [
+    ...(currentIsSaved ? [] : [{ key: UNSAVED_CURRENT, title: titleOf(UNSAVED_CURRENT) }]),
+    ...[...versions].reverse().map(version => ({ key: version.sessionId, title: titleOf(version.sessionId) }))
+  ];
+
+  if (versions.length === 0) {
+    return (
+      <Alert severity="info">
+        No versions yet. Every generation, refinement and vibe chat edit of this screen is recorded here.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', gap: 2, height: '75vh' }}>
+      <Paper variant="outlined" sx={{ width: 360, flexShrink: 0, display: 'flex', flexDirection: 'column' }}>
+        <Box sx={{ p: 2, pb: 1, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+            <HistoryIcon sx={{ mr: 1 }} />
+            {versions.length} {versions.length === 1 ? 'version' : 'versions'}
+          </Typography>
+          <FormControlLabel
+            control={<Switch size="small" checked={milestonesOnly} onChange={(e) => setMilestonesOnly(e.target.checked)} />}
+            label="Milestones"
+          />
+        </Box>
+        {!currentIsSaved && (
+          <Alert severity="warning" sx={{ mx: 2, mb: 1 }}>
+            The current code was changed outside a session. Reverting saves it as a version first.
+          </Alert>
+        )}
+
+        <List dense sx={{ overflow: 'auto', flex: 1 }}>
+          {shown.map(version => (
+            <ListItem
+              key={version.sessionId}
+              disablePadding
+              secondaryAction={
+                <Box>
+                  {onFork && version.isAccepted && (
+                    <Tooltip title={`Fork v${version.number}`}>
+                      <IconButton size="small" onClick={() => onFork(version)}>
+                        <ForkIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title={version.label ? 'Rename milestone' : 'Mark as milestone'}>
+                    <IconButton size="small" onClick={() => handleOpenLabel(version)}>
+                      {version.label ? <FlagIcon fontSize="small" color="primary" /> : <AddMilestoneIcon fontSize="small" />}
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={version.isCurrent ? 'This is the current code' : `Revert to v${version.number}`}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleRevert(version)}
+                        disabled={version.isCurrent || isReverting}
+                      >
+                        <RevertIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemButton selected={version.sessionId === toKey} onClick={() => handleSelectVersion(version)} sx={{ pr: onFork ? 14 : 10 }}>
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+                      <Typography variant="body2" fontWeight="bold">v{version.number}</Typography>
+                      <Typography variant="body2">{sessionTypeLabel(version.sessionType)}</Typography>
+                      {version.revertedTo && <Typography variant="body2">to v{version.revertedTo}</Typography>}
+                      {version.isCurrent && <Chip size="small" color="success" label="Current" />}
+                      {version.label && <Chip size="small" color="primary" icon={<FlagIcon />} label={version.label} />}
+                      {!version.isAccepted && <Chip size="small" variant="outlined" label="Not accepted" />}
+                    </Box>
+                  }
+                  secondary={
+                    <>
+                      <Typography component="span" variant="caption" sx={{ display: 'block' }}>
+                        {formatDate(version.createdAt)} · <span style={{ color: '#2e7d32' }}>+{version.changes.added}</span>{' '}
+                        <span style={{ color: '#c62828' }}>−{version.changes.removed}</span>
+                      </Typography>
+                      {version.summary && (
+                        <Typography component="span" variant="caption" color="text.secondary" noWrap sx={{ display: 'block' }}>
+                          {version.summary}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+          {shown.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+              No milestones yet. Flag a version to mark one.
+            </Typography>
+          )}
+        </List>
+      </Paper>
+
+      <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <FormControl size="small" sx={{ flex: 1 }}>
+            <InputLabel>From</InputLabel>
+            <Select label="From" value={fromKey} onChange={(e) => setFromKey(e.target.value)}>
+              {compareOptions.map(option => <MenuItem key={option.key} value={option.key}>{option.title}</MenuItem>)}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ flex: 1 }}>
+            <InputLabel>To</InputLabel>
+            <Select label="To" value={toKey} onChange={(e) => setToKey(e.target.value)}>
+              {compareOptions.map(option => <MenuItem key={option.key} value={option.key}>{option.title}</MenuItem>)}
+            </Select>
+          </FormControl>
+          <Button variant="outlined" onClick={() => { setFromKey(toKey); setToKey(fromKey); }}>
+            Swap
+          </Button>
+        </Box>
+        <Paper variant="outlined" sx={{ flex: 1, overflow: 'hidden' }}>
+          <DiffEditor
+            height="100%"
+            language="typescript"
+            original={codeOf(fromKey)}
+            modified={codeOf(toKey)}
+            theme="vs-light"
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              fontSize: 12,
+              automaticLayout: true,
+            }}
+          />
+        </Paper>
+      </Box>
+
+      <Dialog open={!!labelling} onClose={() => setLabelling(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Milestone for v{labelling?.number}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Label"
+            placeholder="e.g. Approved by design"
+            value={labelText}
+            onChange={(e) => setLabelText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveLabel(labelText); }}
+          />
+        </DialogContent>
+        <DialogActions>
+          {labelling?.label && <Button color="error" onClick={() => handleSaveLabel('')}>Remove</Button>}
+          <Button onClick={() => setLabelling(null)}>Cancel</Button>
+          <Button variant="contained" onClick={() => handleSaveLabel(labelText)} disabled={!labelText.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default VersionHistoryPanel;
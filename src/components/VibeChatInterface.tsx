@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -28,11 +28,13 @@ import {
   ContentCopy as CopyIcon
 } from '@mui/icons-material';
 import { useCreate, useUpdate } from '@refinedev/core';
+import VibeChatService, { ClaudeCodeEditingProvider } from '../services/vibeChatService';
+import { createLLMProvider, StageModelSettings } from '../services/llmProvider';
 
 interface VibeSession {
   id: string;
   screen_id: string;
-  session_type: 'initial_generation' | 'iteration' | 'chat' | 'refinement';
+  session_type: 'initial_generation' | 'iteration' | 'chat' | 'refinement' | 'revert' | 'snapshot' | 'fork' | 'merge';
   user_prompt?: string;
   ai_response?: string;
   generated_code?: string;
@@ -58,22 +60,29 @@ interface VibeChatInterfaceProps {
   sessions: VibeSession[];
   onSessionUpdate: () => void;
   onScreenUpdate: () => void;
+  llmStages?: StageModelSettings;
 }
 
 const VibeChatInterface: React.FC<VibeChatInterfaceProps> = ({
   screen,
   sessions,
   onSessionUpdate,
-  onScreenUpdate
+  onScreenUpdate,
+  llmStages
 }) => {
   const [message, setMessage] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const { mutate: createSession } = useCreate();
   const { mutate: updateScreen } = useUpdate();
   const { mutate: updateSession } = useUpdate();
 
+  const vibeChatService = useMemo(() => new VibeChatService(
+    new ClaudeCodeEditingProvider(createLLMProvider('codeEditing', llmStages?.codeEditing))
+  ), [llmStages]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -86,105 +95,65 @@ const VibeChatInterface: React.FC<VibeChatInterfaceProps> = ({
     if (!message.trim() || isProcessing) return;
 
     setIsProcessing(true);
+    setError('');
     const userMessage = message;
     setMessage('');
 
-    try {
-      // Create user message session
-      const sessionData = {
+    // Persist the user's message first so it survives a failed AI call
+    createSession({
+      resource: 'vibe_sessions',
+      values: {
         screen_id: screen.id,
         session_type: 'chat' as const,
         user_prompt: userMessage,
         is_accepted: false
-      };
+      },
+      successNotification: false
+    }, {
+      onSuccess: async ({ data }) => {
+        onSessionUpdate();
+        await respondToMessage(data.id as string, userMessage);
+      },
+      onError: (error) => {
+        console.error('Failed to create session:', error);
+        setError('Failed to send message');
+        setIsProcessing(false);
+      }
+    });
+  };
+
+  const respondToMessage = async (sessionId: string, userPrompt: string) => {
+    try {
+      const result = await vibeChatService.sendMessage(screen, sessions, userPrompt);
 
-      createSession({
+      updateSession({
         resource: 'vibe_sessions',
-        values: sessionData
+        id: sessionId,
+        values: {
+          ai_response: result.explanation,
+          generated_code: result.code,
+          ai_provider: result.provider,
+          confidence_score: result.confidence
+        },
+        successNotification: false
       }, {
-        onSuccess: async () => {
-          // Simulate AI processing (replace with actual API call)
-          await simulateAIResponse(userMessage);
+        onSuccess: () => {
+          setIsProcessing(false);
           onSessionUpdate();
         },
         onError: (error) => {
-          console.error('Failed to create session:', error);
+          console.error('Failed to save AI response:', error);
+          setError('Failed to save the AI response');
           setIsProcessing(false);
         }
       });
-    } catch (error) {
-      console.error('Error sending message:', error);
+    } catch (err: any) {
+      console.error('❌ [VIBE CHAT] AI request failed:', err);
+      setError(err.message || 'The AI request failed. Please try again.');
       setIsProcessing(false);
     }
   };
 
-  const simulateAIResponse = async (userPrompt: string) => {
-    // This would be replaced with actual AI API calls
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        const aiResponse = generateMockAIResponse(userPrompt);
-        const generatedCode = generateMockCode(userPrompt);
-
-        createSession({
-          resource: 'vibe_sessions',
-          values: {
-            screen_id: screen.id,
-            session_type: 'chat' as const,
-            user_prompt: userPrompt,
-            ai_response: aiResponse,
-            generated_code: generatedCode,
-            ai_provider: 'mock',
-            confidence_score: Math.random() * 0.3 + 0.7, // 0.7-1.0
-            is_accepted: false
-          }
-        }, {
-          onSuccess: () => {
-            setIsProcessing(false);
-            resolve(null);
-          }
-        });
-      }, 2000);
-    });
-  };
-
-  const generateMockAIResponse = (prompt: string): string => {
-    if (prompt.toLowerCase().includes('color')) {
-      return "I've updated the color scheme based on your request. The new design uses a more vibrant palette that should better match your brand.";
-    } else if (prompt.toLowerCase().includes('button')) {
-      return "I've modified the button styles to be more modern and accessible. The new buttons have better spacing and hover effects.";
-    } else if (prompt.toLowerCase().includes('layout')) {
-      return "I've restructured the layout to be more responsive and user-friendly. The new layout works better on mobile devices.";
-    } else {
-      return "I've analyzed your request and made the appropriate changes to the code. The updated version should better match your requirements.";
-    }
-  };
-
-  const generateMockCode = (prompt: string): string => {
-    return `// Updated code based on: "${prompt}"
-import React from 'react';
-import { Box, Button, Typography, Card } from '@mui/material';
-
-const GeneratedComponent = () => {
-  return (
-    <Box sx={{ p: 2 }}>
-      <Typography variant="h4" gutterBottom>
-        Updated Design
-      </Typography>
-      <Card sx={{ p: 2, mt: 2 }}>
-        <Typography variant="body1">
-          This code has been updated based on your feedback.
-        </Typography>
-        <Button variant="contained" sx={{ mt: 2 }}>
-          Action Button
-        </Button>
-      </Card>
-    </Box>
-  );
-};
-
-export default GeneratedComponent;`;
-  };
-
   const handleAcceptCode = (session: VibeSession) => {
     if (!session.generated_code) return;
 
@@ -361,6 +330,11 @@ export default GeneratedComponent;`;
             </ListItem>
           )}
         </List>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
         <div ref={messagesEndRef} />
       </Box>
 
@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  Grid,
+  LinearProgress,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import { Compare as CompareIcon } from '@mui/icons-material';
+import { ThemeOptions } from '@mui/material/styles';
+import VisualDiffService, { VisualDiffNode, VisualDiffResult, fidelityColor, hashCode } from '../services/visualDiffService';
+import { ComponentLibraryProfile } from '../services/componentLibrary';
+
+interface VisualDiffPanelProps {
+  code: string;
+  referenceUrl?: string; // Figma export of the frame
+  frame?: { width: number; height: number; nodes: VisualDiffNode[] } | null;
+  result?: VisualDiffResult | null; // Last stored measurement
+  themeOptions?: ThemeOptions;
+  library?: ComponentLibraryProfile;
+  storage?: { projectId: string; screenId: string };
+  autoMeasure?: boolean; // Measure once when there's no measurement for the current code
+  onMeasured: (result: VisualDiffResult) => void;
+}
+
+const VisualDiffPanel: React.FC<VisualDiffPanelProps> = ({
+  code,
+  referenceUrl,
+  frame,
+  result,
+  themeOptions,
+  library,
+  storage,
+  autoMeasure = false,
+  onMeasured
+}) => {
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showRegions, setShowRegions] = useState(true);
+  const autoMeasuredFor = useRef<string | null>(null);
+
+  const visualDiffService = useMemo(() => new VisualDiffService(), []);
+  const codeHash = useMemo(() => hashCode(code), [code]);
+  const isStale = !!result && result.codeHash !== codeHash;
+  const canMeasure = !!code && !!referenceUrl && !!frame;
+
+  const measure = async () => {
+    if (!code || !referenceUrl || !frame) return;
+
+    setIsMeasuring(true);
+    setError(null);
+    try {
+      const measured = await visualDiffService.measure({
+        code,
+        referenceUrl,
+        width: Math.round(frame.width),
+        height: Math.round(frame.height),
+        nodes: frame.nodes,
+        themeOptions,
+        library,
+        storage
+      });
+      onMeasured(measured);
+    } catch (err: any) {
+      console.error('🔍 [VISUAL DIFF] Measurement failed:', err);
+      setError(err.message || 'Visual diff failed');
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  useEffect(() => {
+    if (autoMeasure && canMeasure && (!result || isStale) && autoMeasuredFor.current !== codeHash) {
+      autoMeasuredFor.current = codeHash;
+      measure();
+    }
+  }, [autoMeasure, canMeasure, codeHash]);
+
+  if (!canMeasure) {
+    return (
+      <Alert severity="info">
+        The visual diff needs the Figma render of the frame - run the Figma fetch stage first.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        {result && (
+          <>
+            <Chip
+              label={`Fidelity: ${(result.score * 100).toFixed(0)}%`}
+              color={isStale ? 'default' : fidelityColor(result.score)}
+            />
+            <Chip size="small" variant="outlined" label={`SSIM ${result.ssim.toFixed(3)}`} />
+            <Chip size="small" variant="outlined" label={`${(result.pixelMismatch * 100).toFixed(1)}% pixels differ`} />
+            {(result.renderedSize.width !== result.width || result.renderedSize.height !== result.height) && (
+              <Chip
+                size="small"
+                variant="outlined"
+                color="warning"
+                label={`Rendered ${result.renderedSize.width}×${result.renderedSize.height}, design ${result.width}×${result.height}`}
+              />
+            )}
+          </>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<CompareIcon />}
+          onClick={measure}
+          disabled={isMeasuring}
+        >
+          {result ? 'Measure Again' : 'Measure Fidelity'}
+        </Button>
+      </Box>
+
+      {isMeasuring && <LinearProgress sx={{ mb: 2 }} />}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {isStale && result && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The code changed since this was measured ({new Date(result.measuredAt).toLocaleString()}).
+        </Alert>
+      )}
+
+      {result && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="subtitle2" gutterBottom>Figma render</Typography>
+              <Box
+                component="img"
+                src={referenceUrl}
+                alt="Figma render"
+                sx={{ width: '100%', border: '1px solid', borderColor: 'divider', display: 'block' }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography variant="subtitle2" gutterBottom>Heat map</Typography>
+                <FormControlLabel
+                  control={<Switch size="small" checked={showRegions} onChange={(e) => setShowRegions(e.target.checked)} />}
+                  label={<Typography variant="caption">Regions</Typography>}
+                />
+              </Box>
+              {result.heatMapUrl ? (
+                <Box sx={{ position: 'relative', border: '1px solid', borderColor: 'divider' }}>
+                  <Box component="img" src={result.heatMapUrl} alt="Visual diff heat map" sx={{ width: '100%', display: 'block' }} />
+                  {showRegions && result.regions.map((region, index) => (
+                    <Box
+                      key={index}
+                      title={`${region.nodeName || 'Region'}: ${(region.mismatch * 100).toFixed(0)}% differ`}
+                      sx={{
+                        position: 'absolute',
+                        left: `${(region.x / result.width) * 100}%`,
+                        top: `${(region.y / result.height) * 100}%`,
+                        width: `${(region.width / result.width) * 100}%`,
+                        height: `${(region.height / result.height) * 100}%`,
+                        border: '2px solid',
+                        borderColor: 'error.main'
+                      }}
+                    />
+                  ))}
+                </Box>
+              ) : (
+                <Alert severity="info">The heat map couldn't be stored.</Alert>
+              )}
+            </Grid>
+          </Grid>
+
+          {result.regions.length > 0 ? (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Region</TableCell>
+                    <TableCell>Figma node</TableCell>
+                    <TableCell align="right">Differing pixels</TableCell>
+                    <TableCell align="right">SSIM</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.regions.map((region, index) => (
+                    <TableRow key={index}>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>
+                        {region.x},{region.y} {region.width}×{region.height}
+                      </TableCell>
+                      <TableCell>{region.nodeName || '—'}</TableCell>
+                      <TableCell align="right">{(region.mismatch * 100).toFixed(0)}%</TableCell>
+                      <TableCell align="right">{region.ssim.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          ) : (
+            <Alert severity="success">No region of the preview differs noticeably from the Figma render.</Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default VisualDiffPanel;
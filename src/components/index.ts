@@ -7,3 +7,11 @@ export { default as APISettings } from "./APISettings";
 export { default as FigmaAPITest } from "./FigmaAPITest";
 export { default as DebugPipeline } from './DebugPipeline';
 export { default as StageDebugger } from './StageDebugger';
+export { default as MappingRulesDialog } from './MappingRulesDialog';
+export { default as VisualDiffPanel } from './VisualDiffPanel';
+export { default as PrototypeAppDialog } from './PrototypeAppDialog';
+export { default as ProjectExportDialog } from './ProjectExportDialog';
+export { default as VersionHistoryPanel } from './VersionHistoryPanel';
+export { default as ForkScreenDialog } from './ForkScreenDialog';
+export { default as BranchCompareDialog } from './BranchCompareDialog';
+export { default as ScreenBranchBar } from './ScreenBranchBar';
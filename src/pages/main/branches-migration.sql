@@ -0,0 +1,17 @@
+-- Migration for forking screens and branching their histories
+-- Run this in your Supabase SQL editor
+
+-- The screen a fork or branch was made from, and the version it started at (NULL: its current code)
+ALTER TABLE screens ADD COLUMN IF NOT EXISTS forked_from_screen_id UUID REFERENCES screens(id) ON DELETE SET NULL;
+ALTER TABLE screens ADD COLUMN IF NOT EXISTS forked_from_session_id UUID REFERENCES vibe_sessions(id) ON DELETE SET NULL;
+
+-- Set for branches, which are listed under the screen they were forked from; NULL for screens and forks
+ALTER TABLE screens ADD COLUMN IF NOT EXISTS branch_name TEXT;
+
+-- For merge sessions: the branch whose code was merged
+ALTER TABLE vibe_sessions ADD COLUMN IF NOT EXISTS merged_from_screen_id UUID REFERENCES screens(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN screens.forked_from_screen_id IS 'Screen this fork or branch was made from';
+COMMENT ON COLUMN screens.forked_from_session_id IS 'vibe_sessions version the fork started at, NULL when forked from current_code';
+COMMENT ON COLUMN screens.branch_name IS 'Branch name; branches merge back into forked_from_screen_id';
+COMMENT ON COLUMN vibe_sessions.merged_from_screen_id IS 'Branch merged by a merge session (session_type merge)';
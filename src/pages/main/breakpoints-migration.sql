@@ -0,0 +1,7 @@
+-- Migration for screens generated from several Figma frames, one per breakpoint
+-- Run this in your Supabase SQL editor
+
+-- The frames linked to MUI breakpoints: [{ breakpoint, nodeId, name, width, height }]
+ALTER TABLE screens ADD COLUMN IF NOT EXISTS breakpoint_frames JSONB;
+
+COMMENT ON COLUMN screens.breakpoint_frames IS 'BreakpointFrame[]: Figma frames merged into one responsive component, see BreakpointMergeService';
@@ -0,0 +1,7 @@
+-- Migration for per-project component library profiles
+-- Run this in your Supabase SQL editor
+
+-- Id of the profile (src/services/componentLibrary.ts) generated code targets; unknown ids fall back to MUI
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS component_library TEXT NOT NULL DEFAULT 'mui';
+
+COMMENT ON COLUMN projects.component_library IS 'Component library profile id used by style mapping, code generation and the live preview';
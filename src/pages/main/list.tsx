@@ -47,7 +47,15 @@ import {
   Preview as PreviewIcon,
   History as HistoryIcon,
   Settings as SettingsIcon,
-  Link as LinkIcon
+  Link as LinkIcon,
+  Rule as RuleIcon,
+  Check as CheckIcon,
+  Widgets as LibraryIcon,
+  AccountTree as FlowIcon,
+  Archive as ExportIcon,
+  Download as DownloadIcon,
+  CloudDone as StoreImagesIcon,
+  CallSplit as BranchIcon
 } from '@mui/icons-material';
 import { useList, useCreate, useUpdate, useDelete, useGetIdentity } from '@refinedev/core';
 import { supabaseClient } from '../../utility';
@@ -59,14 +67,26 @@ import {
   APISettings,
   FigmaAPITest,
   DebugPipeline,
-  StageDebugger
+  StageDebugger,
+  MappingRulesDialog,
+  PrototypeAppDialog,
+  ProjectExportDialog,
+  VersionHistoryPanel,
+  ForkScreenDialog,
+  BranchCompareDialog,
+  ScreenBranchBar
 } from '../../components';
 import { APISettings as APISettingsType } from '../../components/APISettings';
+import { getComponentLibrary, listComponentLibraries } from '../../services/componentLibrary';
+import { fidelityColor } from '../../services/visualDiffService';
+import AssetStorageService, { FIGMA_IMAGE_URL } from '../../services/assetStorageService';
+import ScreenBranchService, { isBranch } from '../../services/screenBranchService';
 
 interface Project {
   id: string;
   name: string;
   description?: string;
+  component_library?: string; // Component library profile generated code targets (see componentLibrary.ts)
   created_at: string;
   updated_at: string;
 }
@@ -82,7 +102,13 @@ interface Screen {
   status: 'processing' | 'iterating' | 'ready' | 'error';
   iteration_count: number;
   confidence_score?: number;
+  fidelity_score?: number; // Visual diff against the Figma render, see VisualDiffService
+  visual_diff?: any;
+  breakpoint_frames?: any; // Figma frames linked to breakpoints, see BreakpointMergeService
   analysis_data?: any;
+  forked_from_screen_id?: string | null; // Forks and branches, see ScreenBranchService
+  forked_from_session_id?: string | null;
+  branch_name?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -90,7 +116,7 @@ interface Screen {
 interface VibeSession {
   id: string;
   screen_id: string;
-  session_type: 'initial_generation' | 'iteration' | 'chat' | 'refinement';
+  session_type: 'initial_generation' | 'iteration' | 'chat' | 'refinement' | 'revert' | 'snapshot' | 'fork' | 'merge';
   user_prompt?: string;
   ai_response?: string;
   generated_code?: string;
@@ -108,6 +134,7 @@ const VibecodingInterface = () => {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectDescription, setNewProjectDescription] = useState('');
+  const [newProjectLibrary, setNewProjectLibrary] = useState('mui');
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [screenName, setScreenName] = useState('');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
@@ -115,7 +142,13 @@ const VibecodingInterface = () => {
   const [uploadType, setUploadType] = useState<'image' | 'figma'>('figma');
   const [figmaUrl, setFigmaUrl] = useState('CbS1cPHwdvmOJfPJFzKodU');
   const [apiSettingsOpen, setApiSettingsOpen] = useState(false);
-  const [apiSettings, setApiSettings] = useState<APISettingsType | null>(null);
+  const [apiSettings, setApiSettings] = useState<APISettingsType>({});
+  const [mappingRulesProject, setMappingRulesProject] = useState<Project | null>(null);
+  const [prototypeAppProject, setPrototypeAppProject] = useState<Project | null>(null);
+  const [exportProject, setExportProject] = useState<Project | null>(null);
+  const [isStoringImages, setIsStoringImages] = useState(false);
+  const [forkSource, setForkSource] = useState<{ sessionId?: string } | null>(null);
+  const [compareBranches, setCompareBranches] = useState<{ rightId?: string } | null>(null);
 
   // Get current user identity
   const { data: identity } = useGetIdentity<{
@@ -134,32 +167,47 @@ const VibecodingInterface = () => {
   const { data: screensData, isLoading: screensLoading, refetch: refetchScreens } = useList<Screen>({
     resource: 'screens',
     filters: selectedProject ? [{ field: 'project_id', operator: 'eq', value: selectedProject.id }] : [],
-    sorters: [{ field: 'updated_at', order: 'desc' }]
+    sorters: [{ field: 'updated_at', order: 'desc' }],
+    pagination: { mode: 'off' } // Branches are screens rows too - the grid and branch lists need all of them
   });
 
   // Fetch vibe sessions for selected screen
-  const { data: vibeSessionsData, isLoading: vibeSessionsLoading } = useList<VibeSession>({
+  const { data: vibeSessionsData, isLoading: vibeSessionsLoading, refetch: refetchVibeSessions } = useList<VibeSession>({
     resource: 'vibe_sessions',
     filters: selectedScreen ? [{ field: 'screen_id', operator: 'eq', value: selectedScreen.id }] : [],
-    sorters: [{ field: 'created_at', order: 'desc' }]
+    sorters: [{ field: 'created_at', order: 'desc' }],
+    pagination: { mode: 'off' } // The version history numbers versions from the whole list
   });
 
   // Mutations
   const { mutate: createProject } = useCreate();
   const { mutate: updateProject } = useUpdate();
+  const { mutate: updateScreen } = useUpdate();
   const { mutate: deleteProject } = useDelete();
   const { mutate: createScreen } = useCreate();
 
   const projects = projectsData?.data || [];
   const screens = screensData?.data || [];
   const vibeSessions = vibeSessionsData?.data || [];
+  // Branches are listed under their screen, not in the grid
+  const listedScreens = screens.filter(screen => !isBranch(screen) && screen.status !== 'processing');
+  const branchService = new ScreenBranchService();
+
+  // Keep the selected screen in step with refetches, e.g. after a revert or a merge into it
+  useEffect(() => {
+    const fresh = screensData?.data.find(screen => screen.id === selectedScreen?.id);
+    if (fresh && fresh !== selectedScreen) setSelectedScreen(fresh);
+  }, [screensData]);
 
   // Load API settings from localStorage on mount
   useEffect(() => {
     const saved = localStorage.getItem('vibeforge-api-settings');
     if (saved) {
       try {
-        setApiSettings(JSON.parse(saved));
+        // Older versions also stored provider keys here - keep only the model, refinement and asset settings
+        const { llmStages, refinement, assets } = JSON.parse(saved);
+        setApiSettings({ llmStages, refinement, assets });
+        localStorage.setItem('vibeforge-api-settings', JSON.stringify({ llmStages, refinement, assets }));
       } catch (error) {
         console.error('Failed to load API settings:', error);
       }
@@ -174,6 +222,7 @@ const VibecodingInterface = () => {
       values: {
         name: newProjectName,
         description: newProjectDescription,
+        component_library: newProjectLibrary,
         user_id: identity.id
       }
     }, {
@@ -181,6 +230,7 @@ const VibecodingInterface = () => {
         setCreateProjectOpen(false);
         setNewProjectName('');
         setNewProjectDescription('');
+        setNewProjectLibrary('mui');
         refetchProjects();
       }
     });
@@ -298,7 +348,7 @@ const VibecodingInterface = () => {
         figmaUrl.includes('figma.com/file/') || 
         (!figmaUrl.includes('/') && figmaUrl.length > 10)
       );
-      return hasValidInput && apiSettings?.figmaToken && apiSettings?.openaiApiKey;
+      return hasValidInput;
     } else {
       return uploadFile;
     }
@@ -314,6 +364,78 @@ const VibecodingInterface = () => {
     setMenuProject(null);
   };
 
+  const handleOpenMappingRules = () => {
+    setMappingRulesProject(menuProject);
+    handleProjectMenuClose();
+  };
+
+  const handleOpenPrototypeApp = () => {
+    setPrototypeAppProject(menuProject);
+    handleProjectMenuClose();
+  };
+
+  const handleOpenExport = () => {
+    setExportProject(menuProject);
+    handleProjectMenuClose();
+  };
+
+  // Screens generated before images were stored still load them from Figma, until the links expire
+  const handleStoreScreenImages = async () => {
+    if (!selectedScreen) return;
+    setIsStoringImages(true);
+    try {
+      const { screen: updates, persisted } = await new AssetStorageService(apiSettings.assets)
+        .persistScreen(selectedScreen, selectedScreen.project_id);
+      updateScreen({
+        resource: 'screens',
+        id: selectedScreen.id,
+        values: updates
+      }, {
+        onSuccess: () => {
+          setSelectedScreen({ ...selectedScreen, ...updates });
+          refetchScreens();
+        }
+      });
+      if (persisted.failed.length > 0) {
+        alert(`${persisted.failed.length} image(s) couldn't be stored - their Figma links may have expired. Re-run the Figma fetch to export them again.`);
+      }
+    } catch (error: any) {
+      console.error('Storing images failed:', error);
+      alert(`Storing images failed: ${error.message || error}`);
+    } finally {
+      setIsStoringImages(false);
+    }
+  };
+
+  const handleDownloadScreenCode = () => {
+    if (!selectedScreen?.current_code) return;
+    const blob = new Blob([selectedScreen.current_code], { type: 'text/typescript' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${selectedScreen.name.replace(/[^A-Za-z0-9]+/g, '') || 'GeneratedComponent'}.tsx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSetComponentLibrary = (libraryId: string) => {
+    if (!menuProject) return;
+
+    updateProject({
+      resource: 'projects',
+      id: menuProject.id,
+      values: { component_library: libraryId }
+    }, {
+      onSuccess: () => {
+        if (selectedProject?.id === menuProject.id) {
+          setSelectedProject({ ...selectedProject, component_library: libraryId });
+        }
+        refetchProjects();
+        handleProjectMenuClose();
+      }
+    });
+  };
+
   const handleDeleteProject = () => {
     if (!menuProject) return;
     
@@ -332,6 +454,11 @@ const VibecodingInterface = () => {
     });
   };
 
+  // Failed Figma screens keep their processor so the run can resume from its last good stage,
+  // refining ones so the rounds stay visible
+  const isPipelineActive = (screen: Screen) =>
+    screen.status === 'processing' || ((screen.status === 'error' || screen.status === 'iterating') && !!screen.figma_url);
+
   const getStatusColor = (status: Screen['status']) => {
     switch (status) {
       case 'ready': return 'success';
@@ -381,7 +508,6 @@ const VibecodingInterface = () => {
               variant="outlined"
               startIcon={<UploadIcon />}
               onClick={() => setUploadDialogOpen(true)}
-              disabled={!apiSettings?.figmaToken || !apiSettings?.openaiApiKey}
             >
               Add Figma Screen
             </Button>
@@ -455,38 +581,52 @@ const VibecodingInterface = () => {
                 {selectedProject.description}
               </Typography>
 
+              {selectedScreen && (
+                <ScreenBranchBar
+                  screen={selectedScreen}
+                  screens={screens}
+                  onSelectScreen={setSelectedScreen}
+                  onFork={() => setForkSource({})}
+                  onCompare={(rightId) => setCompareBranches({ rightId })}
+                />
+              )}
+
               <Tabs value={currentTab} onChange={(_, newValue) => setCurrentTab(newValue)} sx={{ mb: 3 }}>
                 <Tab label="Screens" icon={<ScreenIcon />} />
                 {selectedScreen && <Tab label="Vibe Chat" icon={<ChatIcon />} />}
                 {selectedScreen && <Tab label="Live Preview" icon={<PreviewIcon />} />}
                 {selectedScreen && <Tab label="Code Preview" icon={<CodeIcon />} />}
+                {selectedScreen && <Tab label="History" icon={<HistoryIcon />} />}
                 {selectedScreen && selectedScreen.analysis_data && <Tab label="🔍 Debug Pipeline" icon={<SettingsIcon />} />}
-                {apiSettings && <Tab label="🔧 Debug API" icon={<SettingsIcon />} />}
-                {apiSettings && <Tab label="🧪 Stage Debugger" icon={<SettingsIcon />} />}
+                <Tab label="🔧 Debug API" icon={<SettingsIcon />} />
+                <Tab label="🧪 Stage Debugger" icon={<SettingsIcon />} />
               </Tabs>
 
               {currentTab === 0 && (
                 <Box>
-                  {/* Show processing status for any processing screens */}
-                  {screens.some(screen => screen.status === 'processing') && (
+                  {/* Show processing status for processing screens, and failed Figma runs so they can be resumed */}
+                  {screens.some(isPipelineActive) && (
                     <Box sx={{ mb: 4 }}>
                       <Typography variant="h6" gutterBottom>
                         Processing Screens
                       </Typography>
                       {screens
-                        .filter(screen => screen.status === 'processing')
+                        .filter(isPipelineActive)
                         .map(screen => (
                           <Box key={screen.id} sx={{ mb: 2 }}>
-                            {screen.figma_url && apiSettings ? (
+                            {screen.figma_url ? (
                               <FigmaToCodeProcessor 
                                 screen={screen}
                                 onComplete={refetchScreens}
-                                figmaToken={apiSettings.figmaToken}
-                                openaiApiKey={apiSettings.openaiApiKey}
+                                llmStages={apiSettings.llmStages}
+                                componentLibrary={selectedProject?.component_library}
+                                refinement={apiSettings.refinement}
+                                assetStorage={apiSettings.assets}
                               />
                             ) : (
                             <ImageToCodeProcessor 
                               screen={screen}
+                              llmStages={apiSettings.llmStages}
                               onComplete={refetchScreens}
                             />
                             )}
@@ -502,14 +642,13 @@ const VibecodingInterface = () => {
                         <LinearProgress />
                       </Grid>
                     ) : (
-                      screens
-                        .filter(screen => screen.status !== 'processing')
+                      listedScreens
                         .map((screen) => (
                           <Grid item xs={12} sm={6} md={4} key={screen.id}>
                             <Card
                               sx={{
                                 cursor: 'pointer',
-                                border: selectedScreen?.id === screen.id ? 2 : 0,
+                                border: selectedScreen && branchService.rootOf(selectedScreen, screens).id === screen.id ? 2 : 0,
                                 borderColor: 'primary.main'
                               }}
                               onClick={() => setSelectedScreen(screen)}
@@ -531,11 +670,33 @@ const VibecodingInterface = () => {
                                     color={getStatusColor(screen.status)}
                                     size="small"
                                   />
-                                  <Typography variant="caption" color="text.secondary">
-                                    v{screen.iteration_count}
-                                  </Typography>
+                                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                    {branchService.branchesOf(screen, screens).length > 0 && (
+                                      <Chip
+                                        icon={<BranchIcon />}
+                                        label={branchService.branchesOf(screen, screens).length}
+                                        size="small"
+                                        variant="outlined"
+                                      />
+                                    )}
+                                    <Typography variant="caption" color="text.secondary">
+                                      v{screen.iteration_count}
+                                    </Typography>
+                                  </Box>
                                 </Box>
-                                {screen.confidence_score && (
+                                {screen.fidelity_score != null ? (
+                                  <Box sx={{ mt: 1 }}>
+                                    <Typography variant="caption">
+                                      Fidelity: {(screen.fidelity_score * 100).toFixed(0)}%
+                                    </Typography>
+                                    <LinearProgress
+                                      variant="determinate"
+                                      value={screen.fidelity_score * 100}
+                                      color={fidelityColor(screen.fidelity_score)}
+                                      sx={{ mt: 0.5 }}
+                                    />
+                                  </Box>
+                                ) : screen.confidence_score && (
                                   <Box sx={{ mt: 1 }}>
                                     <Typography variant="caption">
                                       Confidence: {(screen.confidence_score * 100).toFixed(0)}%
@@ -552,16 +713,14 @@ const VibecodingInterface = () => {
                           </Grid>
                         ))
                     )}
-                    {screens.filter(screen => screen.status !== 'processing').length === 0 && !screensLoading && (
+                    {listedScreens.length === 0 && !screensLoading && (
                       <Grid item xs={12}>
                         <Alert severity="info">
                           No screens in this project. Upload your first screen to start vibe-coding!
                         </Alert>
-                        {apiSettings && (
-                          <Alert severity="success" sx={{ mt: 2 }}>
-                            💡 <strong>Tip:</strong> Before uploading, you can test the Figma API connection using the "🔧 Debug API" tab above!
-                          </Alert>
-                        )}
+                        <Alert severity="success" sx={{ mt: 2 }}>
+                          💡 <strong>Tip:</strong> Before uploading, you can test the Figma API connection using the "🔧 Debug API" tab above!
+                        </Alert>
                       </Grid>
                     )}
                   </Grid>
@@ -575,9 +734,10 @@ const VibecodingInterface = () => {
                     sessions={vibeSessions}
                     onSessionUpdate={() => {
                       // Refetch vibe sessions when they're updated
-                      refetchScreens();
+                      refetchVibeSessions();
                     }}
                     onScreenUpdate={refetchScreens}
+                    llmStages={apiSettings.llmStages}
                   />
                 </Box>
               )}
@@ -596,7 +756,11 @@ const VibecodingInterface = () => {
                         overflow: 'auto',
                         bgcolor: 'background.paper'
                       }}>
-                        <LiveCodePreview code={selectedScreen.current_code} />
+                        <LiveCodePreview 
+                          code={selectedScreen.current_code}
+                          themeOptions={selectedScreen.analysis_data?.designTokenExport?.themeOptions}
+                          library={getComponentLibrary(selectedProject?.component_library)}
+                        />
                       </Box>
                     </Card>
                   ) : (
@@ -609,9 +773,38 @@ const VibecodingInterface = () => {
 
               {currentTab === 3 && selectedScreen && (
                 <Box>
-                  <Typography variant="h6" gutterBottom>
-                    Generated Code for {selectedScreen.name}
-                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                    <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                      Generated Code for {selectedScreen.name}
+                    </Typography>
+                    {selectedScreen.current_code?.match(FIGMA_IMAGE_URL) && (
+                      <Button
+                        size="small"
+                        startIcon={<StoreImagesIcon />}
+                        onClick={handleStoreScreenImages}
+                        disabled={isStoringImages}
+                      >
+                        {isStoringImages ? 'Storing images...' : 'Store images'}
+                      </Button>
+                    )}
+                    <Button
+                      size="small"
+                      startIcon={<DownloadIcon />}
+                      onClick={handleDownloadScreenCode}
+                      disabled={!selectedScreen.current_code}
+                    >
+                      Download .tsx
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<ExportIcon />}
+                      onClick={() => setExportProject(selectedProject)}
+                      disabled={!selectedProject}
+                    >
+                      Export Project
+                    </Button>
+                  </Box>
                   {selectedScreen.current_code ? (
                     <Card>
                       <CardContent>
@@ -634,16 +827,40 @@ const VibecodingInterface = () => {
                 </Box>
               )}
 
+              {currentTab === 4 && selectedScreen && (
+                <VersionHistoryPanel
+                  screen={selectedScreen}
+                  sessions={vibeSessions}
+                  onSessionUpdate={() => refetchVibeSessions()}
+                  onScreenUpdate={refetchScreens}
+                  onFork={(version) => setForkSource({ sessionId: version.sessionId })}
+                />
+              )}
+
               {/* Debug Pipeline Tab */}
-              {currentTab === 4 && selectedScreen && selectedScreen.analysis_data && (
-                <DebugPipeline screen={selectedScreen} />
+              {currentTab === 5 && selectedScreen && selectedScreen.analysis_data && (
+                <Box>
+                  {selectedScreen.figma_url && (selectedScreen.status === 'ready' || selectedScreen.status === 'iterating') && (
+                    <Box sx={{ mb: 3 }}>
+                      <FigmaToCodeProcessor 
+                        screen={selectedScreen}
+                        onComplete={refetchScreens}
+                        llmStages={apiSettings.llmStages}
+                        componentLibrary={selectedProject?.component_library}
+                        refinement={apiSettings.refinement}
+                        assetStorage={apiSettings.assets}
+                      />
+                    </Box>
+                  )}
+                  <DebugPipeline screen={selectedScreen} />
+                </Box>
               )}
 
               {/* Stage Debugger Tab */}
               {(() => {
                 let stageDebuggerTabIndex = 1; // Base index after "Screens"
-                if (selectedScreen) stageDebuggerTabIndex += 5; // Add 5 for Vibe Chat, Live Preview, Code Preview, Debug Pipeline, Debug API
-                return currentTab === stageDebuggerTabIndex && apiSettings && (
+                if (selectedScreen) stageDebuggerTabIndex += 6; // Add 6 for Vibe Chat, Live Preview, Code Preview, History, Debug Pipeline, Debug API
+                return currentTab === stageDebuggerTabIndex && (
                   <Box>
                     <Typography variant="h5" gutterBottom>
                       🧪 Stage Debugger - Test 3A & 3B Independently
@@ -652,8 +869,7 @@ const VibecodingInterface = () => {
                       Debug and test Stage 3A (Semantic Grouping) and Stage 3B (Visual Validation) independently.
                     </Alert>
                     <StageDebugger 
-                      figmaToken={apiSettings.figmaToken} 
-                      openaiApiKey={apiSettings.openaiApiKey} 
+                      llmStages={apiSettings.llmStages}
                     />
                   </Box>
                 );
@@ -662,8 +878,8 @@ const VibecodingInterface = () => {
               {/* Debug API Tab - Calculate correct index dynamically */}
               {(() => {
                 let debugTabIndex = 1; // Base index after "Screens"
-                if (selectedScreen) debugTabIndex += 5; // Add 5 for Vibe Chat, Live Preview, Code Preview, Debug Pipeline, Stage Debugger
-                return currentTab === debugTabIndex && apiSettings && (
+                if (selectedScreen) debugTabIndex += 6; // Add 6 for Vibe Chat, Live Preview, Code Preview, History, Debug Pipeline, Stage Debugger
+                return currentTab === debugTabIndex && (
                   <Box>
                     <Typography variant="h5" gutterBottom>
                       🔧 Debug Figma API
@@ -671,7 +887,7 @@ const VibecodingInterface = () => {
                     <Alert severity="info" sx={{ mb: 3 }}>
                       Use this to test if the Figma API is working before trying the full flow.
                     </Alert>
-                    <FigmaAPITest figmaToken={apiSettings.figmaToken} />
+                    <FigmaAPITest />
                   </Box>
                 );
               })()}
@@ -704,6 +920,25 @@ const VibecodingInterface = () => {
             value={newProjectDescription}
             onChange={(e) => setNewProjectDescription(e.target.value)}
           />
+          {listComponentLibraries().length > 1 && (
+            <TextField
+              select
+              margin="dense"
+              label="Component Library"
+              fullWidth
+              variant="outlined"
+              value={newProjectLibrary}
+              onChange={(e) => setNewProjectLibrary(e.target.value)}
+              helperText="Generated code uses this library's components, falling back to MUI"
+              sx={{ mt: 2 }}
+            >
+              {listComponentLibraries().map(library => (
+                <MenuItem key={library.id} value={library.id}>
+                  {library.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setCreateProjectOpen(false)}>Cancel</Button>
@@ -752,19 +987,6 @@ const VibecodingInterface = () => {
                   <strong>Find other file IDs:</strong> In any Figma URL like https://figma.com/file/<strong>FILE-ID-HERE</strong>/title
                 </Typography>
               </Alert>
-              
-              {(!apiSettings?.figmaToken || !apiSettings?.openaiApiKey) && (
-                <Alert severity="warning" sx={{ mb: 2 }}>
-                  You need to configure your API settings first.
-                  <Button 
-                    size="small" 
-                    onClick={() => setApiSettingsOpen(true)}
-                    sx={{ ml: 1 }}
-                  >
-                    Configure
-                  </Button>
-                </Alert>
-              )}
             </Box>
           ) : (
             <Box>
@@ -822,6 +1044,29 @@ const VibecodingInterface = () => {
           <EditIcon sx={{ mr: 1 }} />
           Edit
         </MenuItem>
+        <MenuItem onClick={handleOpenMappingRules}>
+          <RuleIcon sx={{ mr: 1 }} />
+          Mapping Rules
+        </MenuItem>
+        <MenuItem onClick={handleOpenPrototypeApp}>
+          <FlowIcon sx={{ mr: 1 }} />
+          Prototype App
+        </MenuItem>
+        <MenuItem onClick={handleOpenExport}>
+          <ExportIcon sx={{ mr: 1 }} />
+          Export Project
+        </MenuItem>
+        {listComponentLibraries().length > 1 && [
+          <Divider key="library-divider" />,
+          ...listComponentLibraries().map(library => (
+            <MenuItem key={library.id} onClick={() => handleSetComponentLibrary(library.id)}>
+              {getComponentLibrary(menuProject?.component_library).id === library.id
+                ? <CheckIcon sx={{ mr: 1 }} />
+                : <LibraryIcon sx={{ mr: 1 }} />}
+              {library.name}
+            </MenuItem>
+          ))
+        ]}
         <MenuItem onClick={handleDeleteProject}>
           <DeleteIcon sx={{ mr: 1 }} />
           Delete
@@ -833,8 +1078,72 @@ const VibecodingInterface = () => {
         open={apiSettingsOpen}
         onClose={() => setApiSettingsOpen(false)}
         onSave={handleAPISettingsSave}
-        currentSettings={apiSettings || undefined}
+        currentSettings={apiSettings}
       />
+
+      {/* Figma-to-MUI Mapping Rules Dialog */}
+      {mappingRulesProject && (
+        <MappingRulesDialog
+          open
+          onClose={() => setMappingRulesProject(null)}
+          projectId={mappingRulesProject.id}
+          projectName={mappingRulesProject.name}
+        />
+      )}
+
+      {/* Screens linked by Figma prototype connections, as a routed app */}
+      {prototypeAppProject && (
+        <PrototypeAppDialog
+          open
+          onClose={() => {
+            setPrototypeAppProject(null);
+            refetchScreens();
+          }}
+          projectId={prototypeAppProject.id}
+          projectName={prototypeAppProject.name}
+          componentLibrary={prototypeAppProject.component_library}
+        />
+      )}
+
+      {/* The project's screens as a runnable Vite + MUI app */}
+      {exportProject && (
+        <ProjectExportDialog
+          open
+          onClose={() => setExportProject(null)}
+          projectId={exportProject.id}
+          projectName={exportProject.name}
+        />
+      )}
+
+      {/* Forks and branches of the selected screen */}
+      {selectedScreen && forkSource && (
+        <ForkScreenDialog
+          open
+          onClose={() => setForkSource(null)}
+          screen={selectedScreen}
+          sessions={vibeSessions}
+          screens={screens}
+          initialSessionId={forkSource.sessionId}
+          onForked={(fork) => {
+            refetchScreens();
+            setSelectedScreen(fork as Screen);
+          }}
+        />
+      )}
+      {selectedScreen && compareBranches && (
+        <BranchCompareDialog
+          open
+          onClose={() => setCompareBranches(null)}
+          root={branchService.rootOf(selectedScreen, screens)}
+          screens={screens}
+          initialRightId={compareBranches.rightId}
+          library={getComponentLibrary(selectedProject?.component_library)}
+          onMerged={(target) => {
+            refetchScreens();
+            setSelectedScreen(screens.find(screen => screen.id === target.id) || selectedScreen);
+          }}
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,33 @@
+-- Migration for per-project Figma-to-MUI mapping rules
+-- Run this in your Supabase SQL editor
+
+-- Rules are tried in priority order (lowest first) before the built-in heuristics;
+-- the first rule whose every criterion matches decides the component and its props
+CREATE TABLE IF NOT EXISTS mapping_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  match JSONB NOT NULL DEFAULT '{}'::jsonb,
+  target_component TEXT NOT NULL,
+  prop_template JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mapping_rules_project_id ON mapping_rules(project_id, priority);
+
+-- Only the project owner can see or change its rules
+ALTER TABLE mapping_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage mapping rules of their projects" ON mapping_rules
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.id = mapping_rules.project_id AND projects.user_id = auth.uid()
+  )
+);
+
+COMMENT ON COLUMN mapping_rules.match IS 'Criteria: namePattern (regex), nodeTypes, componentKey, min/max width and height, semanticType';
+COMMENT ON COLUMN mapping_rules.prop_template IS 'Props for the target component; strings may use {{text}}, {{name}}, {{width}}, {{height}} and {{props.<Figma property>}}';
@@ -0,0 +1,60 @@
+-- Migration to persist code generation pipeline runs stage by stage
+-- Run this in your Supabase SQL editor
+
+-- One row per pipeline run for a screen
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  screen_id UUID NOT NULL REFERENCES screens(id) ON DELETE CASCADE,
+  pipeline TEXT NOT NULL DEFAULT 'figma-to-code',
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  current_stage TEXT,
+  error TEXT,
+  settings JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per stage of a run; re-running a stage overwrites its row
+CREATE TABLE IF NOT EXISTS pipeline_stage_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES pipeline_runs(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  input JSONB,
+  output JSONB,
+  error TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (run_id, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_screen_id ON pipeline_runs(screen_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pipeline_stage_results_run_id ON pipeline_stage_results(run_id);
+
+-- Only the owner of the screen's project can see or change its runs
+ALTER TABLE pipeline_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_stage_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage runs of their screens" ON pipeline_runs
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM screens
+    JOIN projects ON projects.id = screens.project_id
+    WHERE screens.id = pipeline_runs.screen_id AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users manage stage results of their runs" ON pipeline_stage_results
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM pipeline_runs
+    JOIN screens ON screens.id = pipeline_runs.screen_id
+    JOIN projects ON projects.id = screens.project_id
+    WHERE pipeline_runs.id = pipeline_stage_results.run_id AND projects.user_id = auth.uid()
+  )
+);
+
+COMMENT ON TABLE pipeline_runs IS 'Code generation runs for a screen, resumable from the last completed stage';
+COMMENT ON COLUMN pipeline_stage_results.input IS 'Edited stage inputs when the stage was re-run manually, otherwise NULL';
+COMMENT ON COLUMN pipeline_stage_results.output IS 'Stage output consumed by later stages';
@@ -0,0 +1,11 @@
+-- Migration for screen version history
+-- Run this in your Supabase SQL editor
+
+-- Name of a milestone version, e.g. "Approved by design"
+ALTER TABLE vibe_sessions ADD COLUMN IF NOT EXISTS milestone_label TEXT;
+
+-- For revert sessions: the version whose code was restored
+ALTER TABLE vibe_sessions ADD COLUMN IF NOT EXISTS reverted_to_session_id UUID REFERENCES vibe_sessions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN vibe_sessions.milestone_label IS 'Milestone name shown in the version timeline, NULL for ordinary versions';
+COMMENT ON COLUMN vibe_sessions.reverted_to_session_id IS 'Session restored by a revert session (session_type revert)';
@@ -0,0 +1,11 @@
+-- Migration for visual diff scoring of generated screens
+-- Run this in your Supabase SQL editor
+
+-- Fidelity of the generated code against the Figma render (0-1, SSIM and pixel agreement combined)
+ALTER TABLE screens ADD COLUMN IF NOT EXISTS fidelity_score DECIMAL(4,3);
+
+-- The last measurement: SSIM, pixel mismatch, mismatched regions, heat map URL and the hash of the measured code
+ALTER TABLE screens ADD COLUMN IF NOT EXISTS visual_diff JSONB;
+
+COMMENT ON COLUMN screens.fidelity_score IS 'Visual fidelity of current_code against the Figma render, 0-1';
+COMMENT ON COLUMN screens.visual_diff IS 'VisualDiffResult: score, ssim, pixelMismatch, regions, heatMapUrl, codeHash, measuredAt';
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Box,
   Button,
@@ -44,7 +44,7 @@ import {
   Close
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
-import Editor from '@monaco-editor/react';
+import Editor, { Monaco, OnMount } from '@monaco-editor/react';
 import { LiveProvider, LiveError, LivePreview, withLive } from 'react-live';
 import { queryClaude, ClaudeRequest, ClaudeResponse } from '../../services/claude';
 import FigmaService, { ComponentAnalysis, DesignTokens, FigmaAnalysisResult, ComponentBounds, BoundsMatchingResult, ComponentMatchCandidates, NodeMatchCandidate } from '../../services/figmaService';
@@ -56,6 +56,9 @@ import {
   Visibility, 
   VisibilityOff
 } from '@mui/icons-material';
+import { compilePreviewModule, diagnosePreviewModule, findComponentDefinitions, previewScope } from '../../utils/previewModule';
+import { previewRuntimeModules } from '../../utils/previewRuntime';
+import SandboxedPreview from '../../components/SandboxedPreview';
 import { CLAUDE_ANALYSIS_PROMPT } from './prompt';
 import { CLAUDE_ENHANCEMENT_PROMPT } from './enhancement-prompt';
 import { CLAUDE_COMPONENT_EXTRACTION_PROMPT } from './component-extraction-prompt';
@@ -141,44 +144,8 @@ const scope = {
   VisibilityOffIcon: VisibilityOff,
 };
 
-const prepareCodeForPreview = (code: string): string => {
-  try {
-    // Remove all import statements
-    let cleanCode = code.replace(/import\s+[^;]+;?\s*/g, '');
-    
-    // Remove export statements
-    cleanCode = cleanCode.replace(/export\s+(default\s+)?/g, '');
-    
-    // Find the component name
-    const componentNameMatch = cleanCode.match(/(?:const|function)\s+(\w+)\s*[=\(]/);
-    const componentName = componentNameMatch ? componentNameMatch[1] : 'GeneratedComponent';
-    
-    // Clean up any remaining semicolons at the start
-    cleanCode = cleanCode.replace(/^\s*;\s*/, '');
-    
-    // Trim whitespace
-    cleanCode = cleanCode.trim();
-    
-    // For React Live with noInline=true, we need to call render() to render the component
-    if (!cleanCode.includes('render(')) {
-      cleanCode += `\n\nrender(<${componentName} />);`;
-    }
-    
-    return cleanCode;
-  } catch (error) {
-    console.error('Error preparing code for preview:', error);
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return `
-      const ErrorComponent = () => {
-        return React.createElement('div', { 
-          style: { padding: '20px', backgroundColor: '#fee', color: '#c33', fontFamily: 'monospace' } 
-        }, 'Error preparing code for preview: ' + ${JSON.stringify(errorMessage)});
-      };
-      
-      render(React.createElement(ErrorComponent));
-    `;
-  }
-};
+const previewModules = previewRuntimeModules();
+const previewLiveScope = previewScope(previewModules, scope);
 
 // Helper function to extract unique style patterns from component code
 const extractStylePatterns = (componentCode: string): string[] => {
@@ -233,7 +200,6 @@ const calculateStyleMatchScore = (elementCode: string, stylePatterns: string[]):
 
 export const Test1List = () => {
   const [mode, setMode] = useState<'description' | 'code-generation'>('description');
-  const [figmaPat, setFigmaPat] = useState(import.meta.env.VITE_FIGMA_PAT || '');
   const [figmaUrl, setFigmaUrl] = useState('https://www.figma.com/design/CbS1cPHwdvmOJfPJFzKodU/Forkable-Testing-V3?node-id=96-404&m=draw');
   const [figmaImageUrl, setFigmaImageUrl] = useState<string | null>(null);
   const [isFetchingImage, setIsFetchingImage] = useState(false);
@@ -307,8 +273,8 @@ export const Test1List = () => {
   }, [selectedComponentId]);
 
   const handleFetchFigmaImage = async () => {
-    if (!figmaPat.trim() || !figmaUrl.trim()) {
-      setSnackbarMessage('Please enter both Figma PAT and URL');
+    if (!figmaUrl.trim()) {
+      setSnackbarMessage('Please enter a Figma URL');
       setSnackbarOpen(true);
       return;
     }
@@ -316,7 +282,7 @@ export const Test1List = () => {
     setIsFetchingImage(true);
     try {
       // Create service instance
-      const figmaService = new FigmaService(figmaPat);
+      const figmaService = new FigmaService();
       
       // Extract file ID and node ID from URL
       const fileId = figmaService.extractFileKey(figmaUrl);
@@ -433,6 +399,36 @@ export const Test1List = () => {
     setGeneratedCode(value || '');
   };
 
+  const monacoRef = useRef<Monaco | null>(null);
+  const codeEditorRef = useRef<Parameters<OnMount>[0] | null>(null);
+
+  const handleCodeEditorMount: OnMount = (editor, monaco) => {
+    codeEditorRef.current = editor;
+    monacoRef.current = monaco;
+    showPreviewDiagnostics(generatedCode);
+  };
+
+  // Mark what keeps the code from loading in the preview, where it is
+  const showPreviewDiagnostics = (code: string) => {
+    const monaco = monacoRef.current;
+    const model = codeEditorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    const diagnostics = code.trim() ? diagnosePreviewModule(code, { modules: previewModules }) : [];
+    monaco.editor.setModelMarkers(model, 'preview', diagnostics.map(diagnostic => ({
+      message: diagnostic.message,
+      severity: monaco.MarkerSeverity.Error,
+      startLineNumber: diagnostic.line,
+      startColumn: diagnostic.column,
+      endLineNumber: diagnostic.endLine,
+      endColumn: diagnostic.endColumn
+    })));
+  };
+
+  useEffect(() => {
+    showPreviewDiagnostics(generatedCode);
+  }, [generatedCode]);
+
   const handleCopyCode = () => {
     navigator.clipboard.writeText(generatedCode);
     setSnackbarMessage('Code copied to clipboard!');
@@ -696,48 +692,13 @@ Example format:
   };
 
   const extractAllComponentDefinitions = (fullCode: string): string => {
-    try {
-      if (!fullCode || fullCode.trim() === '') {
-        return '';
-      }
-      
-      // More robust regex patterns to catch various component definition styles
-      const patterns = [
-        // const Component = () => { ... }
-        /const\s+[A-Z][a-zA-Z0-9]*\s*=\s*\([^)]*\)\s*=>\s*\{[\s\S]*?\n\};?/g,
-        // const Component = () => ( ... )
-        /const\s+[A-Z][a-zA-Z0-9]*\s*=\s*\([^)]*\)\s*=>\s*\([\s\S]*?\n\);?/g,
-        // function Component() { ... }
-        /function\s+[A-Z][a-zA-Z0-9]*\s*\([^)]*\)\s*\{[\s\S]*?\n\}/g,
-        // const Component = React.memo(() => { ... })
-        /const\s+[A-Z][a-zA-Z0-9]*\s*=\s*React\.memo\([\s\S]*?\)\);?/g,
-        // const Component = forwardRef(() => { ... })
-        /const\s+[A-Z][a-zA-Z0-9]*\s*=\s*forwardRef\([\s\S]*?\)\);?/g,
-      ];
-      
-      let definitions = '';
-      const foundComponents = new Set<string>();
-      
-      for (const pattern of patterns) {
-        let match;
-        while ((match = pattern.exec(fullCode)) !== null) {
-          const fullMatch = match[0];
-          const componentName = fullMatch.match(/(?:const|function)\s+([A-Z][a-zA-Z0-9]*)/)?.[1];
-          
-          // Avoid duplicates
-          if (componentName && !foundComponents.has(componentName)) {
-            foundComponents.add(componentName);
-            definitions += fullMatch + '\n\n';
-          }
-        }
-      }
-      
-      console.log('Extracted component definitions:', foundComponents);
-      return definitions;
-    } catch (error) {
-      console.error('Error extracting component definitions:', error);
+    if (!fullCode || fullCode.trim() === '') {
       return '';
     }
+
+    const definitions = findComponentDefinitions(fullCode);
+    console.log('Extracted component definitions:', definitions.map(definition => definition.name));
+    return definitions.map(definition => definition.code).join('\n\n');
   };
 
   const handleEnhanceIndividualComponent = async (component: ExtractedComponent) => {
@@ -1558,51 +1519,19 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
     `;
   };
 
-  // NEW: Simplified preview preparation - just clean code, no complex injection
-  const prepareCodeForComponentEditor = (code: string, selectedId: string | null = null): string => {
-    try {
-      let processedCode = code;
-      
-      // Remove all import statements
-      processedCode = processedCode.replace(/import\s+[^;]+;?\s*/g, '');
-      
-      // Remove export statements
-      processedCode = processedCode.replace(/export\s+(default\s+)?/g, '');
-      
-      // Clean up any remaining semicolons at the start
-      processedCode = processedCode.replace(/^\s*;\s*/, '');
-      
-      // Find the component name
-      const componentNameMatch = processedCode.match(/(?:const|function)\s+(\w+)\s*[=\(]/);
-      const componentName = componentNameMatch ? componentNameMatch[1] : 'GeneratedComponent';
-      
-      // Add visual selector with current selection
-      const visualSelectorCode = addVisualSelectionToPreview(selectedId, []).replace(
-        /\$\{selectedComponentId\}/g, 
-        selectedId || 'null'
-      );
-      processedCode = visualSelectorCode + '\n\n' + processedCode;
-      
-      // For React Live with noInline=true, we need to call render()
-      if (!processedCode.includes('render(')) {
-        processedCode += `\n\nrender(<React.Fragment><VisualSelector /><${componentName} /></React.Fragment>);`;
-      }
-      
-      return processedCode;
-    } catch (error) {
-      console.error('Error preparing code for component editor:', error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return `
-        const ErrorComponent = () => {
-          return React.createElement('div', { 
-            style: { padding: '20px', backgroundColor: '#fee', color: '#c33', fontFamily: 'monospace' } 
-          }, 'Error preparing code for component editor: ' + ${JSON.stringify(errorMessage)});
-        };
-        
-        render(React.createElement(ErrorComponent));
-      `;
-    }
-  };
+  // The generated module compiled for the component editor, rendered under the visual selector
+  const transformComponentEditorCode = useCallback((code: string): string => {
+    const visualSelectorCode = addVisualSelectionToPreview(selectedComponentId, []).replace(
+      /\$\{selectedComponentId\}/g,
+      selectedComponentId || 'null'
+    );
+    const compiled = compilePreviewModule(code, {
+      modules: previewModules,
+      guardLoops: true,
+      render: componentName => `render(<React.Fragment><VisualSelector /><${componentName} /></React.Fragment>);`
+    });
+    return visualSelectorCode + '\n\n' + compiled.code;
+  }, [selectedComponentId]);
 
   // NEW: Extract component bounds from visual selector
   const extractComponentBounds = (): ComponentBounds[] => {
@@ -1676,8 +1605,8 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
 
   // NEW: Trigger bounds matching process
   const handleBoundsMatching = async () => {
-    if (!figmaUrl || !figmaPat) {
-      setSnackbarMessage('Please provide both Figma URL and Personal Access Token');
+    if (!figmaUrl) {
+      setSnackbarMessage('Please provide a Figma URL');
       setSnackbarOpen(true);
       return;
     }
@@ -1688,7 +1617,7 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
     
     try {
       // Initialize Figma service
-      const figmaService = new FigmaService(figmaPat);
+      const figmaService = new FigmaService();
       const fileKey = figmaService.extractFileKey(figmaUrl);
       
       // Get Figma file analysis
@@ -1785,18 +1714,6 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
           </Alert>
           
           <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-            <FormControl fullWidth>
-              <FormLabel>Figma Personal Access Token</FormLabel>
-              <TextField
-                value={figmaPat}
-                onChange={(e) => setFigmaPat(e.target.value)}
-                placeholder="Enter your Figma PAT"
-                size="small"
-                type="password"
-                sx={{ mt: 1 }}
-              />
-            </FormControl>
-
             <FormControl fullWidth>
               <FormLabel>Figma URL</FormLabel>
               <TextField
@@ -1811,7 +1728,7 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
             <Button
               variant="outlined"
               onClick={handleFetchFigmaImage}
-              disabled={isFetchingImage || !figmaPat.trim() || !figmaUrl.trim()}
+              disabled={isFetchingImage || !figmaUrl.trim()}
               startIcon={isFetchingImage ? <CircularProgress size={16} /> : <MuiIcons.CloudUpload />}
               size="small"
               sx={{ mt: 1 }}
@@ -2019,6 +1936,7 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
                     defaultLanguage="typescript"
                     value={generatedCode}
                     onChange={handleCodeChange}
+                    onMount={handleCodeEditorMount}
                     theme="vs-dark"
                     options={{
                       minimap: { enabled: false },
@@ -2091,14 +2009,7 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
                 
                 <Box sx={{ flex: 1, p: 2, overflow: 'auto', bgcolor: 'grey.50', minHeight: 0 }}>
                   {generatedCode ? (
-                    <LiveProvider 
-                      code={prepareCodeForPreview(generatedCode)} 
-                      scope={scope} 
-                      noInline={true}
-                    >
-                      <LiveError />
-                      <LivePreview />
-                    </LiveProvider>
+                    <SandboxedPreview code={generatedCode} />
                   ) : (
                     <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
                       <Typography variant="body2" color="text.secondary">
@@ -2479,7 +2390,7 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
                       variant="outlined"
                       startIcon={isMatchingBounds ? <CircularProgress size={16} /> : <MuiIcons.CompareArrows />}
                       onClick={handleBoundsMatching}
-                      disabled={isMatchingBounds || !figmaUrl || !figmaPat}
+                      disabled={isMatchingBounds || !figmaUrl}
                     >
                       {isMatchingBounds ? 'Matching...' : 'Match Bounds'}
                     </Button>
@@ -2514,8 +2425,9 @@ Return the COMPLETE enhanced code with only the target component modified. Do no
                     <Box sx={{ flex: 1, p: 2, overflow: 'auto', bgcolor: 'grey.50', minHeight: 0 }} data-testid="component-editor-preview">
                       {generatedCode ? (
                         <LiveProvider 
-                          code={prepareCodeForComponentEditor(generatedCode, selectedComponentId)} 
-                          scope={scope} 
+                          code={generatedCode} 
+                          scope={previewLiveScope} 
+                          transformCode={transformComponentEditorCode}
                           noInline={true}
                         >
                           <LiveError />
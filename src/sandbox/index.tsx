@@ -0,0 +1,164 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { createTheme, ThemeProvider } from '@mui/material/styles';
+import { MemoryRouter } from 'react-router';
+import { getComponentLibrary } from '../services/componentLibrary';
+import { captureElement } from '../utils/domCapture';
+import { compilePreviewModule, evaluatePreviewModule, PreviewModuleError, previewScope } from '../utils/previewModule';
+import { PREVIEW_GLOBALS, previewRuntimeModules } from '../utils/previewRuntime';
+import { isSandboxData, SandboxCaptureSize, SandboxMessage, SandboxRenderRequest, withChannel } from './protocol';
+
+/**
+ * The preview sandbox: renders generated code in its own document and React root, and reports back
+ * to the studio by message. The page runs with an opaque origin (SandboxedPreview leaves out
+ * allow-same-origin), so nothing the code does can reach the studio's window, storage or session.
+ */
+
+const container = document.getElementById('root') as HTMLElement;
+let root: Root | null = null;
+let currentId = 0;
+// Where render requests come from - replies go there once the studio has sent one
+let studioOrigin = '*';
+// How long a capture waits for images and fonts - whatever hasn't loaded by then is captured as it is
+const CAPTURE_LOAD_WAIT_MS = 5000;
+
+const post = (message: SandboxMessage) => {
+  window.parent.postMessage(withChannel(message), studioOrigin);
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+class PreviewBoundary extends React.Component<
+  { id: number; children: React.ReactNode },
+  { failed: boolean }
+> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    post({ type: 'error', id: this.props.id, kind: 'runtime', message: errorMessage(error) });
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(() => resolve(undefined)));
+
+const renderedSize = () => {
+  const rendered = (container.firstElementChild as HTMLElement | null) || container;
+  return { width: Math.round(rendered.scrollWidth), height: Math.round(rendered.scrollHeight) };
+};
+
+/**
+ * The rendered page at `size`, once its images and fonts have loaded
+ */
+const captureRender = async (size: SandboxCaptureSize): Promise<ImageData> => {
+  const images = Array.from(container.querySelectorAll('img')).filter(image => !image.complete);
+  await Promise.race([
+    Promise.all([
+      document.fonts?.ready,
+      ...images.map(image => new Promise(resolve => {
+        image.onload = resolve;
+        image.onerror = resolve;
+      }))
+    ]),
+    new Promise(resolve => setTimeout(resolve, CAPTURE_LOAD_WAIT_MS))
+  ]);
+  await nextFrame();
+  await nextFrame();
+
+  const context = (await captureElement(container, size)).getContext('2d');
+  if (!context) throw new Error('No canvas to capture the preview on');
+  return context.getImageData(0, 0, size.width, size.height);
+};
+
+// Rendered after the component, so its effect runs once the component has committed
+const RenderedSignal: React.FC<{ id: number; capture?: SandboxCaptureSize }> = ({ id, capture }) => {
+  React.useEffect(() => {
+    requestAnimationFrame(() => {
+      if (!capture) {
+        post({ type: 'rendered', id, size: renderedSize() });
+        return;
+      }
+      captureRender(capture).then(
+        image => id === currentId && post({ type: 'rendered', id, size: renderedSize(), image }),
+        error => post({ type: 'error', id, kind: 'runtime', message: `The preview could not be captured: ${errorMessage(error)}` })
+      );
+    });
+  }, [id, capture]);
+  return null;
+};
+
+const renderRequest = ({ id, code, themeOptions, libraryId, files = {}, capture }: SandboxRenderRequest) => {
+  currentId = id;
+  // A fresh root per update, so effects of the previous code are cleaned up
+  root?.unmount();
+  root = createRoot(container);
+
+  const library = getComponentLibrary(libraryId);
+  const modules = previewRuntimeModules(library);
+  const globals = { ...PREVIEW_GLOBALS, ...(library.runtime || {}) };
+  let element: React.ReactNode;
+
+  // Local modules are loaded in order, each can import the ones before it
+  for (const [path, source] of Object.entries(files)) {
+    try {
+      modules[path] = evaluatePreviewModule(source, { modules, guardLoops: true }, globals);
+    } catch (error) {
+      post({ type: 'error', id, kind: error instanceof PreviewModuleError ? 'compile' : 'runtime', message: `${path}: ${errorMessage(error)}` });
+      return;
+    }
+  }
+
+  try {
+    const compiled = compilePreviewModule(code, { modules, guardLoops: true });
+    const scope = previewScope(modules, {
+      ...globals,
+      render: (rendered: React.ReactNode) => {
+        element = rendered;
+      }
+    });
+    new Function(...Object.keys(scope), compiled.code)(...Object.values(scope));
+  } catch (error) {
+    post(error instanceof PreviewModuleError
+      ? { type: 'error', id, kind: 'compile', message: error.message, diagnostics: error.diagnostics }
+      : { type: 'error', id, kind: 'runtime', message: errorMessage(error) });
+    return;
+  }
+
+  if (element === undefined) {
+    post({ type: 'error', id, kind: 'runtime', message: '`render` must be called with the component to preview' });
+    return;
+  }
+
+  // Screens with prototype links navigate, so every preview gets a router
+  const content = (
+    <PreviewBoundary key={id} id={id}>
+      <MemoryRouter>{element}</MemoryRouter>
+      <RenderedSignal id={id} capture={capture} />
+    </PreviewBoundary>
+  );
+  root.render(themeOptions ? <ThemeProvider theme={createTheme(themeOptions)}>{content}</ThemeProvider> : content);
+};
+
+window.addEventListener('message', event => {
+  if (event.source === window.parent && isSandboxData(event.data) && event.data.type === 'render') {
+    studioOrigin = event.origin;
+    renderRequest(event.data);
+  }
+});
+
+// Errors outside rendering: timers, event handlers, promises
+window.addEventListener('error', event => {
+  post({ type: 'error', id: currentId, kind: 'runtime', message: event.message || errorMessage(event.error) });
+});
+window.addEventListener('unhandledrejection', event => {
+  post({ type: 'error', id: currentId, kind: 'runtime', message: errorMessage(event.reason) });
+});
+
+post({ type: 'ready' });
@@ -0,0 +1,49 @@
+import { ThemeOptions } from '@mui/material/styles';
+import { PreviewDiagnostic } from '../utils/previewModule';
+
+/**
+ * Messages between SandboxedPreview and the preview sandbox page (preview-sandbox.html)
+ */
+
+// Another site's copy of the page (VITE_PREVIEW_SANDBOX_URL) gets a process of its own in the browser
+export const SANDBOX_URL: string = import.meta.env.VITE_PREVIEW_SANDBOX_URL || '/preview-sandbox.html';
+export const SANDBOX_CHANNEL = 'forkable-preview-sandbox';
+
+// The frame's sandbox attribute. No allow-same-origin: even when served from the studio's origin, the frame gets an opaque one.
+export const SANDBOX_PERMISSIONS = 'allow-scripts allow-forms allow-popups';
+
+export interface SandboxCaptureSize {
+  width: number;
+  height: number;
+}
+
+// Studio -> sandbox
+export interface SandboxRenderRequest {
+  type: 'render';
+  id: number; // Replies carry it, so replies to superseded code can be ignored
+  code: string;
+  themeOptions?: ThemeOptions;
+  libraryId?: string; // Component library profile - its runtime can't be posted, the sandbox looks it up
+  files?: Record<string, string>; // Local modules the code imports, by import path ('./App'), dependencies first
+  capture?: SandboxCaptureSize; // Screenshot the render at this size, e.g. for the visual diff
+}
+
+export type SandboxErrorKind = 'compile' | 'runtime' | 'timeout';
+
+// Sandbox -> studio
+export type SandboxMessage =
+  | { type: 'ready' }
+  | { type: 'rendered'; id: number; size: { width: number; height: number }; image?: ImageData } // `image` when captured
+  | {
+      type: 'error';
+      id: number;
+      kind: SandboxErrorKind;
+      message: string;
+      diagnostics?: PreviewDiagnostic[]; // Compile errors
+    };
+
+// Every message is posted with the channel, to tell it apart from other messages the window gets
+export const withChannel = <T extends SandboxRenderRequest | SandboxMessage>(message: T) => ({ channel: SANDBOX_CHANNEL, ...message });
+
+export const isSandboxData = (data: unknown): data is SandboxRenderRequest | SandboxMessage =>
+  !!data && typeof data === 'object' && (data as { channel?: unknown }).channel === SANDBOX_CHANNEL;
@@ -1,6 +1,7 @@
 import { ComponentAnalysis } from './figmaService';
 import { AIContextAnalysis, SemanticSection } from './aiContextAnalysisService';
 import { IdentifiedComponent } from './gptVisionService';
+import { LLMProvider } from './llmProvider';
 
 export interface ContentMapping {
   figmaNodeId: string;
@@ -27,11 +28,10 @@ export interface EnhancedContentMapping {
 }
 
 export class AIContentMappingService {
-  private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1';
+  private llm: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -187,18 +187,8 @@ export class AIContentMappingService {
       imageComponents
     );
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert at mapping real interface content to semantic UI sections. Your job is to take actual text and images from a design and map them to their correct semantic roles so that generated code uses REAL content instead of placeholder text.
+    const response = await this.llm.complete({
+      system: `You are an expert at mapping real interface content to semantic UI sections. Your job is to take actual text and images from a design and map them to their correct semantic roles so that generated code uses REAL content instead of placeholder text.
 
 You understand that:
 - User names should be mapped to greeting/header sections
@@ -207,24 +197,13 @@ You understand that:
 - Navigation text should be mapped to header/navigation sections
 - Status text should be mapped to indicator/status sections
 
-Always prioritize using REAL content over generic placeholders.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.2
-      })
+Always prioritize using REAL content over generic placeholders.`,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 2000,
+      temperature: 0.2
     });
 
-    if (!response.ok) {
-      throw new Error(`Content mapping API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const responseText = data.choices[0]?.message?.content;
+    const responseText = response.content;
 
     return this.parseContentMappingResponse(responseText);
   }
@@ -1,3 +1,5 @@
+import { LLMProvider, visionMessage } from './llmProvider';
+
 // Core interface types that our system should recognize and handle
 export type InterfaceType = 
   | 'mobile-app' 
@@ -75,11 +77,10 @@ export interface AIContextAnalysis {
 }
 
 export class AIContextAnalysisService {
-  private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1';
+  private llm: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -96,18 +97,8 @@ export class AIContextAnalysisService {
     try {
       const analysisPrompt = this.buildContextAnalysisPrompt(figmaFileName, additionalContext);
       
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert UI/UX analyst with the intelligence of a senior designer. Your role is to analyze interface screenshots and provide comprehensive semantic understanding that will guide code generation.
+      const response = await this.llm.complete({
+        system: `You are an expert UI/UX analyst with the intelligence of a senior designer. Your role is to analyze interface screenshots and provide comprehensive semantic understanding that will guide code generation.
 
 You understand the difference between:
 - Mobile apps vs web applications vs dashboards vs landing pages
@@ -115,36 +106,14 @@ You understand the difference between:
 - Navigation patterns, content sections, user flows, and interaction patterns
 - Modern UI component libraries and their appropriate usage
 
-Your analysis will be the foundation for generating accurate React code, so be thorough and intelligent in your semantic understanding.`
-            },
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: analysisPrompt
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: screenshotUrl,
-                    detail: 'high'
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.3 // Lower temperature for more consistent analysis
-        })
+Your analysis will be the foundation for generating accurate React code, so be thorough and intelligent in your semantic understanding.`,
+        messages: [visionMessage(analysisPrompt, screenshotUrl, 'high')],
+        maxTokens: 2000,
+        temperature: 0.3, // Lower temperature for more consistent analysis
+        json: true
       });
 
-      if (!response.ok) {
-        throw new Error(`AI Context Analysis API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const analysisText = data.choices[0]?.message?.content;
+      const analysisText = response.content;
       
       if (!analysisText) {
         throw new Error('No analysis received from AI');
@@ -1,6 +1,7 @@
 import { ComponentAnalysis } from './figmaService';
 import { AIContextAnalysis } from './aiContextAnalysisService';
 import { EnhancedContentMapping } from './aiContentMappingService';
+import { LLMProvider, visionMessage } from './llmProvider';
 
 export interface SemanticComponent {
   figmaNodeId: string;
@@ -22,6 +23,14 @@ export interface SemanticComponent {
     variant?: string;
     color?: string;
   };
+  // Only set when components are identified from a plain image (no Figma nodes)
+  bounds?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  textContent?: string;
 }
 
 export interface SemanticComponentAnalysis {
@@ -45,11 +54,10 @@ export interface SemanticComponentAnalysis {
 }
 
 export class AISemanticComponentService {
-  private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1';
+  private llm: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -112,6 +120,107 @@ export class AISemanticComponentService {
     }
   }
 
+  /**
+   * Identify components directly from a screenshot when there is no Figma structure to work from.
+   * Bounds are estimated by the vision model in image pixels. Throws when no components could be
+   * identified - without Figma data there is nothing to fall back on.
+   */
+  async identifyComponentsFromImage(
+    imageUrl: string,
+    contextAnalysis: AIContextAnalysis
+  ): Promise<SemanticComponentAnalysis> {
+    console.log('🔍 [SEMANTIC COMPONENT] Identifying components from image...');
+
+    try {
+      const response = await this.llm.complete({
+        system: `You are an expert UI/UX analyst who identifies every UI component in an interface screenshot, the way a front-end developer would before rebuilding it. You report each component's semantic meaning, its approximate position and size in image pixels, and any visible text.`,
+        messages: [visionMessage(this.buildImageIdentificationPrompt(contextAnalysis), imageUrl, 'high')],
+        maxTokens: 8000,
+        temperature: 0.2
+      });
+
+      const responseText = response.content;
+
+      const components = this.parseSemanticAnalysisResponse(responseText).map((component, index) => ({
+        ...component,
+        figmaNodeId: component.figmaNodeId || `image-component-${index + 1}`
+      }));
+
+      if (components.length === 0) {
+        throw new Error('No components identified in image');
+      }
+
+      const confidence = this.calculateSemanticConfidence(components);
+      const summary = this.generateSummary(components);
+
+      console.log('✅ [SEMANTIC COMPONENT] Image identification complete:', {
+        components: components.length,
+        confidence
+      });
+
+      return {
+        components,
+        patterns: this.identifyInteractionPatterns(components),
+        confidence,
+        summary
+      };
+
+    } catch (error) {
+      console.error('❌ [SEMANTIC COMPONENT] Image identification failed:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Component identification failed: ${message}`);
+    }
+  }
+
+  /**
+   * Build prompt for identifying components in a plain screenshot
+   */
+  private buildImageIdentificationPrompt(contextAnalysis: AIContextAnalysis): string {
+    return `Identify every UI component in this ${contextAnalysis.interfaceType} screenshot from the ${contextAnalysis.domain} domain.
+
+INTERFACE CONTEXT:
+- Type: ${contextAnalysis.interfaceType}
+- Domain: ${contextAnalysis.domain}
+- Primary Purpose: ${contextAnalysis.primaryPurpose}
+- Target Device: ${contextAnalysis.targetDevice}
+- Expected Sections: ${contextAnalysis.semanticSections.map(s => s.name).join(', ')}
+
+For each component report its semantic type, estimated bounds in image pixels (origin top-left), and the exact visible text if any.
+
+CRITICAL: You must respond with ONLY a valid JSON array, no explanatory text before or after.
+
+RESPOND with ONLY this JSON array format:
+[
+  {
+    "figmaNodeId": "image-component-1",
+    "semanticType": "avatar|product_image|icon|pill_badge|card|button|navigation_item|status_indicator|gallery_item|payment_method|text_content|container",
+    "visualCharacteristics": {
+      "size": "small|medium|large",
+      "shape": "circular|square|rectangular|pill|custom",
+      "aspectRatio": 1.5,
+      "hasImage": true,
+      "hasText": false
+    },
+    "bounds": { "x": 0, "y": 0, "width": 100, "height": 40 },
+    "textContent": "visible text or empty string",
+    "contextualRole": "user profile image|product showcase|navigation icon|status badge|content card|action button|menu item|activity indicator",
+    "businessPurpose": "identify user|show product|navigate app|indicate status|display info|trigger action|access feature|show activity",
+    "confidence": 0.9,
+    "suggestedMuiComponent": "Avatar|Card|IconButton|Chip|Button|Typography|Box",
+    "styleHints": {
+      "borderRadius": "50%|8px|4px",
+      "elevation": 2,
+      "variant": "contained|outlined|text",
+      "color": "primary|secondary|default"
+    }
+  }
+]
+
+List components top to bottom, left to right. Use high confidence for clear patterns, lower for ambiguous cases.
+
+IMPORTANT: Your response must start with [ and end with ] - no additional text.`;
+  }
+
   /**
    * Analyze visual characteristics like I would when looking at a screenshot
    */
@@ -233,18 +342,8 @@ export class AISemanticComponentService {
   ): Promise<SemanticComponent[]> {
     const prompt = this.buildSemanticAnalysisPrompt(visualAnalysis, contextAnalysis, contentMapping);
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert UI/UX analyst who can analyze interface components and determine their semantic meaning just like a human designer would. You understand that the same basic shape (RECTANGLE) can be an avatar, product image, button, or card depending on visual characteristics, position, and context.
+    const response = await this.llm.complete({
+      system: `You are an expert UI/UX analyst who can analyze interface components and determine their semantic meaning just like a human designer would. You understand that the same basic shape (RECTANGLE) can be an avatar, product image, button, or card depending on visual characteristics, position, and context.
 
 Your job is to look at component data and determine the SEMANTIC meaning:
 - Small circular/square components with images in header areas = avatars
@@ -256,24 +355,13 @@ Your job is to look at component data and determine the SEMANTIC meaning:
 - Text components in top areas = navigation
 - Small colored shapes = status indicators
 
-Always consider the interface type (mobile app, web app, dashboard) and domain (e-commerce, social, productivity) when making classifications.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 8000,
-        temperature: 0.2
-      })
+Always consider the interface type (mobile app, web app, dashboard) and domain (e-commerce, social, productivity) when making classifications.`,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 8000,
+      temperature: 0.2
     });
 
-    if (!response.ok) {
-      throw new Error(`Semantic analysis API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const responseText = data.choices[0]?.message?.content;
+    const responseText = response.content;
 
     return this.parseSemanticAnalysisResponse(responseText);
   }
@@ -0,0 +1,32 @@
+import { supabaseClient, SUPABASE_URL, SUPABASE_KEY } from '../utility/supabaseClient';
+
+export type ProxyTarget = 'anthropic' | 'openai' | 'figma';
+
+// Supabase edge function in supabase/functions/api-proxy - holds the provider secrets
+const API_PROXY_URL = import.meta.env.VITE_API_PROXY_URL || `${SUPABASE_URL}/functions/v1/api-proxy`;
+
+/**
+ * Call a third-party API through the authenticated proxy.
+ * The signed-in user's Supabase access token replaces any provider key.
+ */
+export const proxyFetch = async (
+  target: ProxyTarget,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> => {
+  const { data } = await supabaseClient.auth.getSession();
+  const accessToken = data.session?.access_token;
+
+  if (!accessToken) {
+    throw new Error('You need to be signed in to call external APIs');
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${accessToken}`);
+  headers.set('apikey', SUPABASE_KEY);
+
+  return fetch(`${API_PROXY_URL}/${target}${path}`, {
+    ...init,
+    headers
+  });
+};
@@ -0,0 +1,250 @@
+import { supabaseClient } from '../utility/supabaseClient';
+
+/**
+ * Figma's image exports are S3 links that expire after a few weeks. This stores them in Supabase
+ * Storage instead: each image is downloaded once, named by the hash of its content so repeats are
+ * uploaded once, optionally converted to WebP and resized for srcSet.
+ */
+
+export interface AssetStorageSettings {
+  enabled: boolean; // Store Figma images; off leaves the expiring Figma links in the code
+  webp: boolean; // Convert to WebP where the browser can encode it
+  responsiveWidths: number[]; // Extra sizes for srcSet, in px - only those narrower than the image
+}
+
+export const DEFAULT_ASSET_STORAGE_SETTINGS: AssetStorageSettings = {
+  enabled: true,
+  webp: false,
+  responsiveWidths: []
+};
+
+export const ASSET_BUCKET = 'screen-images';
+
+// Render and image-fill links the Figma API hands out
+export const FIGMA_IMAGE_URL = /https:\/\/(?:figma-alpha-api\.s3\.[a-z0-9-]+\.amazonaws\.com|s3-alpha(?:-sig)?\.figma\.com)\/[^\s"'`)\\]+/g;
+
+export interface StoredAsset {
+  url: string; // Public Storage URL of the full-size image
+  srcSet?: string; // With responsive sizes: every stored width
+  hash: string; // SHA-256 of the downloaded image
+}
+
+export interface PersistedAssets {
+  assets: Record<string, StoredAsset>; // Figma URL -> stored image
+  failed: string[]; // Figma URLs that couldn't be stored - keep using them
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+// Formats that are drawn to a canvas for WebP and resizing - vectors and animations are stored as they are
+const RASTER_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp']);
+
+const WEBP_QUALITY = 0.9;
+
+// Stored images by Figma URL, for the tab's lifetime - re-runs of a screen don't download them again
+const storedByUrl = new Map<string, Promise<StoredAsset>>();
+
+const hashOf = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const imageWidth = async (blob: Blob): Promise<number> => {
+  const bitmap = await createImageBitmap(blob);
+  const width = bitmap.width;
+  bitmap.close();
+  return width;
+};
+
+/**
+ * The image re-encoded, scaled to `width` when given. Keeps the original type when the browser
+ * can't encode WebP.
+ */
+const encodeImage = async (blob: Blob, type: string, width?: number): Promise<{ blob: Blob; width: number }> => {
+  const bitmap = await createImageBitmap(blob);
+  const targetWidth = width ?? bitmap.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = Math.max(1, Math.round(bitmap.height * targetWidth / bitmap.width));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is unavailable');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const encoded = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, WEBP_QUALITY));
+  if (!encoded) throw new Error(`Could not encode the image as ${type}`);
+  return { blob: encoded, width: targetWidth };
+};
+
+class AssetStorageService {
+  constructor(private settings: AssetStorageSettings = DEFAULT_ASSET_STORAGE_SETTINGS) {}
+
+  /**
+   * Store the images behind `urls` under the user's folder for the project. Images already in the
+   * folder (same content) aren't uploaded again.
+   */
+  async persist(urls: string[], projectId: string): Promise<PersistedAssets> {
+    const unique = Array.from(new Set(urls.filter(Boolean)));
+    const result: PersistedAssets = { assets: {}, failed: [] };
+    if (unique.length === 0) return result;
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      console.warn('⚠️ [ASSETS] Not signed in - keeping Figma image links');
+      return { assets: {}, failed: unique };
+    }
+
+    const folder = `${user.id}/${projectId}/assets`;
+    const { data: existing } = await supabaseClient.storage.from(ASSET_BUCKET).list(folder, { limit: 1000 });
+    const storedNames = new Set((existing || []).map(file => file.name));
+    // Figma URLs with the same content share one upload
+    const byHash = new Map<string, Promise<StoredAsset>>();
+
+    await Promise.all(unique.map(async url => {
+      const key = `${folder}|${this.variantKey()}|${url}`;
+      let pending = storedByUrl.get(key);
+      if (!pending) {
+        pending = this.store(url, folder, storedNames, byHash);
+        storedByUrl.set(key, pending);
+      }
+      try {
+        result.assets[url] = await pending;
+      } catch (error) {
+        storedByUrl.delete(key);
+        console.warn('⚠️ [ASSETS] Keeping the Figma link, the image could not be stored:', url, error);
+        result.failed.push(url);
+      }
+    }));
+
+    console.log('🖼️ [ASSETS] Images stored:', {
+      stored: Object.keys(result.assets).length,
+      uploads: byHash.size,
+      failed: result.failed.length
+    });
+    return result;
+  }
+
+  /**
+   * A Figma fetch's screenshot and node images, stored. `assetSrcSets` has the node images with
+   * responsive sizes. Images that couldn't be stored keep their Figma links.
+   */
+  async persistFigmaImages(
+    imageUrl: string,
+    assetUrls: Record<string, string>,
+    projectId: string
+  ): Promise<{ imageUrl: string; assetUrls: Record<string, string>; assetSrcSets: Record<string, string> }> {
+    const persisted = await this.persist([imageUrl, ...Object.values(assetUrls)], projectId);
+    const assetSrcSets: Record<string, string> = {};
+    const stored = Object.fromEntries(Object.entries(assetUrls).map(([nodeId, url]) => {
+      const asset = persisted.assets[url];
+      if (asset?.srcSet) assetSrcSets[nodeId] = asset.srcSet;
+      return [nodeId, asset?.url ?? url];
+    }));
+    return { imageUrl: persisted.assets[imageUrl]?.url ?? imageUrl, assetUrls: stored, assetSrcSets };
+  }
+
+  /**
+   * Replace stored Figma URLs in code, JSON or any other text
+   */
+  rewriteUrls(text: string, persisted: PersistedAssets): string {
+    return text.replace(FIGMA_IMAGE_URL, url => persisted.assets[url]?.url ?? url);
+  }
+
+  /**
+   * Everything of a saved screen that points at Figma images, pointing at stored copies instead.
+   * For screens generated before images were stored - their links work until Figma expires them.
+   */
+  async persistScreen<T extends { current_code?: string; original_image_url?: string; analysis_data?: unknown }>(
+    screen: T,
+    projectId: string
+  ): Promise<{ screen: Partial<T>; persisted: PersistedAssets }> {
+    const analysisJson = screen.analysis_data ? JSON.stringify(screen.analysis_data) : '';
+    const texts = [screen.current_code || '', screen.original_image_url || '', analysisJson];
+    const urls = texts.flatMap(text => text.match(FIGMA_IMAGE_URL) || []);
+    const persisted = await this.persist(urls, projectId);
+
+    const updates: Partial<T> = {};
+    if (screen.current_code) {
+      updates.current_code = this.rewriteUrls(screen.current_code, persisted) as T['current_code'];
+    }
+    if (screen.original_image_url) {
+      updates.original_image_url = this.rewriteUrls(screen.original_image_url, persisted) as T['original_image_url'];
+    }
+    if (analysisJson) {
+      updates.analysis_data = JSON.parse(this.rewriteUrls(analysisJson, persisted));
+    }
+    return { screen: updates, persisted };
+  }
+
+  // Different settings store different files, so they're cached apart
+  private variantKey(): string {
+    return `${this.settings.webp ? 'webp' : 'original'}:${this.settings.responsiveWidths.join(',')}`;
+  }
+
+  private async store(
+    url: string,
+    folder: string,
+    storedNames: Set<string>,
+    byHash: Map<string, Promise<StoredAsset>>
+  ): Promise<StoredAsset> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = await response.arrayBuffer();
+    const type = (response.headers.get('content-type') || 'image/png').split(';')[0].trim();
+    const hash = await hashOf(data);
+
+    const variant = `${hash}|${this.variantKey()}`;
+    let pending = byHash.get(variant);
+    if (!pending) {
+      pending = this.upload(new Blob([data], { type }), type, hash, folder, storedNames);
+      byHash.set(variant, pending);
+    }
+    return pending;
+  }
+
+  private async upload(blob: Blob, type: string, hash: string, folder: string, storedNames: Set<string>): Promise<StoredAsset> {
+    const isRaster = RASTER_TYPES.has(type);
+    let full = { blob, width: 0 };
+    if (isRaster && (this.settings.webp || this.settings.responsiveWidths.length > 0)) {
+      full = this.settings.webp ? await encodeImage(blob, 'image/webp') : { blob, width: await imageWidth(blob) };
+    }
+    const fullType = full.blob.type || type;
+    const url = await this.uploadFile(full.blob, fullType, `${hash}.${EXTENSIONS[fullType] || 'png'}`, folder, storedNames);
+
+    const widths = isRaster ? this.settings.responsiveWidths.filter(width => width < full.width).sort((a, b) => a - b) : [];
+    if (widths.length === 0) {
+      return { url, hash };
+    }
+
+    const sizes = await Promise.all(widths.map(async width => {
+      const resized = await encodeImage(blob, fullType, width);
+      const name = `${hash}-${width}w.${EXTENSIONS[resized.blob.type] || 'png'}`;
+      return `${await this.uploadFile(resized.blob, resized.blob.type, name, folder, storedNames)} ${width}w`;
+    }));
+    return { url, hash, srcSet: [...sizes, `${url} ${full.width}w`].join(', ') };
+  }
+
+  // Names are content hashes, so a file that's already there is the same image
+  private async uploadFile(blob: Blob, type: string, name: string, folder: string, storedNames: Set<string>): Promise<string> {
+    const path = `${folder}/${name}`;
+    if (!storedNames.has(name)) {
+      const { error } = await supabaseClient.storage
+        .from(ASSET_BUCKET)
+        .upload(path, blob, { contentType: type, cacheControl: '31536000', upsert: false });
+      if (error && !/exists/i.test(error.message)) throw error;
+      storedNames.add(name);
+    }
+    return supabaseClient.storage.from(ASSET_BUCKET).getPublicUrl(path).data.publicUrl;
+  }
+}
+
+export default AssetStorageService;
@@ -0,0 +1,225 @@
+import { MappedComponent } from './styleMapperService';
+
+/**
+ * Merges Figma frames that draw the same screen at different sizes (mobile, tablet, desktop)
+ * into one component tree whose sx uses MUI's responsive values, e.g. { xs: 16, md: 32 }.
+ */
+
+export type Breakpoint = 'xs' | 'sm' | 'md' | 'lg' | 'xl';
+
+export const BREAKPOINTS: Breakpoint[] = ['xs', 'sm', 'md', 'lg', 'xl'];
+
+// MUI's default theme breakpoints - the generated theme doesn't change them
+export const BREAKPOINT_MIN_WIDTH: Record<Breakpoint, number> = { xs: 0, sm: 600, md: 900, lg: 1200, xl: 1536 };
+
+export const BREAKPOINT_LABELS: Record<Breakpoint, string> = {
+  xs: 'Mobile',
+  sm: 'Tablet',
+  md: 'Small laptop',
+  lg: 'Desktop',
+  xl: 'Large desktop'
+};
+
+// A top-level Figma frame linked to the breakpoint it was drawn for
+export interface BreakpointFrame {
+  breakpoint: Breakpoint;
+  nodeId: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface BreakpointMerge {
+  root: MappedComponent;
+  components: MappedComponent[]; // The merged tree, as a flat list linked through parentId
+}
+
+// The largest breakpoint a frame of this width reaches
+export const suggestBreakpoint = (width: number): Breakpoint =>
+  [...BREAKPOINTS].reverse().find(breakpoint => width >= BREAKPOINT_MIN_WIDTH[breakpoint]) || 'xs';
+
+/**
+ * Top-level frames that could be linked to a breakpoint - the same frames the screenshot picks from
+ */
+export const breakpointFrameCandidates = (components: MappedComponent[]): Omit<BreakpointFrame, 'breakpoint'>[] =>
+  components
+    .filter(comp =>
+      !comp.parentId &&
+      comp.figmaType === 'FRAME' &&
+      (comp.sx.width || 0) > 200 && (comp.sx.height || 0) > 200 &&
+      !comp.name.startsWith('_') && !comp.name.startsWith('.')
+    )
+    .map(comp => ({ nodeId: comp.id, name: comp.name, width: comp.sx.width, height: comp.sx.height }));
+
+// Sorted mobile-first, one frame per breakpoint, only frames that are in the file
+export const linkedBreakpointFrames = (components: MappedComponent[], frames: BreakpointFrame[] = []): BreakpointFrame[] =>
+  BREAKPOINTS
+    .map(breakpoint => frames.find(frame => frame.breakpoint === breakpoint))
+    .filter((frame): frame is BreakpointFrame => !!frame && components.some(comp => comp.id === frame.nodeId));
+
+// A node's key in its frame: the layer names down from the frame, numbered among same-named siblings
+type FrameIndex = Map<string, MappedComponent>;
+
+const ABSENT = Symbol('absent'); // The node isn't in the frame for this breakpoint
+const NOT_SET = Symbol('not set');
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+class BreakpointMergeService {
+
+  /**
+   * Merge the linked frames. Nodes are matched by layer name path; the first (smallest) frame is the
+   * base, and each larger frame adds the values that differ from the breakpoint below it. Nodes
+   * missing from a frame are hidden at that breakpoint with a responsive display.
+   */
+  merge(components: MappedComponent[], frames: BreakpointFrame[]): BreakpointMerge {
+    const linked = linkedBreakpointFrames(components, frames);
+    if (linked.length === 0) {
+      throw new Error('None of the linked breakpoint frames is in the Figma file');
+    }
+
+    const childrenOf = new Map<string, MappedComponent[]>();
+    components.forEach(comp => {
+      if (comp.parentId) {
+        childrenOf.set(comp.parentId, [...(childrenOf.get(comp.parentId) || []), comp]);
+      }
+    });
+
+    // The smallest frame covers everything below the next breakpoint, so it's written as xs
+    const breakpoints = linked.map((frame, index) => index === 0 ? 'xs' : frame.breakpoint);
+    const indexes: FrameIndex[] = [];
+    const childKeys = new Map<string, string[]>();
+
+    linked.forEach(frame => {
+      const index: FrameIndex = new Map();
+      const visit = (comp: MappedComponent, key: string) => {
+        index.set(key, comp);
+        const seen = new Map<string, number>();
+        const keys = (childrenOf.get(comp.id) || []).map(child => {
+          const occurrence = seen.get(child.name) || 0;
+          seen.set(child.name, occurrence + 1);
+          const childKey = `${key}/${child.name}#${occurrence}`;
+          visit(child, childKey);
+          return childKey;
+        });
+        this.mergeOrder(childKeys, key, keys);
+      };
+      const frameNode = components.find(comp => comp.id === frame.nodeId);
+      if (!frameNode) {
+        throw new Error(`Breakpoint frame ${frame.name} (${frame.nodeId}) is not in the Figma file`);
+      }
+      visit(frameNode, '');
+      indexes.push(index);
+    });
+
+    const merged: MappedComponent[] = [];
+    const build = (key: string, parentId?: string): MappedComponent => {
+      const instances = indexes.map(index => index.get(key));
+      const base = instances.find((inst): inst is MappedComponent => !!inst);
+      if (!base) {
+        throw new Error(`No breakpoint frame has the node ${key}`);
+      }
+      const node: MappedComponent = {
+        ...base,
+        parentId,
+        sx: this.mergeSx(instances, breakpoints),
+        props: this.mergeProps(base, instances, breakpoints),
+        children: undefined
+      };
+      merged.push(node);
+      (childKeys.get(key) || []).forEach(childKey => build(childKey, node.id));
+      return node;
+    };
+    const root = build('');
+
+    console.log('📐 [BREAKPOINTS] Merged frames:', {
+      frames: linked.map(frame => `${frame.name} (${frame.breakpoint})`),
+      nodes: merged.length
+    });
+    return { root, components: merged };
+  }
+
+  /**
+   * Add a frame's child order to the merged order: nodes only some frames have go right after
+   * the sibling they follow in their frame
+   */
+  private mergeOrder(childKeys: Map<string, string[]>, key: string, keys: string[]) {
+    const order = childKeys.get(key) || [];
+    let previous = -1;
+    keys.forEach(childKey => {
+      const existing = order.indexOf(childKey);
+      if (existing === -1) {
+        order.splice(previous + 1, 0, childKey);
+        previous += 1;
+      } else {
+        previous = existing;
+      }
+    });
+    childKeys.set(key, order);
+  }
+
+  private mergeSx(instances: (MappedComponent | undefined)[], breakpoints: string[]): Record<string, unknown> {
+    const keys = new Set(instances.flatMap(inst => inst ? Object.keys(inst.sx) : []));
+    const sx: Record<string, unknown> = {};
+    keys.forEach(key => {
+      const value = this.responsiveValue(instances.map(inst => inst ? inst.sx[key] : ABSENT), breakpoints);
+      if (value !== undefined) {
+        sx[key] = value;
+      }
+    });
+
+    if (instances.some(inst => !inst)) {
+      sx.display = this.responsiveValue(
+        instances.map(inst => inst ? inst.sx.display ?? this.displayOf(inst) : 'none'),
+        breakpoints
+      );
+    }
+    return sx;
+  }
+
+  // Stack's direction and spacing are props, so they need responsive values too
+  private mergeProps(base: MappedComponent, instances: (MappedComponent | undefined)[], breakpoints: string[]): Record<string, unknown> {
+    if (base.muiComponent !== 'Stack') {
+      return base.props;
+    }
+    const props = { ...base.props };
+    (['direction', 'spacing'] as const).forEach(key => {
+      if (key in props) {
+        props[key] = this.responsiveValue(instances.map(inst => inst ? inst.props[key] : ABSENT), breakpoints);
+      }
+    });
+    return props;
+  }
+
+  /**
+   * One value per breakpoint -> a plain value when they're all the same, otherwise an object with
+   * an entry wherever the value changes. A value missing above a breakpoint that set one is 'unset'.
+   */
+  private responsiveValue(values: unknown[], breakpoints: string[]): unknown {
+    const entries: [string, unknown][] = [];
+    let previous: unknown = NOT_SET;
+
+    values.forEach((raw, index) => {
+      if (raw === ABSENT) return; // Hidden there - whatever applies doesn't show
+      const value = raw === undefined ? (previous === NOT_SET ? NOT_SET : 'unset') : raw;
+      if (value === NOT_SET || (previous !== NOT_SET && sameValue(value, previous))) return;
+      entries.push([breakpoints[index], value]);
+      previous = value;
+    });
+
+    if (entries.length === 0) return undefined;
+    // Nested selectors ('&:hover') can't be responsive - they keep the first frame's styles
+    if (entries.some(([, value]) => value !== null && typeof value === 'object')) return entries[0][1];
+    if (entries.length === 1 && entries[0][0] === 'xs') return entries[0][1];
+    return Object.fromEntries(entries);
+  }
+
+  // What display a node had before it was hidden at another breakpoint
+  private displayOf(comp: MappedComponent): string {
+    if (comp.layout || comp.muiComponent === 'Stack') return 'flex';
+    if (['Button', 'IconButton', 'Chip', 'Fab'].includes(comp.muiComponent)) return 'inline-flex';
+    return 'block';
+  }
+}
+
+export default BreakpointMergeService;
@@ -1,14 +1,16 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMMessage, LLMProvider, createLLMProvider, fileToDataUrl } from './llmProvider';
 
-const anthropic = new Anthropic({
-  apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY || 'your-api-key-here',
-  dangerouslyAllowBrowser: true // Note: In production, you should proxy through your backend
-});
+export interface ClaudeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
 
 export interface ClaudeRequest {
   prompt: string;
   image?: File;
-  mode?: 'description' | 'code-generation';
+  mode?: 'description' | 'code-generation' | 'code-editing';
+  history?: ClaudeMessage[]; // Prior conversation turns, oldest first
+  provider?: LLMProvider; // Defaults to the configured Anthropic model for the mode's stage
 }
 
 export interface ClaudeResponse {
@@ -19,7 +21,7 @@ export interface ClaudeResponse {
 
 export const queryClaude = async (request: ClaudeRequest): Promise<ClaudeResponse> => {
   try {
-    const messages: any[] = [];
+    const messages: LLMMessage[] = [];
     
     // System prompt for code generation mode
     const systemPrompt = request.mode === 'code-generation' 
@@ -47,23 +49,24 @@ export const GeneratedComponent = () => {
   );
 };
 \`\`\``
+      : request.mode === 'code-editing'
+      ? CODE_EDITING_SYSTEM_PROMPT
       : undefined;
+
+    // Replay prior turns so the model keeps the conversation context
+    if (request.history) {
+      messages.push(...normalizeHistory(request.history));
+    }
     
     if (request.image) {
-      // Convert image to base64
-      const base64Image = await fileToBase64(request.image);
-      const mimeType = request.image.type;
+      const imageUrl = await fileToDataUrl(request.image);
       
       messages.push({
         role: "user",
         content: [
           {
             type: "image",
-            source: {
-              type: "base64",
-              media_type: mimeType,
-              data: base64Image
-            }
+            url: imageUrl
           },
           {
             type: "text",
@@ -82,24 +85,20 @@ export const GeneratedComponent = () => {
       });
     }
 
-    const apiCall: any = {
-      model: "claude-3-5-sonnet-20241022",
-      max_tokens: 4000,
-      messages: messages
-    };
-
-    // Add system prompt as top-level parameter if in code generation mode
-    if (systemPrompt) {
-      apiCall.system = systemPrompt;
-    }
+    const provider = request.provider
+      || createLLMProvider(request.mode === 'code-editing' ? 'codeEditing' : 'codeGeneration');
 
-    const response = await anthropic.messages.create(apiCall);
+    const response = await provider.complete({
+      system: systemPrompt,
+      messages,
+      maxTokens: request.mode === 'code-editing' ? 8000 : 4000
+    });
 
-    const content = response.content[0].type === 'text' ? response.content[0].text : 'No text response';
+    const content = response.content || 'No text response';
     
     // Extract code if in code generation mode
     let extractedCode = '';
-    if (request.mode === 'code-generation') {
+    if (request.mode === 'code-generation' || request.mode === 'code-editing') {
       extractedCode = extractCodeFromResponse(content);
     }
 
@@ -116,18 +115,45 @@ export const GeneratedComponent = () => {
   }
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const base64String = reader.result as string;
-      // Remove the data:image/jpeg;base64, prefix
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = error => reject(error);
+const CODE_EDITING_SYSTEM_PROMPT = `You are a senior React engineer iterating on an existing Material-UI screen together with a designer.
+
+You receive the current component code, the original design image (when available) and the designer's request.
+
+Requirements:
+- Apply the requested change to the CURRENT code; keep everything else intact
+- Keep TypeScript, Material-UI (@mui/material) components and the sx prop
+- Keep the component name and its default export
+- Use theme values for colors and spacing (palette paths like 'primary.main' or 'text.secondary', spacing numbers like p: 2) instead of hex or pixel literals
+- Return the COMPLETE updated component in a single \`\`\`tsx code block, never a partial diff
+- Before the code block, explain what you changed in one to three sentences
+- After the code block, add a final line "CONFIDENCE: <0-1>" rating how well the result satisfies the request
+- If the request is a question that needs no code change, answer it and omit the code block`;
+
+/**
+ * The Messages API requires conversations to start with a user turn and to
+ * alternate roles, so drop leading assistant turns and merge repeated roles.
+ */
+const normalizeHistory = (history: ClaudeMessage[]): ClaudeMessage[] => {
+  const normalized: ClaudeMessage[] = [];
+
+  history.forEach(message => {
+    if (!message.content.trim()) return;
+    if (normalized.length === 0 && message.role === 'assistant') return;
+
+    const previous = normalized[normalized.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      normalized.push({ ...message });
+    }
   });
+
+  // The current request is sent as a user turn, so history must end on an assistant turn
+  if (normalized.length > 0 && normalized[normalized.length - 1].role === 'user') {
+    normalized.pop();
+  }
+
+  return normalized;
 };
 
 const extractCodeFromResponse = (content: string): string => {
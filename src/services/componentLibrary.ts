@@ -0,0 +1,131 @@
+import { ImportSpec } from './componentTree';
+
+/**
+ * A prop a library component declares. Enum props only accept their listed values.
+ */
+export interface LibraryPropSpec {
+  type: 'string' | 'number' | 'boolean' | 'enum' | 'node' | 'object';
+  values?: string[];
+}
+
+export interface LibraryComponent {
+  name: string; // Export name, e.g. 'DsButton'
+  importPath?: string; // Defaults to the profile's packageName
+  replaces?: string; // The MUI component it stands in for, e.g. 'Button'
+  props?: Record<string, LibraryPropSpec>; // When set, undeclared props are dropped (sx always passes)
+  propAliases?: Record<string, string>; // MUI prop -> library prop, e.g. { variant: 'kind' }
+  valueAliases?: Record<string, Record<string, string>>; // Library prop -> (MUI value -> library value)
+}
+
+/**
+ * The components a design system offers, what they replace and where they're imported from.
+ * Anything the profile doesn't replace is still generated with @mui/material.
+ */
+export interface ComponentLibraryProfile {
+  id: string;
+  name: string;
+  description?: string;
+  packageName: string;
+  components: LibraryComponent[];
+  runtime?: Record<string, any>; // The package's exports, added to the live preview scope
+}
+
+export const MUI_PACKAGE = '@mui/material';
+
+export const MUI_LIBRARY: ComponentLibraryProfile = {
+  id: 'mui',
+  name: 'Material UI',
+  description: 'Plain @mui/material components',
+  packageName: MUI_PACKAGE,
+  components: []
+};
+
+/*
+ * Register design-system profiles here. For example:
+ *
+ *   import * as AcmeDS from '@acme/design-system';
+ *
+ *   {
+ *     id: 'acme',
+ *     name: 'Acme Design System',
+ *     packageName: '@acme/design-system',
+ *     runtime: AcmeDS,
+ *     components: [
+ *       {
+ *         name: 'AcmeButton',
+ *         replaces: 'Button',
+ *         props: { kind: { type: 'enum', values: ['primary', 'secondary'] }, size: { type: 'enum', values: ['sm', 'md', 'lg'] }, fullWidth: { type: 'boolean' } },
+ *         propAliases: { variant: 'kind' },
+ *         valueAliases: { kind: { contained: 'primary', outlined: 'secondary' }, size: { small: 'sm', medium: 'md', large: 'lg' } }
+ *       },
+ *       { name: 'AcmeText', replaces: 'Typography' }
+ *     ]
+ *   }
+ */
+const COMPONENT_LIBRARIES: ComponentLibraryProfile[] = [MUI_LIBRARY];
+
+export const listComponentLibraries = (): ComponentLibraryProfile[] => COMPONENT_LIBRARIES;
+
+/**
+ * The profile with this id, or plain MUI when it isn't registered (e.g. a project saved with a profile since removed)
+ */
+export const getComponentLibrary = (id?: string | null): ComponentLibraryProfile =>
+  COMPONENT_LIBRARIES.find(library => library.id === id) || MUI_LIBRARY;
+
+/**
+ * The library component for an MUI component (or a library component referenced by its own name)
+ */
+export const findLibraryComponent = (library: ComponentLibraryProfile, component: string): LibraryComponent | undefined =>
+  library.components.find(entry => entry.replaces === component) ||
+  library.components.find(entry => entry.name === component);
+
+/**
+ * The name to render for an MUI component - the library's replacement, or the MUI name itself
+ */
+export const libraryComponentName = (library: ComponentLibraryProfile, component: string): string =>
+  findLibraryComponent(library, component)?.name || component;
+
+/**
+ * Translate props chosen for an MUI component into the library component's props: rename aliased props
+ * and values, then drop props the component doesn't declare and enum values it doesn't accept
+ */
+export const adaptPropsForLibrary = (
+  library: ComponentLibraryProfile,
+  component: string,
+  props: Record<string, any>
+): Record<string, any> => {
+  const entry = findLibraryComponent(library, component);
+  // Props for a component referenced by its library name (e.g. by a mapping rule) are already library props
+  if (!entry || entry.name === component) {
+    return props;
+  }
+
+  const adapted: Record<string, any> = {};
+  Object.entries(props).forEach(([name, value]) => {
+    const libraryName = entry.propAliases?.[name] || name;
+    const libraryValue = typeof value === 'string' ? entry.valueAliases?.[libraryName]?.[value] ?? value : value;
+
+    if (entry.props && libraryName !== 'sx' && libraryName !== 'children') {
+      const spec = entry.props[libraryName];
+      if (!spec) return;
+      if (spec.type === 'enum' && spec.values && !spec.values.includes(libraryValue)) return;
+    }
+    adapted[libraryName] = libraryValue;
+  });
+  return adapted;
+};
+
+/**
+ * Imports for the components a piece of generated code renders: each tag from its library
+ * component's path, or from @mui/material
+ */
+export const libraryImports = (library: ComponentLibraryProfile, tags: string[]): ImportSpec[] => {
+  const byPath = new Map<string, string[]>();
+  tags.forEach(tag => {
+    const entry = library.components.find(component => component.name === tag);
+    const path = entry ? entry.importPath || library.packageName : MUI_PACKAGE;
+    byPath.set(path, [...(byPath.get(path) || []), tag]);
+  });
+
+  return Array.from(byPath.entries()).map(([source, names]) => ({ source, names }));
+};
@@ -0,0 +1,384 @@
+import {
+  FigmaComponentPropertyDefinition,
+  FigmaComponentPropertyValue,
+  FigmaFile,
+  FigmaNode
+} from './figmaService';
+import { MappedComponent } from './styleMapperService';
+import JsxTreeRenderer from './jsxTreeRenderer';
+import { ElementNode, PropObject, PropValue, element, expression, spread } from './componentTree';
+import { printDeclarations } from './tsxPrinter';
+import { ComponentLibraryProfile, MUI_LIBRARY, libraryComponentName } from './componentLibrary';
+
+export interface RegistryProp {
+  name: string; // camelCase React prop name
+  figmaName: string; // Figma property name, e.g. "Size" or "Label#12:3"
+  type: 'variant' | 'boolean' | 'text';
+  options?: string[]; // Variant values
+  defaultValue: string | boolean;
+}
+
+/**
+ * A Figma main component (a component set or a standalone component) and the React component generated for it
+ */
+export interface RegisteredComponent {
+  id: string; // Component set id, or component id for standalone components
+  key?: string;
+  name: string; // Figma name
+  componentName: string; // React component name
+  description?: string;
+  props: RegistryProp[];
+  variants: Record<string, Record<string, string>>; // Variant node id -> variant values by Figma property name
+  defaultVariantId: string;
+  code: string; // Printed declarations (props interface, variant sx, component)
+}
+
+export interface ComponentRegistry {
+  components: RegisteredComponent[];
+  byNodeId: Record<string, string>; // Component / variant node id -> RegisteredComponent.id
+}
+
+// Root sx that belongs to where the main component sits on the canvas, not to the component
+const PLACEMENT_SX_KEYS = ['position', 'left', 'top', 'flexGrow', 'flexBasis', 'flexShrink', 'alignSelf'];
+
+// Names the generated code already uses - a Figma "Button" becomes ButtonComponent
+const RESERVED_NAMES = new Set([
+  'React', 'GeneratedFigmaScreen',
+  'Box', 'Typography', 'Button', 'Card', 'CardContent', 'IconButton', 'Avatar', 'Chip', 'Stack', 'Paper',
+  'Grid', 'Container', 'Divider', 'List', 'ListItem', 'TextField', 'Checkbox', 'Radio', 'Switch', 'Select',
+  'Slider', 'Rating', 'Badge', 'Alert', 'AppBar', 'Toolbar', 'Tabs', 'Tab', 'Link', 'Menu', 'MenuItem',
+  'Tooltip', 'Dialog', 'Icon'
+]);
+
+const toPascalCase = (value: string): string => {
+  const words = value
+    .replace(/#[\d:]+$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  const pascal = words.map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `Component${pascal}`;
+};
+
+const toCamelCase = (value: string): string => {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+/**
+ * "Size=Large, State=Hover" -> { Size: 'Large', State: 'Hover' }
+ */
+const parseVariantName = (name: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  name.split(',').forEach(part => {
+    const [property, value] = part.split('=').map(piece => piece?.trim());
+    if (property && value !== undefined) {
+      values[property] = value;
+    }
+  });
+  return values;
+};
+
+/**
+ * Builds a registry of the file's main components and generates one React component per entry,
+ * with props from the component's variant, boolean and text properties
+ */
+class ComponentRegistryService {
+  /**
+   * Find main components in the file and generate their React components.
+   * Only components defined in this file can be generated - library components stay unregistered.
+   */
+  buildRegistry(
+    fileData: FigmaFile,
+    mappedComponents: MappedComponent[],
+    library: ComponentLibraryProfile = MUI_LIBRARY
+  ): ComponentRegistry {
+    const registry: ComponentRegistry = { components: [], byNodeId: {} };
+    const mappedById = new Map(mappedComponents.map(comp => [comp.id, comp]));
+    const reservedNames = new Set([...RESERVED_NAMES, ...library.components.map(component => component.name)]);
+    const usedNames = new Set(reservedNames);
+
+    const register = (entry: Omit<RegisteredComponent, 'componentName' | 'code'>, variantIds: string[]) => {
+      const baseName = reservedNames.has(toPascalCase(entry.name)) ? `${toPascalCase(entry.name)}Component` : toPascalCase(entry.name);
+      let componentName = baseName;
+      for (let suffix = 2; usedNames.has(componentName); suffix++) {
+        componentName = `${baseName}${suffix}`;
+      }
+      usedNames.add(componentName);
+
+      const registered: RegisteredComponent = { ...entry, componentName, code: '' };
+      registry.components.push(registered);
+      variantIds.forEach(id => {
+        registry.byNodeId[id] = registered.id;
+      });
+    };
+
+    const traverse = (node: FigmaNode) => {
+      if (node.type === 'COMPONENT_SET') {
+        const variantNodes = (node.children || []).filter(child => child.type === 'COMPONENT');
+        const variants: Record<string, Record<string, string>> = {};
+        variantNodes.forEach(variant => {
+          variants[variant.id] = parseVariantName(variant.name);
+        });
+        const props = this.propsFromDefinitions(node.componentPropertyDefinitions || {}, variants);
+        const defaultVariantId = this.defaultVariantId(variantNodes, variants, props);
+
+        if (defaultVariantId && mappedById.has(defaultVariantId)) {
+          register({
+            id: node.id,
+            key: fileData.componentSets?.[node.id]?.key,
+            name: node.name,
+            description: fileData.componentSets?.[node.id]?.description,
+            props,
+            variants,
+            defaultVariantId
+          }, [node.id, ...variantNodes.map(variant => variant.id)]);
+        }
+        return; // Variants are registered through their set
+      }
+
+      if (node.type === 'COMPONENT' && mappedById.has(node.id)) {
+        register({
+          id: node.id,
+          key: fileData.components?.[node.id]?.key,
+          name: node.name,
+          description: fileData.components?.[node.id]?.description,
+          props: this.propsFromDefinitions(node.componentPropertyDefinitions || {}, {}),
+          variants: { [node.id]: {} },
+          defaultVariantId: node.id
+        }, [node.id]);
+      }
+
+      node.children?.forEach(traverse);
+    };
+
+    if (fileData.document) {
+      traverse(fileData.document);
+    }
+
+    // Generate code once every name is known, so components can call each other
+    registry.components.forEach(entry => {
+      entry.code = this.generateComponentCode(entry, registry, mappedById, mappedComponents, library);
+    });
+
+    console.log('🧩 [COMPONENT REGISTRY] Registered components:', registry.components.map(entry => ({
+      name: entry.componentName,
+      props: entry.props.map(prop => prop.name),
+      variants: Object.keys(entry.variants).length
+    })));
+
+    return registry;
+  }
+
+  /**
+   * Element calling the registered component of an instance, or undefined when its main component isn't registered
+   */
+  renderInstanceCall(
+    instance: MappedComponent,
+    registry: ComponentRegistry,
+    extraProps: Record<string, PropValue> = {}
+  ): ElementNode | undefined {
+    const entry = this.findEntry(instance.componentId, registry);
+    if (!entry) {
+      return undefined;
+    }
+
+    const attributes: Record<string, PropValue> = { ...this.instancePropValues(instance, entry) };
+
+    // The instance's own placement and sizing in its parent (fill/hug, pinned offset)
+    const placement: PropObject = {};
+    Object.entries(instance.sx).forEach(([key, value]) => {
+      if (PLACEMENT_SX_KEYS.includes(key) || key === 'width' || key === 'height' || key === 'minWidth' || key === 'minHeight') {
+        placement[key] = value;
+      }
+    });
+    if (Object.keys(placement).length > 0) {
+      attributes.sx = placement;
+    }
+
+    return element(entry.componentName, { ...attributes, ...extraProps });
+  }
+
+  findEntry(componentId: string | undefined, registry: ComponentRegistry): RegisteredComponent | undefined {
+    if (!componentId) return undefined;
+    const entryId = registry.byNodeId[componentId];
+    return entryId ? registry.components.find(entry => entry.id === entryId) : undefined;
+  }
+
+  /**
+   * Prop values for an instance: its variant (from the variant it uses) plus
+   * overridden property values. Props left at their default are omitted.
+   */
+  private instancePropValues(instance: MappedComponent, entry: RegisteredComponent): Record<string, string | boolean> {
+    const values: Record<string, string | boolean> = {};
+    const variantValues = (instance.componentId && entry.variants[instance.componentId]) || {};
+    const instanceProperties: Record<string, FigmaComponentPropertyValue> = instance.componentProperties || {};
+
+    entry.props.forEach(prop => {
+      const value = instanceProperties[prop.figmaName]?.value ?? (prop.type === 'variant' ? variantValues[prop.figmaName] : undefined);
+      if (value !== undefined && value !== prop.defaultValue) {
+        values[prop.name] = value;
+      }
+    });
+    return values;
+  }
+
+  private propsFromDefinitions(
+    definitions: Record<string, FigmaComponentPropertyDefinition>,
+    variants: Record<string, Record<string, string>>
+  ): RegistryProp[] {
+    const props: RegistryProp[] = [];
+    const usedNames = new Set<string>(['sx', 'children', 'key']);
+
+    const addProp = (figmaName: string, type: RegistryProp['type'], defaultValue: string | boolean, options?: string[]) => {
+      let name = toCamelCase(figmaName);
+      if (type === 'boolean' && !/^(show|has|is)[A-Z]/.test(name)) {
+        name = `show${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+      }
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${toCamelCase(figmaName)}${suffix}`;
+      }
+      usedNames.add(name);
+      props.push({ name, figmaName, type, defaultValue, options });
+    };
+
+    Object.entries(definitions).forEach(([figmaName, definition]) => {
+      if (definition.type === 'VARIANT') {
+        addProp(figmaName, 'variant', String(definition.defaultValue), definition.variantOptions);
+      } else if (definition.type === 'BOOLEAN') {
+        addProp(figmaName, 'boolean', Boolean(definition.defaultValue));
+      } else if (definition.type === 'TEXT') {
+        addProp(figmaName, 'text', String(definition.defaultValue));
+      }
+      // INSTANCE_SWAP isn't generated yet - the default nested instance is rendered instead
+    });
+
+    // Older files have no definitions on the set - derive variant props from the variant names
+    if (!props.some(prop => prop.type === 'variant')) {
+      const variantProperties = new Map<string, string[]>();
+      Object.values(variants).forEach(values => {
+        Object.entries(values).forEach(([property, value]) => {
+          const options = variantProperties.get(property) || [];
+          if (!options.includes(value)) options.push(value);
+          variantProperties.set(property, options);
+        });
+      });
+      variantProperties.forEach((options, property) => addProp(property, 'variant', options[0], options));
+    }
+
+    return props;
+  }
+
+  private defaultVariantId(
+    variantNodes: FigmaNode[],
+    variants: Record<string, Record<string, string>>,
+    props: RegistryProp[]
+  ): string | undefined {
+    const variantProps = props.filter(prop => prop.type === 'variant');
+    const match = variantNodes.find(node =>
+      variantProps.every(prop => variants[node.id][prop.figmaName] === prop.defaultValue)
+    );
+    return (match || variantNodes[0])?.id;
+  }
+
+  /**
+   * A React component for a main component: the default variant's tree, with text and
+   * visibility bound to props and the root styling switched per variant
+   */
+  private generateComponentCode(
+    entry: RegisteredComponent,
+    registry: ComponentRegistry,
+    mappedById: Map<string, MappedComponent>,
+    mappedComponents: MappedComponent[],
+    library: ComponentLibraryProfile
+  ): string {
+    const root = mappedById.get(entry.defaultVariantId);
+    if (!root) {
+      throw new Error(`The default variant of ${entry.name} (${entry.defaultVariantId}) wasn't mapped`);
+    }
+    const propsByFigmaName = new Map(entry.props.map(prop => [prop.figmaName, prop]));
+    const variantProps = entry.props.filter(prop => prop.type === 'variant');
+
+    const bodyRenderer = new JsxTreeRenderer(mappedComponents, {
+      textExpression: comp => {
+        const prop = comp.propertyReferences?.characters && propsByFigmaName.get(comp.propertyReferences.characters);
+        return prop ? prop.name : undefined;
+      },
+      visibilityExpression: comp => {
+        const prop = comp.propertyReferences?.visible && propsByFigmaName.get(comp.propertyReferences.visible);
+        return prop ? prop.name : undefined;
+      },
+      renderInstance: comp => {
+        const nested = this.findEntry(comp.componentId, registry);
+        return nested && nested.id !== entry.id ? this.renderInstanceCall(comp, registry) : undefined;
+      },
+      componentName: muiComponent => libraryComponentName(library, muiComponent)
+    });
+
+    // Root sx that differs between variants is looked up by the variant prop values
+    const rootSx: PropObject = { ...root.sx, ...(root.props.sx || {}) };
+    PLACEMENT_SX_KEYS.forEach(key => {
+      rootSx[key] = undefined;
+    });
+
+    const variantSx: Record<string, PropObject> = {};
+    const variantKey = (values: Record<string, string>) => variantProps.map(prop => values[prop.figmaName] ?? prop.defaultValue).join('|');
+    if (variantProps.length > 0) {
+      Object.entries(entry.variants).forEach(([variantId, values]) => {
+        const variant = mappedById.get(variantId);
+        if (!variant) return;
+
+        const variantStyles: PropObject = { ...variant.sx, ...(variant.props.sx || {}) };
+        const differences: PropObject = {};
+        Object.entries(variantStyles).forEach(([key, value]) => {
+          if (!PLACEMENT_SX_KEYS.includes(key) && JSON.stringify(value) !== JSON.stringify(rootSx[key])) {
+            differences[key] = value;
+          }
+        });
+        if (Object.keys(differences).length > 0) {
+          variantSx[variantKey(values)] = differences;
+        }
+      });
+    }
+    const hasVariantSx = Object.keys(variantSx).length > 0;
+    const variantSxName = `${entry.componentName.charAt(0).toLowerCase()}${entry.componentName.slice(1)}VariantSx`;
+
+    const variantLookup = variantProps.length === 1
+      ? variantProps[0].name
+      : `[${variantProps.map(prop => prop.name).join(', ')}].join('|')`;
+    const sx: PropObject = {
+      ...rootSx,
+      ...(hasVariantSx ? { [`...${variantSxName}`]: spread(`${variantSxName}[${variantLookup}]`) } : {}),
+      '...sx': spread('sx')
+    };
+    const render = bodyRenderer.render(
+      root,
+      Object.fromEntries(Object.keys(rootSx).map(key => [key, undefined])),
+      { sx, onClick: expression('onClick') }
+    );
+
+    return printDeclarations([{
+      name: entry.componentName,
+      description: entry.description,
+      props: [
+        ...entry.props.map(prop => ({
+          name: prop.name,
+          type: prop.type === 'boolean'
+            ? 'boolean'
+            : prop.type === 'variant' && prop.options?.length
+              ? prop.options.map(option => JSON.stringify(option)).join(' | ')
+              : 'string',
+          defaultValue: prop.defaultValue
+        })),
+        { name: 'sx', type: 'Record<string, any>', defaultValue: {} },
+        { name: 'onClick', type: '() => void' } // Prototype links on instances navigate through it
+      ],
+      constants: hasVariantSx
+        ? [{ name: variantSxName, type: 'Record<string, Record<string, any>>', value: variantSx }]
+        : [],
+      render
+    }]);
+  }
+}
+
+export default ComponentRegistryService;
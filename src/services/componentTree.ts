@@ -0,0 +1,142 @@
+/**
+ * Intermediate tree for generated components. Code generation builds these nodes instead of
+ * TSX strings; tsxPrinter turns them into a Babel AST and prints it, so text and attribute
+ * values are escaped and the output always parses.
+ */
+
+/**
+ * JS expression source, e.g. a prop name bound to a text node. Parsed when printed - invalid code throws.
+ */
+export class CodeExpression {
+  constructor(readonly code: string) {}
+}
+
+/**
+ * `...expression` inside an object value. The key it's stored under is ignored.
+ */
+export class SpreadExpression {
+  constructor(readonly code: string) {}
+}
+
+export const expression = (code: string) => new CodeExpression(code);
+export const spread = (code: string) => new SpreadExpression(code);
+
+export type PropValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined // Omitted
+  | CodeExpression
+  | PropValue[]
+  | PropObject;
+
+export interface PropObject {
+  [key: string]: PropValue | SpreadExpression;
+}
+
+export interface ElementNode {
+  type: 'element';
+  tag: string;
+  props: Record<string, PropValue>; // `true` prints as a bare flag
+  children: TreeNode[];
+}
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+export interface ExpressionNode {
+  type: 'expression';
+  expression: CodeExpression;
+}
+
+/**
+ * `{test && (<node />)}`
+ */
+export interface ConditionalNode {
+  type: 'conditional';
+  test: CodeExpression;
+  node: TreeNode;
+}
+
+export interface CommentNode {
+  type: 'comment';
+  text: string;
+}
+
+export interface FragmentNode {
+  type: 'fragment';
+  children: TreeNode[];
+}
+
+export type TreeNode = ElementNode | TextNode | ExpressionNode | ConditionalNode | CommentNode | FragmentNode;
+
+// Children as they're written in templates - strings become text, false/null/undefined are skipped
+export type TreeChild = TreeNode | string | false | null | undefined;
+
+const toNodes = (children: TreeChild[]): TreeNode[] =>
+  children
+    .filter((child): child is TreeNode | string => child !== false && child !== null && child !== undefined)
+    // Content from analysis results isn't always a string at runtime
+    .map(child => typeof child === 'object' ? child : text(String(child)));
+
+export const element = (tag: string, props: Record<string, PropValue> = {}, children: TreeChild[] = []): ElementNode => ({
+  type: 'element',
+  tag,
+  props,
+  children: toNodes(children)
+});
+
+export const text = (value: string): TextNode => ({ type: 'text', value });
+
+export const expressionNode = (code: string): ExpressionNode => ({ type: 'expression', expression: expression(code) });
+
+export const conditional = (test: string, node: TreeNode): ConditionalNode => ({ type: 'conditional', test: expression(test), node });
+
+export const comment = (value: string): CommentNode => ({ type: 'comment', text: value });
+
+export const fragment = (children: TreeChild[]): FragmentNode => ({ type: 'fragment', children: toNodes(children) });
+
+export interface ComponentPropSpec {
+  name: string;
+  type: string; // TypeScript type source, e.g. "'small' | 'large'"
+  defaultValue?: PropValue; // Destructuring default
+}
+
+export interface ConstantSpec {
+  name: string;
+  type?: string;
+  value: PropValue;
+}
+
+/**
+ * A function component: `interface <Name>Props` when it has props, module constants it uses, then the component
+ */
+export interface ComponentDeclaration {
+  name: string;
+  description?: string; // Printed as a doc comment
+  props?: ComponentPropSpec[];
+  constants?: ConstantSpec[];
+  hooks?: string[]; // Statements at the top of the component's body, e.g. `const navigate = useNavigate();`
+  render: TreeNode;
+}
+
+export interface ImportSpec {
+  source: string;
+  defaultName?: string;
+  names?: string[]; // Named imports - "ArrowBack as ArrowBackIcon" is allowed
+}
+
+/**
+ * A generated module. `declarations` may include already printed code (e.g. registry components),
+ * which is parsed and reprinted with the rest.
+ */
+export interface ModuleSpec {
+  imports?: ImportSpec[];
+  resolveImports?: (tags: string[]) => ImportSpec[]; // Imports for the JSX tags the module renders but doesn't declare
+  declarations: (ComponentDeclaration | string)[];
+  defaultExport?: string;
+  namedExports?: string[];
+}
@@ -0,0 +1,397 @@
+import { ThemeOptions, TypographyVariantsOptions } from '@mui/material/styles';
+import { DesignTokens } from './figmaService';
+import { StyleMapping } from './styleMapperService';
+
+export type TypographyVariant =
+  | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
+  | 'subtitle1' | 'subtitle2'
+  | 'body1' | 'body2'
+  | 'button'
+  | 'caption'
+  | 'overline';
+
+const TYPOGRAPHY_VARIANTS: TypographyVariant[] = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'subtitle1', 'subtitle2', 'body1', 'body2', 'button', 'caption', 'overline'
+];
+
+export interface TypographyVariantTokens {
+  fontSize: number;
+  fontWeight?: number;
+  lineHeight?: number; // px
+  letterSpacing?: number; // px
+}
+
+export type StatusColor = 'error' | 'warning' | 'success' | 'info';
+const STATUS_COLORS: StatusColor[] = ['error', 'warning', 'success', 'info'];
+
+/**
+ * Normalised design tokens - the single source the theme module, the W3C tokens
+ * and the CSS variables are all generated from
+ */
+export interface ThemeTokens {
+  palette: {
+    primary: string;
+    secondary: string;
+    background: string;
+    surface: string;
+    text: string;
+    textSecondary: string;
+    divider: string;
+  };
+  // Only the status colors the design names - MUI's defaults cover the rest
+  status: Partial<Record<StatusColor, string>>;
+  // Palette overrides per color mode ('light', 'dark', ...), when the design defines modes
+  modes: Record<string, Partial<ThemeTokens['palette'] & Record<StatusColor, string>>>;
+  source: 'figma' | 'inferred';
+  // Colors found in the design that didn't get a semantic role
+  extraColors: Record<string, string>;
+  gradients: Record<string, string>;
+  typography: {
+    fontFamily: string;
+    fontWeights: { light: number; regular: number; medium: number; semiBold: number; bold: number };
+    variants: Partial<Record<TypographyVariant, TypographyVariantTokens>>;
+  };
+  spacing: {
+    baseUnit: number;
+    scale: Record<string, number>;
+  };
+}
+
+// A token in the W3C Design Tokens format
+export interface W3CToken {
+  $type: string;
+  $value: unknown;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+export type W3CTokenGroups = Record<string, Record<string, W3CToken>>;
+
+export interface DesignTokenExport {
+  tokens: ThemeTokens;
+  themeOptions: ThemeOptions; // JSON-safe argument for createTheme()
+  themeModule: string; // theme.ts source
+  w3cTokens: W3CTokenGroups; // tokens.json (W3C Design Tokens format)
+  cssVariables: string; // tokens.css
+}
+
+// Used when the design doesn't provide a color for a role
+const DEFAULT_PALETTE: ThemeTokens['palette'] = {
+  primary: '#1976d2',
+  secondary: '#9c27b0',
+  background: '#ffffff',
+  surface: '#ffffff',
+  text: '#000000',
+  textSecondary: '#666666',
+  divider: '#e0e0e0'
+};
+
+// Where each palette role lives in an MUI theme - also what generated sx refers to
+export const PALETTE_PATHS: Record<keyof ThemeTokens['palette'], string> = {
+  primary: 'primary.main',
+  secondary: 'secondary.main',
+  background: 'background.default',
+  surface: 'background.paper',
+  text: 'text.primary',
+  textSecondary: 'text.secondary',
+  divider: 'divider'
+};
+
+const toKebabCase = (value: string) => value.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+// The variants the design styles - Object.entries types a Partial's values as possibly undefined
+const styledVariants = (variants: ThemeTokens['typography']['variants']) =>
+  Object.entries(variants).filter((entry): entry is [TypographyVariant, TypographyVariantTokens] => !!entry[1]);
+
+// MUI treats unitless line heights as multipliers of the font size
+const relativeLineHeight = (style: TypographyVariantTokens) =>
+  style.lineHeight ? { lineHeight: Number((style.lineHeight / style.fontSize).toFixed(3)) } : {};
+
+/**
+ * Turns the extracted design system into a createTheme() module,
+ * W3C design tokens JSON and CSS custom properties
+ */
+class DesignTokenExporter {
+  /**
+   * Export everything at once
+   */
+  export(designSystem: StyleMapping['designSystem'], designTokens?: DesignTokens): DesignTokenExport {
+    const tokens = this.buildThemeTokens(designSystem, designTokens);
+
+    return {
+      tokens,
+      themeOptions: this.toThemeOptions(tokens),
+      themeModule: this.toThemeModule(tokens),
+      w3cTokens: this.toW3CTokens(tokens),
+      cssVariables: this.toCssVariables(tokens)
+    };
+  }
+
+  buildThemeTokens(designSystem: StyleMapping['designSystem'], designTokens?: DesignTokens): ThemeTokens {
+    const colors = designSystem.colors || {};
+
+    const palette: ThemeTokens['palette'] = {
+      primary: colors.primary || colors.accent || DEFAULT_PALETTE.primary,
+      secondary: colors.secondary || colors.border || DEFAULT_PALETTE.secondary,
+      background: colors.background || colors.surface || DEFAULT_PALETTE.background,
+      surface: colors.surface || colors.background || DEFAULT_PALETTE.surface,
+      text: colors.text || colors.onSurface || DEFAULT_PALETTE.text,
+      textSecondary: colors.textSecondary || DEFAULT_PALETTE.textSecondary,
+      divider: colors.divider || colors.border || colors.secondary || DEFAULT_PALETTE.divider
+    };
+
+    const status: ThemeTokens['status'] = {};
+    STATUS_COLORS.forEach(name => {
+      if (colors[name]) status[name] = colors[name];
+    });
+
+    // Each mode falls back to the default palette for roles it doesn't define
+    const modes: ThemeTokens['modes'] = {};
+    Object.entries(designSystem.colorModes || {}).forEach(([mode, modeColors]) => {
+      const overrides: ThemeTokens['modes'][string] = {};
+      [...Object.keys(DEFAULT_PALETTE), ...STATUS_COLORS].forEach(role => {
+        const value = modeColors[role] || (role === 'divider' ? modeColors.border : undefined);
+        if (value) overrides[role as keyof ThemeTokens['modes'][string]] = value;
+      });
+      modes[mode] = overrides;
+    });
+
+    const used = new Set([...Object.values(palette), ...Object.values(status)].map(color => color.toLowerCase()));
+    const extraColors: Record<string, string> = {};
+    (designTokens?.colors || []).forEach(color => {
+      if (!used.has(color.toLowerCase())) {
+        used.add(color.toLowerCase());
+        extraColors[`color${Object.keys(extraColors).length + 1}`] = color;
+      }
+    });
+
+    const typography = designSystem.typography || {};
+    const variants: ThemeTokens['typography']['variants'] = {};
+    TYPOGRAPHY_VARIANTS.forEach(variant => {
+      const style = typography[variant];
+      if (style?.fontSize) {
+        const variantTokens: TypographyVariantTokens = { fontSize: style.fontSize };
+        if (style.fontWeight) variantTokens.fontWeight = style.fontWeight;
+        if (style.lineHeight) variantTokens.lineHeight = style.lineHeight;
+        if (style.letterSpacing) variantTokens.letterSpacing = style.letterSpacing;
+        variants[variant] = variantTokens;
+      }
+    });
+
+    return {
+      palette,
+      status,
+      modes,
+      source: designSystem.tokenSource || 'inferred',
+      extraColors,
+      gradients: { ...(designSystem.gradients || {}) },
+      typography: {
+        fontFamily: typography.fontFamily || 'Roboto',
+        fontWeights: {
+          light: typography.fontWeights?.light || 300,
+          regular: typography.fontWeights?.regular || 400,
+          medium: typography.fontWeights?.medium || 500,
+          semiBold: typography.fontWeights?.semiBold || 600,
+          bold: typography.fontWeights?.bold || 700
+        },
+        variants
+      },
+      spacing: {
+        baseUnit: designSystem.baseUnit || 8,
+        scale: { ...(designSystem.spacing || {}) }
+      }
+    };
+  }
+
+  /**
+   * createTheme() options - for a color mode when `mode` names one of tokens.modes
+   */
+  toThemeOptions(tokens: ThemeTokens, mode?: string): ThemeOptions {
+    const { typography } = tokens;
+    const overrides = mode ? tokens.modes[mode] || {} : {};
+    const palette = { ...tokens.palette, ...overrides };
+    const status = { ...tokens.status, ...overrides };
+
+    const variants: Partial<Pick<TypographyVariantsOptions, TypographyVariant>> = {};
+    styledVariants(typography.variants).forEach(([variant, style]) => {
+      variants[variant] = {
+        fontSize: style.fontSize,
+        ...(style.fontWeight ? { fontWeight: style.fontWeight } : {}),
+        ...relativeLineHeight(style),
+        ...(style.letterSpacing ? { letterSpacing: `${style.letterSpacing}px` } : {})
+      };
+    });
+
+    const statusPalette: Partial<Record<StatusColor, { main: string }>> = {};
+    STATUS_COLORS.forEach(name => {
+      const color = status[name];
+      if (color) statusPalette[name] = { main: color };
+    });
+
+    return {
+      palette: {
+        ...(mode === 'dark' ? { mode: 'dark' as const } : {}),
+        primary: { main: palette.primary },
+        secondary: { main: palette.secondary },
+        ...statusPalette,
+        background: { default: palette.background, paper: palette.surface },
+        text: { primary: palette.text, secondary: palette.textSecondary },
+        divider: palette.divider
+      },
+      typography: {
+        fontFamily: `${typography.fontFamily}, sans-serif`,
+        fontWeightLight: typography.fontWeights.light,
+        fontWeightRegular: typography.fontWeights.regular,
+        fontWeightMedium: typography.fontWeights.medium,
+        fontWeightBold: typography.fontWeights.bold,
+        ...variants
+      },
+      spacing: tokens.spacing.baseUnit
+    };
+  }
+
+  /**
+   * theme.ts - a createTheme() call plus the gradients, which MUI has no slot for
+   */
+  toThemeModule(tokens: ThemeTokens): string {
+    const options = JSON.stringify(this.toThemeOptions(tokens), null, 2);
+    const gradients = JSON.stringify(tokens.gradients, null, 2);
+    const darkTheme = tokens.modes.dark
+      ? `\nexport const darkTheme = createTheme(${JSON.stringify(this.toThemeOptions(tokens, 'dark'), null, 2)});\n`
+      : '';
+
+    return `import { createTheme } from '@mui/material/styles';
+
+// Generated from the Figma design tokens
+const theme = createTheme(${options});
+${darkTheme}
+export const gradients: Record<string, string> = ${gradients};
+
+export default theme;
+`;
+  }
+
+  /**
+   * tokens.json in the W3C Design Tokens Community Group format ($type / $value)
+   */
+  toW3CTokens(tokens: ThemeTokens): W3CTokenGroups {
+    const color: Record<string, W3CToken> = {};
+    Object.entries({ ...tokens.palette, ...tokens.status, ...tokens.extraColors }).forEach(([name, value]) => {
+      // The format has no modes yet - per-mode values go in $extensions
+      const modeValues: Record<string, string> = {};
+      Object.entries(tokens.modes).forEach(([mode, overrides]) => {
+        const modeValue = overrides[name as keyof typeof overrides];
+        if (modeValue) modeValues[mode] = modeValue;
+      });
+
+      color[name] = {
+        $type: 'color',
+        $value: value,
+        ...(Object.keys(modeValues).length > 0 ? { $extensions: { modes: modeValues } } : {})
+      };
+    });
+
+    const gradient: Record<string, W3CToken> = {};
+    Object.entries(tokens.gradients).forEach(([name, css]) => {
+      gradient[name] = { $type: 'gradient', $value: this.parseGradientStops(css), $description: css };
+    });
+
+    const spacing: Record<string, W3CToken> = {
+      base: { $type: 'dimension', $value: `${tokens.spacing.baseUnit}px` }
+    };
+    Object.entries(tokens.spacing.scale).forEach(([name, value]) => {
+      spacing[name] = { $type: 'dimension', $value: `${value}px` };
+    });
+
+    const fontWeight: Record<string, W3CToken> = {};
+    Object.entries(tokens.typography.fontWeights).forEach(([name, value]) => {
+      fontWeight[name] = { $type: 'fontWeight', $value: value };
+    });
+
+    const typography: Record<string, W3CToken> = {};
+    styledVariants(tokens.typography.variants).forEach(([variant, style]) => {
+      typography[variant] = {
+        $type: 'typography',
+        $value: {
+          fontFamily: '{fontFamily.base}',
+          fontSize: `${style.fontSize}px`,
+          fontWeight: style.fontWeight
+            || (variant.startsWith('h') ? '{fontWeight.semiBold}' : '{fontWeight.regular}'),
+          ...relativeLineHeight(style),
+          ...(style.letterSpacing ? { letterSpacing: `${style.letterSpacing}px` } : {})
+        }
+      };
+    });
+
+    return {
+      color,
+      gradient,
+      spacing,
+      fontFamily: { base: { $type: 'fontFamily', $value: [tokens.typography.fontFamily, 'sans-serif'] } },
+      fontWeight,
+      typography
+    };
+  }
+
+  /**
+   * tokens.css - the same tokens as CSS custom properties on :root
+   */
+  toCssVariables(tokens: ThemeTokens): string {
+    const lines: string[] = [];
+
+    Object.entries({ ...tokens.palette, ...tokens.status, ...tokens.extraColors }).forEach(([name, value]) => {
+      lines.push(`  --color-${toKebabCase(name)}: ${value};`);
+    });
+    Object.entries(tokens.gradients).forEach(([name, value]) => {
+      lines.push(`  --gradient-${toKebabCase(name)}: ${value};`);
+    });
+    lines.push(`  --spacing-base: ${tokens.spacing.baseUnit}px;`);
+    Object.entries(tokens.spacing.scale).forEach(([name, value]) => {
+      lines.push(`  --spacing-${toKebabCase(name)}: ${value}px;`);
+    });
+    lines.push(`  --font-family-base: ${tokens.typography.fontFamily}, sans-serif;`);
+    Object.entries(tokens.typography.fontWeights).forEach(([name, value]) => {
+      lines.push(`  --font-weight-${toKebabCase(name)}: ${value};`);
+    });
+    styledVariants(tokens.typography.variants).forEach(([variant, style]) => {
+      lines.push(`  --font-size-${variant}: ${style.fontSize}px;`);
+    });
+
+    let css = `:root {\n${lines.join('\n')}\n}\n`;
+
+    // Every mode can be forced with data-theme; dark also follows the OS preference
+    Object.entries(tokens.modes).forEach(([mode, overrides]) => {
+      const modeLines = Object.entries(overrides).map(([name, value]) => `  --color-${toKebabCase(name)}: ${value};`);
+      if (modeLines.length === 0) return;
+
+      css += `\n[data-theme="${mode}"] {\n${modeLines.join('\n')}\n}\n`;
+      if (mode === 'dark') {
+        css += `\n@media (prefers-color-scheme: dark) {\n  :root:not([data-theme]) {\n${modeLines.map(line => `  ${line}`).join('\n')}\n  }\n}\n`;
+      }
+    });
+
+    return css;
+  }
+
+  /**
+   * Theme reference for a color in generated sx - a palette path when the color is a theme color
+   */
+  colorReference(tokens: ThemeTokens, color: string): string {
+    const role = (Object.keys(tokens.palette) as (keyof ThemeTokens['palette'])[])
+      .find(name => tokens.palette[name].toLowerCase() === color.toLowerCase());
+    return role ? PALETTE_PATHS[role] : color;
+  }
+
+  private parseGradientStops(css: string): { color: string; position: number }[] {
+    const stops: { color: string; position: number }[] = [];
+    const stopPattern = /(#[0-9a-f]{3,8}|rgba?\([^)]*\))\s+(\d+(?:\.\d+)?)%/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = stopPattern.exec(css)) !== null) {
+      stops.push({ color: match[1], position: parseFloat(match[2]) / 100 });
+    }
+    return stops;
+  }
+}
+
+export default DesignTokenExporter;
@@ -0,0 +1,234 @@
+export interface FigmaCacheEntry {
+  value: any;
+  storedAt: number;
+}
+
+/**
+ * Where cached Figma responses live. IndexedDB in the browser; anything else
+ * (Redis, a KV table, the filesystem) can be plugged in on the server.
+ */
+export interface FigmaCacheStore {
+  get(key: string): Promise<FigmaCacheEntry | undefined>;
+  set(key: string, entry: FigmaCacheEntry): Promise<void>;
+  keys(): Promise<string[]>;
+  delete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryFigmaCacheStore implements FigmaCacheStore {
+  private entries = new Map<string, FigmaCacheEntry>();
+
+  async get(key: string): Promise<FigmaCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: FigmaCacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entries.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class IndexedDBFigmaCacheStore implements FigmaCacheStore {
+  private dbName: string;
+  private storeName = 'responses';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'figma-cache') {
+    this.dbName = dbName;
+  }
+
+  async get(key: string): Promise<FigmaCacheEntry | undefined> {
+    const entry = await this.request('readonly', store => store.get(key));
+    return entry as FigmaCacheEntry | undefined;
+  }
+
+  async set(key: string, entry: FigmaCacheEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry, key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', store => store.getAllKeys());
+    return (keys as IDBValidKey[]).map(String);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      keys.forEach(key => store.delete(key));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<any> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// The file key and version of a key made by figmaCacheKey
+const keyVersion = (key: string): { fileKey: string; lastModified: string } => {
+  const [, fileKey = '', lastModified = ''] = key.split('|');
+  return { fileKey, lastModified };
+};
+
+/**
+ * Cache for Figma API responses. Keys include the file's `lastModified`,
+ * so editing the file in Figma naturally misses the old entries. The first
+ * write of a newer version deletes the file's older ones.
+ */
+export class FigmaResponseCache {
+  private store: FigmaCacheStore;
+  // Newest version written per file key - older versions of it are already deleted
+  private prunedVersions = new Map<string, string>();
+
+  constructor(store: FigmaCacheStore) {
+    this.store = store;
+  }
+
+  /**
+   * Cached value, or undefined when missing, older than `maxAgeMs` or the store is unavailable
+   */
+  async get<T>(key: string, maxAgeMs?: number): Promise<T | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return undefined;
+      if (maxAgeMs !== undefined && Date.now() - entry.storedAt > maxAgeMs) return undefined;
+      return entry.value as T;
+    } catch (error) {
+      console.warn('🗄️ [FIGMA CACHE] Read failed, continuing without cache:', error);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    try {
+      await this.store.set(key, { value, storedAt: Date.now() });
+      await this.pruneSuperseded(key);
+    } catch (error) {
+      console.warn('🗄️ [FIGMA CACHE] Write failed, continuing without cache:', error);
+    }
+  }
+
+  /**
+   * Delete entries for older versions of the file `key` belongs to. Runs once per new version.
+   */
+  private async pruneSuperseded(key: string): Promise<void> {
+    const { fileKey, lastModified } = keyVersion(key);
+    const pruned = this.prunedVersions.get(fileKey);
+    if (!fileKey || !lastModified || pruned === lastModified) return;
+    if (pruned !== undefined && pruned > lastModified) {
+      // A slow response for a version that's already superseded
+      await this.store.delete([key]);
+      return;
+    }
+    this.prunedVersions.set(fileKey, lastModified);
+
+    // lastModified is an ISO timestamp, so older versions sort first
+    const superseded = (await this.store.keys()).filter(candidate => {
+      const version = keyVersion(candidate);
+      return version.fileKey === fileKey && version.lastModified < lastModified;
+    });
+    if (superseded.length > 0) {
+      await this.store.delete(superseded);
+      console.log('🗄️ [FIGMA CACHE] Deleted superseded entries:', { fileKey, entries: superseded.length });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+    this.prunedVersions.clear();
+  }
+}
+
+export type FigmaCacheKind =
+  | 'file'
+  | 'nodes'
+  | 'image'
+  | 'imageFills'
+  | 'styles'
+  | 'components'
+  | 'componentSets'
+  | 'variables';
+
+/**
+ * Cache key for a Figma response: kind + file key + version + (sorted) node ids + any options
+ */
+export const figmaCacheKey = (
+  kind: FigmaCacheKind,
+  fileKey: string,
+  lastModified: string,
+  nodeIds: string[] = [],
+  options: Record<string, unknown> = {}
+): string => {
+  const optionPart = Object.keys(options)
+    .sort()
+    .filter(name => options[name] !== undefined)
+    .map(name => `${name}=${options[name]}`)
+    .join('&');
+
+  return [kind, fileKey, lastModified, [...nodeIds].sort().join(','), optionPart].join('|');
+};
+
+let sharedCache: FigmaResponseCache | null = null;
+
+/**
+ * Cache shared by every FigmaService instance, so the processor, StageDebugger
+ * and FigmaAPITest reuse each other's fetched documents and image exports
+ */
+export const getFigmaCache = (): FigmaResponseCache => {
+  if (!sharedCache) {
+    sharedCache = new FigmaResponseCache(
+      typeof indexedDB !== 'undefined'
+        ? new IndexedDBFigmaCacheStore()
+        : new MemoryFigmaCacheStore()
+    );
+  }
+  return sharedCache;
+};
+
+/**
+ * Swap the shared cache's backing store (e.g. a persistent store when running on a server)
+ */
+export const setFigmaCacheStore = (store: FigmaCacheStore): void => {
+  sharedCache = new FigmaResponseCache(store);
+};
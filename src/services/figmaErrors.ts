@@ -0,0 +1,121 @@
+export type FigmaErrorKind =
+  | 'auth'
+  | 'not-found'
+  | 'rate-limited'
+  | 'too-large'
+  | 'invalid-request'
+  | 'server'
+  | 'network';
+
+/**
+ * A failed Figma API call. `kind` says what went wrong in a way the UI can act on;
+ * `hint` is a short, user-facing suggestion.
+ */
+export class FigmaApiError extends Error {
+  readonly kind: FigmaErrorKind;
+  readonly status?: number;
+  readonly hint: string;
+
+  constructor(kind: FigmaErrorKind, message: string, hint: string, status?: number) {
+    super(message);
+    this.name = 'FigmaApiError';
+    this.kind = kind;
+    this.hint = hint;
+    this.status = status;
+  }
+
+  /**
+   * Worth retrying automatically (rate limits, Figma outages, dropped connections)
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate-limited' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+export class FigmaAuthError extends FigmaApiError {
+  constructor(message: string, status?: number) {
+    super('auth', message, 'Sign in again, and check the Figma token configured for the api-proxy function has access to this file.', status);
+    this.name = 'FigmaAuthError';
+  }
+}
+
+export class FigmaNotFoundError extends FigmaApiError {
+  constructor(message: string, status?: number) {
+    super('not-found', message, 'Check the Figma URL - the file or node may have been deleted or moved.', status);
+    this.name = 'FigmaNotFoundError';
+  }
+}
+
+export class FigmaRateLimitError extends FigmaApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, status = 429) {
+    const wait = retryAfterMs ? ` in about ${Math.ceil(retryAfterMs / 1000)}s` : ' in a minute';
+    super('rate-limited', message, `Figma is rate limiting requests - try again${wait}.`, status);
+    this.name = 'FigmaRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class FigmaTooLargeError extends FigmaApiError {
+  constructor(message: string, status?: number) {
+    super('too-large', message, 'The file or export is too large - link to a single frame (node-id) instead of the whole file.', status);
+    this.name = 'FigmaTooLargeError';
+  }
+}
+
+/**
+ * Map a non-OK Figma response to a typed error
+ */
+export const figmaErrorFromResponse = (
+  status: number,
+  statusText: string,
+  body: string,
+  retryAfterMs?: number
+): FigmaApiError => {
+  const message = `Figma API error: ${status} ${statusText}${body ? `. ${body}` : ''}`;
+
+  if (status === 401 || status === 403) {
+    return new FigmaAuthError(message, status);
+  }
+  if (status === 404) {
+    return new FigmaNotFoundError(message, status);
+  }
+  if (status === 429) {
+    return new FigmaRateLimitError(message, retryAfterMs, status);
+  }
+  // Figma reports oversized documents and renders as 400s ("Request too large", "Render timeout")
+  if (status === 413 || status === 414 || (status === 400 && /too large|timeout|too many/i.test(body))) {
+    return new FigmaTooLargeError(message, status);
+  }
+  if (status >= 500) {
+    return new FigmaApiError('server', message, 'Figma is having trouble right now - try again shortly.', status);
+  }
+
+  return new FigmaApiError('invalid-request', message, 'The Figma request was rejected.', status);
+};
+
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Error text for the UI - adds the hint for Figma errors
+ */
+export const describeFigmaError = (error: unknown): string => {
+  if (error instanceof FigmaApiError) {
+    return `${error.message} — ${error.hint}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
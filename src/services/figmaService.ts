@@ -1,28 +1,307 @@
+import { proxyFetch } from './apiProxy';
+import { FigmaCacheKind, FigmaResponseCache, figmaCacheKey, getFigmaCache } from './figmaCache';
+import {
+  FigmaApiError,
+  FigmaTooLargeError,
+  figmaErrorFromResponse,
+  parseRetryAfter
+} from './figmaErrors';
+import FigmaTokenService, { NamedDesignTokens } from './figmaTokenService';
+
 export interface FigmaFile {
   name: string;
   lastModified: string;
   thumbnailUrl: string;
+  version?: string;
   document: FigmaNode;
+  // Local components, component sets and styles referenced in the document, keyed by node/style id
+  components?: Record<string, FigmaComponentMetadata>;
+  componentSets?: Record<string, FigmaComponentMetadata>;
+  styles?: Record<string, FigmaStyleMetadata>;
+}
+
+export interface FigmaComponentMetadata {
+  key: string;
+  name: string;
+  description: string;
+  componentSetId?: string;
+  remote?: boolean;
+}
+
+export type FigmaComponentPropertyType = 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+
+/**
+ * A property declared on a component or component set (`componentPropertyDefinitions`).
+ * Boolean, text and instance-swap names carry an id suffix, e.g. "Label#12:3".
+ */
+export interface FigmaComponentPropertyDefinition {
+  type: FigmaComponentPropertyType;
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+}
+
+/**
+ * A property value set on an instance (`componentProperties`)
+ */
+export interface FigmaComponentPropertyValue {
+  type: FigmaComponentPropertyType;
+  value: string | boolean;
+}
+
+export type FigmaStyleType = 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+
+export interface FigmaStyleMetadata {
+  key: string;
+  name: string;
+  styleType: FigmaStyleType;
+  description: string;
+  remote?: boolean;
+}
+
+/**
+ * GET /v1/files/:key/nodes - a subtree per requested id (null when the id doesn't exist)
+ */
+export interface FigmaFileNodesResponse {
+  name: string;
+  lastModified: string;
+  thumbnailUrl: string;
+  version?: string;
+  nodes: Record<string, {
+    document: FigmaNode;
+    components: Record<string, FigmaComponentMetadata>;
+    styles: Record<string, FigmaStyleMetadata>;
+  } | null>;
+}
+
+interface FigmaPublishedItem {
+  key: string;
+  file_key: string;
+  node_id: string;
+  name: string;
+  description: string;
+  thumbnail_url?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Published library style (GET /v1/files/:key/styles) */
+export interface FigmaPublishedStyle extends FigmaPublishedItem {
+  style_type: FigmaStyleType;
+  sort_position?: string;
+}
+
+/** Published library component or component set (GET /v1/files/:key/components, /component_sets) */
+export interface FigmaPublishedComponent extends FigmaPublishedItem {
+  containing_frame?: {
+    name?: string;
+    nodeId?: string;
+    pageId?: string;
+    pageName?: string;
+    containingComponentSet?: { name?: string; nodeId?: string };
+  };
+}
+
+export type FigmaVariableResolvedType = 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+
+export type FigmaVariableValue =
+  | boolean
+  | number
+  | string
+  | { r: number; g: number; b: number; a: number }
+  | { type: 'VARIABLE_ALIAS'; id: string };
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: FigmaVariableResolvedType;
+  valuesByMode: Record<string, FigmaVariableValue>;
+  description?: string;
+  hiddenFromPublishing?: boolean;
+  scopes?: string[];
+  codeSyntax?: Record<string, string>;
+  remote?: boolean;
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: { modeId: string; name: string }[];
+  defaultModeId: string;
+  variableIds: string[];
+  hiddenFromPublishing?: boolean;
+  remote?: boolean;
+}
+
+// Library and image-fill endpoints wrap their payload in `meta`
+interface FigmaMetaResponse<T> {
+  meta?: T;
+}
+
+/** GET /v1/files/:key/variables/local (Enterprise plans only) */
+export interface FigmaLocalVariables {
+  variables: Record<string, FigmaVariable>;
+  variableCollections: Record<string, FigmaVariableCollection>;
+}
+
+/** Color channels from 0 to 1 */
+export interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface FigmaVector {
+  x: number;
+  y: number;
 }
 
+export interface FigmaRectangle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FigmaColorStop {
+  position: number; // 0 to 1 along the gradient
+  color: FigmaColor;
+}
+
+export type FigmaPaintType =
+  | 'SOLID'
+  | 'GRADIENT_LINEAR'
+  | 'GRADIENT_RADIAL'
+  | 'GRADIENT_ANGULAR'
+  | 'GRADIENT_DIAMOND'
+  | 'IMAGE'
+  | 'EMOJI'
+  | 'VIDEO';
+
+/** A fill or stroke */
+export interface FigmaPaint {
+  type: FigmaPaintType;
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  color?: FigmaColor; // SOLID
+  gradientHandlePositions?: FigmaVector[];
+  gradientStops?: FigmaColorStop[];
+  gradientTransform?: number[][];
+  scaleMode?: 'FILL' | 'FIT' | 'TILE' | 'STRETCH'; // IMAGE
+  imageRef?: string;
+}
+
+export interface FigmaEffect {
+  type: 'INNER_SHADOW' | 'DROP_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR';
+  visible?: boolean;
+  radius: number;
+  color?: FigmaColor; // Shadows
+  offset?: FigmaVector;
+  spread?: number;
+  blendMode?: string;
+}
+
+export interface FigmaConstraints {
+  vertical: 'TOP' | 'BOTTOM' | 'CENTER' | 'TOP_BOTTOM' | 'SCALE';
+  horizontal: 'LEFT' | 'RIGHT' | 'CENTER' | 'LEFT_RIGHT' | 'SCALE';
+}
+
+export type FigmaNavigation = 'NAVIGATE' | 'OVERLAY' | 'SWAP' | 'SCROLL_TO' | 'CHANGE_TO';
+
+export interface FigmaAction {
+  type: 'BACK' | 'CLOSE' | 'URL' | 'NODE' | 'UPDATE_MEDIA_RUNTIME' | 'SET_VARIABLE' | 'SET_VARIABLE_MODE' | 'CONDITIONAL';
+  url?: string; // URL
+  destinationId?: string | null; // NODE
+  navigation?: FigmaNavigation;
+}
+
+/** A prototype connection. Older files have a single `action`, current ones `actions`. */
+export interface FigmaReaction {
+  trigger?: { type: string } | null;
+  action?: FigmaAction | null;
+  actions?: FigmaAction[];
+}
+
+export interface FigmaTypeStyle {
+  fontFamily?: string;
+  fontPostScriptName?: string | null;
+  fontWeight?: number;
+  fontSize?: number;
+  italic?: boolean;
+  textCase?: string;
+  textDecoration?: string;
+  textAutoResize?: 'NONE' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE';
+  textAlignHorizontal?: 'LEFT' | 'RIGHT' | 'CENTER' | 'JUSTIFIED';
+  textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+  letterSpacing?: number;
+  lineHeightPx?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
+}
+
+export type FigmaAxisMode = 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+
+/**
+ * A node of the document tree. Which properties are set depends on `type`
+ * (DOCUMENT, CANVAS, FRAME, GROUP, COMPONENT, COMPONENT_SET, INSTANCE, TEXT, RECTANGLE, ...).
+ */
 export interface FigmaNode {
   id: string;
   name: string;
   type: string;
+  visible?: boolean;
   children?: FigmaNode[];
-  backgroundColor?: string;
-  fills?: any[];
-  strokes?: any[];
-  effects?: any[];
-  constraints?: any;
-  absoluteBoundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  // Add more properties as needed
-  [key: string]: any;
+  absoluteBoundingBox?: FigmaRectangle | null;
+  absoluteRenderBounds?: FigmaRectangle | null;
+  constraints?: FigmaConstraints;
+  opacity?: number;
+  backgroundColor?: FigmaColor;
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  strokeWeight?: number;
+  effects?: FigmaEffect[];
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
+  clipsContent?: boolean;
+  styles?: Record<string, string>; // Style ids by what they style, e.g. { fill: '1:2', text: '3:4' }
+  boundVariables?: Record<string, unknown>;
+  // Auto Layout
+  layoutMode?: FigmaAxisMode;
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  primaryAxisSizingMode?: 'FIXED' | 'AUTO';
+  counterAxisSizingMode?: 'FIXED' | 'AUTO';
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  // As a child of an Auto Layout frame
+  layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
+  layoutGrow?: number;
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  layoutSizingHorizontal?: FigmaLayoutSizing;
+  layoutSizingVertical?: FigmaLayoutSizing;
+  // TEXT
+  characters?: string;
+  style?: FigmaTypeStyle;
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, FigmaTypeStyle>;
+  // Components and instances
+  componentId?: string;
+  componentProperties?: Record<string, FigmaComponentPropertyValue>;
+  componentPropertyDefinitions?: Record<string, FigmaComponentPropertyDefinition>;
+  componentPropertyReferences?: Record<string, string>;
+  // Prototyping
+  reactions?: FigmaReaction[];
+  transitionNodeID?: string | null;
+  flowStartingPoints?: { nodeId: string; name: string }[]; // CANVAS
 }
 
 export interface FigmaAnalysisResult {
@@ -71,9 +350,50 @@ export interface ComponentAnalysis {
       fills?: string[];
       exports?: string[];
     };
+    layout?: AutoLayout; // The node is an Auto Layout container
+    layoutChild?: LayoutChild; // How the node sits inside its parent
   };
 }
 
+export type FigmaLayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+/**
+ * Auto Layout settings of a frame - maps onto a flex container
+ */
+export interface AutoLayout {
+  mode: 'HORIZONTAL' | 'VERTICAL';
+  gap: number;
+  counterAxisGap?: number; // Gap between wrapped rows
+  wrap: boolean;
+  primaryAxisAlign: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlign: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  padding: { top: number; right: number; bottom: number; left: number };
+}
+
+/**
+ * A node's sizing and position relative to its parent. Inside Auto Layout parents the
+ * sizing decides hug/fill/fixed; in other frames the node is pinned at `offset`.
+ */
+export interface LayoutChild {
+  parentId: string;
+  parentMode: 'HORIZONTAL' | 'VERTICAL' | 'NONE';
+  horizontal: FigmaLayoutSizing;
+  vertical: FigmaLayoutSizing;
+  absolute: boolean; // Absolutely positioned (ignores the parent's Auto Layout)
+  offset: { x: number; y: number };
+}
+
+/**
+ * A prototype connection on a node: what triggers it and where it goes. `navigation` is Figma's for links
+ * to nodes (NAVIGATE, OVERLAY, SWAP, SCROLL_TO, CHANGE_TO); BACK, CLOSE and URL have no destination node.
+ */
+export interface PrototypeInteraction {
+  trigger: string; // ON_CLICK, ON_PRESS, ON_HOVER, ON_DRAG, AFTER_TIMEOUT, ...
+  navigation: 'NAVIGATE' | 'OVERLAY' | 'SWAP' | 'SCROLL_TO' | 'CHANGE_TO' | 'BACK' | 'CLOSE' | 'URL';
+  destinationId?: string;
+  url?: string;
+}
+
 export interface DesignTokens {
   colors: string[];
   typography: string[];
@@ -82,9 +402,10 @@ export interface DesignTokens {
   fontFamilies: string[];
   fontSizes: number[];
   fontWeights: number[];
+  named?: NamedDesignTokens | null; // Styles/variables the designer named - preferred over the inferred values above
 }
 
-// NEW: Interfaces for bounds matching
+// Bounds of a rendered React element, matched against Figma nodes (ComponentAnalysis)
 export interface ComponentBounds {
   name: string;
   x: number;
@@ -119,34 +440,135 @@ export interface BoundsMatchingResult {
   overallConfidence: number;
 }
 
+// How long a file's lastModified is trusted before asking Figma again
+const VERSION_CHECK_TTL_MS = 30 * 1000;
+
+// Figma image export URLs expire, so cached exports are only reused for a while
+const IMAGE_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// lastModified per file key, shared across instances
+const fileVersions = new Map<string, { lastModified: string; checkedAt: number }>();
+
+// Retries for rate limits, 5xx and dropped connections
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// Image exports are split so the ids fit in the URL and each render stays small
+const IMAGE_BATCH_SIZE = 50;
+const IMAGE_BATCH_MAX_IDS_LENGTH = 1500;
+const IMAGE_BATCH_CONCURRENCY = 3;
+
+export interface ImageExportOptions {
+  format?: 'jpg' | 'png' | 'svg' | 'pdf';
+  scale?: number;
+  use_absolute_bounds?: boolean;
+}
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Split node ids into batches by count and by joined length
+ */
+const chunkNodeIds = (nodeIds: string[]): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  nodeIds.forEach(nodeId => {
+    const full = current.length >= IMAGE_BATCH_SIZE
+      || currentLength + nodeId.length + 1 > IMAGE_BATCH_MAX_IDS_LENGTH;
+    if (current.length > 0 && full) {
+      chunks.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(nodeId);
+    currentLength += nodeId.length + 1;
+  });
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+/**
+ * Run `task` over every item with at most `limit` in flight
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
 class FigmaService {
-  private baseUrl = 'https://api.figma.com/v1';
-  private accessToken: string;
+  // Requests go through the api-proxy edge function, which adds the Figma token server-side
+  private basePath = '/v1';
+  private cache: FigmaResponseCache | null;
 
-  constructor(accessToken: string) {
-    this.accessToken = accessToken;
+  /**
+   * @param cache Response cache; pass null to always hit the Figma API
+   */
+  constructor(cache: FigmaResponseCache | null = getFigmaCache()) {
+    this.cache = cache;
   }
 
-  private async makeRequest(endpoint: string): Promise<any> {
-    console.log(`Making Figma API request to: ${this.baseUrl}${endpoint}`);
-    
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        'X-Figma-Token': this.accessToken,
-      },
-    });
+  /**
+   * GET a Figma endpoint, retrying rate limits and transient failures with backoff.
+   * Throws a FigmaApiError subclass describing what went wrong.
+   */
+  private async makeRequest<T>(endpoint: string): Promise<T> {
+    console.log(`Making Figma API request to: ${this.basePath}${endpoint}`);
 
-    console.log(`Figma API response status: ${response.status}`);
+    for (let attempt = 0; ; attempt++) {
+      let error: FigmaApiError;
+      let retryAfterMs: number | undefined;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Figma API error response:', errorText);
-      throw new Error(`Figma API error: ${response.status} ${response.statusText}. ${errorText}`);
-    }
+      try {
+        const response = await proxyFetch('figma', `${this.basePath}${endpoint}`);
+        console.log(`Figma API response status: ${response.status}`);
+
+        if (response.ok) {
+          const data: T = await response.json();
+          console.log('Figma API response data keys:', Object.keys(data as object));
+          return data;
+        }
+
+        const errorText = await response.text().catch(() => '');
+        console.error('Figma API error response:', errorText);
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        error = figmaErrorFromResponse(response.status, response.statusText, errorText, retryAfterMs);
+      } catch (fetchError) {
+        if (fetchError instanceof FigmaApiError || !(fetchError instanceof TypeError)) {
+          throw fetchError;
+        }
+        // fetch() rejects with a TypeError when the connection fails
+        error = new FigmaApiError('network', `Figma request failed: ${fetchError.message}`, 'Check your connection and try again.');
+      }
 
-    const data = await response.json();
-    console.log('Figma API response data keys:', Object.keys(data));
-    return data;
+      // A server asking us to wait longer than we'd back off anyway is surfaced rather than slept on
+      const delayMs = retryAfterMs ?? Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS) * (0.75 + Math.random() / 2);
+      if (!error.retryable || attempt >= MAX_RETRIES || delayMs > MAX_RETRY_DELAY_MS * 2) {
+        throw error;
+      }
+
+      console.warn(`⏳ [FIGMA SERVICE] ${error.kind} (${error.status ?? 'no status'}), retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await wait(delayMs);
+    }
   }
 
   /**
@@ -187,6 +609,125 @@ class FigmaService {
    * Based on: https://www.figma.com/developers/api#get-files-endpoint
    */
   async getFile(fileKey: string, nodeIds?: string[]): Promise<FigmaFile> {
+    return this.cachedFileRequest('file', fileKey, () => this.fetchFile(fileKey, nodeIds), nodeIds);
+  }
+
+  /**
+   * Fetch just the given nodes' subtrees
+   * Based on: https://www.figma.com/developers/api#get-file-nodes-endpoint
+   */
+  async getFileNodes(fileKey: string, nodeIds: string[]): Promise<FigmaFileNodesResponse> {
+    return this.cachedFileRequest('nodes', fileKey, async () => {
+      const batches = await mapWithConcurrency(chunkNodeIds(nodeIds), IMAGE_BATCH_CONCURRENCY, batch =>
+        this.makeRequest<FigmaFileNodesResponse>(`/files/${fileKey}/nodes?${new URLSearchParams({ ids: batch.join(',') })}`)
+      );
+      return {
+        ...batches[0],
+        nodes: Object.assign({}, ...batches.map(batch => batch.nodes))
+      };
+    }, nodeIds);
+  }
+
+  /**
+   * Download URLs for every image fill in the file, keyed by imageRef (fills[].imageRef)
+   * Based on: https://www.figma.com/developers/api#get-image-fills-endpoint
+   */
+  async getImageFills(fileKey: string): Promise<Record<string, string>> {
+    return this.cachedFileRequest('imageFills', fileKey, async () => {
+      const data = await this.makeRequest<FigmaMetaResponse<{ images?: Record<string, string> }>>(`/files/${fileKey}/images`);
+      return data.meta?.images || {};
+    }, [], IMAGE_CACHE_MAX_AGE_MS);
+  }
+
+  /**
+   * Styles published from this file to the team library
+   */
+  async getFileStyles(fileKey: string): Promise<FigmaPublishedStyle[]> {
+    return this.cachedFileRequest('styles', fileKey, async () => {
+      const data = await this.makeRequest<FigmaMetaResponse<{ styles?: FigmaPublishedStyle[] }>>(`/files/${fileKey}/styles`);
+      return data.meta?.styles || [];
+    });
+  }
+
+  /**
+   * Components published from this file to the team library
+   */
+  async getFileComponents(fileKey: string): Promise<FigmaPublishedComponent[]> {
+    return this.cachedFileRequest('components', fileKey, async () => {
+      const data = await this.makeRequest<FigmaMetaResponse<{ components?: FigmaPublishedComponent[] }>>(`/files/${fileKey}/components`);
+      return data.meta?.components || [];
+    });
+  }
+
+  async getFileComponentSets(fileKey: string): Promise<FigmaPublishedComponent[]> {
+    return this.cachedFileRequest('componentSets', fileKey, async () => {
+      const data = await this.makeRequest<FigmaMetaResponse<{ component_sets?: FigmaPublishedComponent[] }>>(`/files/${fileKey}/component_sets`);
+      return data.meta?.component_sets || [];
+    });
+  }
+
+  /**
+   * Local variables and their collections/modes. Only available on Enterprise plans -
+   * other plans get a FigmaAuthError (403).
+   */
+  async getLocalVariables(fileKey: string): Promise<FigmaLocalVariables> {
+    return this.cachedFileRequest('variables', fileKey, async () => {
+      const data = await this.makeRequest<FigmaMetaResponse<Partial<FigmaLocalVariables>>>(`/files/${fileKey}/variables/local`);
+      return {
+        variables: data.meta?.variables || {},
+        variableCollections: data.meta?.variableCollections || {}
+      };
+    });
+  }
+
+  /**
+   * Serve a per-file response from the cache while the file's lastModified is unchanged
+   */
+  private async cachedFileRequest<T>(
+    kind: FigmaCacheKind,
+    fileKey: string,
+    fetcher: () => Promise<T>,
+    nodeIds: string[] = [],
+    maxAgeMs?: number
+  ): Promise<T> {
+    if (!this.cache) {
+      return fetcher();
+    }
+
+    const lastModified = await this.getFileVersion(fileKey);
+    const cached = await this.cache.get<T>(figmaCacheKey(kind, fileKey, lastModified, nodeIds), maxAgeMs);
+    if (cached) {
+      console.log(`🗄️ [FIGMA CACHE] ${kind} hit:`, fileKey, lastModified);
+      return cached;
+    }
+
+    const value = await fetcher();
+    // A full file response is authoritative if the file changed since the version check
+    const fetchedVersion = (value as { lastModified?: string }).lastModified || lastModified;
+    this.rememberFileVersion(fileKey, fetchedVersion);
+    await this.cache.set(figmaCacheKey(kind, fileKey, fetchedVersion, nodeIds), value);
+    return value;
+  }
+
+  /**
+   * The file's lastModified, from a depth=1 request that skips the document tree
+   */
+  async getFileVersion(fileKey: string): Promise<string> {
+    const known = fileVersions.get(fileKey);
+    if (known && Date.now() - known.checkedAt < VERSION_CHECK_TTL_MS) {
+      return known.lastModified;
+    }
+
+    const data = await this.makeRequest<Pick<FigmaFile, 'lastModified'>>(`/files/${fileKey}?depth=1`);
+    this.rememberFileVersion(fileKey, data.lastModified);
+    return data.lastModified;
+  }
+
+  private rememberFileVersion(fileKey: string, lastModified: string) {
+    fileVersions.set(fileKey, { lastModified, checkedAt: Date.now() });
+  }
+
+  private async fetchFile(fileKey: string, nodeIds?: string[]): Promise<FigmaFile> {
     let endpoint = `/files/${fileKey}`;
     
     if (nodeIds && nodeIds.length > 0) {
@@ -196,8 +737,7 @@ class FigmaService {
       endpoint += `?${params}`;
     }
 
-    const data = await this.makeRequest(endpoint);
-    return data as FigmaFile;
+    return this.makeRequest<FigmaFile>(endpoint);
   }
 
   /**
@@ -207,11 +747,73 @@ class FigmaService {
   async getImages(
     fileKey: string, 
     nodeIds: string[], 
-    options: {
-      format?: 'jpg' | 'png' | 'svg' | 'pdf';
-      scale?: number;
-      use_absolute_bounds?: boolean;
-    } = {}
+    options: ImageExportOptions = {}
+  ): Promise<{ [nodeId: string]: string }> {
+    if (!this.cache) {
+      return this.fetchImages(fileKey, nodeIds, options);
+    }
+
+    // Cached per node, so overlapping exports only fetch the nodes not seen yet
+    const lastModified = await this.getFileVersion(fileKey);
+    const exportOptions = {
+      format: options.format || 'png',
+      scale: options.scale || 2,
+      use_absolute_bounds: !!options.use_absolute_bounds
+    };
+    const imageKey = (nodeId: string) => figmaCacheKey('image', fileKey, lastModified, [nodeId], exportOptions);
+    const images: { [nodeId: string]: string } = {};
+    const missingNodeIds: string[] = [];
+
+    for (const nodeId of nodeIds) {
+      const cached = await this.cache.get<string>(imageKey(nodeId), IMAGE_CACHE_MAX_AGE_MS);
+      if (cached) {
+        images[nodeId] = cached;
+      } else {
+        missingNodeIds.push(nodeId);
+      }
+    }
+
+    if (missingNodeIds.length < nodeIds.length) {
+      console.log(`🗄️ [FIGMA CACHE] Image hits: ${nodeIds.length - missingNodeIds.length}/${nodeIds.length}`);
+    }
+
+    if (missingNodeIds.length > 0) {
+      const fetched = await this.fetchImages(fileKey, missingNodeIds, options);
+      for (const [nodeId, url] of Object.entries(fetched)) {
+        images[nodeId] = url;
+        // Figma returns null for nodes it couldn't render - don't cache those
+        if (url) {
+          await this.cache.set(imageKey(nodeId), url);
+        }
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Export images in batches, a few at a time. A batch Figma rejects as too large is split in half.
+   */
+  private async fetchImages(
+    fileKey: string,
+    nodeIds: string[],
+    options: ImageExportOptions
+  ): Promise<{ [nodeId: string]: string }> {
+    const batches = chunkNodeIds(nodeIds);
+    if (batches.length > 1) {
+      console.log(`🖼️ [FIGMA SERVICE] Exporting ${nodeIds.length} images in ${batches.length} batches`);
+    }
+
+    const results = await mapWithConcurrency(batches, IMAGE_BATCH_CONCURRENCY, batch =>
+      this.fetchImageBatch(fileKey, batch, options)
+    );
+    return Object.assign({}, ...results);
+  }
+
+  private async fetchImageBatch(
+    fileKey: string,
+    nodeIds: string[],
+    options: ImageExportOptions
   ): Promise<{ [nodeId: string]: string }> {
     const params = new URLSearchParams({
       ids: nodeIds.join(','),
@@ -223,10 +825,20 @@ class FigmaService {
       params.set('use_absolute_bounds', 'true');
     }
 
-    const endpoint = `/images/${fileKey}?${params}`;
-    const data = await this.makeRequest(endpoint);
-    
-    return data.images;
+    try {
+      const data = await this.makeRequest<{ images?: Record<string, string> }>(`/images/${fileKey}?${params}`);
+      return data.images || {};
+    } catch (error) {
+      if (error instanceof FigmaTooLargeError && nodeIds.length > 1) {
+        const middle = Math.ceil(nodeIds.length / 2);
+        const [first, second] = await Promise.all([
+          this.fetchImageBatch(fileKey, nodeIds.slice(0, middle), options),
+          this.fetchImageBatch(fileKey, nodeIds.slice(middle), options)
+        ]);
+        return { ...first, ...second };
+      }
+      throw error;
+    }
   }
 
   /**
@@ -235,7 +847,7 @@ class FigmaService {
   analyzeFileStructure(figmaFile: FigmaFile): ComponentAnalysis[] {
     const components: ComponentAnalysis[] = [];
 
-    const traverseNode = (node: FigmaNode, depth = 0) => {
+    const traverseNode = (node: FigmaNode, depth = 0, parent?: FigmaNode) => {
       // Skip certain node types that aren't UI components
       if (['DOCUMENT', 'CANVAS', 'SLICE'].includes(node.type)) {
         if (node.children) {
@@ -265,7 +877,7 @@ class FigmaService {
             effects: node.effects,
             cornerRadius: node.cornerRadius,
             // Add more properties as needed
-            ...this.extractSpecificProperties(node)
+            ...this.extractSpecificProperties(node, parent)
           }
         };
 
@@ -274,7 +886,7 @@ class FigmaService {
 
       // Recursively traverse children
       if (node.children) {
-        node.children.forEach(child => traverseNode(child, depth + 1));
+        node.children.forEach(child => traverseNode(child, depth + 1, node.absoluteBoundingBox ? node : parent));
       }
     };
 
@@ -288,7 +900,7 @@ class FigmaService {
   /**
    * Extract type-specific properties from Figma nodes
    */
-  private extractSpecificProperties(node: FigmaNode): Record<string, any> {
+  private extractSpecificProperties(node: FigmaNode, parent?: FigmaNode): Record<string, any> {
     const properties: Record<string, any> = {};
 
     // Enhanced styling extraction
@@ -298,12 +910,8 @@ class FigmaService {
     if (node.fills || node.strokes || node.backgroundColor) {
       styling.colors = {};
       
-      if (node.backgroundColor && typeof node.backgroundColor === 'object' && 'r' in node.backgroundColor) {
-        styling.colors.background = this.rgbToHex(
-          (node.backgroundColor as any).r, 
-          (node.backgroundColor as any).g, 
-          (node.backgroundColor as any).b
-        );
+      if (node.backgroundColor) {
+        styling.colors.background = this.rgbToHex(node.backgroundColor.r, node.backgroundColor.g, node.backgroundColor.b);
       }
       
       if (node.fills && node.fills.length > 0) {
@@ -365,15 +973,14 @@ class FigmaService {
         styling.borders.radius = node.cornerRadius;
       }
       if (node.strokes && node.strokes.length > 0) {
-        const stroke = node.strokes[0];
-        styling.borders.width = stroke.strokeWeight || 1;
+        styling.borders.width = node.strokeWeight || 1;
         styling.borders.style = 'solid';
       }
     }
 
     // Effects (shadows)
     if (node.effects && node.effects.length > 0) {
-      styling.shadows = node.effects.map((effect: any) => {
+      styling.shadows = node.effects.map(effect => {
         if (effect.type === 'DROP_SHADOW') {
           const color = effect.color ? 
             `rgba(${Math.round(effect.color.r * 255)}, ${Math.round(effect.color.g * 255)}, ${Math.round(effect.color.b * 255)}, ${effect.color.a})` 
@@ -384,6 +991,16 @@ class FigmaService {
       }).filter(Boolean);
     }
 
+    // Auto Layout
+    const layout = this.extractAutoLayout(node);
+    if (layout) {
+      styling.layout = layout;
+    }
+    const layoutChild = parent && this.extractLayoutChild(node, parent);
+    if (layoutChild) {
+      styling.layoutChild = layoutChild;
+    }
+
     properties.styling = styling;
 
     // Original type-specific properties
@@ -417,9 +1034,112 @@ class FigmaService {
         break;
     }
 
+    // Component property bindings ({ characters: 'Label#12:3', visible: 'Show icon#4:0' })
+    if (node.componentPropertyReferences) {
+      properties.componentPropertyReferences = node.componentPropertyReferences;
+    }
+
+    const interactions = this.extractInteractions(node);
+    if (interactions.length > 0) {
+      properties.interactions = interactions;
+    }
+
     return properties;
   }
 
+  /**
+   * Prototype connections. Current files list them in `reactions` (with `actions`, or a single `action`
+   * in older ones); the oldest only have `transitionNodeID`, a click that navigates.
+   */
+  private extractInteractions(node: FigmaNode): PrototypeInteraction[] {
+    const interactions: PrototypeInteraction[] = [];
+
+    (node.reactions || []).forEach(reaction => {
+      const trigger = reaction.trigger?.type || 'ON_CLICK';
+      const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+      actions.forEach(action => {
+        if (action?.type === 'NODE' && action.destinationId) {
+          interactions.push({ trigger, navigation: action.navigation || 'NAVIGATE', destinationId: action.destinationId });
+        } else if (action?.type === 'BACK' || action?.type === 'CLOSE') {
+          interactions.push({ trigger, navigation: action.type });
+        } else if (action?.type === 'URL' && action.url) {
+          interactions.push({ trigger, navigation: 'URL', url: action.url });
+        }
+      });
+    });
+
+    if (interactions.length === 0 && node.transitionNodeID) {
+      interactions.push({ trigger: 'ON_CLICK', navigation: 'NAVIGATE', destinationId: node.transitionNodeID });
+    }
+    return interactions;
+  }
+
+  /**
+   * Auto Layout container settings, or undefined for frames laid out by hand
+   */
+  private extractAutoLayout(node: FigmaNode): AutoLayout | undefined {
+    if (node.layoutMode !== 'HORIZONTAL' && node.layoutMode !== 'VERTICAL') {
+      return undefined;
+    }
+
+    return {
+      mode: node.layoutMode,
+      gap: node.itemSpacing || 0,
+      counterAxisGap: node.layoutWrap === 'WRAP' ? node.counterAxisSpacing ?? node.itemSpacing ?? 0 : undefined,
+      wrap: node.layoutWrap === 'WRAP',
+      primaryAxisAlign: node.primaryAxisAlignItems || 'MIN',
+      counterAxisAlign: node.counterAxisAlignItems || 'MIN',
+      padding: {
+        top: node.paddingTop || 0,
+        right: node.paddingRight || 0,
+        bottom: node.paddingBottom || 0,
+        left: node.paddingLeft || 0
+      }
+    };
+  }
+
+  /**
+   * Hug/fill/fixed sizing per axis. Newer files carry layoutSizingHorizontal/Vertical;
+   * older ones only have layoutGrow/layoutAlign and the container's axis sizing modes.
+   * Undefined when the node or its parent has no bounds.
+   */
+  private extractLayoutChild(node: FigmaNode, parent: FigmaNode): LayoutChild | undefined {
+    const bounds = node.absoluteBoundingBox;
+    const parentBounds = parent.absoluteBoundingBox;
+    if (!bounds || !parentBounds) return undefined;
+
+    const parentMode = parent.layoutMode === 'HORIZONTAL' || parent.layoutMode === 'VERTICAL' ? parent.layoutMode : 'NONE';
+    const ownMode = node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL' ? node.layoutMode : null;
+
+    const legacySizing = (axis: 'HORIZONTAL' | 'VERTICAL'): FigmaLayoutSizing => {
+      if (parentMode !== 'NONE') {
+        if (parentMode === axis && node.layoutGrow === 1) return 'FILL';
+        if (parentMode !== axis && node.layoutAlign === 'STRETCH') return 'FILL';
+      }
+      if (ownMode) {
+        const sizingMode = ownMode === axis ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+        if (sizingMode === 'AUTO') return 'HUG';
+      }
+      if (node.type === 'TEXT') {
+        if (node.style?.textAutoResize === 'WIDTH_AND_HEIGHT') return 'HUG';
+        if (axis === 'VERTICAL' && node.style?.textAutoResize === 'HEIGHT') return 'HUG';
+      }
+      return 'FIXED';
+    };
+
+    return {
+      parentId: parent.id,
+      parentMode,
+      horizontal: node.layoutSizingHorizontal || legacySizing('HORIZONTAL'),
+      vertical: node.layoutSizingVertical || legacySizing('VERTICAL'),
+      absolute: node.layoutPositioning === 'ABSOLUTE',
+      offset: {
+        x: bounds.x - parentBounds.x,
+        y: bounds.y - parentBounds.y
+      }
+    };
+  }
+
   /**
    * Get main artboard/frame nodes for image export
    */
@@ -496,11 +1216,18 @@ class FigmaService {
     
     // Extract design tokens (colors, typography, spacing)
     const designTokens = this.extractDesignTokens(fileData);
+    try {
+      designTokens.named = await new FigmaTokenService(this).extractNamedTokens(fileKey, fileData);
+    } catch (error) {
+      console.warn('⚠️ [FIGMA SERVICE] Named token extraction failed, using inferred tokens:', error);
+      designTokens.named = null;
+    }
     console.log('🎨 [FIGMA SERVICE] Design tokens extracted:', designTokens);
     
     // Get target node for screenshot
     let targetNodeId = '';
-    if (nodeId) {
+    // Pages (node-id=0-1) can't be rendered - a link to one is treated like a link to the file
+    if (nodeId && components.some(component => component.id === nodeId)) {
       // Use specific node ID if provided
       targetNodeId = nodeId;
       console.log('🎯 [FIGMA SERVICE] Using specific node ID:', targetNodeId);
@@ -563,13 +1290,13 @@ class FigmaService {
     const traverseForTokens = (node: FigmaNode) => {
       // Enhanced color extraction from fills
       if (node.fills) {
-        node.fills.forEach((fill: any) => {
+        node.fills.forEach(fill => {
           if (fill.type === 'SOLID' && fill.color) {
             const hex = this.rgbToHex(fill.color.r, fill.color.g, fill.color.b);
             colors.add(hex);
           } else if (fill.type === 'GRADIENT_LINEAR' && fill.gradientStops) {
             // Extract gradient colors and create CSS gradient
-            const gradientColors = fill.gradientStops.map((stop: any) => {
+            const gradientColors = fill.gradientStops.map(stop => {
               const color = this.rgbToHex(stop.color.r, stop.color.g, stop.color.b);
               colors.add(color); // Add individual colors too
               return `${color} ${Math.round(stop.position * 100)}%`;
@@ -585,7 +1312,7 @@ class FigmaService {
       
       // Enhanced color extraction from strokes
       if (node.strokes) {
-        node.strokes.forEach((stroke: any) => {
+        node.strokes.forEach(stroke => {
           if (stroke.type === 'SOLID' && stroke.color) {
             const hex = this.rgbToHex(stroke.color.r, stroke.color.g, stroke.color.b);
             colors.add(hex);
@@ -697,7 +1424,7 @@ class FigmaService {
     // Find nodes with image fills
     components.forEach(component => {
       if (component.properties.fills) {
-        const hasImageFill = component.properties.fills.some((fill: any) => 
+        const hasImageFill = component.properties.fills.some((fill: FigmaPaint) =>
           fill.type === 'IMAGE' || fill.type === 'SOLID' && fill.color
         );
         if (hasImageFill) {
@@ -739,6 +1466,18 @@ class FigmaService {
     return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
   }
 
+  /**
+   * Every node big enough to be matched against rendered React components
+   */
+  async extractAllNodesWithBounds(fileKey: string, minSize = 20): Promise<ComponentAnalysis[]> {
+    const fileData = await this.getFile(fileKey);
+    const nodes = this.analyzeFileStructure(fileData)
+      .filter(node => node.bounds.width > minSize && node.bounds.height > minSize);
+
+    console.log(`🔍 Extracted ${nodes.length} nodes with bounds from Figma file`);
+    return nodes;
+  }
+
   // NEW: Match React component bounds to Figma node bounds - return multiple candidates
   matchComponentsToNodes(
     componentBounds: ComponentBounds[],
@@ -0,0 +1,349 @@
+import type FigmaService from './figmaService';
+import type {
+  FigmaFile,
+  FigmaLocalVariables,
+  FigmaNode,
+  FigmaStyleMetadata,
+  FigmaVariable,
+  FigmaVariableValue
+} from './figmaService';
+import { FigmaApiError } from './figmaErrors';
+
+export type SemanticColorRole =
+  | 'primary'
+  | 'secondary'
+  | 'background'
+  | 'surface'
+  | 'text'
+  | 'textSecondary'
+  | 'divider'
+  | 'error'
+  | 'warning'
+  | 'success'
+  | 'info';
+
+export type SemanticTextRole =
+  | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
+  | 'subtitle1' | 'subtitle2'
+  | 'body1' | 'body2'
+  | 'button'
+  | 'caption'
+  | 'overline';
+
+export interface NamedTextStyle {
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  lineHeight?: number; // px
+  letterSpacing?: number; // px
+}
+
+export type SemanticColors = Partial<Record<SemanticColorRole, string>>;
+
+/**
+ * Tokens the designer actually named in Figma (styles and variables), mapped to semantic roles
+ */
+export interface NamedDesignTokens {
+  source: 'variables' | 'styles' | 'variables+styles';
+  colors: SemanticColors; // Default mode
+  colorModes: Record<string, SemanticColors>; // 'light', 'dark' or the collection's own mode names
+  typography: Partial<Record<SemanticTextRole, NamedTextStyle>>;
+  spacing: Record<string, number>;
+  figmaNames: Record<string, string>; // Semantic token (e.g. "color.primary") -> Figma style/variable name
+}
+
+/**
+ * Semantic color role for a Figma style/variable name like "Brand/Primary" or "text/muted"
+ */
+export const colorRoleForName = (name: string): SemanticColorRole | null => {
+  const parts = name.toLowerCase().split(/[/\s\-_.]+/).filter(Boolean);
+  const has = (...words: string[]) => words.some(word => parts.includes(word));
+
+  if (has('error', 'danger', 'destructive', 'negative')) return 'error';
+  if (has('warning', 'caution')) return 'warning';
+  if (has('success', 'positive')) return 'success';
+  if (has('info', 'informative')) return 'info';
+  if (has('text', 'foreground', 'fg', 'content', 'on')) {
+    return has('secondary', 'muted', 'subtle', 'tertiary', 'disabled') ? 'textSecondary' : 'text';
+  }
+  if (has('divider', 'border', 'outline', 'stroke', 'separator')) return 'divider';
+  if (has('surface', 'card', 'paper')) return 'surface';
+  if (has('background', 'bg', 'canvas', 'page')) return 'background';
+  if (has('primary', 'brand', 'accent')) return 'primary';
+  if (has('secondary')) return 'secondary';
+  return null;
+};
+
+/**
+ * Semantic typography role for a text style name like "Heading 1" or "Body/Small"
+ */
+export const textRoleForName = (name: string): SemanticTextRole | null => {
+  const lower = name.toLowerCase();
+
+  const heading = lower.match(/(?:^|[^a-z])(?:h|heading|headline|title)\s*[-_]?\s*([1-6])(?![0-9])/);
+  if (heading) return `h${heading[1]}` as SemanticTextRole;
+  if (/display|large title|hero/.test(lower)) return 'h1';
+  if (/heading|headline|title/.test(lower)) return 'h4';
+  if (/subtitle|subheading|subhead/.test(lower)) return /small|2|sm/.test(lower) ? 'subtitle2' : 'subtitle1';
+  if (/overline|eyebrow/.test(lower)) return 'overline';
+  if (/caption|footnote|helper/.test(lower)) return 'caption';
+  if (/button|label|cta/.test(lower)) return 'button';
+  if (/body|paragraph|text|regular/.test(lower)) return /small|2|sm|secondary/.test(lower) ? 'body2' : 'body1';
+  return null;
+};
+
+/**
+ * Shades such as "Primary/500" or "Primary/Main" win over lighter/darker variants of the same role
+ */
+const isMainShade = (name: string): boolean => {
+  const parts = name.toLowerCase().split(/[/\s\-_.]+/).filter(Boolean);
+  const last = parts[parts.length - 1];
+  if (['main', 'default', 'base', '500'].includes(last)) return true;
+  return !/^\d+$/.test(last) && !/^(light|lighter|dark|darker|hover|pressed|active|disabled|alt)$/.test(last);
+};
+
+const modeKey = (modeName: string): string => {
+  if (/dark/i.test(modeName)) return 'dark';
+  if (/light/i.test(modeName)) return 'light';
+  return modeName.toLowerCase();
+};
+
+const colorToCss = (color: { r: number; g: number; b: number; a?: number }, opacity = 1): string => {
+  const toHex = (n: number) => Math.round(n * 255).toString(16).padStart(2, '0');
+  const alpha = (color.a ?? 1) * opacity;
+  return alpha < 1
+    ? `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${Number(alpha.toFixed(3))})`
+    : `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+};
+
+const isColorValue = (value: FigmaVariableValue | undefined): value is { r: number; g: number; b: number; a: number } =>
+  typeof value === 'object' && value !== null && 'r' in value;
+
+const isAlias = (value: FigmaVariableValue): value is { type: 'VARIABLE_ALIAS'; id: string } =>
+  typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+
+/**
+ * Reads named styles and variables from a Figma file and maps them to semantic tokens
+ */
+class FigmaTokenService {
+  private figmaService: FigmaService;
+
+  constructor(figmaService: FigmaService) {
+    this.figmaService = figmaService;
+  }
+
+  /**
+   * Named tokens for the file, or null when it defines no usable styles or variables
+   * (callers then fall back to inferring tokens from raw fills)
+   */
+  async extractNamedTokens(fileKey: string, fileData: FigmaFile): Promise<NamedDesignTokens | null> {
+    const tokens: NamedDesignTokens = {
+      source: 'styles',
+      colors: {},
+      colorModes: {},
+      typography: {},
+      spacing: {},
+      figmaNames: {}
+    };
+
+    const fromVariables = await this.applyVariables(fileKey, tokens);
+    const fromStyles = await this.applyStyles(fileKey, fileData, tokens);
+
+    if (!fromVariables && !fromStyles) {
+      console.log('🎨 [FIGMA TOKENS] No named styles or variables - falling back to inference');
+      return null;
+    }
+
+    tokens.source = fromVariables && fromStyles ? 'variables+styles' : fromVariables ? 'variables' : 'styles';
+    console.log('🎨 [FIGMA TOKENS] Named tokens extracted:', {
+      source: tokens.source,
+      colors: Object.keys(tokens.colors),
+      modes: Object.keys(tokens.colorModes),
+      typography: Object.keys(tokens.typography),
+      spacing: Object.keys(tokens.spacing).length
+    });
+    return tokens;
+  }
+
+  /**
+   * Color and spacing variables, per mode. Variables take precedence over styles.
+   */
+  private async applyVariables(fileKey: string, tokens: NamedDesignTokens): Promise<boolean> {
+    let local: FigmaLocalVariables;
+    try {
+      local = await this.figmaService.getLocalVariables(fileKey);
+    } catch (error) {
+      // The variables endpoint is Enterprise-only - anything else just means "no variables"
+      if (error instanceof FigmaApiError && (error.kind === 'auth' || error.kind === 'not-found' || error.kind === 'invalid-request')) {
+        console.log('🎨 [FIGMA TOKENS] Variables unavailable for this file:', error.status);
+        return false;
+      }
+      throw error;
+    }
+
+    const variables = Object.values(local.variables).filter(variable => !variable.remote);
+    let applied = false;
+
+    variables.forEach(variable => {
+      const collection = local.variableCollections[variable.variableCollectionId];
+      if (!collection) return;
+
+      if (variable.resolvedType === 'COLOR') {
+        const role = colorRoleForName(variable.name);
+        if (!role) return;
+
+        collection.modes.forEach(mode => {
+          const value = this.resolveVariable(variable, mode.modeId, local);
+          if (!isColorValue(value)) return;
+
+          const css = colorToCss(value);
+          const modeColors = (tokens.colorModes[modeKey(mode.name)] ||= {});
+          if (!modeColors[role] || isMainShade(variable.name)) {
+            modeColors[role] = css;
+          }
+          if (mode.modeId === collection.defaultModeId && (!tokens.colors[role] || isMainShade(variable.name))) {
+            tokens.colors[role] = css;
+            tokens.figmaNames[`color.${role}`] = variable.name;
+          }
+        });
+        applied = true;
+      } else if (variable.resolvedType === 'FLOAT' && /spac|gap|padding|margin/i.test(variable.name)) {
+        const value = this.resolveVariable(variable, collection.defaultModeId, local);
+        if (typeof value !== 'number') return;
+
+        const name = (variable.name.split('/').at(-1) ?? variable.name).trim().toLowerCase().replace(/\s+/g, '-');
+        tokens.spacing[name] = value;
+        tokens.figmaNames[`spacing.${name}`] = variable.name;
+        applied = true;
+      }
+    });
+
+    // A single mode isn't a "mode" worth exporting
+    if (Object.keys(tokens.colorModes).length < 2) {
+      tokens.colorModes = {};
+    }
+
+    return applied;
+  }
+
+  /**
+   * Follow aliases to a concrete value, staying in the same mode where the target has one
+   */
+  private resolveVariable(
+    variable: FigmaVariable,
+    modeId: string,
+    local: FigmaLocalVariables,
+    depth = 0
+  ): FigmaVariableValue | undefined {
+    const collection = local.variableCollections[variable.variableCollectionId];
+    const value = variable.valuesByMode[modeId] ?? (collection ? variable.valuesByMode[collection.defaultModeId] : undefined);
+
+    if (value === undefined || !isAlias(value)) {
+      return value;
+    }
+    if (depth > 10) return undefined;
+
+    const target = local.variables[value.id];
+    return target ? this.resolveVariable(target, modeId, local, depth + 1) : undefined;
+  }
+
+  /**
+   * Fill and text styles. Values come from nodes in the document that use each style;
+   * published styles no node uses are read from their own style node.
+   */
+  private async applyStyles(fileKey: string, fileData: FigmaFile, tokens: NamedDesignTokens): Promise<boolean> {
+    const styles: Record<string, FigmaStyleMetadata> = { ...(fileData.styles || {}) };
+    const fillValues: Record<string, string> = {};
+    const textValues: Record<string, NamedTextStyle> = {};
+
+    const traverse = (node: FigmaNode) => {
+      const styleRefs = node.styles as Record<string, string> | undefined;
+      if (styleRefs?.fill && !fillValues[styleRefs.fill]) {
+        const color = this.solidFill(node);
+        if (color) fillValues[styleRefs.fill] = color;
+      }
+      if (styleRefs?.text && !textValues[styleRefs.text] && node.style) {
+        textValues[styleRefs.text] = this.textStyle(node);
+      }
+      node.children?.forEach(traverse);
+    };
+    if (fileData.document) {
+      traverse(fileData.document);
+    }
+
+    // Published styles carry a node id we can read the value from directly
+    try {
+      const published = await this.figmaService.getFileStyles(fileKey);
+      const unresolved = published.filter(style =>
+        (style.style_type === 'FILL' || style.style_type === 'TEXT') && !styles[style.node_id]
+      );
+      published.forEach(style => {
+        styles[style.node_id] ||= { key: style.key, name: style.name, styleType: style.style_type, description: style.description };
+      });
+
+      if (unresolved.length > 0) {
+        const nodes = await this.figmaService.getFileNodes(fileKey, unresolved.map(style => style.node_id));
+        unresolved.forEach(style => {
+          const node = nodes.nodes[style.node_id]?.document;
+          if (!node) return;
+          if (style.style_type === 'FILL') {
+            const color = this.solidFill(node);
+            if (color) fillValues[style.node_id] = color;
+          } else if (node.style) {
+            textValues[style.node_id] = this.textStyle(node);
+          }
+        });
+      }
+    } catch (error) {
+      console.warn('🎨 [FIGMA TOKENS] Could not read published styles:', error);
+    }
+
+    let applied = false;
+    const hasVariableColors = Object.keys(tokens.colors).length > 0;
+
+    Object.entries(styles).forEach(([styleId, style]) => {
+      if (style.styleType === 'FILL' && fillValues[styleId]) {
+        const role = colorRoleForName(style.name);
+        if (!role) return;
+
+        // Style groups named "Dark/..." or "Light/..." describe modes
+        const mode = /^\s*dark\b/i.test(style.name) ? 'dark' : /^\s*light\b/i.test(style.name) ? 'light' : null;
+        if (mode) {
+          const modeColors = (tokens.colorModes[mode] ||= {});
+          modeColors[role] ||= fillValues[styleId];
+        }
+        if (mode !== 'dark' && !hasVariableColors && (!tokens.colors[role] || isMainShade(style.name))) {
+          tokens.colors[role] = fillValues[styleId];
+          tokens.figmaNames[`color.${role}`] = style.name;
+        }
+        applied = true;
+      } else if (style.styleType === 'TEXT' && textValues[styleId]) {
+        const role = textRoleForName(style.name);
+        if (!role || tokens.typography[role]) return;
+
+        tokens.typography[role] = textValues[styleId];
+        tokens.figmaNames[`typography.${role}`] = style.name;
+        applied = true;
+      }
+    });
+
+    return applied;
+  }
+
+  private solidFill(node: FigmaNode): string | null {
+    const fill = (node.fills || []).find(candidate => candidate.type === 'SOLID' && candidate.visible !== false);
+    return fill?.color ? colorToCss(fill.color, fill.opacity ?? 1) : null;
+  }
+
+  private textStyle(node: FigmaNode): NamedTextStyle {
+    return {
+      fontFamily: node.style?.fontFamily,
+      fontSize: node.style?.fontSize,
+      fontWeight: node.style?.fontWeight,
+      lineHeight: node.style?.lineHeightPx,
+      letterSpacing: node.style?.letterSpacing
+    };
+  }
+}
+
+export default FigmaTokenService;
@@ -1,5 +1,6 @@
 import { ComponentAnalysis, FigmaFile } from './figmaService';
 import { SemanticGroup, SemanticGroupingResult } from './semanticGroupingService';
+import { LLMProvider, LLMResponse, visionMessage } from './llmProvider';
 
 export interface GPTVisionAnalysis {
   components: IdentifiedComponent[];
@@ -67,11 +68,10 @@ export interface DesignSystemAnalysis {
 }
 
 class GPTVisionService {
-  private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1';
+  private llm: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -85,18 +85,8 @@ class GPTVisionService {
     const prompt = this.createVisualAnalysisPrompt(figmaFile, semanticGrouping);
 
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a UI/UX expert specializing in converting Figma designs to React components using Material-UI. 
+      const response = await this.llm.complete({
+        system: `You are a UI/UX expert specializing in converting Figma designs to React components using Material-UI. 
               You analyze both the visual design and the structural JSON data to provide comprehensive component identification and mapping.
               
               Your task is to:
@@ -105,36 +95,14 @@ class GPTVisionService {
               3. Analyze the layout structure and design system
               4. Provide confidence scores and improvement suggestions
               
-              Always respond with valid JSON matching the GPTVisionAnalysis interface.`
-            },
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: prompt
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: imageUrl,
-                    detail: 'high'
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 4000,
-          temperature: 0.1
-        })
+              Always respond with valid JSON matching the GPTVisionAnalysis interface.`,
+        messages: [visionMessage(prompt, imageUrl, 'high')],
+        maxTokens: 4000,
+        temperature: 0.1,
+        json: true
       });
 
-      if (!response.ok) {
-        throw new Error(`GPT Vision API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0].message.content;
+      const content = response.content;
       
       // Strip markdown code blocks if present
       const jsonContent = content.replace(/^```json\s*/g, '').replace(/\s*```$/g, '');
@@ -616,53 +584,18 @@ Focus on visual validation and enhancement, not re-identification.
   /**
    * Simple test method to verify GPT Vision API works
    */
-  async testGPTVisionAPI(): Promise<any> {
+  async testGPTVisionAPI(): Promise<LLMResponse> {
     console.log('Testing GPT Vision API with simple request...');
     
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: 'What do you see in this image? Please describe it briefly.'
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: 'https://upload.wikimedia.org/wikipedia/commons/thumb/d/dd/Gfp-wisconsin-madison-the-nature-boardwalk.jpg/2560px-Gfp-wisconsin-madison-the-nature-boardwalk.jpg',
-                    detail: 'low'
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 300,
-          temperature: 0.1
-        })
+      const response = await this.llm.complete({
+        messages: [visionMessage('What do you see in this image? Please describe it briefly.', 'https://upload.wikimedia.org/wikipedia/commons/thumb/d/dd/Gfp-wisconsin-madison-the-nature-boardwalk.jpg/2560px-Gfp-wisconsin-madison-the-nature-boardwalk.jpg', 'low')],
+        maxTokens: 300,
+        temperature: 0.1
       });
 
-      console.log('GPT Vision API Response status:', response.status);
-      console.log('GPT Vision API Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('GPT Vision API error response:', errorText);
-        throw new Error(`GPT Vision API error: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      console.log('GPT Vision API success:', data);
-      return data;
+      console.log('GPT Vision API success:', response);
+      return response;
       
     } catch (error) {
       console.error('GPT Vision test failed:', error);
@@ -0,0 +1,103 @@
+import { MappedComponent } from './styleMapperService';
+import { PropValue, TreeNode, conditional, element, expressionNode } from './componentTree';
+
+/**
+ * Hooks that let a caller replace parts of the rendered tree - used by the component
+ * registry to bind text and visibility to props and to render instances as component calls
+ */
+export interface JsxRenderHooks {
+  textExpression?: (component: MappedComponent) => string | undefined; // JS expression for a text node's content
+  visibilityExpression?: (component: MappedComponent) => string | undefined; // Render the node only when this is truthy
+  renderInstance?: (component: MappedComponent) => TreeNode | undefined; // Replaces the node's subtree
+  componentName?: (muiComponent: string) => string; // Tag to render for an MUI component, e.g. a design-system replacement
+  eventProps?: (component: MappedComponent) => Record<string, PropValue> | undefined; // e.g. onClick for a prototype link
+}
+
+/**
+ * Renders mapped components (a flat list linked through parentId) back into an element tree
+ */
+class JsxTreeRenderer {
+  private childrenOf: Map<string, MappedComponent[]>;
+  private hooks: JsxRenderHooks;
+
+  constructor(components: MappedComponent[], hooks: JsxRenderHooks = {}) {
+    this.hooks = hooks;
+    this.childrenOf = new Map();
+    components.forEach(comp => {
+      if (comp.parentId) {
+        this.childrenOf.set(comp.parentId, [...(this.childrenOf.get(comp.parentId) || []), comp]);
+      }
+    });
+  }
+
+  private tag(muiComponent: string): string {
+    return this.hooks.componentName?.(muiComponent) || muiComponent;
+  }
+
+  children(component: MappedComponent): MappedComponent[] {
+    return this.childrenOf.get(component.id) || [];
+  }
+
+  /**
+   * Every node below `component`, depth first
+   */
+  descendants(component: MappedComponent): MappedComponent[] {
+    return this.children(component).flatMap(child => [child, ...this.descendants(child)]);
+  }
+
+  /**
+   * Tree for `component` and its subtree. `sxOverrides` is merged last (undefined removes a key);
+   * `extraProps` are added to the root element, e.g. an sx expression bound to props.
+   */
+  render(component: MappedComponent, sxOverrides: Record<string, any> = {}, extraProps: Record<string, PropValue> = {}): TreeNode {
+    const visibility = this.hooks.visibilityExpression?.(component);
+    const node = this.renderElement(component, sxOverrides, extraProps);
+    return visibility ? conditional(visibility, node) : node;
+  }
+
+  private renderElement(component: MappedComponent, sxOverrides: Record<string, any>, extraProps: Record<string, PropValue>): TreeNode {
+    const instance = this.hooks.renderInstance?.(component);
+    if (instance) {
+      return instance;
+    }
+
+    // A `children` prop (from a mapping rule's template) replaces the node's subtree
+    const { sx: propSx, children: childrenProp, ...props } = component.props;
+    const sx = { ...component.sx, ...(propSx || {}), ...sxOverrides };
+    const children = childrenProp === undefined ? this.children(component) : [];
+    const isImage = Boolean(component.imageUrl) && children.length === 0 && component.figmaType !== 'TEXT';
+    if (isImage) {
+      sx.objectFit = 'cover';
+    }
+
+    const attributes: Record<string, PropValue> = { ...props, ...(this.hooks.eventProps?.(component) || {}) };
+    if (Object.values(sx).some(value => value !== undefined)) {
+      attributes.sx = sx;
+    }
+    Object.assign(attributes, extraProps);
+
+    const tag = this.tag(component.muiComponent);
+    if (component.figmaType === 'TEXT') {
+      const textExpression = this.hooks.textExpression?.(component);
+      return element(this.tag('Typography'), attributes, [
+        textExpression ? expressionNode(textExpression) : component.content || ''
+      ]);
+    }
+    if (isImage) {
+      const responsive: Record<string, PropValue> = component.imageSrcSet
+        ? { srcSet: component.imageSrcSet, sizes: typeof sx.width === 'number' ? `${Math.round(sx.width)}px` : '100vw' }
+        : {};
+      return element(this.tag('Box'), { component: 'img', src: component.imageUrl, ...responsive, alt: component.name, ...attributes });
+    }
+    if (childrenProp !== undefined) {
+      return element(tag, attributes, [String(childrenProp)]);
+    }
+    if (children.length === 0) {
+      return element(tag, attributes, component.muiComponent === 'Button' && component.content ? [component.content] : []);
+    }
+
+    return element(tag, attributes, children.map(child => this.render(child)));
+  }
+}
+
+export default JsxTreeRenderer;
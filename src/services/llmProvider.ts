@@ -0,0 +1,329 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { proxyFetch } from './apiProxy';
+import { getFakeStageResponse } from './llmFakeResponses';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'fake';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string; detail?: 'low' | 'high' | 'auto' }; // http(s) or data: URL
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean; // Ask for a single JSON object as the whole response
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+/**
+ * One chat-completion style interface for every model the pipeline talks to.
+ * Vision is just an image part in a user message; JSON mode is a request flag.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Every place in the pipeline that calls a model, so each can use its own provider/model
+ */
+export type PipelineStage =
+  | 'contextAnalysis'
+  | 'contentMapping'
+  | 'semanticComponents'
+  | 'semanticGrouping'
+  | 'visionAnalysis'
+  | 'codeGeneration'
+  | 'codeEditing';
+
+export interface StageModelConfig {
+  provider: LLMProviderName;
+  model?: string; // Falls back to the provider default
+}
+
+export type StageModelSettings = Partial<Record<PipelineStage, StageModelConfig>>;
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'contextAnalysis',
+  'contentMapping',
+  'semanticComponents',
+  'semanticGrouping',
+  'visionAnalysis',
+  'codeGeneration',
+  'codeEditing'
+];
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o',
+  anthropic: import.meta.env.VITE_ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+  fake: 'fake-deterministic'
+};
+
+export const DEFAULT_STAGE_MODELS: Record<PipelineStage, StageModelConfig> = {
+  contextAnalysis: { provider: 'openai', model: 'gpt-4o' },
+  contentMapping: { provider: 'openai', model: 'gpt-4o' },
+  semanticComponents: { provider: 'openai', model: 'gpt-4o' },
+  semanticGrouping: { provider: 'openai', model: 'gpt-3.5-turbo' },
+  visionAnalysis: { provider: 'openai', model: 'gpt-4o' },
+  codeGeneration: { provider: 'anthropic' },
+  codeEditing: { provider: 'anthropic' }
+};
+
+const JSON_ONLY_INSTRUCTION = 'Respond with a single valid JSON object only, without markdown code fences or any other text.';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Both real providers call their APIs through the api-proxy edge function, which holds the keys
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+
+  constructor(model: string = DEFAULT_MODELS.openai) {
+    this.model = model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const messages: any[] = [];
+
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+
+    request.messages.forEach(message => {
+      messages.push({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image_url', image_url: { url: part.url, detail: part.detail || 'auto' } })
+      });
+    });
+
+    const body: any = {
+      model: this.model,
+      messages,
+      max_tokens: request.maxTokens ?? 4000,
+      temperature: request.temperature ?? 0.2
+    };
+
+    if (request.json) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    const response = await proxyFetch('openai', '/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: data.model || this.model,
+      usage: data.usage
+        ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+        : undefined
+    };
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+
+  constructor(model: string = DEFAULT_MODELS.anthropic) {
+    this.model = model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const system = request.json
+      ? [request.system, JSON_ONLY_INSTRUCTION].filter(Boolean).join('\n\n')
+      : request.system;
+
+    const body: Anthropic.MessageCreateParamsNonStreaming = {
+      model: this.model,
+      max_tokens: request.maxTokens ?? 4000,
+      temperature: request.temperature,
+      system,
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(toAnthropicContent)
+      }))
+    };
+
+    const httpResponse = await proxyFetch('anthropic', '/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!httpResponse.ok) {
+      const errorText = await httpResponse.text().catch(() => '');
+      throw new Error(`Anthropic API error: ${httpResponse.status} ${httpResponse.statusText}${errorText ? ` - ${errorText}` : ''}`);
+    }
+
+    const response: Anthropic.Message = await httpResponse.json();
+
+    const text = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+
+    return {
+      content: request.json ? stripCodeFences(text) : text,
+      provider: this.name,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens
+      }
+    };
+  }
+}
+
+export type FakeResponder = (request: LLMRequest) => string;
+
+/**
+ * Deterministic offline provider - the same request always produces the same response.
+ * Records every request so callers can assert on what the pipeline sent.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly model: string;
+  readonly requests: LLMRequest[] = [];
+  private responder: FakeResponder;
+
+  constructor(responder: FakeResponder, model: string = DEFAULT_MODELS.fake) {
+    this.responder = responder;
+    this.model = model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    return {
+      content: this.responder(request),
+      provider: this.name,
+      model: this.model,
+      usage: { inputTokens: 0, outputTokens: 0 }
+    };
+  }
+}
+
+/**
+ * Build a provider for one stage. `VITE_LLM_PROVIDER=fake` forces every stage offline.
+ */
+export const createLLMProvider = (
+  stage: PipelineStage,
+  config: StageModelConfig = DEFAULT_STAGE_MODELS[stage]
+): LLMProvider => {
+  const forcedProvider = import.meta.env.VITE_LLM_PROVIDER as LLMProviderName | undefined;
+  const providerName = forcedProvider || config.provider;
+  const model = forcedProvider && forcedProvider !== config.provider
+    ? DEFAULT_MODELS[forcedProvider]
+    : config.model || DEFAULT_MODELS[providerName];
+
+  switch (providerName) {
+    case 'openai':
+      return new OpenAIProvider(model);
+    case 'anthropic':
+      return new AnthropicProvider(model);
+    case 'fake':
+      return new FakeLLMProvider(request => getFakeStageResponse(stage, request), model);
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+};
+
+/**
+ * Providers for every pipeline stage, with per-stage overrides applied on top of the defaults
+ */
+export const createStageProviders = (
+  settings: StageModelSettings = {}
+): Record<PipelineStage, LLMProvider> => {
+  return PIPELINE_STAGES.reduce((providers, stage) => {
+    providers[stage] = createLLMProvider(stage, settings[stage] || DEFAULT_STAGE_MODELS[stage]);
+    return providers;
+  }, {} as Record<PipelineStage, LLMProvider>);
+};
+
+/**
+ * Shorthand for a user turn with text followed by one image
+ */
+export const visionMessage = (
+  text: string,
+  imageUrl: string,
+  detail: 'low' | 'high' | 'auto' = 'high'
+): LLMMessage => ({
+  role: 'user',
+  content: [
+    { type: 'text', text },
+    { type: 'image', url: imageUrl, detail }
+  ]
+});
+
+export const fileToDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = error => reject(error);
+  });
+};
+
+export const stripCodeFences = (content: string): string => {
+  return content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+};
+
+const toAnthropicContent = (part: LLMContentPart): Anthropic.ContentBlockParam => {
+  if (part.type === 'text') {
+    return { type: 'text', text: part.text };
+  }
+
+  const dataUrlMatch = part.url.match(/^data:(image\/[a-z+]+);base64,(.*)$/i);
+  if (dataUrlMatch) {
+    return {
+      type: 'image',
+      source: {
+        type: 'base64',
+        media_type: dataUrlMatch[1] as Anthropic.Base64ImageSource['media_type'],
+        data: dataUrlMatch[2]
+      }
+    };
+  }
+
+  return { type: 'image', source: { type: 'url', url: part.url } };
+};
@@ -0,0 +1,140 @@
+import { supabaseClient } from '../utility/supabaseClient';
+import { ComponentAnalysis, FigmaComponentPropertyValue } from './figmaService';
+
+/**
+ * What a rule matches on. Every criterion that is set must hold.
+ */
+export interface MappingRuleMatch {
+  namePattern?: string; // Regex, case-insensitive, tested against the node name
+  nodeTypes?: string[]; // Figma node types, e.g. ['INSTANCE', 'FRAME']
+  componentKey?: string; // Key of the instance's main component or component set
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  semanticType?: string; // From AISemanticComponentService, e.g. 'pill_badge'
+}
+
+export interface MappingRule {
+  id: string;
+  project_id: string;
+  name: string;
+  priority: number; // Lower runs first
+  enabled: boolean;
+  match: MappingRuleMatch;
+  target_component: string; // @mui/material component name
+  prop_template: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Per-node facts rules can match on that aren't on the node itself
+ */
+export interface MappingRuleContext {
+  semanticTypes?: Record<string, string>; // Figma node id -> semantic type
+  componentKeys?: Record<string, string[]>; // Main component node id -> its key and its set's key
+}
+
+// Placeholders a prop template can use, e.g. { "label": "{{text}}" }
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.\s#:-]+?)\s*\}\}/g;
+
+/**
+ * First enabled rule (in priority order) whose criteria all match the node
+ */
+export const findMatchingRule = (
+  component: ComponentAnalysis,
+  rules: MappingRule[],
+  context: MappingRuleContext = {}
+): MappingRule | undefined => {
+  return [...rules]
+    .filter(rule => rule.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .find(rule => ruleMatches(rule.match, component, context));
+};
+
+const ruleMatches = (match: MappingRuleMatch, component: ComponentAnalysis, context: MappingRuleContext): boolean => {
+  const { width, height } = component.bounds;
+
+  if (match.namePattern) {
+    try {
+      if (!new RegExp(match.namePattern, 'i').test(component.name)) return false;
+    } catch {
+      return false; // An invalid pattern matches nothing rather than breaking the mapping
+    }
+  }
+  if (match.nodeTypes?.length && !match.nodeTypes.includes(component.type)) return false;
+  if (match.componentKey) {
+    const keys = context.componentKeys?.[component.properties.componentId] || [];
+    if (!keys.includes(match.componentKey)) return false;
+  }
+  if (match.minWidth !== undefined && width < match.minWidth) return false;
+  if (match.maxWidth !== undefined && width > match.maxWidth) return false;
+  if (match.minHeight !== undefined && height < match.minHeight) return false;
+  if (match.maxHeight !== undefined && height > match.maxHeight) return false;
+  if (match.semanticType && context.semanticTypes?.[component.id] !== match.semanticType) return false;
+
+  return true;
+};
+
+/**
+ * Fill a rule's prop template for a node. Supports {{text}}, {{name}}, {{width}}, {{height}}
+ * and {{props.<Figma property>}} for instance property values (without the "#id" suffix).
+ * A string that is only a numeric or boolean placeholder becomes that value.
+ */
+export const applyPropTemplate = (template: Record<string, any>, component: ComponentAnalysis): Record<string, any> => {
+  const instanceProperties: Record<string, FigmaComponentPropertyValue> = component.properties.componentProperties || {};
+
+  const lookup = (placeholder: string): string | number | boolean | undefined => {
+    if (placeholder === 'text') return component.properties.characters ?? component.name;
+    if (placeholder === 'name') return component.name;
+    if (placeholder === 'width') return Math.round(component.bounds.width);
+    if (placeholder === 'height') return Math.round(component.bounds.height);
+    if (placeholder.startsWith('props.')) {
+      const property = placeholder.slice('props.'.length);
+      const entry = Object.entries(instanceProperties).find(([name]) => name.replace(/#[\d:]+$/, '') === property);
+      return entry?.[1].value;
+    }
+    return undefined;
+  };
+
+  const fill = (value: any): any => {
+    if (typeof value === 'string') {
+      const whole = value.match(/^\{\{\s*([\w.\s#:-]+?)\s*\}\}$/);
+      if (whole) {
+        const resolved = lookup(whole[1]);
+        return resolved === undefined ? '' : resolved;
+      }
+      return value.replace(PLACEHOLDER_PATTERN, (_, placeholder: string) => String(lookup(placeholder) ?? ''));
+    }
+    if (Array.isArray(value)) return value.map(fill);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fill(entry)]));
+    }
+    return value;
+  };
+
+  return fill(template);
+};
+
+/**
+ * Loads a project's mapping rules (mapping_rules) for the pipeline; the UI edits them through Refine
+ */
+class MappingRuleService {
+  async getRules(projectId: string): Promise<MappingRule[]> {
+    const { data, error } = await supabaseClient
+      .from('mapping_rules')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('enabled', true)
+      .order('priority', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load mapping rules: ${error.message}`);
+    }
+
+    return (data || []) as MappingRule[];
+  }
+}
+
+export default MappingRuleService;
@@ -0,0 +1,174 @@
+import { supabaseClient } from '../utility/supabaseClient';
+
+export type PipelineRunStatus = 'running' | 'completed' | 'failed';
+
+export interface PipelineRun<TSettings = unknown> {
+  id: string;
+  screen_id: string;
+  pipeline: string;
+  status: PipelineRunStatus;
+  current_stage?: string | null;
+  error?: string | null;
+  settings?: TSettings | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineStageResult<TOutput = unknown> {
+  id: string;
+  run_id: string;
+  stage: string;
+  status: 'completed' | 'failed';
+  input?: unknown; // Only set when the stage was re-run with edited inputs
+  output?: TOutput | null;
+  error?: string | null;
+  duration_ms?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Persists pipeline runs stage by stage (pipeline_runs / pipeline_stage_results)
+ * so a refresh or a failed stage doesn't throw away earlier, already paid-for stages.
+ * `TSettings` is what a run is started with, `TOutput` what its stages produce.
+ */
+class PipelineRunService<TSettings = unknown, TOutput = unknown> {
+  private pipeline: string;
+
+  constructor(pipeline: string) {
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Most recent run of this pipeline for a screen, if any
+   */
+  async getLatestRun(screenId: string): Promise<PipelineRun<TSettings> | null> {
+    const { data, error } = await supabaseClient
+      .from('pipeline_runs')
+      .select('*')
+      .eq('screen_id', screenId)
+      .eq('pipeline', this.pipeline)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load pipeline run: ${error.message}`);
+    }
+
+    return data as PipelineRun<TSettings> | null;
+  }
+
+  async createRun(screenId: string, settings?: TSettings): Promise<PipelineRun<TSettings>> {
+    const { data, error } = await supabaseClient
+      .from('pipeline_runs')
+      .insert({
+        screen_id: screenId,
+        pipeline: this.pipeline,
+        status: 'running',
+        settings: settings ?? null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create pipeline run: ${error.message}`);
+    }
+
+    console.log('🗂️ [PIPELINE RUN] Created run:', data.id);
+    return data as PipelineRun<TSettings>;
+  }
+
+  async updateRun(
+    runId: string,
+    values: Partial<Pick<PipelineRun, 'status' | 'current_stage' | 'error'>>
+  ): Promise<void> {
+    const { error } = await supabaseClient
+      .from('pipeline_runs')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', runId);
+
+    if (error) {
+      throw new Error(`Failed to update pipeline run: ${error.message}`);
+    }
+  }
+
+  async getStageResults(runId: string): Promise<PipelineStageResult<TOutput>[]> {
+    const { data, error } = await supabaseClient
+      .from('pipeline_stage_results')
+      .select('*')
+      .eq('run_id', runId);
+
+    if (error) {
+      throw new Error(`Failed to load stage results: ${error.message}`);
+    }
+
+    return (data || []) as PipelineStageResult<TOutput>[];
+  }
+
+  /**
+   * Store a stage outcome, replacing any earlier result for the same stage
+   */
+  async saveStageResult(
+    runId: string,
+    stage: string,
+    result: {
+      status: PipelineStageResult['status'];
+      output?: TOutput;
+      input?: unknown;
+      error?: string;
+      durationMs?: number;
+    }
+  ): Promise<void> {
+    const { error } = await supabaseClient
+      .from('pipeline_stage_results')
+      .upsert({
+        run_id: runId,
+        stage,
+        status: result.status,
+        output: result.output ?? null,
+        input: result.input ?? null,
+        error: result.error ?? null,
+        duration_ms: result.durationMs ?? null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'run_id,stage' });
+
+    if (error) {
+      throw new Error(`Failed to save ${stage} result: ${error.message}`);
+    }
+
+    console.log(`🗂️ [PIPELINE RUN] Saved ${stage} (${result.status})`);
+  }
+
+  /**
+   * Drop results that are stale because an earlier stage was re-run
+   */
+  async clearStageResults(runId: string, stages: string[]): Promise<void> {
+    if (stages.length === 0) return;
+
+    const { error } = await supabaseClient
+      .from('pipeline_stage_results')
+      .delete()
+      .eq('run_id', runId)
+      .in('stage', stages);
+
+    if (error) {
+      throw new Error(`Failed to clear stage results: ${error.message}`);
+    }
+  }
+
+  /**
+   * First stage (in pipeline order) without a completed result, or null when all are done
+   */
+  findResumeStage<TStage extends string>(
+    stages: readonly TStage[],
+    results: PipelineStageResult[]
+  ): TStage | null {
+    const completed = new Set(
+      results.filter(result => result.status === 'completed').map(result => result.stage)
+    );
+    return stages.find(stage => !completed.has(stage)) ?? null;
+  }
+}
+
+export default PipelineRunService;
@@ -0,0 +1,572 @@
+import { parse } from '@babel/parser';
+import * as t from '@babel/types';
+import FigmaService, { FigmaFile } from './figmaService';
+import PrototypeFlowService, { FlowFrame, TakenRoutes, printRouterModule, screenRoute } from './prototypeFlowService';
+import { RegisteredComponent } from './componentRegistryService';
+import { DesignTokenExport } from './designTokenExporter';
+import { MappedComponent } from './styleMapperService';
+import { ImportSpec } from './componentTree';
+import { printModule } from './tsxPrinter';
+import { createZipArchive, ZipEntries } from '../utils/zipArchive';
+
+/**
+ * A project's screens as a Vite + MUI app: every screen's accepted code behind a route, the registry
+ * components the screens share in src/components, the generated theme and the Figma image assets.
+ * The archive runs with `npm install && npm run dev`.
+ */
+
+export interface ExportScreenRecord {
+  id: string;
+  name: string;
+  figma_url?: string;
+  current_code?: string;
+  analysis_data?: ExportAnalysisData;
+}
+
+// The parts of a screen's analysis_data the export reads
+export interface ExportAnalysisData {
+  designTokenExport?: Pick<DesignTokenExport, 'themeModule'>;
+  figmaData?: {
+    fileData?: FigmaFile;
+    styleMapping?: { components: MappedComponent[] };
+    componentRegistry?: { components?: RegisteredComponent[] };
+    assetUrls?: Record<string, string>;
+  };
+}
+
+export interface ExportedScreen {
+  screenId: string;
+  name: string;
+  path: string;
+  componentName: string;
+  sharedComponents: string[]; // Imported from src/components instead of declared in the screen
+}
+
+export interface ExportAsset {
+  url: string; // Where the code loads it from today
+  nodeId: string;
+}
+
+export interface ProjectExport {
+  rootFolder: string;
+  files: Record<string, string>; // Path inside the archive -> contents, with the assets' original URLs
+  screens: ExportedScreen[];
+  sharedComponents: string[];
+  assets: ExportAsset[];
+  themeFrom?: string; // Name of the screen whose design tokens became src/theme.ts
+  warnings: string[];
+}
+
+export interface ExportArchive {
+  fileName: string;
+  data: Uint8Array;
+  failedAssets: ExportAsset[]; // Couldn't be downloaded - the code keeps their URLs
+}
+
+// Versions the generated code is written against. Other packages the code imports get "latest".
+const DEPENDENCY_VERSIONS: Record<string, string> = {
+  react: '^18.2.0',
+  'react-dom': '^18.2.0',
+  'react-router': '^7.6.2',
+  '@mui/material': '^6.1.7',
+  '@mui/icons-material': '^6.1.6',
+  '@mui/lab': '^6.0.0-beta.14',
+  '@emotion/react': '^11.11.0',
+  '@emotion/styled': '^11.11.0'
+};
+
+const BASE_DEPENDENCIES = ['react', 'react-dom', 'react-router', '@mui/material', '@emotion/react', '@emotion/styled'];
+
+const DEV_DEPENDENCIES: Record<string, string> = {
+  '@types/react': '^18.2.0',
+  '@types/react-dom': '^18.2.0',
+  '@vitejs/plugin-react': '^4.3.0',
+  typescript: '^5.4.2',
+  vite: '^5.4.0'
+};
+
+const ASSET_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+const DEFAULT_THEME_MODULE = `import { createTheme } from '@mui/material/styles';
+
+// None of the exported screens had design tokens - MUI's defaults
+const theme = createTheme();
+
+export default theme;
+`;
+
+const MAIN_MODULE = `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { CssBaseline, ThemeProvider } from '@mui/material';
+import theme from './theme';
+import App from './App';
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <ThemeProvider theme={theme}>
+      <CssBaseline />
+      <App />
+    </ThemeProvider>
+  </React.StrictMode>
+);
+`;
+
+const VITE_CONFIG = `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()]
+});
+`;
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: 'ES2020',
+    lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+    module: 'ESNext',
+    moduleResolution: 'bundler',
+    jsx: 'react-jsx',
+    strict: true,
+    skipLibCheck: true,
+    isolatedModules: true,
+    noEmit: true
+  },
+  include: ['src']
+};
+
+const PARSER_PLUGINS: ('jsx' | 'typescript')[] = ['jsx', 'typescript'];
+
+// A top-level statement of a screen module, with the leading comments that belong to it
+interface ModuleStatement {
+  node: t.Statement;
+  start: number; // Including leading comments
+  end: number;
+  names: string[];
+  source: string;
+}
+
+// A registry component inside one screen module: its statements (props interface, variant sx, component)
+interface ComponentUnit {
+  componentName: string;
+  statements: ModuleStatement[];
+  signature: string; // The statements' source without formatting - equal for unmodified copies
+  uses: string[]; // Other registry components it renders
+}
+
+interface ParsedScreen {
+  record: ExportScreenRecord;
+  source: string;
+  statements: ModuleStatement[];
+  imports: t.ImportDeclaration[];
+  units: ComponentUnit[];
+  hasDefaultExport: boolean;
+}
+
+const folderName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'figma-app';
+
+const normalize = (code: string) => code.replace(/\s+/g, ' ').trim();
+
+const declaredNames = (node: t.Node): string[] => {
+  const declaration = t.isExportNamedDeclaration(node) && node.declaration ? node.declaration : node;
+  if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration) ||
+      t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration)) && declaration.id) {
+    return [declaration.id.name];
+  }
+  if (t.isVariableDeclaration(declaration)) {
+    return declaration.declarations.flatMap(declarator => t.isIdentifier(declarator.id) ? [declarator.id.name] : []);
+  }
+  return [];
+};
+
+// Every identifier the statements mention, JSX tags included - enough to tell which imports they need
+const mentionedNames = (statements: ModuleStatement[]): Set<string> => {
+  const names = new Set<string>();
+  statements.forEach(statement => t.traverseFast(statement.node, node => {
+    if (t.isIdentifier(node) || t.isJSXIdentifier(node)) names.add(node.name);
+  }));
+  return names;
+};
+
+const packageOf = (source: string) =>
+  source.startsWith('@') ? source.split('/').slice(0, 2).join('/') : source.split('/')[0];
+
+const importSpecs = (declarations: t.ImportDeclaration[], used: Set<string>): ImportSpec[] | null => {
+  const specs: ImportSpec[] = [];
+  for (const declaration of declarations) {
+    const names: string[] = [];
+    const spec: ImportSpec = { source: declaration.source.value, names };
+    for (const specifier of declaration.specifiers) {
+      if (!used.has(specifier.local.name)) continue;
+      if (t.isImportNamespaceSpecifier(specifier)) return null;
+      if (t.isImportDefaultSpecifier(specifier)) {
+        spec.defaultName = specifier.local.name;
+      } else {
+        const imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+        names.push(imported === specifier.local.name ? imported : `${imported} as ${specifier.local.name}`);
+      }
+    }
+    if (spec.defaultName || names.length > 0) specs.push(spec);
+  }
+  return specs;
+};
+
+class ProjectExportService {
+  private figmaService = new FigmaService();
+  private flowService = new PrototypeFlowService();
+
+  /**
+   * The app's files for the screens with accepted code. Screens are ordered most recent first;
+   * the newest screen's Figma file provides the prototype routes and the theme.
+   */
+  buildProject(projectName: string, records: ExportScreenRecord[]): ProjectExport {
+    const rootFolder = folderName(projectName);
+    const warnings: string[] = [];
+    const parsed = records
+      .filter(record => record.current_code?.trim())
+      .flatMap(record => {
+        const screen = this.parseScreen(record);
+        if (!screen) warnings.push(`"${record.name}" doesn't parse and was left out`);
+        return screen ? [screen] : [];
+      });
+    if (parsed.length === 0) {
+      throw new Error('None of the project\'s screens has generated code yet');
+    }
+
+    const routes = this.screenRoutes(parsed);
+    const extracted = this.extractedUnits(parsed);
+    const files: Record<string, string> = {};
+    const screens: ExportedScreen[] = parsed.map((screen, index) => {
+      const route = routes[index];
+      files[`src/screens/${route.componentName}.tsx`] = this.screenModule(screen, extracted[index], warnings);
+      return {
+        screenId: screen.record.id,
+        name: screen.record.name,
+        path: route.path,
+        componentName: route.componentName,
+        sharedComponents: extracted[index].map(unit => unit.componentName)
+      };
+    });
+
+    // One file per shared component, from the first screen that has it
+    const sharedComponents = Array.from(new Set(extracted.flat().map(unit => unit.componentName))).sort();
+    sharedComponents.forEach(name => {
+      const index = extracted.findIndex(units => units.some(unit => unit.componentName === name));
+      const unit = extracted[index]?.find(candidate => candidate.componentName === name);
+      if (unit) files[`src/components/${name}.tsx`] = this.componentModule(unit, parsed[index], extracted[index]);
+    });
+    if (sharedComponents.length > 0) {
+      files['src/components/index.ts'] = sharedComponents.map(name => `export { ${name} } from './${name}';\n`).join('');
+    }
+
+    const startPath = routes.find(route => route.isStart)?.path || routes[0].path;
+    files['src/App.tsx'] = printRouterModule(routes, startPath);
+    files['src/main.tsx'] = MAIN_MODULE;
+
+    const themeSource = parsed.find(screen => screen.record.analysis_data?.designTokenExport?.themeModule);
+    files['src/theme.ts'] = themeSource?.record.analysis_data?.designTokenExport?.themeModule || DEFAULT_THEME_MODULE;
+
+    const assets = this.referencedAssets(parsed, files);
+    files['package.json'] = this.packageJson(rootFolder, files, warnings);
+    files['vite.config.ts'] = VITE_CONFIG;
+    files['tsconfig.json'] = `${JSON.stringify(TSCONFIG, null, 2)}\n`;
+    files['index.html'] = this.indexHtml(projectName);
+    files['.gitignore'] = 'node_modules\ndist\n';
+    files['README.md'] = this.readme(projectName, screens, sharedComponents);
+
+    console.log('📦 [EXPORT] Project built:', {
+      screens: screens.length,
+      sharedComponents: sharedComponents.length,
+      assets: assets.length,
+      warnings: warnings.length
+    });
+    return { rootFolder, files, screens, sharedComponents, assets, themeFrom: themeSource?.record.name, warnings };
+  }
+
+  /**
+   * The zip: assets that download are written to public/assets and the code points at them
+   */
+  async createArchive(project: ProjectExport): Promise<ExportArchive> {
+    const files: ZipEntries = {};
+    const failedAssets: ExportAsset[] = [];
+    const localUrls = new Map<string, string>();
+
+    for (const asset of project.assets) {
+      try {
+        const response = await fetch(asset.url);
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        const type = (response.headers.get('content-type') || '').split(';')[0].trim();
+        const fileName = `${asset.nodeId.replace(/[^A-Za-z0-9]+/g, '-')}.${ASSET_EXTENSIONS[type] || 'png'}`;
+        files[`${project.rootFolder}/public/assets/${fileName}`] = new Uint8Array(await response.arrayBuffer());
+        localUrls.set(asset.url, `/assets/${fileName}`);
+      } catch (error) {
+        console.warn('📦 [EXPORT] Asset not downloaded, the code keeps its URL:', asset.url, error);
+        failedAssets.push(asset);
+      }
+    }
+
+    Object.entries(project.files).forEach(([path, contents]) => {
+      const rewritten = path.startsWith('src/')
+        ? Array.from(localUrls.entries()).reduce((code, [url, local]) => code.split(url).join(local), contents)
+        : contents;
+      files[`${project.rootFolder}/${path}`] = rewritten;
+    });
+
+    return { fileName: `${project.rootFolder}.zip`, data: createZipArchive(files), failedAssets };
+  }
+
+  private parseScreen(record: ExportScreenRecord): ParsedScreen | null {
+    const source = record.current_code || '';
+    let program: t.Program;
+    try {
+      program = parse(source, { sourceType: 'module', plugins: PARSER_PLUGINS }).program;
+    } catch {
+      return null;
+    }
+
+    const imports = program.body.filter((node): node is t.ImportDeclaration => t.isImportDeclaration(node));
+    const statements: ModuleStatement[] = program.body
+      .filter(node => !t.isImportDeclaration(node))
+      .map(node => {
+        const start = node.leadingComments?.[0]?.start ?? node.start ?? 0;
+        const end = node.end ?? start;
+        return { node, start, end, names: declaredNames(node), source: source.slice(start, end) };
+      });
+
+    const registry: RegisteredComponent[] = record.analysis_data?.figmaData?.componentRegistry?.components || [];
+    const registryNames = registry.map(entry => entry.componentName);
+    const units = registry.flatMap(entry => {
+      const names = this.unitNames(entry);
+      const unitStatements = statements.filter(statement => statement.names.some(name => names.includes(name)));
+      const declared = new Set(unitStatements.flatMap(statement => statement.names));
+      if (!names.every(name => declared.has(name))) return [];
+
+      // Namespace imports can't be narrowed to what the component uses - it stays in the screen
+      const mentioned = mentionedNames(unitStatements);
+      if (!importSpecs(imports, mentioned)) return [];
+      return [{
+        componentName: entry.componentName,
+        statements: unitStatements,
+        signature: normalize(unitStatements.map(statement => statement.source).join('\n')),
+        uses: registryNames.filter(name => name !== entry.componentName && mentioned.has(name))
+      }];
+    });
+
+    return {
+      record,
+      source,
+      statements,
+      imports,
+      units,
+      hasDefaultExport: program.body.some(node => t.isExportDefaultDeclaration(node))
+    };
+  }
+
+  // The names a registry component's printed code declares
+  private unitNames(entry: RegisteredComponent): string[] {
+    try {
+      return parse(entry.code, { sourceType: 'module', plugins: PARSER_PLUGINS }).program.body.flatMap(declaredNames);
+    } catch {
+      return [entry.componentName];
+    }
+  }
+
+  /**
+   * Screens generated from frames of the newest screen's prototype keep the routes their links
+   * navigate to; the others get routes from their names
+   */
+  private screenRoutes(screens: ParsedScreen[]): (Pick<FlowFrame, 'path' | 'componentName'> & { isStart: boolean })[] {
+    const source = screens.find(screen => screen.record.figma_url && screen.record.analysis_data?.figmaData?.styleMapping);
+    const figmaData = source?.record.analysis_data?.figmaData;
+    const flow = figmaData?.styleMapping ? this.flowService.buildFlow(figmaData.styleMapping.components, figmaData.fileData) : undefined;
+    const fileKey = source?.record.figma_url ? this.figmaService.extractFileKey(source.record.figma_url) : undefined;
+
+    const frames = screens.map(screen => {
+      const url = screen.record.figma_url;
+      if (!flow || !url || this.figmaService.extractFileKey(url) !== fileKey) return undefined;
+      const nodeId = this.figmaService.extractNodeId(url);
+      return flow.frames.find(frame => frame.nodeId === nodeId) || flow.frames[0];
+    });
+
+    // A frame's route goes to its most recent screen; older screens of the same frame get their own
+    const taken: TakenRoutes = { paths: new Set(), componentNames: new Set() };
+    const routed = new Set<string>();
+    const ownsFrame = frames.map(frame => {
+      if (!frame || routed.has(frame.nodeId)) return false;
+      routed.add(frame.nodeId);
+      taken.paths.add(frame.path);
+      taken.componentNames.add(frame.componentName);
+      return true;
+    });
+    flow?.frames.forEach(frame => taken.paths.add(frame.path));
+
+    return screens.map((screen, index) => {
+      const frame = frames[index];
+      return ownsFrame[index] && frame
+        ? { path: frame.path, componentName: frame.componentName, isStart: frame.nodeId === flow?.startFrameId }
+        : { ...screenRoute(screen.record.name, taken), isStart: false };
+    });
+  }
+
+  /**
+   * Per screen, the registry components it has an unmodified copy of - the copy most screens have.
+   * Screens that changed a component keep theirs, as do components rendering one that stays local.
+   */
+  private extractedUnits(screens: ParsedScreen[]): ComponentUnit[][] {
+    const signatures = new Map<string, string[]>();
+    screens.flatMap(screen => screen.units).forEach(unit => {
+      signatures.set(unit.componentName, [...(signatures.get(unit.componentName) || []), unit.signature]);
+    });
+    const chosen = new Map(Array.from(signatures.entries()).map(([name, all]) => {
+      const count = (signature: string) => all.filter(other => other === signature).length;
+      return [name, all.reduce((best, signature) => count(signature) > count(best) ? signature : best)];
+    }));
+
+    return screens.map(screen => {
+      let extracted = screen.units.filter(unit => chosen.get(unit.componentName) === unit.signature);
+      let previous = -1;
+      while (extracted.length !== previous) {
+        previous = extracted.length;
+        extracted = extracted.filter(unit => unit.uses.every(name =>
+          !screen.units.some(other => other.componentName === name) ||
+          extracted.some(other => other.componentName === name)
+        ));
+      }
+      return extracted;
+    });
+  }
+
+  private screenModule(screen: ParsedScreen, extracted: ComponentUnit[], warnings: string[]): string {
+    const removed = new Set(extracted.flatMap(unit => unit.statements));
+    let code = screen.statements.reduceRight((result, statement) =>
+      removed.has(statement)
+        ? result.slice(0, statement.start) + result.slice(statement.end)
+        : result,
+      screen.source
+    );
+
+    // Components only the extracted ones rendered aren't imported
+    const used = mentionedNames(screen.statements.filter(statement => !removed.has(statement)));
+    const imported = extracted.map(unit => unit.componentName).filter(name => used.has(name)).sort();
+    if (imported.length > 0) {
+      const lastImport = screen.imports[screen.imports.length - 1];
+      const importLine = `import { ${imported.join(', ')} } from '../components';`;
+      const position = lastImport?.end ?? 0;
+      code = `${code.slice(0, position)}${position > 0 ? '\n' : ''}${importLine}\n${code.slice(position)}`;
+    }
+
+    if (!screen.hasDefaultExport) {
+      const component = screen.statements.filter(statement => statement.names.some(name => /^[A-Z]/.test(name))).pop();
+      if (component) {
+        code = `${code.trimEnd()}\n\nexport default ${component.names[0]};\n`;
+        warnings.push(`"${screen.record.name}" had no default export - ${component.names[0]} is exported`);
+      } else {
+        warnings.push(`"${screen.record.name}" has no component to route to`);
+      }
+    }
+
+    return `${code.replace(/\n{3,}/g, '\n\n').trim()}\n`;
+  }
+
+  private componentModule(unit: ComponentUnit, owner: ParsedScreen, shared: ComponentUnit[]): string {
+    // Units with namespace imports stay in their screen, so the specs always narrow
+    const imports = importSpecs(owner.imports, mentionedNames(unit.statements)) || [];
+    const dependencies = unit.uses
+      .filter(name => shared.some(other => other.componentName === name))
+      .map(name => ({ source: `./${name}`, names: [name] }));
+    return printModule({
+      imports: [{ source: 'react', defaultName: 'React' }, ...imports, ...dependencies],
+      declarations: [unit.statements.map(statement => statement.source).join('\n\n')],
+      namedExports: [unit.componentName]
+    });
+  }
+
+  // Figma image URLs the code uses - downloaded into the archive by createArchive
+  private referencedAssets(screens: ParsedScreen[], files: Record<string, string>): ExportAsset[] {
+    const code = Object.entries(files).filter(([path]) => path.startsWith('src/')).map(([, contents]) => contents).join('\n');
+    const assets = new Map<string, ExportAsset>();
+    screens.forEach(screen => {
+      const assetUrls: Record<string, string> = screen.record.analysis_data?.figmaData?.assetUrls || {};
+      Object.entries(assetUrls).forEach(([nodeId, url]) => {
+        if (url && !assets.has(url) && code.includes(url)) assets.set(url, { url, nodeId });
+      });
+    });
+    return Array.from(assets.values());
+  }
+
+  private packageJson(name: string, files: Record<string, string>, warnings: string[]): string {
+    const packages = new Set(BASE_DEPENDENCIES);
+    Object.entries(files)
+      .filter(([path]) => /\.tsx?$/.test(path))
+      .forEach(([, code]) => {
+        for (const match of code.matchAll(/^import\s[^'"]*['"]([^'"]+)['"]/gm)) {
+          if (!match[1].startsWith('.')) packages.add(packageOf(match[1]));
+        }
+      });
+
+    const dependencies: Record<string, string> = {};
+    Array.from(packages).sort().forEach(pkg => {
+      dependencies[pkg] = DEPENDENCY_VERSIONS[pkg] || 'latest';
+      if (!DEPENDENCY_VERSIONS[pkg]) {
+        warnings.push(`${pkg} is imported by the code - package.json asks for its latest version`);
+      }
+    });
+
+    return `${JSON.stringify({
+      name,
+      private: true,
+      version: '0.1.0',
+      type: 'module',
+      scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview', typecheck: 'tsc' },
+      dependencies,
+      devDependencies: DEV_DEPENDENCIES
+    }, null, 2)}\n`;
+  }
+
+  private indexHtml(projectName: string): string {
+    const title = projectName.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`;
+  }
+
+  private readme(projectName: string, screens: ExportedScreen[], sharedComponents: string[]): string {
+    const routes = screens.map(screen => `- \`${screen.path}\` - ${screen.name} (\`src/screens/${screen.componentName}.tsx\`)`).join('\n');
+    const components = sharedComponents.length > 0
+      ? `\n## Shared components\n\n${sharedComponents.map(name => `- \`${name}\``).join('\n')}\n`
+      : '';
+    return `# ${projectName}
+
+Generated from Figma.
+
+\`\`\`
+npm install
+npm run dev
+\`\`\`
+
+## Routes
+
+${routes}
+${components}
+The MUI theme is in \`src/theme.ts\`; images are in \`public/assets\`.
+`;
+  }
+}
+
+export default ProjectExportService;
@@ -0,0 +1,226 @@
+import { FigmaFile } from './figmaService';
+import { MappedComponent } from './styleMapperService';
+import { breakpointFrameCandidates } from './breakpointMergeService';
+import { CodeExpression, ImportSpec, element, expression } from './componentTree';
+import { printModule } from './tsxPrinter';
+
+/**
+ * Prototype connections between the top-level frames of a Figma file, as routes of a React Router app.
+ * Every frame gets a route from its name, so a screen's links can be generated before the screens they
+ * lead to exist.
+ */
+
+export interface FlowFrame {
+  nodeId: string;
+  name: string;
+  path: string; // Route, e.g. "/checkout"
+  componentName: string; // The screen's component in the app, e.g. "CheckoutScreen"
+}
+
+export interface FlowLink {
+  sourceId: string; // The clicked node
+  sourceName: string;
+  frameId: string; // The frame the clicked node is in
+  destinationId: string; // The frame it navigates to
+}
+
+export interface PrototypeFlow {
+  frames: FlowFrame[];
+  links: FlowLink[];
+  startFrameId?: string; // The prototype's starting point, or the first frame
+}
+
+// A screen of the app: the frame it was generated from and its code
+export interface FlowScreen {
+  frameId: string;
+  code: string;
+}
+
+// Paths and component names already used in an app
+export interface TakenRoutes {
+  paths: Set<string>;
+  componentNames: Set<string>;
+}
+
+// Renders the app's routes in the preview, whose sandbox provides the router
+export const PROTOTYPE_PREVIEW_ENTRY = `import React from 'react';
+import { AppRoutes } from './App';
+
+render(<AppRoutes />);
+`;
+
+// Triggers that become click handlers - hover and timers have no equivalent in a routed app
+const CLICK_TRIGGERS = new Set(['ON_CLICK', 'ON_PRESS']);
+
+const words = (name: string) => name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+
+const slug = (name: string) => words(name).join('-').toLowerCase() || 'screen';
+
+const pascalCase = (name: string) => {
+  const joined = words(name).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[A-Z]/.test(joined) ? joined : `Screen${joined}`;
+};
+
+// Unique within the app: repeats get -2, -3, ...
+const uniqueName = (name: string, taken: Set<string>, separator: string) => {
+  let candidate = name;
+  for (let index = 2; taken.has(candidate); index++) {
+    candidate = `${name}${separator}${index}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+/**
+ * A screen's route and component name from its name, e.g. "Checkout / Step 1" is /checkout-step-1
+ * rendered by CheckoutStep1Screen. Both are made unique against `taken`, which they're added to.
+ */
+export const screenRoute = (name: string, taken: TakenRoutes): Pick<FlowFrame, 'path' | 'componentName'> => ({
+  path: uniqueName(`/${slug(name)}`, taken.paths, '-'),
+  componentName: uniqueName(`${pascalCase(name).replace(/Screen$/, '')}Screen`, taken.componentNames, '')
+});
+
+/**
+ * App.tsx for routes whose screens are the default exports of ./screens/<componentName>. `startPath` is
+ * the index route; unknown paths go back to it. Exports the routes as AppRoutes and, as default, the
+ * app wrapped in a BrowserRouter.
+ */
+export const printRouterModule = (routes: Pick<FlowFrame, 'path' | 'componentName'>[], startPath: string): string => {
+  const imports: ImportSpec[] = [
+    { source: 'react', defaultName: 'React' },
+    { source: 'react-router', names: ['BrowserRouter', 'Navigate', 'Route', 'Routes'] },
+    ...routes.map(route => ({ source: `./screens/${route.componentName}`, defaultName: route.componentName }))
+  ];
+  return printModule({
+    imports,
+    declarations: [
+      {
+        name: 'AppRoutes',
+        render: element('Routes', {}, [
+          element('Route', { index: true, element: expression(`<Navigate to=${JSON.stringify(startPath)} replace />`) }),
+          ...routes.map(route => element('Route', { path: route.path, element: expression(`<${route.componentName} />`) })),
+          element('Route', { path: '*', element: expression(`<Navigate to=${JSON.stringify(startPath)} replace />`) })
+        ])
+      },
+      { name: 'App', render: element('BrowserRouter', {}, [element('AppRoutes')]) }
+    ],
+    namedExports: ['AppRoutes'],
+    defaultExport: 'App'
+  });
+};
+
+// The canvases' prototype starting points, in document order
+const flowStartingPoints = (fileData?: FigmaFile): string[] =>
+  (fileData?.document?.children || []).flatMap(canvas =>
+    (canvas.flowStartingPoints || []).map(start => start.nodeId)
+  );
+
+class PrototypeFlowService {
+
+  /**
+   * Routes for the file's top-level frames and the click connections between them
+   */
+  buildFlow(components: MappedComponent[], fileData?: FigmaFile): PrototypeFlow {
+    const taken: TakenRoutes = { paths: new Set(), componentNames: new Set() };
+    const frames: FlowFrame[] = breakpointFrameCandidates(components).map(candidate => ({
+      nodeId: candidate.nodeId,
+      name: candidate.name,
+      ...screenRoute(candidate.name, taken)
+    }));
+    const frameIds = new Set(frames.map(frame => frame.nodeId));
+
+    const byId = new Map(components.map(comp => [comp.id, comp]));
+    const frameOf = (comp: MappedComponent): string => {
+      let current = comp;
+      let parent: MappedComponent | undefined;
+      while (current.parentId && (parent = byId.get(current.parentId))) {
+        current = parent;
+      }
+      return current.id;
+    };
+
+    const links: FlowLink[] = [];
+    components.forEach(comp => {
+      const destinationId = this.navigationOf(comp)?.destinationId;
+      const frameId = frameOf(comp);
+      if (destinationId && frameIds.has(destinationId) && frameIds.has(frameId)) {
+        links.push({ sourceId: comp.id, sourceName: comp.name, frameId, destinationId });
+      }
+    });
+
+    const startFrameId = flowStartingPoints(fileData).find(id => frameIds.has(id)) || frames[0]?.nodeId;
+    console.log('🔗 [PROTOTYPE] Flow built:', { frames: frames.length, links: links.length, startFrameId });
+    return { frames, links, startFrameId };
+  }
+
+  /**
+   * Frames reachable from `frameIds` by following links, including those frames
+   */
+  reachableFrames(flow: PrototypeFlow, frameIds: string[]): FlowFrame[] {
+    const reached = new Set(frameIds);
+    const queue = [...frameIds];
+    let frameId: string | undefined;
+    while ((frameId = queue.shift()) !== undefined) {
+      flow.links
+        .filter(link => link.frameId === frameId && !reached.has(link.destinationId))
+        .forEach(link => {
+          reached.add(link.destinationId);
+          queue.push(link.destinationId);
+        });
+    }
+    return flow.frames.filter(frame => reached.has(frame.nodeId));
+  }
+
+  /**
+   * onClick for a node with a click connection, calling `navigate` from useNavigate(). Undefined for
+   * nodes without one, or whose destination isn't a frame of the flow (e.g. an overlay).
+   */
+  clickHandler(component: MappedComponent, flow: PrototypeFlow): CodeExpression | undefined {
+    const interaction = this.navigationOf(component);
+    if (!interaction) return undefined;
+
+    switch (interaction.navigation) {
+      case 'BACK':
+        return expression('() => navigate(-1)');
+      case 'URL':
+        return expression(`() => window.open(${JSON.stringify(interaction.url)}, '_blank')`);
+      default: {
+        const destination = flow.frames.find(frame => frame.nodeId === interaction.destinationId);
+        return destination ? expression(`() => navigate(${JSON.stringify(destination.path)})`) : undefined;
+      }
+    }
+  }
+
+  /**
+   * The app's modules: one per screen under ./screens, and ./App with the routes. The start frame
+   * is the index route; unknown paths go back to it.
+   */
+  appFiles(flow: PrototypeFlow, screens: FlowScreen[]): Record<string, string> {
+    const routed = screens
+      .map(screen => ({ screen, frame: flow.frames.find(frame => frame.nodeId === screen.frameId) }))
+      .filter((entry): entry is { screen: FlowScreen; frame: FlowFrame } => !!entry.frame);
+    if (routed.length === 0) {
+      throw new Error('None of the screens was generated from a frame of the prototype');
+    }
+
+    const start = routed.find(({ frame }) => frame.nodeId === flow.startFrameId)?.frame || routed[0].frame;
+    const files: Record<string, string> = {};
+    routed.forEach(({ screen, frame }) => {
+      files[`./screens/${frame.componentName}`] = screen.code;
+    });
+
+    files['./App'] = printRouterModule(routed.map(({ frame }) => frame), start.path);
+    return files;
+  }
+
+  // The node's first click connection that leaves the frame
+  private navigationOf(component: MappedComponent) {
+    return component.interactions?.find(interaction =>
+      CLICK_TRIGGERS.has(interaction.trigger) &&
+      (interaction.navigation === 'NAVIGATE' || interaction.navigation === 'SWAP' ||
+        interaction.navigation === 'BACK' || interaction.navigation === 'URL')
+    );
+  }
+}
+
+export default PrototypeFlowService;
@@ -0,0 +1,175 @@
+import { CodeEditingProvider, ClaudeCodeEditingProvider } from './vibeChatService';
+import VisualDiffService, { VisualDiffRequest, VisualDiffResult, hashCode } from './visualDiffService';
+
+export interface RefinementSettings {
+  enabled: boolean; // Refine automatically after every Figma generation
+  threshold: number; // Fidelity (0-1) at which to stop
+  maxIterations: number; // Rounds per refinement
+}
+
+export const DEFAULT_REFINEMENT_SETTINGS: RefinementSettings = {
+  enabled: false,
+  threshold: 0.9,
+  maxIterations: 3
+};
+
+export interface RefinementRequest {
+  code: string;
+  diff: Omit<VisualDiffRequest, 'code'>; // Everything the visual diff needs besides the code
+  threshold: number;
+  maxIterations: number;
+  initialDiff?: VisualDiffResult | null; // Reused when it measured this exact code
+  referenceImage?: File; // The Figma render, shown to the model
+}
+
+/**
+ * One round: the instruction sent, the model's answer and how the result measured
+ */
+export interface RefinementRound {
+  round: number;
+  instruction: string;
+  explanation: string;
+  code?: string; // The model's code - applied only when `improved`
+  before: VisualDiffResult;
+  after?: VisualDiffResult; // Missing when the model returned no code or its code failed to render
+  improved: boolean;
+  error?: string;
+  provider: string;
+}
+
+export interface RefinementOutcome {
+  code: string; // The best code found
+  diff: VisualDiffResult; // Its measurement
+  rounds: RefinementRound[];
+  stopReason: 'threshold' | 'budget' | 'no-change' | 'cancelled';
+}
+
+const MAX_REGIONS_IN_PROMPT = 8;
+
+/**
+ * Describe what the visual diff found, as an edit instruction for the model
+ */
+export const buildRefinementInstruction = (diff: VisualDiffResult, previousError?: string): string => {
+  const regions = diff.regions.slice(0, MAX_REGIONS_IN_PROMPT).map((region, index) =>
+    `${index + 1}. ${region.nodeName ? `"${region.nodeName}"` : 'Unnamed area'} at x=${region.x}, y=${region.y}, ` +
+    `${region.width}×${region.height}px: ${(region.mismatch * 100).toFixed(0)}% of pixels differ, SSIM ${region.ssim.toFixed(2)}`
+  );
+  const sizeNote = diff.renderedSize.width !== diff.width || diff.renderedSize.height !== diff.height
+    ? `The component rendered at ${diff.renderedSize.width}×${diff.renderedSize.height}px, but the design frame is ${diff.width}×${diff.height}px.`
+    : '';
+
+  return [
+    `Make the rendered component match the attached design more closely. A visual diff against the Figma render scored ${(diff.score * 100).toFixed(0)}% fidelity ` +
+      `(SSIM ${diff.ssim.toFixed(3)}, ${(diff.pixelMismatch * 100).toFixed(1)}% of pixels differ) at the design's width of ${diff.width}px.`,
+    sizeNote,
+    regions.length > 0 ? `The largest mismatches (coordinates from the frame's top-left corner):\n${regions.join('\n')}` : '',
+    previousError ? `The previous attempt failed to render: ${previousError}. Avoid that mistake.` : '',
+    'Fix positions, sizes, spacing, colors and typography in these areas. Do not restructure parts that already match.'
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * Iteratively edits generated code with the model until its visual diff reaches a fidelity threshold
+ * or the round budget is spent. Every round is measured; only improvements are kept.
+ */
+class RefinementService {
+  private provider: CodeEditingProvider;
+  private visualDiffService: VisualDiffService;
+
+  constructor(
+    provider: CodeEditingProvider = new ClaudeCodeEditingProvider(),
+    visualDiffService: VisualDiffService = new VisualDiffService()
+  ) {
+    this.provider = provider;
+    this.visualDiffService = visualDiffService;
+  }
+
+  async refine(
+    request: RefinementRequest,
+    onRound: (round: RefinementRound) => Promise<void> | void = () => undefined,
+    isCancelled: () => boolean = () => false
+  ): Promise<RefinementOutcome> {
+    let code = request.code;
+    let diff = request.initialDiff && request.initialDiff.codeHash === hashCode(code)
+      ? request.initialDiff
+      : await this.visualDiffService.measure({ ...request.diff, code });
+    const rounds: RefinementRound[] = [];
+    let previousError: string | undefined;
+
+    console.log('🔁 [REFINEMENT] Starting:', {
+      score: diff.score,
+      threshold: request.threshold,
+      maxIterations: request.maxIterations
+    });
+
+    for (let round = 1; round <= request.maxIterations; round++) {
+      if (diff.score >= request.threshold) {
+        return this.finish(code, diff, rounds, 'threshold');
+      }
+      if (isCancelled()) {
+        return this.finish(code, diff, rounds, 'cancelled');
+      }
+
+      const instruction = buildRefinementInstruction(diff, previousError);
+      const edit = await this.provider.editCode({
+        instruction,
+        currentCode: code,
+        history: [],
+        referenceImage: request.referenceImage
+      });
+
+      const result: RefinementRound = {
+        round,
+        instruction,
+        explanation: edit.explanation,
+        code: edit.code,
+        before: diff,
+        improved: false,
+        provider: edit.provider
+      };
+      previousError = undefined;
+
+      if (edit.code) {
+        try {
+          result.after = await this.visualDiffService.measure({ ...request.diff, code: edit.code });
+          result.improved = result.after.score > diff.score;
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
+          previousError = result.error;
+        }
+      }
+
+      console.log('🔁 [REFINEMENT] Round finished:', {
+        round,
+        before: diff.score,
+        after: result.after?.score,
+        improved: result.improved,
+        error: result.error
+      });
+      rounds.push(result);
+      await onRound(result);
+
+      if (!edit.code) {
+        return this.finish(code, diff, rounds, 'no-change');
+      }
+      if (result.improved && result.after) {
+        code = edit.code;
+        diff = result.after;
+      }
+    }
+
+    return this.finish(code, diff, rounds, diff.score >= request.threshold ? 'threshold' : 'budget');
+  }
+
+  private finish(
+    code: string,
+    diff: VisualDiffResult,
+    rounds: RefinementRound[],
+    stopReason: RefinementOutcome['stopReason']
+  ): RefinementOutcome {
+    console.log('✅ [REFINEMENT] Finished:', { score: diff.score, rounds: rounds.length, stopReason });
+    return { code, diff, rounds, stopReason };
+  }
+}
+
+export default RefinementService;
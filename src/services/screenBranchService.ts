@@ -0,0 +1,193 @@
+import { BreakpointFrame } from './breakpointMergeService';
+import { DesignTokenExport } from './designTokenExporter';
+
+/**
+ * Forks and branches of screens. Both are new screens rows that start from a version of another
+ * screen's code and keep their own vibe_sessions, so every tab works on them unchanged:
+ * - a fork is an independent screen, listed with the others
+ * - a branch (branch_name set) belongs to the screen it was forked from, is listed under it and
+ *   can be merged back into it
+ */
+
+// The screens columns forking and merging read
+export interface BranchScreen {
+  id: string;
+  project_id: string;
+  name: string;
+  original_image_url?: string;
+  original_image_path?: string;
+  figma_url?: string;
+  figma_file_key?: string;
+  current_code?: string;
+  iteration_count: number;
+  analysis_data?: BranchAnalysisData;
+  breakpoint_frames?: BreakpointFrame[] | null;
+  forked_from_screen_id?: string | null;
+  forked_from_session_id?: string | null;
+  branch_name?: string | null;
+}
+
+// The parts of a screen's analysis_data branch previews read; forks copy all of it
+export interface BranchAnalysisData {
+  designTokenExport?: Pick<DesignTokenExport, 'themeOptions'>;
+}
+
+// The new screens row of a fork
+export interface ForkScreenValues {
+  project_id: string;
+  name: string;
+  branch_name: string | null;
+  original_image_url?: string;
+  original_image_path?: string;
+  figma_url?: string;
+  figma_file_key?: string;
+  analysis_data?: BranchAnalysisData;
+  breakpoint_frames?: BreakpointFrame[] | null;
+  current_code: string;
+  status: string;
+  iteration_count: number;
+  forked_from_screen_id: string;
+  forked_from_session_id: string | null;
+}
+
+// A vibe_sessions row recording a fork, a merge or the code a merge replaced
+export interface BranchSessionValues {
+  screen_id: string;
+  session_type: 'fork' | 'snapshot' | 'merge';
+  ai_response: string;
+  generated_code?: string;
+  merged_from_screen_id?: string;
+  is_accepted: boolean;
+}
+
+export type ForkKind = 'screen' | 'branch';
+
+// The code a fork starts from: a version of the screen, or its current code
+export interface ForkSource {
+  code: string;
+  sessionId?: string;
+  versionNumber?: number;
+}
+
+// What the screen a branch belongs to is called in branch lists
+export const MAIN_BRANCH = 'main';
+
+export const isBranch = (screen: Pick<BranchScreen, 'branch_name'>): boolean => !!screen.branch_name;
+
+export const branchLabel = (screen: Pick<BranchScreen, 'branch_name'>): string => screen.branch_name || MAIN_BRANCH;
+
+const versionName = (source: ForkSource) => (source.versionNumber ? `v${source.versionNumber}` : 'the current code');
+
+class ScreenBranchService {
+
+  /**
+   * The screen a branch belongs to, following branches of branches up; other screens are their own root
+   */
+  rootOf<T extends BranchScreen>(screen: T, screens: T[]): T {
+    let current = screen;
+    const seen = new Set([screen.id]);
+    while (isBranch(current) && current.forked_from_screen_id && !seen.has(current.forked_from_screen_id)) {
+      const parent = screens.find(candidate => candidate.id === current.forked_from_screen_id);
+      if (!parent) break;
+      seen.add(parent.id);
+      current = parent;
+    }
+    return current;
+  }
+
+  /**
+   * Every branch under `root`, including branches of its branches, by name
+   */
+  branchesOf<T extends BranchScreen>(root: T, screens: T[]): T[] {
+    return screens
+      .filter(screen => isBranch(screen) && screen.id !== root.id && this.rootOf(screen, screens).id === root.id)
+      .sort((a, b) => branchLabel(a).localeCompare(branchLabel(b)));
+  }
+
+  /**
+   * Where a branch merges back: the screen it was forked from
+   */
+  mergeTargetOf<T extends BranchScreen>(branch: T, screens: T[]): T | undefined {
+    if (!isBranch(branch)) return undefined;
+    return screens.find(screen => screen.id === branch.forked_from_screen_id);
+  }
+
+  /**
+   * Why `name` can't name a new branch under `root`, or null when it can
+   */
+  branchNameError<T extends BranchScreen>(name: string, root: T, screens: T[]): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Enter a branch name';
+    if (trimmed.toLowerCase() === MAIN_BRANCH) return `"${MAIN_BRANCH}" is the screen itself`;
+    if (this.branchesOf(root, screens).some(branch => branchLabel(branch).toLowerCase() === trimmed.toLowerCase())) {
+      return `There already is a branch "${trimmed}"`;
+    }
+    return null;
+  }
+
+  /**
+   * The new screens row for a fork of `screen`. It keeps the design it was generated from (image,
+   * Figma link, analysis) so previews, diffs and re-runs still work.
+   */
+  forkValues(screen: BranchScreen, source: ForkSource, kind: ForkKind, name: string): ForkScreenValues {
+    return {
+      project_id: screen.project_id,
+      name: kind === 'branch' ? screen.name : name.trim(),
+      branch_name: kind === 'branch' ? name.trim() : null,
+      original_image_url: screen.original_image_url,
+      original_image_path: screen.original_image_path,
+      figma_url: screen.figma_url,
+      figma_file_key: screen.figma_file_key,
+      analysis_data: screen.analysis_data,
+      breakpoint_frames: screen.breakpoint_frames,
+      current_code: source.code,
+      status: 'ready',
+      iteration_count: 0,
+      forked_from_screen_id: screen.id,
+      forked_from_session_id: source.sessionId || null
+    };
+  }
+
+  /**
+   * The fork's first vibe session, so its history starts at the forked code
+   */
+  forkSessionValues(forkId: string, screen: BranchScreen, source: ForkSource): BranchSessionValues {
+    return {
+      screen_id: forkId,
+      session_type: 'fork',
+      ai_response: `Forked from ${branchLabel(screen) === MAIN_BRANCH ? screen.name : `branch "${branchLabel(screen)}"`} at ${versionName(source)}.`,
+      generated_code: source.code,
+      is_accepted: true
+    };
+  }
+
+  /**
+   * A version holding the target's current code, for code that never went through a session (e.g.
+   * "Store images") - saved before a merge replaces it
+   */
+  snapshotSessionValues(target: BranchScreen, branch: BranchScreen): BranchSessionValues {
+    return {
+      screen_id: target.id,
+      session_type: 'snapshot',
+      ai_response: `Saved the current code before merging branch "${branchLabel(branch)}".`,
+      generated_code: target.current_code,
+      is_accepted: true
+    };
+  }
+
+  /**
+   * The session recording a merge on the screen the branch merges into
+   */
+  mergeSessionValues(target: BranchScreen, branch: BranchScreen): BranchSessionValues {
+    return {
+      screen_id: target.id,
+      session_type: 'merge',
+      ai_response: `Merged branch "${branchLabel(branch)}" into ${branchLabel(target)}.`,
+      generated_code: branch.current_code,
+      merged_from_screen_id: branch.id,
+      is_accepted: true
+    };
+  }
+}
+
+export default ScreenBranchService;
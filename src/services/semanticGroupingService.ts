@@ -1,4 +1,5 @@
 import { ComponentAnalysis, FigmaFile } from './figmaService';
+import { LLMProvider, stripCodeFences } from './llmProvider';
 
 export interface SemanticGroup {
   id: string;
@@ -39,11 +40,10 @@ export interface SemanticGroupingResult {
 }
 
 class SemanticGroupingService {
-  private apiKey: string;
-  private baseUrl: string = 'https://api.openai.com/v1';
+  private llm: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -61,18 +61,8 @@ class SemanticGroupingService {
       // Create analysis prompt focused on structure
       const prompt = this.createGroupingPrompt(figmaFile, figmaComponents);
       
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a UI structure analyst specializing in semantic component grouping. Your job is to analyze Figma JSON hierarchy and group related nodes into logical UI components that developers would work with.
+      const response = await this.llm.complete({
+        system: `You are a UI structure analyst specializing in semantic component grouping. Your job is to analyze Figma JSON hierarchy and group related nodes into logical UI components that developers would work with.
 
               Focus on:
               - Grouping related nodes (text + background = button)
@@ -80,24 +70,14 @@ class SemanticGroupingService {
               - Recognizing collections of similar elements
               - Understanding component hierarchy and nesting
 
-              Always respond with valid JSON matching the expected format.`
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 3000,
-          temperature: 0.2
-        })
+              Always respond with valid JSON matching the expected format.`,
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 3000,
+        temperature: 0.2,
+        json: true
       });
 
-      if (!response.ok) {
-        throw new Error(`Semantic grouping API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const result = JSON.parse(data.choices[0].message.content);
+      const result = JSON.parse(stripCodeFences(response.content));
       
       const processingTime = Date.now() - startTime;
       
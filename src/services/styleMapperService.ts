@@ -1,16 +1,49 @@
-import { ComponentAnalysis, DesignTokens } from './figmaService';
+import {
+  AutoLayout,
+  ComponentAnalysis,
+  DesignTokens,
+  FigmaComponentPropertyValue,
+  LayoutChild,
+  PrototypeInteraction
+} from './figmaService';
+import { MappingRule, MappingRuleContext, applyPropTemplate, findMatchingRule } from './mappingRuleService';
+import { ComponentLibraryProfile, adaptPropsForLibrary, findLibraryComponent } from './componentLibrary';
 
 export interface MappedComponent {
   id: string;
   name: string;
-  muiComponent: string;
+  muiComponent: string; // The MUI component chosen; a component library profile may render it as its own
   props: Record<string, any>;
   sx: Record<string, any>;
   children?: MappedComponent[];
   content?: string;
   imageUrl?: string;
+  imageSrcSet?: string; // Stored responsive sizes of the image
+  figmaType?: string;
+  parentId?: string; // Mapped components form a tree through their Figma parent
+  layout?: AutoLayout;
+  componentId?: string; // Instances: the main component (variant) they were created from
+  componentProperties?: Record<string, FigmaComponentPropertyValue>; // Instances: property values
+  propertyReferences?: Record<string, string>; // Nodes inside components: properties bound to this node
+  ruleId?: string; // The project mapping rule that chose the component, if any
+  interactions?: PrototypeInteraction[]; // Prototype connections, e.g. a click navigating to another frame
 }
 
+export interface StyleMappingOptions extends MappingRuleContext {
+  rules?: MappingRule[]; // Project mapping rules, consulted before the heuristics
+  library?: ComponentLibraryProfile; // Props are adapted to the library's replacement components
+  assetSrcSets?: Record<string, string>; // Node id -> srcSet of its stored image
+}
+
+// Figma Auto Layout alignment -> CSS flex alignment
+const FLEX_ALIGN: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+  BASELINE: 'baseline'
+};
+
 export interface StyleMapping {
   components: MappedComponent[];
   designSystem: {
@@ -19,6 +52,8 @@ export interface StyleMapping {
     typography: { [key: string]: any };
     spacing: { [key: string]: number };
     baseUnit?: number;
+    colorModes?: { [mode: string]: { [key: string]: string } }; // From Figma variable modes / Light & Dark styles
+    tokenSource?: 'figma' | 'inferred';
   };
 }
 
@@ -30,12 +65,14 @@ class StyleMapperService {
   mapComponentsToMui(
     components: ComponentAnalysis[], 
     designTokens: DesignTokens,
-    assetUrls: { [nodeId: string]: string }
+    assetUrls: { [nodeId: string]: string },
+    options: StyleMappingOptions = {}
   ): StyleMapping {
     console.log('🎭 [STYLE MAPPER] Starting component mapping:', {
       components: components.length,
       designTokens: designTokens,
-      assetUrls: Object.keys(assetUrls).length
+      assetUrls: Object.keys(assetUrls).length,
+      rules: options.rules?.length || 0
     });
     
     // Extract design system
@@ -44,8 +81,17 @@ class StyleMapperService {
     
     // Map components
     const mappedComponents = components.map(component => 
-      this.mapSingleComponent(component, assetUrls, designSystem)
+      this.mapSingleComponent(component, assetUrls, designSystem, options)
     ).filter(Boolean) as MappedComponent[];
+
+    // Pinned children are positioned against their parent
+    const byId = new Map(mappedComponents.map(comp => [comp.id, comp]));
+    mappedComponents.forEach(comp => {
+      const parent = comp.parentId ? byId.get(comp.parentId) : undefined;
+      if (parent && comp.sx.position === 'absolute' && !parent.sx.position) {
+        parent.sx.position = 'relative';
+      }
+    });
     
     console.log('🎯 [STYLE MAPPER] Components mapped:', {
       total: mappedComponents.length,
@@ -67,7 +113,47 @@ class StyleMapperService {
   /**
    * Build design system from extracted tokens
    */
-  private buildDesignSystem(designTokens: DesignTokens) {
+  private buildDesignSystem(designTokens: DesignTokens): StyleMapping['designSystem'] {
+    const inferred = this.inferDesignSystem(designTokens);
+    const named = designTokens.named;
+    if (!named) {
+      return { ...inferred, tokenSource: 'inferred' };
+    }
+
+    // Named styles/variables win; inference only fills the categories the file didn't name
+    const hasColors = Object.keys(named.colors).length > 0;
+    const hasTypography = Object.keys(named.typography).length > 0;
+    const hasSpacing = Object.keys(named.spacing).length > 0;
+
+    const typography: { [key: string]: any } = hasTypography
+      ? { fontFamily: inferred.typography.fontFamily, fontWeights: inferred.typography.fontWeights }
+      : inferred.typography;
+    Object.entries(named.typography).forEach(([variant, style]) => {
+      typography[variant] = { ...style };
+    });
+    const namedFamily = Object.values(named.typography).find(style => style?.fontFamily)?.fontFamily;
+    if (namedFamily) {
+      typography.fontFamily = namedFamily;
+    }
+
+    const spacingValues = Object.values(named.spacing);
+    const baseUnit = hasSpacing ? this.detectBaseSpacingUnit(spacingValues) : inferred.baseUnit;
+
+    return {
+      colors: hasColors ? { ...named.colors } : inferred.colors,
+      gradients: inferred.gradients,
+      typography,
+      spacing: hasSpacing ? { ...named.spacing } : inferred.spacing,
+      baseUnit,
+      colorModes: named.colorModes,
+      tokenSource: 'figma'
+    };
+  }
+
+  /**
+   * Guess a design system from the raw fills, text and spacing in the file
+   */
+  private inferDesignSystem(designTokens: DesignTokens) {
     // Enhanced color processing with semantic detection
     const colors: { [key: string]: string } = {};
     const gradients: { [key: string]: string } = {};
@@ -224,20 +310,36 @@ class StyleMapperService {
   private mapSingleComponent(
     component: ComponentAnalysis, 
     assetUrls: { [nodeId: string]: string },
-    designSystem: any
+    designSystem: any,
+    options: StyleMappingOptions = {}
   ): MappedComponent | null {
     
     const styling = component.properties.styling;
     const bounds = component.bounds;
     
+    // Project rules come first; the heuristics only decide what no rule matches
+    const rule = options.rules?.length ? findMatchingRule(component, options.rules, options) : undefined;
+
     // Determine MUI component type
-    const muiComponent = this.determineMuiComponent(component);
+    const muiComponent = rule ? rule.target_component : this.determineMuiComponent(component);
     
     // Build sx styling object
     const sx = this.buildSxStyling(styling, bounds, designSystem);
     
     // Build props
-    const props = this.buildComponentProps(component, assetUrls);
+    const props = rule ? applyPropTemplate(rule.prop_template, component) : this.buildComponentProps(component);
+
+    // Stack takes direction and spacing as props rather than sx - a library's own stack keeps them in sx
+    if (muiComponent === 'Stack' && styling?.layout && !(options.library && findLibraryComponent(options.library, 'Stack'))) {
+      props.direction ??= sx.flexDirection;
+      props.spacing ??= sx.gap ?? 0;
+      props.useFlexGap ??= true;
+      delete sx.display;
+      delete sx.flexDirection;
+      delete sx.gap;
+    }
+
+    const libraryProps = options.library ? adaptPropsForLibrary(options.library, muiComponent, props) : props;
     
     // Extract text content
     const content = this.extractTextContent(component);
@@ -249,10 +351,19 @@ class StyleMapperService {
       id: component.id,
       name: component.name,
       muiComponent,
-      props,
+      props: libraryProps,
       sx,
       content,
-      imageUrl
+      imageUrl,
+      imageSrcSet: imageUrl ? options.assetSrcSets?.[component.id] : undefined,
+      figmaType: component.type,
+      parentId: styling?.layoutChild?.parentId,
+      layout: styling?.layout,
+      componentId: component.properties.componentId,
+      componentProperties: component.properties.componentProperties,
+      propertyReferences: component.properties.componentPropertyReferences,
+      ruleId: rule?.id,
+      interactions: component.properties.interactions
     };
   }
 
@@ -266,9 +377,22 @@ class StyleMapperService {
     const bounds = component.bounds;
     
     // Generic button detection (not payment-specific)
-    if (name.includes('button') || name.includes('btn') || 
-        type === 'INSTANCE' ||
-        (bounds && bounds.width > 100 && bounds.height > 40 && bounds.height < 80)) {
+    if (name.includes('button') || name.includes('btn')) {
+      return 'Button';
+    }
+
+    // Auto Layout frames are flex containers that reflow, whatever their size
+    if (component.properties.styling?.layout && !name.includes('card')) {
+      return 'Stack';
+    }
+
+    // Icon detection
+    if (type === 'INSTANCE' && bounds && bounds.width < 50 && bounds.height < 50) {
+      return 'IconButton';
+    }
+
+    // Other instances are rendered through the component registry; this is only their fallback
+    if (type !== 'INSTANCE' && bounds && bounds.width > 100 && bounds.height > 40 && bounds.height < 80) {
       return 'Button';
     }
     
@@ -289,13 +413,8 @@ class StyleMapperService {
       return 'Box'; // Will contain image
     }
     
-    // Icon detection
-    if (type === 'INSTANCE' && bounds && bounds.width < 50 && bounds.height < 50) {
-      return 'IconButton';
-    }
-    
     // Container detection
-    if (type === 'FRAME' || type === 'GROUP') {
+    if (type === 'FRAME' || type === 'GROUP' || type === 'INSTANCE' || type === 'COMPONENT') {
       return 'Box';
     }
     
@@ -307,14 +426,22 @@ class StyleMapperService {
    */
   private buildSxStyling(styling: any, bounds: any, designSystem: any): Record<string, any> {
     const sx: Record<string, any> = {};
+    const baseUnit = designSystem?.baseUnit || 8;
     
-    // Dimensions
-    if (bounds) {
+    // Dimensions - Auto Layout hug/fill sizing reflows, everything else keeps its Figma size
+    if (styling?.layoutChild || styling?.layout) {
+      Object.assign(sx, this.buildSizingSx(styling.layoutChild, bounds));
+    } else if (bounds) {
       sx.width = bounds.width;
       sx.height = bounds.height;
       sx.minWidth = bounds.width;
       sx.minHeight = bounds.height;
     }
+
+    // Auto Layout container
+    if (styling?.layout) {
+      Object.assign(sx, this.buildAutoLayoutSx(styling.layout, baseUnit));
+    }
     
     // Colors
     if (styling?.colors) {
@@ -346,7 +473,7 @@ class StyleMapperService {
     }
     
     // Spacing
-    if (styling?.spacing?.padding) {
+    if (styling?.spacing?.padding && !styling?.layout) {
       const p = styling.spacing.padding;
       sx.padding = `${p.top}px ${p.right}px ${p.bottom}px ${p.left}px`;
     }
@@ -369,10 +496,89 @@ class StyleMapperService {
     return sx;
   }
 
+  /**
+   * Flex container sx for an Auto Layout frame - direction, gap, alignment, wrap and padding
+   */
+  private buildAutoLayoutSx(layout: AutoLayout, baseUnit: number): Record<string, any> {
+    const sx: Record<string, any> = {
+      display: 'flex',
+      flexDirection: layout.mode === 'HORIZONTAL' ? 'row' : 'column',
+      justifyContent: FLEX_ALIGN[layout.primaryAxisAlign] || 'flex-start',
+      alignItems: FLEX_ALIGN[layout.counterAxisAlign] || 'flex-start'
+    };
+
+    if (layout.gap) {
+      sx.gap = this.toThemeSpacing(layout.gap, baseUnit);
+    }
+    if (layout.wrap) {
+      sx.flexWrap = 'wrap';
+      if (layout.counterAxisGap !== undefined && layout.counterAxisGap !== layout.gap) {
+        sx.rowGap = this.toThemeSpacing(layout.counterAxisGap, baseUnit);
+      }
+    }
+
+    const { top, right, bottom, left } = layout.padding;
+    if (top) sx.pt = this.toThemeSpacing(top, baseUnit);
+    if (right) sx.pr = this.toThemeSpacing(right, baseUnit);
+    if (bottom) sx.pb = this.toThemeSpacing(bottom, baseUnit);
+    if (left) sx.pl = this.toThemeSpacing(left, baseUnit);
+
+    return sx;
+  }
+
+  /**
+   * Width/height from Auto Layout sizing: FIXED keeps the Figma size, HUG leaves the axis
+   * to the content and FILL grows along the parent's axis or stretches across it.
+   * Children of frames without Auto Layout are pinned at their Figma offset.
+   */
+  private buildSizingSx(layoutChild: LayoutChild | undefined, bounds: any): Record<string, any> {
+    const sx: Record<string, any> = {};
+    const parentMode = layoutChild?.parentMode || 'NONE';
+
+    if (layoutChild && (parentMode === 'NONE' || layoutChild.absolute)) {
+      sx.position = 'absolute';
+      sx.left = layoutChild.offset.x;
+      sx.top = layoutChild.offset.y;
+    }
+
+    const axes: ['HORIZONTAL' | 'VERTICAL', 'width' | 'height'][] = [['HORIZONTAL', 'width'], ['VERTICAL', 'height']];
+    axes.forEach(([axis, dimension]) => {
+      // Top-level Auto Layout frames have no parent sizing - treat them as FIXED
+      const sizing = layoutChild ? (axis === 'HORIZONTAL' ? layoutChild.horizontal : layoutChild.vertical) : 'FIXED';
+
+      if (sizing === 'FILL' && layoutChild && parentMode !== 'NONE' && !layoutChild.absolute) {
+        if (parentMode === axis) {
+          sx.flexGrow = 1;
+          sx.flexBasis = 0;
+          sx[dimension === 'width' ? 'minWidth' : 'minHeight'] = 0;
+        } else {
+          sx.alignSelf = 'stretch';
+        }
+      } else if (sizing === 'FIXED' || (sizing === 'FILL' && parentMode === 'NONE')) {
+        if (bounds) {
+          sx[dimension] = bounds[dimension];
+          // Fixed children keep their size when a flex parent runs out of room
+          if (parentMode === axis) sx.flexShrink = 0;
+        }
+      }
+      // HUG: leave the axis to the content
+    });
+
+    return sx;
+  }
+
+  /**
+   * A pixel value as theme spacing units when it sits on the half-unit grid, otherwise in px
+   */
+  private toThemeSpacing(value: number, baseUnit: number): number | string {
+    const units = value / baseUnit;
+    return Number.isInteger(units * 2) ? units : `${value}px`;
+  }
+
   /**
    * Build component props - GENERIC VERSION
    */
-  private buildComponentProps(component: ComponentAnalysis, assetUrls: { [nodeId: string]: string }): Record<string, any> {
+  private buildComponentProps(component: ComponentAnalysis): Record<string, any> {
     const props: Record<string, any> = {};
     const name = component.name.toLowerCase();
     const bounds = component.bounds;
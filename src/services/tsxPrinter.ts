@@ -0,0 +1,320 @@
+import { parse, parseExpression, ParserPlugin } from '@babel/parser';
+import * as t from '@babel/types';
+import { generate } from '@babel/generator';
+import prettier from 'prettier/standalone';
+import parserBabel from 'prettier/parser-babel';
+import {
+  CodeExpression,
+  ComponentDeclaration,
+  ImportSpec,
+  ModuleSpec,
+  PropValue,
+  SpreadExpression,
+  TreeNode
+} from './componentTree';
+
+const PARSER_PLUGINS: ParserPlugin[] = ['jsx', 'typescript'];
+
+const FORMAT_OPTIONS = {
+  parser: 'babel-ts',
+  plugins: [parserBabel],
+  singleQuote: true,
+  printWidth: 100,
+  trailingComma: 'none' as const
+};
+
+// JSX attribute strings have no escapes - anything else is printed as an expression
+const PLAIN_ATTRIBUTE = /^[^"'\\&{}<>\n]*$/;
+// JSX text can't contain these, and surrounding whitespace would be collapsed
+const PLAIN_TEXT = /^[^{}<>&\n]+$/;
+
+const parseCode = (code: CodeExpression): t.Expression => {
+  try {
+    return parseExpression(code.code, { plugins: PARSER_PLUGINS });
+  } catch (error: any) {
+    throw new Error(`Generated expression doesn't parse: ${code.code} (${error.message})`);
+  }
+};
+
+const parseType = (code: string): t.TSType => {
+  try {
+    const statement = parse(`type T = ${code};`, { sourceType: 'module', plugins: PARSER_PLUGINS }).program.body[0];
+    return (statement as t.TSTypeAliasDeclaration).typeAnnotation;
+  } catch (error: any) {
+    throw new Error(`Generated type doesn't parse: ${code} (${error.message})`);
+  }
+};
+
+const parseStatements = (code: string): t.Statement[] => {
+  try {
+    return parse(code, { sourceType: 'module', plugins: PARSER_PLUGINS }).program.body;
+  } catch (error: any) {
+    throw new Error(`Generated code doesn't parse (${error.message}):\n${code}`);
+  }
+};
+
+const propertyKey = (key: string): t.Identifier | t.StringLiteral =>
+  t.isValidIdentifier(key) ? t.identifier(key) : t.stringLiteral(key);
+
+/**
+ * AST for a prop/sx value
+ */
+export const valueToExpression = (value: PropValue): t.Expression => {
+  if (value instanceof CodeExpression) return parseCode(value);
+  if (value === null || value === undefined) return t.nullLiteral();
+  if (typeof value === 'string') return t.stringLiteral(value);
+  if (typeof value === 'boolean') return t.booleanLiteral(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return t.identifier('undefined');
+    return value < 0 ? t.unaryExpression('-', t.numericLiteral(-value)) : t.numericLiteral(value);
+  }
+  if (Array.isArray(value)) {
+    return t.arrayExpression(value.map(valueToExpression));
+  }
+
+  const properties: (t.ObjectProperty | t.SpreadElement)[] = [];
+  Object.entries(value).forEach(([key, entry]) => {
+    if (entry instanceof SpreadExpression) {
+      properties.push(t.spreadElement(parseCode(new CodeExpression(entry.code))));
+    } else if (entry !== undefined) {
+      properties.push(t.objectProperty(propertyKey(key), valueToExpression(entry)));
+    }
+  });
+  return t.objectExpression(properties);
+};
+
+const jsxName = (tag: string): t.JSXIdentifier | t.JSXMemberExpression => {
+  const parts = tag.split('.');
+  if (parts.some(part => !t.isValidIdentifier(part, false))) {
+    throw new Error(`Invalid JSX tag: ${tag}`);
+  }
+  return parts.slice(1).reduce<t.JSXIdentifier | t.JSXMemberExpression>(
+    (object, part) => t.jsxMemberExpression(object as t.JSXIdentifier | t.JSXMemberExpression, t.jsxIdentifier(part)),
+    t.jsxIdentifier(parts[0])
+  );
+};
+
+const jsxAttribute = (name: string, value: PropValue): t.JSXAttribute => {
+  if (!/^[A-Za-z_$][\w$-]*$/.test(name)) {
+    throw new Error(`Invalid JSX attribute: ${name}`);
+  }
+  if (value === true) {
+    return t.jsxAttribute(t.jsxIdentifier(name), null);
+  }
+  if (typeof value === 'string' && PLAIN_ATTRIBUTE.test(value)) {
+    return t.jsxAttribute(t.jsxIdentifier(name), t.stringLiteral(value));
+  }
+  return t.jsxAttribute(t.jsxIdentifier(name), t.jsxExpressionContainer(valueToExpression(value)));
+};
+
+type JsxChild = t.JSXElement | t.JSXFragment | t.JSXExpressionContainer | t.JSXText;
+
+const toJsxChild = (node: TreeNode): JsxChild => {
+  switch (node.type) {
+    case 'element':
+    case 'fragment':
+      return toJsx(node);
+    case 'text':
+      return PLAIN_TEXT.test(node.value) && node.value.trim() === node.value
+        ? t.jsxText(node.value)
+        : t.jsxExpressionContainer(t.stringLiteral(node.value));
+    case 'expression':
+      return t.jsxExpressionContainer(parseCode(node.expression));
+    case 'conditional':
+      return t.jsxExpressionContainer(toExpression(node));
+    case 'comment': {
+      const empty = t.jsxEmptyExpression();
+      t.addComment(empty, 'inner', ` ${node.text.replace(/\*\//g, '* /')} `);
+      return t.jsxExpressionContainer(empty);
+    }
+  }
+};
+
+const toJsx = (node: Extract<TreeNode, { type: 'element' | 'fragment' }>): t.JSXElement | t.JSXFragment => {
+  const children = node.children.map(toJsxChild);
+  if (node.type === 'fragment') {
+    return t.jsxFragment(t.jsxOpeningFragment(), t.jsxClosingFragment(), children);
+  }
+
+  const name = jsxName(node.tag);
+  const attributes = Object.entries(node.props)
+    .filter(([, value]) => value !== undefined)
+    .map(([attribute, value]) => jsxAttribute(attribute, value));
+  const selfClosing = children.length === 0;
+  return t.jsxElement(
+    t.jsxOpeningElement(name, attributes, selfClosing),
+    selfClosing ? null : t.jsxClosingElement(t.cloneNode(name)),
+    children,
+    selfClosing
+  );
+};
+
+/**
+ * A tree node as an expression - the root of a component or the right side of a conditional
+ */
+const toExpression = (node: TreeNode): t.Expression => {
+  switch (node.type) {
+    case 'element':
+    case 'fragment':
+      return toJsx(node);
+    case 'text':
+      return t.stringLiteral(node.value);
+    case 'expression':
+      return parseCode(node.expression);
+    case 'conditional':
+      return t.logicalExpression('&&', parseCode(node.test), toExpression(node.node));
+    case 'comment':
+      throw new Error('A comment can only be a child of an element');
+  }
+};
+
+const declarationStatements = (declaration: ComponentDeclaration): t.Statement[] => {
+  const statements: t.Statement[] = [];
+  const props = declaration.props || [];
+  const propsType = `${declaration.name}Props`;
+
+  if (props.length > 0) {
+    statements.push(t.tsInterfaceDeclaration(
+      t.identifier(propsType),
+      null,
+      null,
+      t.tsInterfaceBody(props.map(prop => {
+        const signature = t.tsPropertySignature(propertyKey(prop.name), t.tsTypeAnnotation(parseType(prop.type)));
+        signature.optional = true;
+        return signature;
+      }))
+    ));
+  }
+
+  (declaration.constants || []).forEach(constant => {
+    const id = t.identifier(constant.name);
+    if (constant.type) {
+      id.typeAnnotation = t.tsTypeAnnotation(parseType(constant.type));
+    }
+    statements.push(t.variableDeclaration('const', [t.variableDeclarator(id, valueToExpression(constant.value))]));
+  });
+
+  const params: t.ObjectPattern[] = [];
+  if (props.length > 0) {
+    const pattern = t.objectPattern(props.map(prop => t.objectProperty(
+      t.identifier(prop.name),
+      prop.defaultValue === undefined
+        ? t.identifier(prop.name)
+        : t.assignmentPattern(t.identifier(prop.name), valueToExpression(prop.defaultValue)),
+      false,
+      true
+    )));
+    pattern.typeAnnotation = t.tsTypeAnnotation(t.tsTypeReference(t.identifier(propsType)));
+    params.push(pattern);
+  }
+
+  const hooks = (declaration.hooks || []).flatMap(parseStatements);
+  const body = hooks.length > 0
+    ? t.blockStatement([...hooks, t.returnStatement(toExpression(declaration.render))])
+    : toExpression(declaration.render);
+  const component = t.variableDeclaration('const', [
+    t.variableDeclarator(t.identifier(declaration.name), t.arrowFunctionExpression(params, body))
+  ]);
+  if (declaration.description) {
+    t.addComment(statements[0] || component, 'leading', `* ${declaration.description.replace(/\*\//g, '* /')} `);
+  }
+  statements.push(component);
+  return statements;
+};
+
+/**
+ * Capitalized JSX tags the statements render, minus the names they declare
+ */
+const undeclaredTags = (statements: t.Statement[]): string[] => {
+  const declared = new Set<string>();
+  const tags = new Set<string>();
+
+  statements.forEach(statement => {
+    if (t.isVariableDeclaration(statement)) {
+      statement.declarations.forEach(declarator => {
+        if (t.isIdentifier(declarator.id)) declared.add(declarator.id.name);
+      });
+    } else if ((t.isFunctionDeclaration(statement) || t.isClassDeclaration(statement)) && statement.id) {
+      declared.add(statement.id.name);
+    } else if (t.isImportDeclaration(statement)) {
+      statement.specifiers.forEach(specifier => declared.add(specifier.local.name));
+    }
+
+    t.traverseFast(statement, node => {
+      if (t.isJSXOpeningElement(node) && t.isJSXIdentifier(node.name) && /^[A-Z]/.test(node.name.name)) {
+        tags.add(node.name.name);
+      }
+    });
+  });
+
+  return Array.from(tags).filter(tag => !declared.has(tag)).sort();
+};
+
+/**
+ * One import per source - repeated sources are merged and repeated names dropped
+ */
+export const mergeImports = (imports: ImportSpec[]): ImportSpec[] => {
+  const bySource = new Map<string, ImportSpec & { names: string[] }>();
+  imports.forEach(spec => {
+    const merged = bySource.get(spec.source) || { source: spec.source, names: [] };
+    merged.defaultName = merged.defaultName || spec.defaultName;
+    (spec.names || []).forEach(name => {
+      const local = name.split(/\s+as\s+/).pop();
+      if (!merged.names.some(existing => existing.split(/\s+as\s+/).pop() === local)) {
+        merged.names.push(name);
+      }
+    });
+    bySource.set(spec.source, merged);
+  });
+  return Array.from(bySource.values());
+};
+
+const importStatement = (spec: ImportSpec): t.ImportDeclaration => {
+  const specifiers: (t.ImportDefaultSpecifier | t.ImportSpecifier)[] = [];
+  if (spec.defaultName) {
+    specifiers.push(t.importDefaultSpecifier(t.identifier(spec.defaultName)));
+  }
+  (spec.names || []).forEach(name => {
+    const [imported, local = imported] = name.split(/\s+as\s+/);
+    specifiers.push(t.importSpecifier(t.identifier(local), t.identifier(imported)));
+  });
+  return t.importDeclaration(specifiers, t.stringLiteral(spec.source));
+};
+
+// Top-level statements are printed one by one so the formatter keeps a blank line between them
+const printStatements = (statements: t.Statement[]): string =>
+  statements.map(statement => generate(t.program([statement]), { jsescOption: { minimal: true } }).code).join('\n\n');
+
+const format = (code: string): string => prettier.format(code, FORMAT_OPTIONS);
+
+const toStatements = (declaration: ComponentDeclaration | string): t.Statement[] =>
+  typeof declaration === 'string' ? parseStatements(declaration) : declarationStatements(declaration);
+
+/**
+ * Print declarations without imports - e.g. a registry component that's later included in a module
+ */
+export const printDeclarations = (declarations: (ComponentDeclaration | string)[]): string =>
+  format(printStatements(declarations.flatMap(toStatements)));
+
+/**
+ * Print a whole module: merged imports, declarations and exports, formatted
+ */
+export const printModule = (spec: ModuleSpec): string => {
+  const declarations = spec.declarations.flatMap(toStatements);
+  const imports = mergeImports([
+    ...(spec.imports || []),
+    ...(spec.resolveImports ? spec.resolveImports(undeclaredTags(declarations)) : [])
+  ]);
+
+  const exports: t.Statement[] = [];
+  if (spec.namedExports?.length) {
+    exports.push(t.exportNamedDeclaration(null, spec.namedExports.map(name => t.exportSpecifier(t.identifier(name), t.identifier(name)))));
+  }
+  if (spec.defaultExport) {
+    exports.push(t.exportDefaultDeclaration(t.identifier(spec.defaultExport)));
+  }
+
+  // Imports stay together; everything else is separated by blank lines
+  const importBlock = generate(t.program(imports.map(importStatement))).code;
+  return format([importBlock, printStatements(declarations), printStatements(exports)].filter(Boolean).join('\n\n'));
+};
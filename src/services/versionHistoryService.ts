@@ -0,0 +1,127 @@
+/**
+ * A screen's code versions, from its vibe_sessions. Every session that produced code is a version,
+ * numbered in the order they were created; reverting records a new version rather than dropping the
+ * ones after it, so the timeline only ever grows.
+ */
+
+// The vibe_sessions columns the timeline reads
+export interface VersionSession {
+  id: string;
+  session_type: string;
+  user_prompt?: string;
+  ai_response?: string;
+  generated_code?: string;
+  is_accepted: boolean;
+  milestone_label?: string | null;
+  reverted_to_session_id?: string | null;
+  created_at: string;
+}
+
+export interface LineChanges {
+  added: number;
+  removed: number;
+}
+
+export interface ScreenVersion {
+  number: number; // v1, v2, ... in order of creation
+  sessionId: string;
+  sessionType: string;
+  code: string;
+  summary: string; // The prompt, or the response for generated versions
+  label?: string; // Milestone name
+  revertedTo?: number; // For reverts: the version that was restored
+  isAccepted: boolean;
+  isCurrent: boolean; // The screen's current_code is this version
+  changes: LineChanges; // Against the previous version
+  createdAt: string;
+}
+
+export interface VersionTimeline {
+  versions: ScreenVersion[]; // Oldest first
+  currentIsSaved: boolean; // False when current_code was changed outside a session, e.g. by "Store images"
+}
+
+// Above this many line pairs the diff counts lines instead of aligning them - close enough for a badge
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+const SESSION_TYPE_LABELS: Record<string, string> = {
+  initial_generation: 'Generated',
+  iteration: 'Iteration',
+  refinement: 'Refinement',
+  chat: 'Chat edit',
+  revert: 'Revert',
+  snapshot: 'Snapshot',
+  fork: 'Fork',
+  merge: 'Merge'
+};
+
+export const sessionTypeLabel = (sessionType: string): string => SESSION_TYPE_LABELS[sessionType] || sessionType;
+
+const lines = (code: string) => (code ? code.split('\n') : []);
+
+/**
+ * Lines added and removed going from `before` to `after`, from their longest common subsequence
+ */
+export const lineChanges = (before: string, after: string): LineChanges => {
+  const a = lines(before);
+  const b = lines(after);
+
+  if (a.length * b.length > MAX_ALIGNED_CELLS) {
+    const remaining = new Map<string, number>();
+    a.forEach(line => remaining.set(line, (remaining.get(line) || 0) + 1));
+    let common = 0;
+    b.forEach(line => {
+      const count = remaining.get(line) || 0;
+      if (count > 0) {
+        common++;
+        remaining.set(line, count - 1);
+      }
+    });
+    return { added: b.length - common, removed: a.length - common };
+  }
+
+  let previous = new Uint32Array(b.length + 1);
+  let row = new Uint32Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], row[j - 1]);
+    }
+    [previous, row] = [row, previous];
+  }
+  const common = previous[b.length];
+  return { added: b.length - common, removed: a.length - common };
+};
+
+class VersionHistoryService {
+
+  /**
+   * The versions of a screen whose code is `currentCode`. Sessions may come in any order.
+   */
+  buildTimeline(sessions: VersionSession[], currentCode = ''): VersionTimeline {
+    const withCode = sessions
+      .filter((session): session is VersionSession & { generated_code: string } => !!session.generated_code)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const numberOf = new Map(withCode.map((session, index) => [session.id, index + 1]));
+
+    // Several versions can hold the same code (a revert and the version it restored) - the newest is current
+    const currentIndex = withCode.map(session => session.generated_code).lastIndexOf(currentCode);
+
+    const versions = withCode.map((session, index): ScreenVersion => ({
+      number: index + 1,
+      sessionId: session.id,
+      sessionType: session.session_type,
+      code: session.generated_code,
+      summary: (session.user_prompt || session.ai_response || '').trim(),
+      label: session.milestone_label || undefined,
+      revertedTo: session.reverted_to_session_id ? numberOf.get(session.reverted_to_session_id) : undefined,
+      isAccepted: session.is_accepted,
+      isCurrent: index === currentIndex,
+      changes: lineChanges(index > 0 ? withCode[index - 1].generated_code : '', session.generated_code),
+      createdAt: session.created_at
+    }));
+
+    return { versions, currentIsSaved: !currentCode || currentIndex >= 0 };
+  }
+}
+
+export default VersionHistoryService;
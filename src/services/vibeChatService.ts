@@ -0,0 +1,190 @@
+import { queryClaude, ClaudeMessage } from './claude';
+import { LLMProvider } from './llmProvider';
+
+export interface VibeChatSession {
+  id: string;
+  session_type: 'initial_generation' | 'iteration' | 'chat' | 'refinement' | 'revert' | 'snapshot' | 'fork' | 'merge';
+  user_prompt?: string;
+  ai_response?: string;
+  generated_code?: string;
+  is_accepted: boolean;
+  created_at: string;
+}
+
+export interface VibeChatScreen {
+  id: string;
+  name: string;
+  original_image_url?: string;
+  current_code?: string;
+}
+
+export interface CodeEditRequest {
+  instruction: string;
+  currentCode: string;
+  history: ClaudeMessage[];
+  referenceImage?: File;
+}
+
+export interface CodeEditResult {
+  explanation: string;
+  code?: string; // Undefined when the model answered without changing code
+  confidence: number;
+  provider: string;
+}
+
+/**
+ * Anything that can turn a chat instruction plus the current code into an edited component
+ */
+export interface CodeEditingProvider {
+  name: string;
+  editCode(request: CodeEditRequest): Promise<CodeEditResult>;
+}
+
+export class ClaudeCodeEditingProvider implements CodeEditingProvider {
+  name = 'claude';
+  private llm?: LLMProvider;
+
+  constructor(llm?: LLMProvider) {
+    this.llm = llm;
+    if (llm) {
+      this.name = llm.model;
+    }
+  }
+
+  async editCode(request: CodeEditRequest): Promise<CodeEditResult> {
+    const prompt = `## CURRENT COMPONENT CODE
+
+\`\`\`tsx
+${request.currentCode || '// No code has been generated for this screen yet'}
+\`\`\`
+
+## REQUEST
+${request.instruction}`;
+
+    const result = await queryClaude({
+      prompt,
+      image: request.referenceImage,
+      mode: 'code-editing',
+      history: request.history,
+      provider: this.llm
+    });
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+
+    return {
+      explanation: extractExplanation(result.content),
+      code: result.content.includes('```') ? result.code : undefined,
+      confidence: extractConfidence(result.content),
+      provider: this.name
+    };
+  }
+}
+
+class VibeChatService {
+  private provider: CodeEditingProvider;
+
+  constructor(provider: CodeEditingProvider = new ClaudeCodeEditingProvider()) {
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Send a chat message for a screen, replaying its prior vibe sessions as conversation history
+   */
+  async sendMessage(
+    screen: VibeChatScreen,
+    sessions: VibeChatSession[],
+    message: string
+  ): Promise<CodeEditResult> {
+    console.log('💬 [VIBE CHAT] Sending message:', {
+      screen: screen.name,
+      priorSessions: sessions.length,
+      provider: this.provider.name
+    });
+
+    const referenceImage = screen.original_image_url
+      ? await this.loadReferenceImage(screen.original_image_url)
+      : undefined;
+
+    const result = await this.provider.editCode({
+      instruction: message,
+      currentCode: screen.current_code || '',
+      history: this.buildHistory(sessions),
+      referenceImage
+    });
+
+    console.log('✅ [VIBE CHAT] Response received:', {
+      hasCode: !!result.code,
+      confidence: result.confidence
+    });
+
+    return result;
+  }
+
+  /**
+   * Convert stored vibe sessions into alternating user/assistant turns, oldest first.
+   * Code is not replayed - the current code is always sent with the new message.
+   */
+  buildHistory(sessions: VibeChatSession[]): ClaudeMessage[] {
+    const history: ClaudeMessage[] = [];
+
+    [...sessions]
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .forEach(session => {
+        if (session.user_prompt) {
+          history.push({ role: 'user', content: session.user_prompt });
+        }
+        if (session.ai_response) {
+          const codeNote = session.generated_code
+            ? session.is_accepted ? '\n\n(Updated code was accepted.)' : '\n\n(Updated code was not accepted.)'
+            : '';
+          history.push({ role: 'assistant', content: `${session.ai_response}${codeNote}` });
+        }
+      });
+
+    return history;
+  }
+
+  /**
+   * Fetch the original screen image so the model can compare against the design
+   */
+  private async loadReferenceImage(imageUrl: string): Promise<File | undefined> {
+    try {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      const blob = await response.blob();
+      return new File([blob], 'original-screen.png', { type: blob.type || 'image/png' });
+    } catch (error) {
+      console.warn('⚠️ [VIBE CHAT] Could not load original image, continuing without it:', error);
+      return undefined;
+    }
+  }
+}
+
+const extractExplanation = (content: string): string => {
+  const explanation = content
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/^\s*CONFIDENCE:.*$/gim, '')
+    .trim();
+
+  return explanation || 'I updated the component based on your request.';
+};
+
+const extractConfidence = (content: string): number => {
+  const match = content.match(/CONFIDENCE:\s*([0-9]*\.?[0-9]+)/i);
+  if (!match) return 0.7;
+
+  const value = parseFloat(match[1]);
+  // Accept both 0-1 and percentage answers
+  const normalized = value > 1 ? value / 100 : value;
+  return Math.max(0, Math.min(1, normalized));
+};
+
+export default VibeChatService;
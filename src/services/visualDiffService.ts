@@ -0,0 +1,405 @@
+import { ThemeOptions } from '@mui/material/styles';
+import { supabaseClient } from '../utility/supabaseClient';
+import { ComponentLibraryProfile } from './componentLibrary';
+import { ComponentAnalysis } from './figmaService';
+import { loadImageData, renderPreviewToImageData } from '../utils/previewCapture';
+
+/**
+ * A part of the screen where the preview and the Figma render differ
+ */
+export interface VisualDiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  mismatch: number; // Share of differing pixels in the region, 0-1
+  ssim: number; // Mean structural similarity in the region, 0-1
+  nodeId?: string; // Smallest Figma node covering the region's center
+  nodeName?: string;
+}
+
+export interface VisualDiffResult {
+  score: number; // Fidelity, 0-1: SSIM and pixel agreement combined
+  ssim: number;
+  pixelMismatch: number; // Share of differing pixels, 0-1
+  width: number; // Compared size, the Figma frame's
+  height: number;
+  renderedSize: { width: number; height: number }; // Size the preview actually rendered at
+  regions: VisualDiffRegion[];
+  heatMapUrl?: string;
+  codeHash: string; // Which code was measured - a diff is stale once the code changes
+  measuredAt: string;
+}
+
+/**
+ * A Figma node in frame coordinates, for naming mismatched regions
+ */
+export interface VisualDiffNode {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VisualDiffRequest {
+  code: string;
+  referenceUrl: string; // The Figma export of the frame
+  width: number; // The frame's size in Figma
+  height: number;
+  themeOptions?: ThemeOptions;
+  library?: ComponentLibraryProfile;
+  nodes?: VisualDiffNode[];
+  storage?: { projectId: string; screenId: string }; // Where to upload the heat map; without it the heat map stays a data URL
+}
+
+// Max YIQ distance between two colors (pixelmatch's scale)
+const MAX_YIQ_DELTA = 35215;
+const PIXEL_THRESHOLD = 0.1; // Share of MAX_YIQ_DELTA below which pixels count as equal (anti-aliasing, subpixel text)
+const SSIM_WINDOW = 8;
+const REGION_CELL = 16;
+const REGION_MIN_MISMATCH = 0.15; // A cell with fewer differing pixels isn't reported
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+const yiq = (data: Uint8ClampedArray, index: number): [number, number, number] => {
+  // Blend over white, like both renders are shown
+  const alpha = data[index + 3] / 255;
+  const r = 255 + (data[index] - 255) * alpha;
+  const g = 255 + (data[index + 1] - 255) * alpha;
+  const b = 255 + (data[index + 2] - 255) * alpha;
+  return [
+    r * 0.29889531 + g * 0.58662247 + b * 0.11448223,
+    r * 0.59597799 - g * 0.2741761 - b * 0.32180189,
+    r * 0.21147017 - g * 0.52261711 + b * 0.31114694
+  ];
+};
+
+const luma = (data: Uint8ClampedArray, index: number): number => yiq(data, index)[0];
+
+/**
+ * Per-pixel difference (0-1, 0 below the threshold) between two same-sized RGBA images
+ */
+export const comparePixels = (
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+  threshold = PIXEL_THRESHOLD
+): { diff: Float32Array; mismatched: number } => {
+  const pixels = a.length / 4;
+  const diff = new Float32Array(pixels);
+  let mismatched = 0;
+
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    const [y1, i1, q1] = yiq(a, pixel * 4);
+    const [y2, i2, q2] = yiq(b, pixel * 4);
+    const delta = (0.5053 * (y1 - y2) ** 2 + 0.299 * (i1 - i2) ** 2 + 0.1957 * (q1 - q2) ** 2) / MAX_YIQ_DELTA;
+    if (delta > threshold) {
+      diff[pixel] = Math.min(1, delta);
+      mismatched++;
+    }
+  }
+
+  return { diff, mismatched };
+};
+
+/**
+ * Structural similarity of the two images' luma, per SSIM_WINDOW-sized block
+ */
+export const computeSsim = (
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+  width: number,
+  height: number
+): { mean: number; blocks: Float32Array; columns: number } => {
+  const columns = Math.ceil(width / SSIM_WINDOW);
+  const rows = Math.ceil(height / SSIM_WINDOW);
+  const blocks = new Float32Array(columns * rows);
+  let total = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0, count = 0;
+      for (let y = row * SSIM_WINDOW; y < Math.min(height, (row + 1) * SSIM_WINDOW); y++) {
+        for (let x = column * SSIM_WINDOW; x < Math.min(width, (column + 1) * SSIM_WINDOW); x++) {
+          const index = (y * width + x) * 4;
+          const la = luma(a, index);
+          const lb = luma(b, index);
+          sumA += la;
+          sumB += lb;
+          sumAA += la * la;
+          sumBB += lb * lb;
+          sumAB += la * lb;
+          count++;
+        }
+      }
+
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      const ssim = ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+
+      blocks[row * columns + column] = Math.max(0, ssim);
+      total += Math.max(0, ssim);
+    }
+  }
+
+  return { mean: blocks.length > 0 ? total / blocks.length : 1, blocks, columns };
+};
+
+/**
+ * Group differing pixels into regions: cells over REGION_MIN_MISMATCH, merged with their neighbours
+ */
+export const findRegions = (
+  diff: Float32Array,
+  ssim: { blocks: Float32Array; columns: number },
+  width: number,
+  height: number,
+  nodes: VisualDiffNode[] = []
+): VisualDiffRegion[] => {
+  const columns = Math.ceil(width / REGION_CELL);
+  const rows = Math.ceil(height / REGION_CELL);
+  const cellMismatch = new Float32Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let mismatched = 0, count = 0;
+      for (let y = row * REGION_CELL; y < Math.min(height, (row + 1) * REGION_CELL); y++) {
+        for (let x = column * REGION_CELL; x < Math.min(width, (column + 1) * REGION_CELL); x++) {
+          if (diff[y * width + x] > 0) mismatched++;
+          count++;
+        }
+      }
+      cellMismatch[row * columns + column] = mismatched / count;
+    }
+  }
+
+  const visited = new Uint8Array(columns * rows);
+  const regions: VisualDiffRegion[] = [];
+
+  for (let start = 0; start < cellMismatch.length; start++) {
+    if (visited[start] || cellMismatch[start] < REGION_MIN_MISMATCH) continue;
+
+    // Flood fill over neighbouring cells that also differ
+    const cells: number[] = [];
+    const queue = [start];
+    visited[start] = 1;
+    let cell: number | undefined;
+    while ((cell = queue.pop()) !== undefined) {
+      cells.push(cell);
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      [[column - 1, row], [column + 1, row], [column, row - 1], [column, row + 1]].forEach(([c, r]) => {
+        const neighbour = r * columns + c;
+        if (c >= 0 && c < columns && r >= 0 && r < rows && !visited[neighbour] && cellMismatch[neighbour] >= REGION_MIN_MISMATCH) {
+          visited[neighbour] = 1;
+          queue.push(neighbour);
+        }
+      });
+    }
+
+    const cellColumns = cells.map(cell => cell % columns);
+    const cellRows = cells.map(cell => Math.floor(cell / columns));
+    const x = Math.min(...cellColumns) * REGION_CELL;
+    const y = Math.min(...cellRows) * REGION_CELL;
+    const right = Math.min(width, (Math.max(...cellColumns) + 1) * REGION_CELL);
+    const bottom = Math.min(height, (Math.max(...cellRows) + 1) * REGION_CELL);
+
+    let mismatched = 0, ssimTotal = 0, ssimCount = 0;
+    for (let py = y; py < bottom; py++) {
+      for (let px = x; px < right; px++) {
+        if (diff[py * width + px] > 0) mismatched++;
+      }
+    }
+    for (let by = Math.floor(y / SSIM_WINDOW); by < Math.ceil(bottom / SSIM_WINDOW); by++) {
+      for (let bx = Math.floor(x / SSIM_WINDOW); bx < Math.ceil(right / SSIM_WINDOW); bx++) {
+        ssimTotal += ssim.blocks[by * ssim.columns + bx];
+        ssimCount++;
+      }
+    }
+
+    const centerX = (x + right) / 2;
+    const centerY = (y + bottom) / 2;
+    const node = nodes
+      .filter(candidate => centerX >= candidate.x && centerX <= candidate.x + candidate.width &&
+        centerY >= candidate.y && centerY <= candidate.y + candidate.height)
+      .sort((first, second) => first.width * first.height - second.width * second.height)[0];
+
+    regions.push({
+      x,
+      y,
+      width: right - x,
+      height: bottom - y,
+      mismatch: mismatched / ((right - x) * (bottom - y)),
+      ssim: ssimCount > 0 ? ssimTotal / ssimCount : 1,
+      nodeId: node?.id,
+      nodeName: node?.name
+    });
+  }
+
+  // Largest differences first
+  return regions.sort((first, second) => second.mismatch * second.width * second.height - first.mismatch * first.width * first.height);
+};
+
+/**
+ * The Figma render, faded to grey, with differing pixels in red (stronger for larger differences)
+ */
+export const renderHeatMap = (reference: Uint8ClampedArray, diff: Float32Array): Uint8ClampedArray => {
+  const output = new Uint8ClampedArray(reference.length);
+  for (let pixel = 0; pixel < diff.length; pixel++) {
+    const index = pixel * 4;
+    const grey = 255 - (255 - luma(reference, index)) * 0.3;
+    const heat = diff[pixel] > 0 ? 0.35 + 0.65 * diff[pixel] : 0;
+    output[index] = grey + (255 - grey) * heat;
+    output[index + 1] = grey * (1 - heat);
+    output[index + 2] = grey * (1 - heat);
+    output[index + 3] = 255;
+  }
+  return output;
+};
+
+/**
+ * Combine structural and pixel agreement into one fidelity score
+ */
+export const fidelityScore = (ssim: number, pixelMismatch: number): number =>
+  Math.round((0.6 * ssim + 0.4 * (1 - pixelMismatch)) * 1000) / 1000;
+
+/**
+ * The screen frame's size and its nodes in frame coordinates. Picks the frame the generator renders:
+ * `frameId` (the screen's own frame), else the first large, non-internal top-level frame.
+ */
+export const frameGeometry = (
+  components: ComponentAnalysis[],
+  frameId?: string
+): { width: number; height: number; nodes: VisualDiffNode[] } | null => {
+  const frames = components.filter(component =>
+    component.type === 'FRAME' &&
+    !component.properties.styling?.layoutChild?.parentId &&
+    component.bounds.width > 200 && component.bounds.height > 200 &&
+    !component.name.startsWith('_') && !component.name.startsWith('.')
+  );
+  const frame = frames.find(component => component.id === frameId) || frames[0];
+  if (!frame) {
+    return null;
+  }
+
+  const nodes = components
+    .filter(component => component.id !== frame.id)
+    .map(component => ({
+      id: component.id,
+      name: component.name,
+      x: component.bounds.x - frame.bounds.x,
+      y: component.bounds.y - frame.bounds.y,
+      width: component.bounds.width,
+      height: component.bounds.height
+    }))
+    .filter(node => node.x < frame.bounds.width && node.y < frame.bounds.height && node.x + node.width > 0 && node.y + node.height > 0);
+
+  return { width: frame.bounds.width, height: frame.bounds.height, nodes };
+};
+
+export const fidelityColor = (score: number): 'success' | 'warning' | 'error' =>
+  score >= 0.9 ? 'success' : score >= 0.75 ? 'warning' : 'error';
+
+/**
+ * Short hash of generated code, to tell whether a stored diff still describes the current code
+ */
+export const hashCode = (code: string): string => {
+  let hash = 5381;
+  for (let index = 0; index < code.length; index++) {
+    hash = ((hash << 5) + hash + code.charCodeAt(index)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Renders generated code off-screen and scores it against the Figma export of the frame
+ */
+class VisualDiffService {
+  async measure(request: VisualDiffRequest): Promise<VisualDiffResult> {
+    const { width, height } = request;
+    console.log('🔍 [VISUAL DIFF] Measuring fidelity:', { width, height, codeLength: request.code.length });
+
+    const [rendered, reference] = await Promise.all([
+      renderPreviewToImageData(request.code, {
+        width,
+        height,
+        themeOptions: request.themeOptions,
+        library: request.library
+      }),
+      loadImageData(request.referenceUrl, width, height)
+    ]);
+
+    const { diff, mismatched } = comparePixels(reference.data, rendered.image.data);
+    const ssim = computeSsim(reference.data, rendered.image.data, width, height);
+    const regions = findRegions(diff, ssim, width, height, request.nodes);
+    const pixelMismatch = mismatched / (width * height);
+
+    const heatMap = new ImageData(renderHeatMap(reference.data, diff), width, height);
+    const heatMapUrl = await this.storeHeatMap(heatMap, request.storage);
+
+    const result: VisualDiffResult = {
+      score: fidelityScore(ssim.mean, pixelMismatch),
+      ssim: Math.round(ssim.mean * 1000) / 1000,
+      pixelMismatch: Math.round(pixelMismatch * 1000) / 1000,
+      width,
+      height,
+      renderedSize: rendered.size,
+      regions: regions.slice(0, 20),
+      heatMapUrl,
+      codeHash: hashCode(request.code),
+      measuredAt: new Date().toISOString()
+    };
+    console.log('✅ [VISUAL DIFF] Fidelity measured:', {
+      score: result.score,
+      ssim: result.ssim,
+      pixelMismatch: result.pixelMismatch,
+      regions: regions.length
+    });
+    return result;
+  }
+
+  /**
+   * Upload the heat map to Storage (screen-images, under the user's folder like screen uploads). Without a
+   * location it's kept as a data URL for display only; a failed upload leaves the result without a heat map.
+   */
+  private async storeHeatMap(
+    heatMap: ImageData,
+    storage?: { projectId: string; screenId: string }
+  ): Promise<string | undefined> {
+    const canvas = document.createElement('canvas');
+    canvas.width = heatMap.width;
+    canvas.height = heatMap.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is unavailable');
+    context.putImageData(heatMap, 0, 0);
+
+    if (!storage) {
+      return canvas.toDataURL('image/png');
+    }
+
+    try {
+      const { data: { user } } = await supabaseClient.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not encode the heat map');
+
+      const filePath = `${user.id}/${storage.projectId}/visual-diffs/${storage.screenId}-${Date.now()}.png`;
+      const { error } = await supabaseClient.storage
+        .from('screen-images')
+        .upload(filePath, blob, { contentType: 'image/png' });
+      if (error) throw error;
+
+      return supabaseClient.storage.from('screen-images').getPublicUrl(filePath).data.publicUrl;
+    } catch (error) {
+      console.warn('⚠️ [VISUAL DIFF] Heat map upload failed:', error);
+      return undefined;
+    }
+  }
+}
+
+export default VisualDiffService;
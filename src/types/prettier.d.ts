@@ -0,0 +1,19 @@
+// prettier 2 ships without type declarations - only the standalone formatter is used, for generated code
+declare module 'prettier/standalone' {
+  interface FormatOptions {
+    parser: string;
+    plugins: unknown[];
+    singleQuote?: boolean;
+    printWidth?: number;
+    trailingComma?: 'none' | 'es5' | 'all';
+  }
+  const prettier: {
+    format(source: string, options: FormatOptions): string;
+  };
+  export default prettier;
+}
+
+declare module 'prettier/parser-babel' {
+  const parserBabel: unknown;
+  export default parserBabel;
+}
@@ -0,0 +1,116 @@
+/**
+ * Screenshot a DOM element without extra dependencies: the element is cloned with its computed
+ * styles inlined and its images embedded, wrapped in an SVG <foreignObject> and drawn on a canvas.
+ * Web fonts aren't embedded, so text renders with whatever the SVG image can resolve locally.
+ */
+
+export interface CaptureOptions {
+  width: number; // Canvas size - the element is drawn top-left and cropped or padded to it
+  height: number;
+  background?: string;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Fetch an image as a data URL, or '' when it can't be read (e.g. no CORS) so it renders empty
+ */
+const toDataUrl = async (url: string, cache: Map<string, Promise<string>>): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = fetch(url, { mode: 'cors' })
+      .then(response => {
+        if (!response.ok) throw new Error(`${response.status}`);
+        return response.blob();
+      })
+      .then(blobToDataUrl)
+      .catch(error => {
+        console.warn('📷 [DOM CAPTURE] Could not embed image:', url, error);
+        return '';
+      });
+    cache.set(url, pending);
+  }
+  return pending;
+};
+
+/**
+ * Copy every computed style of `source` and its descendants onto the matching nodes of `target`
+ */
+const inlineStyles = (source: Element, target: Element) => {
+  const computed = window.getComputedStyle(source);
+  target.setAttribute('style', Array.from(computed)
+    .map(property => `${property}:${computed.getPropertyValue(property)};`)
+    .join(''));
+
+  Array.from(source.children).forEach((child, index) => {
+    const targetChild = target.children[index];
+    if (targetChild) {
+      inlineStyles(child, targetChild);
+    }
+  });
+};
+
+const embedImages = async (root: Element) => {
+  const cache = new Map<string, Promise<string>>();
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))];
+
+  await Promise.all(elements.map(async element => {
+    if (element instanceof HTMLImageElement && element.src) {
+      element.src = await toDataUrl(element.src, cache);
+      element.removeAttribute('srcset');
+    }
+
+    const style = element.getAttribute('style') || '';
+    const urls = Array.from(style.matchAll(/url\(["']?(https?:[^"')]+)["']?\)/g), match => match[1]);
+    if (urls.length > 0) {
+      let embedded = style;
+      for (const url of urls) {
+        const dataUrl = await toDataUrl(url, cache);
+        embedded = embedded.split(url).join(dataUrl);
+      }
+      element.setAttribute('style', embedded);
+    }
+  }));
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The captured element could not be drawn'));
+    image.src = src;
+  });
+
+/**
+ * Draw `element` onto a canvas of the given size
+ */
+export const captureElement = async (element: HTMLElement, options: CaptureOptions): Promise<HTMLCanvasElement> => {
+  const { width, height, background = '#ffffff' } = options;
+
+  const clone = element.cloneNode(true) as HTMLElement;
+  inlineStyles(element, clone);
+  await embedImages(clone);
+  clone.style.margin = '0';
+
+  const xhtml = new XMLSerializer().serializeToString(clone);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${xhtml}</foreignObject></svg>`;
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is unavailable');
+  context.fillStyle = background;
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0);
+  return canvas;
+};
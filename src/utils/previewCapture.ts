@@ -0,0 +1,113 @@
+import { ThemeOptions } from '@mui/material/styles';
+import { ComponentLibraryProfile } from '../services/componentLibrary';
+import {
+  isSandboxData,
+  SANDBOX_PERMISSIONS,
+  SANDBOX_URL,
+  SandboxRenderRequest,
+  withChannel
+} from '../sandbox/protocol';
+
+export interface PreviewCaptureOptions {
+  width: number;
+  height: number;
+  themeOptions?: ThemeOptions;
+  library?: ComponentLibraryProfile;
+  timeoutMs?: number;
+}
+
+/**
+ * Render generated code in an off-screen sandbox frame of width x height and capture it there. The
+ * frame posts back the pixels, so the code never runs in the studio's page.
+ */
+export const renderPreviewToImageData = (
+  code: string,
+  options: PreviewCaptureOptions
+): Promise<{ image: ImageData; size: { width: number; height: number } }> => {
+  const { width, height, timeoutMs = 10000 } = options;
+  const request: SandboxRenderRequest = {
+    type: 'render',
+    id: 1,
+    code,
+    // Only plain data can be posted - functions in the theme are dropped
+    themeOptions: options.themeOptions ? JSON.parse(JSON.stringify(options.themeOptions)) : undefined,
+    libraryId: options.library?.id,
+    capture: { width, height }
+  };
+
+  const frame = document.createElement('iframe');
+  frame.src = SANDBOX_URL;
+  frame.title = 'Preview capture';
+  frame.setAttribute('sandbox', SANDBOX_PERMISSIONS);
+  Object.assign(frame.style, {
+    position: 'fixed',
+    left: '-100000px',
+    top: '0',
+    width: `${width}px`,
+    height: `${height}px`,
+    border: '0',
+    pointerEvents: 'none'
+  });
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+      frame.remove();
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error('The preview did not render in time'));
+    }, timeoutMs);
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow || !isSandboxData(event.data)) return;
+      const message = event.data;
+
+      if (message.type === 'ready') {
+        // The frame's origin is opaque, so it can't be named as the target
+        frame.contentWindow?.postMessage(withChannel(request), '*');
+        return;
+      }
+      if (message.type === 'render' || message.id !== request.id) return;
+
+      finish();
+      if (message.type === 'error') {
+        reject(new Error(`The preview failed to render: ${message.message}`));
+      } else if (!message.image) {
+        reject(new Error('The preview sandbox did not send a capture'));
+      } else {
+        resolve({ image: message.image, size: message.size });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    document.body.appendChild(frame);
+  });
+};
+
+/**
+ * Load an image (e.g. the Figma export) scaled to `width`, on white, cropped or padded to `height`
+ */
+export const loadImageData = async (url: string, width: number, height: number): Promise<ImageData> => {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) {
+    throw new Error(`Could not load the Figma render (${response.status})`);
+  }
+  const bitmap = await createImageBitmap(await response.blob());
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is unavailable');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, bitmap.height * (width / bitmap.width));
+  bitmap.close();
+
+  return context.getImageData(0, 0, width, height);
+};
@@ -0,0 +1,528 @@
+import { parse, ParseResult } from '@babel/parser';
+import * as t from '@babel/types';
+import { transform } from 'sucrase';
+
+/**
+ * Loads generated TSX modules into react-live. The source is parsed, not pattern-matched: imports are
+ * resolved against the modules the preview allows, exports are unwrapped, the exported component is
+ * found and rendered, and the result is transpiled. Problems come back as diagnostics with line/column.
+ */
+
+// Import source -> its exports. `default` is the default export.
+export type PreviewModules = Record<string, Record<string, unknown>>;
+
+export interface PreviewDiagnostic {
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  endColumn: number;
+}
+
+export interface PreviewModule {
+  code: string; // Transpiled, ready for react-live's noInline mode
+  componentName: string;
+  exports: string[];
+}
+
+export interface PreviewModuleOptions {
+  modules: PreviewModules;
+  // The render call, in TSX. Defaults to `render(<Component />);`. `exports` maps exported names to local ones.
+  render?: (componentName: string, exports: Record<string, string>) => string;
+  guardLoops?: boolean; // Stop loops that block the page - previewScope provides the guard
+}
+
+export interface ComponentDefinition {
+  name: string;
+  code: string; // The declaration's source, without `export`
+}
+
+// Imports are rewritten to calls of this, which previewScope provides
+const PREVIEW_IMPORT = '__previewImport';
+const LOOP_GUARD = '__previewLoopGuard';
+const LOOP_BUDGET_MS = 1000;
+const PREVIEW_DEFAULT = '__PreviewDefault';
+const MAX_DIAGNOSTICS_IN_MESSAGE = 5;
+
+/**
+ * A module that couldn't be loaded. The message lists the diagnostics with the offending lines.
+ */
+export class PreviewModuleError extends Error {
+  readonly diagnostics: PreviewDiagnostic[];
+
+  constructor(diagnostics: PreviewDiagnostic[], source: string) {
+    super(formatDiagnostics(diagnostics, source));
+    this.name = 'PreviewModuleError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Deep imports of an allowed package (`@mui/icons-material/Search`) resolve to that export as a default
+ */
+export const resolvePreviewModule = (modules: PreviewModules, source: string): Record<string, unknown> | undefined => {
+  if (modules[source]) return modules[source];
+
+  const packageName = Object.keys(modules)
+    .filter(name => source.startsWith(`${name}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  const exportName = packageName && source.slice(packageName.length + 1);
+  if (packageName && exportName && !exportName.includes('/') && modules[packageName][exportName] !== undefined) {
+    return { default: modules[packageName][exportName] };
+  }
+  return undefined;
+};
+
+/**
+ * react-live scope for compiled modules. `globals` stay available to code that doesn't import them.
+ */
+export const previewScope = (modules: PreviewModules, globals: Record<string, unknown> = {}): Record<string, unknown> => ({
+  ...globals,
+  [PREVIEW_IMPORT]: (source: string) => resolvePreviewModule(modules, source),
+  [LOOP_GUARD]: createLoopGuard()
+});
+
+/**
+ * Called on every iteration of a guarded loop. Throws once a loop has run for `budgetMs`
+ * without the page getting a chance to do anything else.
+ */
+export const createLoopGuard = (budgetMs = LOOP_BUDGET_MS) => {
+  const started = new Map<number, number>();
+
+  return (line: number) => {
+    const now = Date.now();
+    const start = started.get(line);
+    if (start === undefined) {
+      started.set(line, now);
+      // Microtasks only run once the synchronous code the loop is part of has finished
+      queueMicrotask(() => started.delete(line));
+    } else if (now - start > budgetMs) {
+      started.delete(line);
+      throw new Error(`The loop on line ${line} ran for more than ${budgetMs / 1000}s - the preview stopped it`);
+    }
+  };
+};
+
+/**
+ * Compile generated TSX for the live preview. Throws PreviewModuleError when it doesn't parse,
+ * imports something the preview doesn't provide or has no component to render.
+ */
+export const compilePreviewModule = (source: string, options: PreviewModuleOptions): PreviewModule => {
+  const ast = parseModule(source);
+  const diagnostics: PreviewDiagnostic[] = [];
+  const edits: Edit[] = [];
+  const exports: string[] = [];
+  const exportBindings: Record<string, string> = {};
+  const components: string[] = [];
+  const valueNames = collectValueNames(ast.program);
+  let defaultName: string | undefined;
+  let hasRenderCall = false;
+
+  ast.program.body.forEach(statement => {
+    if (t.isImportDeclaration(statement)) {
+      edits.push(replace(statement, importStatement(statement, options.modules, valueNames, diagnostics)));
+      return;
+    }
+
+    if (t.isExportDefaultDeclaration(statement)) {
+      const declaration = statement.declaration;
+      if (t.isIdentifier(declaration)) {
+        defaultName = declaration.name;
+        edits.push(replace(statement, ''));
+      } else if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        defaultName = declaration.id.name;
+        edits.push(replace(statement, '', startOf(declaration)));
+      } else {
+        defaultName = PREVIEW_DEFAULT;
+        edits.push(replace(statement, `const ${PREVIEW_DEFAULT} = `, startOf(declaration)));
+      }
+      exports.push('default');
+      exportBindings.default = defaultName;
+      return;
+    }
+
+    if (t.isExportNamedDeclaration(statement)) {
+      if (statement.source) {
+        diagnostics.push(diagnosticAt(statement, 'Re-exports aren\'t supported in the preview - import and export the component instead'));
+      } else if (statement.declaration) {
+        if (statement.exportKind !== 'type') {
+          declaredNames(statement.declaration).forEach(name => {
+            exports.push(name);
+            exportBindings[name] = name;
+          });
+        }
+        edits.push(replace(statement, '', startOf(statement.declaration)));
+      } else {
+        statement.specifiers.forEach(specifier => {
+          if (!t.isExportSpecifier(specifier) || statement.exportKind === 'type' || specifier.exportKind === 'type') return;
+          const exported = t.isIdentifier(specifier.exported) ? specifier.exported.name : specifier.exported.value;
+          if (exported === 'default') {
+            defaultName = specifier.local.name;
+          }
+          exports.push(exported === 'default' ? 'default' : specifier.local.name);
+          exportBindings[exported] = specifier.local.name;
+        });
+        edits.push(replace(statement, ''));
+      }
+      return;
+    }
+
+    if (t.isExportAllDeclaration(statement)) {
+      diagnostics.push(diagnosticAt(statement, 'Re-exports aren\'t supported in the preview - import and export the component instead'));
+      return;
+    }
+
+    if (t.isExpressionStatement(statement) && t.isCallExpression(statement.expression) &&
+        t.isIdentifier(statement.expression.callee, { name: 'render' })) {
+      hasRenderCall = true;
+    }
+  });
+
+  ast.program.body.forEach(statement => {
+    const declaration = t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+      ? statement.declaration
+      : statement;
+    if (declaration && isComponentDeclaration(declaration)) {
+      components.push(...declaredNames(declaration));
+    }
+  });
+
+  if (options.guardLoops) {
+    edits.push(...loopGuards(ast.program));
+  }
+
+  const componentName = defaultName ||
+    [...exports].reverse().find(name => components.includes(name)) ||
+    components[components.length - 1];
+
+  if (!componentName && !hasRenderCall) {
+    diagnostics.push({
+      message: 'No component to render - export one as default, e.g. `export default function Screen() { ... }`',
+      line: 1,
+      column: 1,
+      endLine: 1,
+      endColumn: 1
+    });
+  }
+  if (diagnostics.length > 0) {
+    throw new PreviewModuleError(diagnostics, source);
+  }
+
+  const renderCall = hasRenderCall || !componentName
+    ? ''
+    : options.render
+      ? options.render(componentName, exportBindings)
+      : `render(<${componentName} />);`;
+  const code = transpile(`${applyEdits(source, edits)}\n\n${renderCall}`, source);
+
+  // react-live passes the scope as function parameters - the block lets module bindings shadow them
+  return {
+    code: `{${code}\n}`,
+    componentName: componentName || '',
+    exports
+  };
+};
+
+/**
+ * Run a module and return its exports, so other modules can import it - e.g. the screens of a routed app.
+ * Throws PreviewModuleError like compilePreviewModule, and whatever the module throws while it runs.
+ */
+export const evaluatePreviewModule = (
+  source: string,
+  options: PreviewModuleOptions,
+  globals: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  let exported: Record<string, unknown> = {};
+  const compiled = compilePreviewModule(source, {
+    ...options,
+    render: (_, bindings) => `render({ ${Object.entries(bindings).map(([name, local]) => `${JSON.stringify(name)}: ${local}`).join(', ')} });`
+  });
+  const scope = previewScope(options.modules, {
+    ...globals,
+    render: (value: Record<string, unknown>) => {
+      exported = value;
+    }
+  });
+  new Function(...Object.keys(scope), compiled.code)(...Object.values(scope));
+  return exported;
+};
+
+/**
+ * Problems in the source without compiling it, e.g. for editor markers
+ */
+export const diagnosePreviewModule = (source: string, options: PreviewModuleOptions): PreviewDiagnostic[] => {
+  try {
+    compilePreviewModule(source, options);
+    return [];
+  } catch (error) {
+    if (error instanceof PreviewModuleError) return error.diagnostics;
+    throw error;
+  }
+};
+
+/**
+ * The top-level component declarations in a module, in source order. Empty when it doesn't parse.
+ */
+export const findComponentDefinitions = (source: string): ComponentDefinition[] => {
+  let ast: ParseResult<t.File>;
+  try {
+    ast = parseModule(source);
+  } catch {
+    return [];
+  }
+
+  return ast.program.body.flatMap(statement => {
+    const declaration = t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+      ? statement.declaration
+      : statement;
+    if (!declaration || !isComponentDeclaration(declaration)) return [];
+
+    const code = source.slice(startOf(declaration), endOf(declaration));
+    return declaredNames(declaration).map(name => ({ name, code }));
+  });
+};
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Parsed nodes always have positions
+const startOf = (node: t.Node): number => node.start ?? 0;
+const endOf = (node: t.Node): number => node.end ?? 0;
+
+// `end` replaces only up to there, keeping the rest of the node
+const replace = (node: t.Node, text: string, end = endOf(node)): Edit => ({ start: startOf(node), end, text });
+
+/**
+ * A guard call at the start of every loop body. Bodies without braces get them.
+ */
+const loopGuards = (program: t.Program): Edit[] => {
+  const edits: Edit[] = [];
+  t.traverseFast(program, node => {
+    if (!t.isLoop(node)) return;
+
+    const guard = `${LOOP_GUARD}(${node.loc?.start.line ?? 0});`;
+    const body = node.body;
+    if (t.isBlockStatement(body)) {
+      edits.push({ start: startOf(body) + 1, end: startOf(body) + 1, text: guard });
+    } else {
+      edits.push({ start: startOf(body), end: startOf(body), text: `{${guard} ` });
+      edits.push({ start: endOf(body), end: endOf(body), text: '}' });
+    }
+  });
+  return edits;
+};
+
+const parseModule = (source: string): ParseResult<t.File> => {
+  let ast: ParseResult<t.File>;
+  try {
+    ast = parse(source, { sourceType: 'module', plugins: ['jsx', 'typescript'], errorRecovery: true });
+  } catch (error) {
+    throw new PreviewModuleError([syntaxDiagnostic(error)], source);
+  }
+  if (ast.errors && ast.errors.length > 0) {
+    throw new PreviewModuleError(ast.errors.map(syntaxDiagnostic), source);
+  }
+  return ast;
+};
+
+// Babel errors carry a 0-based column in `loc` and repeat the position at the end of the message
+const syntaxDiagnostic = (error: unknown): PreviewDiagnostic => {
+  const loc = error instanceof Object && 'loc' in error ? (error.loc as { line?: number; column?: number } | undefined) : undefined;
+  const line = loc?.line ?? 1;
+  const column = (loc?.column ?? 0) + 1;
+  const message = errorMessage(error).replace(/\s*\(\d+:\d+\)$/, '');
+  return { message, line, column, endLine: line, endColumn: column + 1 };
+};
+
+const diagnosticAt = (node: t.Node, message: string): PreviewDiagnostic => ({
+  message,
+  line: node.loc?.start.line ?? 1,
+  column: (node.loc?.start.column ?? 0) + 1,
+  endLine: node.loc?.end.line ?? 1,
+  endColumn: (node.loc?.end.column ?? 0) + 1
+});
+
+/**
+ * `const { default: React, useState } = __previewImport("react");` in place of an import.
+ * Names the module doesn't export are an error only when they're used as values - otherwise they're types.
+ */
+const importStatement = (
+  statement: t.ImportDeclaration,
+  modules: PreviewModules,
+  valueNames: Set<string>,
+  diagnostics: PreviewDiagnostic[]
+): string => {
+  const source = statement.source.value;
+  const specifiers = statement.specifiers.filter(specifier =>
+    statement.importKind !== 'type' && !(t.isImportSpecifier(specifier) && specifier.importKind === 'type')
+  );
+  if (statement.importKind === 'type' || (statement.specifiers.length > 0 && specifiers.length === 0)) {
+    return '';
+  }
+
+  const module = resolvePreviewModule(modules, source);
+  if (!module) {
+    diagnostics.push(diagnosticAt(
+      statement.source,
+      `Cannot import '${source}' in the preview. Available: ${Object.keys(modules).join(', ')}`
+    ));
+    return '';
+  }
+  if (specifiers.length === 0) {
+    return ''; // Side-effect import, e.g. a stylesheet
+  }
+
+  const namespace = specifiers.find(specifier => t.isImportNamespaceSpecifier(specifier));
+  const bindings: string[] = [];
+  specifiers.forEach(specifier => {
+    if (t.isImportNamespaceSpecifier(specifier)) return;
+
+    const imported = t.isImportDefaultSpecifier(specifier)
+      ? 'default'
+      : t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+    const local = specifier.local.name;
+    if (module[imported] === undefined) {
+      if (valueNames.has(local)) {
+        diagnostics.push(diagnosticAt(
+          specifier,
+          imported === 'default' ? `'${source}' has no default export` : `'${source}' has no export named '${imported}'`
+        ));
+      }
+      return;
+    }
+    const key = t.isValidIdentifier(imported, false) ? imported : JSON.stringify(imported);
+    bindings.push(imported === local ? local : `${key}: ${local}`);
+  });
+
+  const load = `${PREVIEW_IMPORT}(${JSON.stringify(source)})`;
+  return [
+    namespace ? `const ${namespace.local.name} = ${load};` : '',
+    bindings.length > 0 ? `const { ${bindings.join(', ')} } = ${load};` : ''
+  ].filter(Boolean).join(' ');
+};
+
+// Keys of nodes that only hold types
+const TYPE_KEYS = new Set(['typeAnnotation', 'returnType', 'typeParameters', 'superTypeParameters', 'implements']);
+
+/**
+ * Identifiers the module uses as values, including JSX tags - what imports must provide at runtime
+ */
+const collectValueNames = (program: t.Program): Set<string> => {
+  const names = new Set<string>();
+
+  const visit = (node: t.Node | null | undefined, parent?: t.Node, key?: string) => {
+    if (!node || typeof node.type !== 'string') return;
+    if (t.isTSInterfaceDeclaration(node) || t.isTSTypeAliasDeclaration(node) || t.isTSDeclareFunction(node) ||
+        t.isImportDeclaration(node)) {
+      return;
+    }
+    if (t.isIdentifier(node) || t.isJSXIdentifier(node)) {
+      const isPropertyKey = parent && !('computed' in parent && parent.computed) &&
+        ((t.isMemberExpression(parent) || t.isOptionalMemberExpression(parent) || t.isJSXMemberExpression(parent)) && key === 'property' ||
+          (t.isObjectProperty(parent) || t.isObjectMethod(parent) || t.isClassProperty(parent) || t.isClassMethod(parent)) && key === 'key');
+      if (!isPropertyKey && !t.isJSXAttribute(parent)) {
+        names.add(node.name);
+      }
+    }
+
+    Object.entries(node).forEach(([childKey, value]) => {
+      if (TYPE_KEYS.has(childKey) || childKey === 'loc' || childKey.endsWith('Comments')) return;
+      if (Array.isArray(value)) {
+        value.forEach(child => child && typeof child === 'object' && visit(child as t.Node, node, childKey));
+      } else if (value && typeof value === 'object') {
+        visit(value as t.Node, node, childKey);
+      }
+    });
+  };
+
+  visit(program);
+  return names;
+};
+
+const declaredNames = (declaration: t.Node): string[] => {
+  if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+    return [declaration.id.name];
+  }
+  if (t.isVariableDeclaration(declaration)) {
+    return declaration.declarations.flatMap(declarator => t.isIdentifier(declarator.id) ? [declarator.id.name] : []);
+  }
+  return [];
+};
+
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+
+/**
+ * A capitalized function, class or memo/forwardRef wrapper
+ */
+const isComponentDeclaration = (declaration: t.Node): boolean => {
+  const isCapitalized = (name: string) => /^[A-Z]/.test(name);
+
+  if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+    return isCapitalized(declaration.id.name);
+  }
+  if (!t.isVariableDeclaration(declaration)) return false;
+
+  return declaration.declarations.some(declarator => {
+    if (!t.isIdentifier(declarator.id) || !isCapitalized(declarator.id.name)) return false;
+    const init = t.isTSAsExpression(declarator.init) ? declarator.init.expression : declarator.init;
+    if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init) || t.isClassExpression(init)) return true;
+    if (!t.isCallExpression(init)) return false;
+
+    const callee = init.callee;
+    const calleeName = t.isIdentifier(callee)
+      ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property) ? callee.property.name : '';
+    return COMPONENT_WRAPPERS.has(calleeName);
+  });
+};
+
+/**
+ * Apply replacements back to front. Each keeps the line count of what it replaces,
+ * so positions in the transpiled code still match the editor.
+ */
+const applyEdits = (source: string, edits: Edit[]): string =>
+  [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((code, edit) => {
+      const lineBreaks = (source.slice(edit.start, edit.end).match(/\n/g) || []).length;
+      return code.slice(0, edit.start) + edit.text + '\n'.repeat(lineBreaks) + code.slice(edit.end);
+    }, source);
+
+const transpile = (code: string, source: string): string => {
+  try {
+    return transform(code, { transforms: ['typescript', 'jsx'], production: true }).code;
+  } catch (error) {
+    // Sucrase reports the position as "(line:column)" in the message
+    const message = errorMessage(error);
+    const match = message.match(/\((\d+):(\d+)\)/);
+    const line = match ? Number(match[1]) : 1;
+    const column = match ? Number(match[2]) + 1 : 1;
+    throw new PreviewModuleError([{
+      message: message.replace(/\s*\(\d+:\d+\)$/, ''),
+      line,
+      column,
+      endLine: line,
+      endColumn: column + 1
+    }], source);
+  }
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error && error.message ? error.message : String(error);
+
+const formatDiagnostics = (diagnostics: PreviewDiagnostic[], source: string): string => {
+  const lines = source.split('\n');
+  const shown = diagnostics.slice(0, MAX_DIAGNOSTICS_IN_MESSAGE).map(diagnostic => {
+    const text = lines[diagnostic.line - 1];
+    const gutter = `${diagnostic.line} | `;
+    const frame = text === undefined
+      ? ''
+      : `\n${gutter}${text}\n${' '.repeat(gutter.length + diagnostic.column - 1)}^`;
+    return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}${frame}`;
+  });
+  const more = diagnostics.length - shown.length;
+  return [...shown, more > 0 ? `...and ${more} more` : ''].filter(Boolean).join('\n\n');
+};
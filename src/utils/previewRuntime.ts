@@ -0,0 +1,299 @@
+import React from 'react';
+import * as MuiMaterial from '@mui/material';
+import * as MuiStyles from '@mui/material/styles';
+import * as MuiIcons from '@mui/icons-material';
+import * as ReactRouter from 'react-router';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  IconButton,
+  Avatar,
+  Chip,
+  TextField,
+  Grid,
+  Stack,
+  Paper,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemIcon,
+  ListItemButton,
+  Divider,
+  Switch,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  FormControl,
+  FormLabel,
+  Checkbox,
+  Select,
+  MenuItem,
+  InputLabel,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Skeleton,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Snackbar,
+  Tooltip,
+  Badge,
+  AppBar,
+  Toolbar,
+  Drawer,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Stepper,
+  Step,
+  StepLabel,
+  StepContent,
+  BottomNavigation,
+  BottomNavigationAction,
+  SpeedDial,
+  SpeedDialAction,
+  SpeedDialIcon,
+  Fab,
+  Pagination,
+  Rating,
+  Slider,
+  Breadcrumbs,
+  Link,
+  Menu,
+  MenuList,
+  Popover,
+  Popper
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  CheckCircle as CheckCircleIcon,
+  Close as CloseIcon,
+  Add as AddIcon,
+  Remove as RemoveIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon,
+  Home as HomeIcon,
+  Person as PersonIcon,
+  Settings as SettingsIcon,
+  Favorite as FavoriteIcon,
+  Share as ShareIcon,
+  Download as DownloadIcon,
+  Upload as UploadIcon,
+  Visibility as VisibilityIcon,
+  VisibilityOff as VisibilityOffIcon,
+  ThumbUp as ThumbUpIcon,
+  ThumbDown as ThumbDownIcon,
+  Star as StarIcon,
+  StarBorder as StarBorderIcon,
+  Menu as MenuIcon,
+  MoreVert as MoreVertIcon,
+  Refresh as RefreshIcon,
+  Save as SaveIcon,
+  Send as SendIcon,
+  Phone as PhoneIcon,
+  Email as EmailIcon,
+  LocationOn as LocationOnIcon,
+  Schedule as ScheduleIcon,
+  Event as EventIcon,
+  ShoppingCart as ShoppingCartIcon,
+  Payment as PaymentIcon,
+  CreditCard as CreditCardIcon,
+  AccountBalance as AccountBalanceIcon,
+  Security as SecurityIcon,
+  Lock as LockIcon,
+  LockOpen as LockOpenIcon,
+  Notifications as NotificationsIcon,
+  NotificationsOff as NotificationsOffIcon,
+  Dashboard as DashboardIcon,
+  Analytics as AnalyticsIcon,
+  TrendingUp as TrendingUpIcon,
+  TrendingDown as TrendingDownIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  KeyboardArrowUp as KeyboardArrowUpIcon,
+  KeyboardArrowDown as KeyboardArrowDownIcon,
+  KeyboardArrowLeft as KeyboardArrowLeftIcon,
+  KeyboardArrowRight as KeyboardArrowRightIcon
+} from '@mui/icons-material';
+import { ComponentLibraryProfile } from '../services/componentLibrary';
+import { PreviewModules } from './previewModule';
+
+// Available to generated code without importing it, as older generated code expects
+export const PREVIEW_GLOBALS: Record<string, unknown> = {
+  React,
+  useState: React.useState,
+  useEffect: React.useEffect,
+  useCallback: React.useCallback,
+  useMemo: React.useMemo,
+  useRef: React.useRef,
+  
+  // Material-UI Components
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  IconButton,
+  Avatar,
+  Chip,
+  TextField,
+  Grid,
+  Stack,
+  Paper,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemIcon,
+  ListItemButton,
+  Divider,
+  Switch,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  FormControl,
+  FormLabel,
+  Checkbox,
+  Select,
+  MenuItem,
+  InputLabel,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Skeleton,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Snackbar,
+  Tooltip,
+  Badge,
+  AppBar,
+  Toolbar,
+  Drawer,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Stepper,
+  Step,
+  StepLabel,
+  StepContent,
+  BottomNavigation,
+  BottomNavigationAction,
+  SpeedDial,
+  SpeedDialAction,
+  SpeedDialIcon,
+  Fab,
+  Pagination,
+  Rating,
+  Slider,
+  Breadcrumbs,
+  Link,
+  Menu,
+  MenuList,
+  Popover,
+  Popper,
+  
+  // Material-UI Icons
+  ArrowBackIcon,
+  CheckCircleIcon,
+  CloseIcon,
+  AddIcon,
+  RemoveIcon,
+  EditIcon,
+  DeleteIcon,
+  SearchIcon,
+  HomeIcon,
+  PersonIcon,
+  SettingsIcon,
+  FavoriteIcon,
+  ShareIcon,
+  DownloadIcon,
+  UploadIcon,
+  VisibilityIcon,
+  VisibilityOffIcon,
+  ThumbUpIcon,
+  ThumbDownIcon,
+  StarIcon,
+  StarBorderIcon,
+  MenuIcon,
+  MoreVertIcon,
+  RefreshIcon,
+  SaveIcon,
+  SendIcon,
+  PhoneIcon,
+  EmailIcon,
+  LocationOnIcon,
+  ScheduleIcon,
+  EventIcon,
+  ShoppingCartIcon,
+  PaymentIcon,
+  CreditCardIcon,
+  AccountBalanceIcon,
+  SecurityIcon,
+  LockIcon,
+  LockOpenIcon,
+  NotificationsIcon,
+  NotificationsOffIcon,
+  DashboardIcon,
+  AnalyticsIcon,
+  TrendingUpIcon,
+  TrendingDownIcon,
+  ExpandMoreIcon,
+  ExpandLessIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  KeyboardArrowUpIcon,
+  KeyboardArrowDownIcon,
+  KeyboardArrowLeftIcon,
+  KeyboardArrowRightIcon,
+};
+
+/**
+ * The modules generated code may import in the live preview: React, MUI, React Router (screens with
+ * prototype links navigate) and the component library's package
+ */
+export const previewRuntimeModules = (library?: ComponentLibraryProfile): PreviewModules => {
+  const modules: PreviewModules = {
+    react: { ...React, default: React },
+    '@mui/material': MuiMaterial,
+    '@mui/material/styles': MuiStyles,
+    '@mui/icons-material': MuiIcons,
+    'react-router': ReactRouter,
+    'react-router-dom': ReactRouter // v7 merged it into react-router; older code still imports it
+  };
+
+  const runtime = library?.runtime;
+  if (library && runtime) {
+    const paths = [library.packageName, ...library.components.map(component => component.importPath)];
+    paths.forEach(path => {
+      if (path && !modules[path]) {
+        modules[path] = runtime;
+      }
+    });
+  }
+  return modules;
+};
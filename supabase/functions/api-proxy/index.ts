@@ -0,0 +1,130 @@
+// Supabase Edge Function: authenticated proxy for Anthropic, OpenAI and Figma.
+// The browser never sees the provider secrets - they live in the function's environment:
+//
+//   supabase secrets set ANTHROPIC_API_KEY=... OPENAI_API_KEY=... FIGMA_TOKEN=...
+//   supabase functions deploy api-proxy
+//
+// Requests look like POST {SUPABASE_URL}/functions/v1/api-proxy/openai/v1/chat/completions
+// and must carry the signed-in user's Supabase access token as a Bearer token.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+interface ProxyTarget {
+  baseUrl: string;
+  allowedPaths: RegExp[];
+  authHeaders: () => Record<string, string>;
+  forwardHeaders: string[];
+}
+
+const TARGETS: Record<string, ProxyTarget> = {
+  anthropic: {
+    baseUrl: 'https://api.anthropic.com',
+    allowedPaths: [/^\/v1\/messages$/],
+    authHeaders: () => ({ 'x-api-key': requireSecret('ANTHROPIC_API_KEY') }),
+    forwardHeaders: ['content-type', 'anthropic-version', 'anthropic-beta']
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com',
+    allowedPaths: [/^\/v1\/chat\/completions$/],
+    authHeaders: () => ({ 'Authorization': `Bearer ${requireSecret('OPENAI_API_KEY')}` }),
+    forwardHeaders: ['content-type']
+  },
+  figma: {
+    baseUrl: 'https://api.figma.com',
+    allowedPaths: [/^\/v1\/(files|images)\//],
+    authHeaders: () => ({ 'X-Figma-Token': requireSecret('FIGMA_TOKEN') }),
+    forwardHeaders: []
+  }
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, anthropic-version, anthropic-beta',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after'
+};
+
+// Response headers worth passing back to the client (rate limiting, content type)
+const RESPONSE_HEADERS = ['content-type', 'retry-after'];
+
+function requireSecret(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured for the api-proxy function`);
+  }
+  return value;
+}
+
+function jsonError(status: number, message: string): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+  });
+}
+
+async function authenticate(req: Request): Promise<boolean> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const supabase = createClient(
+    requireSecret('SUPABASE_URL'),
+    requireSecret('SUPABASE_ANON_KEY'),
+    { global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  return !error && !!data.user;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  try {
+    if (!(await authenticate(req))) {
+      return jsonError(401, 'Not authenticated');
+    }
+
+    // Path after the function name: /api-proxy/{target}/{upstream path}
+    const url = new URL(req.url);
+    const match = url.pathname.match(/\/api-proxy\/([^/]+)(\/.*)$/);
+    if (!match) {
+      return jsonError(404, 'Unknown proxy route');
+    }
+
+    const [, targetName, upstreamPath] = match;
+    const target = TARGETS[targetName];
+    if (!target || !target.allowedPaths.some(pattern => pattern.test(upstreamPath))) {
+      return jsonError(404, `Route not allowed: ${targetName}${upstreamPath}`);
+    }
+
+    const headers: Record<string, string> = { ...target.authHeaders() };
+    target.forwardHeaders.forEach(name => {
+      const value = req.headers.get(name);
+      if (value) headers[name] = value;
+    });
+
+    const upstream = await fetch(`${target.baseUrl}${upstreamPath}${url.search}`, {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' ? undefined : await req.text()
+    });
+
+    const responseHeaders: Record<string, string> = { ...CORS_HEADERS };
+    RESPONSE_HEADERS.forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value) responseHeaders[name] = value;
+    });
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: responseHeaders
+    });
+  } catch (error) {
+    console.error('api-proxy error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Proxy error');
+  }
+});
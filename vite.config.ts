@@ -1,6 +1,16 @@
 import react from "@vitejs/plugin-react";
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vite";
 
 export default defineConfig({
   plugins: [react()],
+  build: {
+    rollupOptions: {
+      // The preview sandbox is a page of its own, loaded in an iframe
+      input: {
+        main: fileURLToPath(new URL("./index.html", import.meta.url)),
+        previewSandbox: fileURLToPath(new URL("./preview-sandbox.html", import.meta.url)),
+      },
+    },
+  },
 });